@@ -0,0 +1,87 @@
+import type { PrivacyReport } from '@/engine';
+import type { HistoryDepth } from '@/services/history';
+import { BUILT_IN_PROFILES, getBuiltInProfile } from '@/scoring/profile';
+
+/**
+ * Scan parameters shared by the blocking and streaming privacy-scan routes
+ */
+export interface ScanRequest {
+  address: string;
+  depth: HistoryDepth;
+  profile?: string | undefined;
+}
+
+interface RawScanParams {
+  address?: unknown;
+  limit?: unknown;
+  days?: unknown;
+  full?: unknown;
+  profile?: unknown;
+}
+
+/**
+ * Validate scan parameters from a JSON body or query string
+ * @returns The scan request, or an error message for a 400 response
+ */
+export function parseScanRequest(params: RawScanParams): { request: ScanRequest } | { error: string } {
+  const { address, limit, days, full, profile } = params;
+
+  if (!address || typeof address !== 'string') {
+    return { error: 'Missing or invalid wallet address' };
+  }
+
+  // Validate address format
+  const base58Regex = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+  if (!base58Regex.test(address)) {
+    return { error: 'Invalid Solana address format' };
+  }
+
+  // Only built-in profiles are selectable over HTTP - file paths stay server-side config
+  if (profile !== undefined && (typeof profile !== 'string' || !getBuiltInProfile(profile))) {
+    return { error: `Unknown scoring profile. Available: ${Object.keys(BUILT_IN_PROFILES).join(', ')}` };
+  }
+
+  const depth: HistoryDepth = {};
+  if (full === true) {
+    depth.fullHistory = true;
+  } else if (typeof days === 'number' && days > 0) {
+    depth.sinceTimestamp = Math.floor(Date.now() / 1000) - days * 86400;
+  } else if (typeof limit === 'number' && limit > 0) {
+    depth.maxTransactions = Math.floor(limit);
+  }
+
+  return { request: { address, depth, profile } };
+}
+
+/**
+ * Read scan parameters from a query string (`?address=...&limit=...&days=...&full=1&profile=...`)
+ */
+export function scanParamsFromQuery(searchParams: URLSearchParams): RawScanParams {
+  const number = (key: string) => (searchParams.has(key) ? Number(searchParams.get(key)) : undefined);
+  const full = searchParams.get('full');
+
+  return {
+    address: searchParams.get('address') ?? undefined,
+    limit: number('limit'),
+    days: number('days'),
+    full: full === '1' || full === 'true',
+    profile: searchParams.get('profile') ?? undefined,
+  };
+}
+
+/**
+ * Convert Dates to ISO strings for JSON serialization
+ */
+export function serializeReport(report: PrivacyReport) {
+  return {
+    ...report,
+    analyzedAt: report.analyzedAt.toISOString(),
+    detectorResults: {
+      ...report.detectorResults,
+      compliance: {
+        ...report.detectorResults.compliance,
+        checkedAt: report.detectorResults.compliance.checkedAt.toISOString(),
+      },
+    },
+  };
+}
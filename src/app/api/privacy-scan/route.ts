@@ -1,49 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeWallet } from '@/engine';
+import { parseScanRequest, serializeReport } from './request';
 
 /**
  * POST /api/privacy-scan
  * Analyzes a Solana wallet for privacy risks
+ * Optional body fields: `limit` (transactions), `days` (time window) or `full` (entire history),
+ * and `profile` (built-in scoring profile name)
+ * For live progress use GET /api/privacy-scan/stream instead
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { address } = body;
+    const parsed = parseScanRequest(body);
 
-    if (!address || typeof address !== 'string') {
-      return NextResponse.json(
-        { error: 'Missing or invalid wallet address' },
-        { status: 400 }
-      );
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
     }
 
-    // Validate address format
-    const base58Regex = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
-    if (!base58Regex.test(address)) {
-      return NextResponse.json(
-        { error: 'Invalid Solana address format' },
-        { status: 400 }
-      );
-    }
-
-    // Run the privacy analysis
-    const report = await analyzeWallet(address);
+    const { address, depth, profile } = parsed.request;
 
-    // Convert Date to ISO string for JSON serialization
-    const serializedReport = {
-      ...report,
-      analyzedAt: report.analyzedAt.toISOString(),
-      detectorResults: {
-        ...report.detectorResults,
-        compliance: {
-          ...report.detectorResults.compliance,
-          checkedAt: report.detectorResults.compliance.checkedAt.toISOString(),
-        },
-      },
-    };
+    // Run the privacy analysis - stops (and stops fetching) if the client disconnects
+    const report = await analyzeWallet(address, {
+      depth,
+      scoringProfile: profile,
+      signal: request.signal,
+    });
 
-    return NextResponse.json(serializedReport);
+    return NextResponse.json(serializeReport(report));
   } catch (error) {
+    if (request.signal.aborted) {
+      // Client went away - nobody is listening for a response
+      return new NextResponse(null, { status: 499 });
+    }
     console.error('Privacy scan error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Analysis failed' },
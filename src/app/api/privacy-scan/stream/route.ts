@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeWalletStream } from '@/engine';
+import type { AnalysisStreamEvent } from '@/engine';
+import { parseScanRequest, scanParamsFromQuery, serializeReport } from '../request';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/privacy-scan/stream?address=<wallet>
+ * Streams a privacy scan as Server-Sent Events
+ * Query params match the POST body: `limit`, `days`, `full=1` and `profile`
+ *
+ * Events (SSE `event:` is the progress event type, `data:` is its JSON):
+ * analysis-started, stage-started, stage-progress, stage-finished, findings,
+ * analysis-finished, then `report` with the full PrivacyReport.
+ * `scan-error` carries { error } if the scan could not run at all.
+ * Closing the connection cancels the scan.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseScanRequest(scanParamsFromQuery(request.nextUrl.searchParams));
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { address, depth, profile } = parsed.request;
+  const events = analyzeWalletStream(address, {
+    depth,
+    scoringProfile: profile,
+    signal: request.signal,
+  });
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await events.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(formatEvent(value)));
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error('Privacy scan stream error:', error);
+          const message = error instanceof Error ? error.message : 'Analysis failed';
+          controller.enqueue(encoder.encode(`event: scan-error\ndata: ${JSON.stringify({ error: message })}\n\n`));
+        }
+        controller.close();
+      }
+    },
+    async cancel() {
+      // Client disconnected - stop the scan and its fetches
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+function formatEvent(event: AnalysisStreamEvent): string {
+  const data = event.type === 'report'
+    ? { type: 'report', report: serializeReport(event.report) }
+    : event;
+  return `event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getScan, cancelScan } from '@/jobs/scans';
+import { serializeJob } from '../serialize';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/scans/{id}
+ * Returns the job's status, progress and - once completed - the report
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await getScan(id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Scan job not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(serializeJob(job));
+}
+
+/**
+ * DELETE /api/scans/{id}
+ * Cancels a queued or running job; finished jobs are returned unchanged
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const job = await cancelScan(id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Scan job not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(serializeJob(job));
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { submitScan } from '@/jobs/scans';
+import { parseScanRequest } from '../privacy-scan/request';
+import { serializeJob } from './serialize';
+
+/**
+ * POST /api/scans
+ * Queues a privacy scan as a background job and returns immediately with its id
+ * Body fields match POST /api/privacy-scan: `address`, `limit`, `days`, `full` and `profile`
+ * Poll GET /api/scans/{id} for progress and the report; DELETE it to cancel
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = parseScanRequest(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { address, depth, profile } = parsed.request;
+    const job = await submitScan({ walletAddress: address, depth, scoringProfile: profile });
+
+    return NextResponse.json(serializeJob(job), {
+      status: 202,
+      headers: { Location: `/api/scans/${job.id}` },
+    });
+  } catch (error) {
+    console.error('Scan job submit error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to queue scan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import type { ScanJob } from '@/jobs/store';
+import { serializeReport } from '../privacy-scan/request';
+
+/**
+ * Convert a scan job to its JSON response shape
+ */
+export function serializeJob(job: ScanJob) {
+  return {
+    ...job,
+    report: job.report ? serializeReport(job.report) : null,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() ?? null,
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+    links: { self: `/api/scans/${job.id}` },
+  };
+}
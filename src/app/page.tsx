@@ -1,8 +1,8 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Search, Loader2, AlertCircle, AlertTriangle, Info, ExternalLink, XCircle, Shield, TrendingDown, Activity, Wallet, Moon, Sun, ChevronDown, Network } from 'lucide-react';
-import type { PrivacyReport, ScanState, Warning, Recommendation, RiskLevel } from '@/components/privacy-audit/types';
+import type { PrivacyReport, ScanState, ScanJob, ScanProgress, StageProgress, Warning, Recommendation, RiskLevel, HistoryCoverage, ScoreDeduction, AnalysisStage } from '@/components/privacy-audit/types';
 import { IdentityGraph, AssetsAtRisk, PrivacyTicker, CypherTraining } from '@/components/privacy-audit';
 
 export default function PrivacyAuditPage() {
@@ -10,8 +10,12 @@ export default function PrivacyAuditPage() {
     status: 'idle',
     report: null,
     error: null,
+    progress: null,
   });
   const [address, setAddress] = useState('');
+  const [fullHistory, setFullHistory] = useState(false);
+  const scanStream = useRef<EventSource | null>(null);
+  const scanJob = useRef<{ id: string; timer: ReturnType<typeof setTimeout> | null } | null>(null);
   const [darkMode, setDarkMode] = useState(false);
   const [showGraph, setShowGraph] = useState(false);
   const [showTraining, setShowTraining] = useState(false);
@@ -26,35 +30,150 @@ export default function PrivacyAuditPage() {
     localStorage.setItem('darkMode', String(darkMode));
   }, [darkMode]);
 
-  const handleScan = async (e: React.FormEvent) => {
+  // Closing the stream cancels the scan server-side; a background job keeps running
+  useEffect(() => () => {
+    scanStream.current?.close();
+    if (scanJob.current?.timer) clearTimeout(scanJob.current.timer);
+  }, []);
+
+  const stopScan = () => {
+    scanStream.current?.close();
+    scanStream.current = null;
+    if (scanJob.current?.timer) clearTimeout(scanJob.current.timer);
+    scanJob.current = null;
+  };
+
+  const handleCancel = () => {
+    const jobId = scanJob.current?.id;
+    stopScan();
+    if (jobId) {
+      void fetch(`/api/scans/${jobId}`, { method: 'DELETE' });
+    }
+    setState({ status: 'idle', report: null, error: null, progress: null });
+  };
+
+  const handleScan = (e: React.FormEvent) => {
     e.preventDefault();
     if (!address.trim()) return;
-    
-    setState({ status: 'loading', report: null, error: null });
+
+    stopScan();
+    setState({ status: 'loading', report: null, error: null, progress: { stages: [], warnings: [] } });
+
+    if (fullHistory) {
+      void startJobScan(address.trim());
+    } else {
+      startStreamScan(address.trim());
+    }
+  };
+
+  // Full-history scans run as background jobs and are polled, so no connection is held open
+  const startJobScan = async (wallet: string) => {
+    const fail = (message: string) => {
+      stopScan();
+      setState({ status: 'error', report: null, error: message, progress: null });
+    };
 
     try {
-      const response = await fetch('/api/privacy-scan', {
+      const response = await fetch('/api/scans', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ address: address.trim() }),
+        body: JSON.stringify({ address: wallet, full: true }),
       });
-
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Analysis failed');
+        throw new Error(errorData.error || 'Failed to start scan');
       }
 
-      const report: PrivacyReport = await response.json();
-      setState({ status: 'success', report, error: null });
+      const submitted: ScanJob = await response.json();
+      const handle: { id: string; timer: ReturnType<typeof setTimeout> | null } = { id: submitted.id, timer: null };
+      scanJob.current = handle;
+
+      const poll = async () => {
+        if (scanJob.current !== handle) return;
+        try {
+          const pollResponse = await fetch(`/api/scans/${handle.id}`);
+          if (!pollResponse.ok) throw new Error('Scan job not found');
+          const job: ScanJob = await pollResponse.json();
+          if (scanJob.current !== handle) return;
+
+          if (job.status === 'completed' && job.report) {
+            stopScan();
+            setState({ status: 'success', report: job.report, error: null, progress: null });
+          } else if (job.status === 'failed' || job.status === 'cancelled') {
+            fail(job.error || `Scan ${job.status}`);
+          } else {
+            setState(prev => ({ ...prev, progress: jobProgress(job) }));
+            handle.timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+          }
+        } catch (error) {
+          fail(error instanceof Error ? error.message : 'Lost track of the scan');
+        }
+      };
+      await poll();
     } catch (error) {
-      setState({
-        status: 'error',
-        report: null,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-      });
+      fail(error instanceof Error ? error.message : 'Unknown error occurred');
     }
   };
 
+  const startStreamScan = (wallet: string) => {
+    const source = new EventSource(`/api/privacy-scan/stream?address=${encodeURIComponent(wallet)}`);
+    scanStream.current = source;
+    let finished = false;
+
+    const updateProgress = (update: (progress: ScanProgress) => ScanProgress) => {
+      setState(prev => (prev.progress ? { ...prev, progress: update(prev.progress) } : prev));
+    };
+    const updateStage = (id: string, patch: Partial<StageProgress>) => {
+      updateProgress(progress => ({
+        ...progress,
+        stages: progress.stages.map(stage => (stage.id === id ? { ...stage, ...patch } : stage)),
+      }));
+    };
+    const fail = (message: string) => {
+      finished = true;
+      source.close();
+      setState({ status: 'error', report: null, error: message, progress: null });
+    };
+
+    source.addEventListener('analysis-started', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      updateProgress(progress => ({
+        ...progress,
+        stages: data.stages.map((stage: { id: string; name: string }) => ({ ...stage, status: 'pending' })),
+      }));
+    });
+    source.addEventListener('stage-started', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      updateStage(data.stage.id, { status: 'running' });
+    });
+    source.addEventListener('stage-progress', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      updateStage(data.stage.id, { completed: data.completed, total: data.total });
+    });
+    source.addEventListener('stage-finished', (event) => {
+      const { stage } = JSON.parse((event as MessageEvent).data) as { stage: AnalysisStage };
+      updateStage(stage.id, { status: stage.status, count: stage.count, error: stage.error });
+    });
+    source.addEventListener('findings', (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as { warnings: Warning[] };
+      updateProgress(progress => ({ ...progress, warnings: [...progress.warnings, ...data.warnings] }));
+    });
+    source.addEventListener('report', (event) => {
+      const { report } = JSON.parse((event as MessageEvent).data) as { report: PrivacyReport };
+      finished = true;
+      source.close();
+      setState({ status: 'success', report, error: null, progress: null });
+    });
+    source.addEventListener('scan-error', (event) => {
+      const data = JSON.parse((event as MessageEvent).data);
+      fail(data.error || 'Analysis failed');
+    });
+    source.onerror = () => {
+      // EventSource reconnects on its own - a scan cannot resume, so stop here
+      if (!finished) fail('Lost connection to the scanner');
+    };
+  };
+
   // Theme classes - Premium glassmorphism for both modes
   const theme = {
     bg: darkMode ? 'dark-gradient-bg' : 'light-gradient-bg',
@@ -159,6 +278,16 @@ export default function PrivacyAuditPage() {
                 )}
               </button>
             </div>
+            <label className={`flex items-center justify-center gap-2 mt-3 text-xs ${theme.textSecondary} cursor-pointer select-none`}>
+              <input
+                type="checkbox"
+                checked={fullHistory}
+                onChange={(e) => setFullHistory(e.target.checked)}
+                disabled={state.status === 'loading'}
+                className="accent-current"
+              />
+              Full history (runs in the background - may take several minutes)
+            </label>
           </form>
 
           {/* Error State */}
@@ -174,6 +303,22 @@ export default function PrivacyAuditPage() {
         </div>
       </div>
 
+      {/* Live Progress */}
+      {state.status === 'loading' && state.progress && (
+        <div className="max-w-6xl mx-auto px-6 py-10">
+          <div className="grid grid-cols-1 md:grid-cols-12 gap-8">
+            <div className="md:col-span-4">
+              <ScanProgressCard progress={state.progress} onCancel={handleCancel} darkMode={darkMode} theme={theme} />
+            </div>
+            <div className="md:col-span-8">
+              {state.progress.warnings.length > 0 && (
+                <AuditList warnings={state.progress.warnings} darkMode={darkMode} theme={theme} />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Results Section - Bento Grid */}
       {state.report && (
         <div className="max-w-6xl mx-auto px-6 py-10">
@@ -221,8 +366,30 @@ export default function PrivacyAuditPage() {
             <span className={`px-3 py-1.5 rounded-full ${darkMode ? 'bg-white/[0.03]' : 'bg-slate-100'}`}>
               ⚡ {state.report.analysisMetadata.analysisTimeMs}ms
             </span>
-            <span className={`px-3 py-1.5 rounded-full ${darkMode ? 'bg-white/[0.03]' : 'bg-slate-100'} ${state.report.analysisMetadata.heliusEnabled ? (darkMode ? 'text-emerald-400' : 'text-emerald-600') : ''}`}>
-              {state.report.analysisMetadata.heliusEnabled ? '● Live Data' : '○ Demo Mode'}
+            <span className={`px-3 py-1.5 rounded-full ${darkMode ? 'bg-white/[0.03]' : 'bg-slate-100'}`}>
+              {formatCoverage(state.report.historyCoverage)}
+            </span>
+            {state.report.scoringProfile && (
+              <span className={`px-3 py-1.5 rounded-full font-mono ${darkMode ? 'bg-white/[0.03]' : 'bg-slate-100'}`}>
+                {state.report.scoringProfile.name}@{state.report.scoringProfile.version}
+              </span>
+            )}
+            {state.report.labelRegistry && (
+              <span
+                className={`px-3 py-1.5 rounded-full font-mono ${darkMode ? 'bg-white/[0.03]' : 'bg-slate-100'}`}
+                title={state.report.labelRegistry.sets.map(set => `${set.name}@${set.version}: ${set.count} labels`).join('\n')}
+              >
+                🏷️ {state.report.labelRegistry.version}
+              </span>
+            )}
+            <span className={`px-3 py-1.5 rounded-full ${darkMode ? 'bg-white/[0.03]' : 'bg-slate-100'} ${state.report.analysisMetadata.dataSource !== 'mock' ? (darkMode ? 'text-emerald-400' : 'text-emerald-600') : ''}`}>
+              {state.report.analysisMetadata.dataSource !== 'mock' ? `● Live Data (${state.report.analysisMetadata.dataSource})` : '○ Demo Mode'}
+            </span>
+            <span
+              className={`px-3 py-1.5 rounded-full ${darkMode ? 'bg-white/[0.03]' : 'bg-slate-100'} ${state.report.analysisMetadata.complianceSimulated ? (darkMode ? 'text-amber-400' : 'text-amber-600') : (darkMode ? 'text-emerald-400' : 'text-emerald-600')}`}
+              title={state.report.analysisMetadata.complianceSimulated ? 'Compliance results are simulated, not a real sanctions check' : undefined}
+            >
+              {state.report.analysisMetadata.complianceSimulated ? '○ Simulated Compliance' : `● Compliance (${state.report.analysisMetadata.complianceProvider})`}
             </span>
           </div>
         </div>
@@ -283,6 +450,7 @@ function ScoreCard({ report, darkMode, theme }: { report: PrivacyReport; darkMod
     MEDIUM: { stroke: '#f59e0b', fill: 'text-amber-500', text: 'text-amber-400', label: 'Moderate Exposure', glowDark: 'glow-amber', glowLight: 'glow-amber-light' },
     HIGH: { stroke: '#ef4444', fill: 'text-red-500', text: 'text-red-400', label: 'High Exposure', glowDark: 'glow-red', glowLight: 'glow-red-light' },
     CRITICAL: { stroke: '#dc2626', fill: 'text-red-600', text: 'text-red-500', label: 'Critical Exposure', glowDark: 'glow-red', glowLight: 'glow-red-light' },
+    UNKNOWN: { stroke: '#94a3b8', fill: 'text-slate-400', text: 'text-slate-400', label: 'Scan Incomplete', glowDark: '', glowLight: '' },
   };
 
   const config = riskConfig[report.riskLevel];
@@ -293,7 +461,7 @@ function ScoreCard({ report, darkMode, theme }: { report: PrivacyReport; darkMod
   const strokeWidth = 10;
   const radius = (size - strokeWidth) / 2;
   const circumference = 2 * Math.PI * radius;
-  const progress = (report.score / 100) * circumference;
+  const progress = ((report.score ?? 0) / 100) * circumference;
   const offset = circumference - progress;
 
   return (
@@ -332,9 +500,9 @@ function ScoreCard({ report, darkMode, theme }: { report: PrivacyReport; darkMod
           {/* Center content */}
           <div className="absolute inset-0 flex flex-col items-center justify-center">
             <span className={`text-4xl font-bold font-mono ${config.fill}`}>
-              {report.score}
+              {report.score ?? 'N/A'}
             </span>
-            <span className={`text-xs ${theme.textMuted}`}>/ 100</span>
+            {report.score !== null && <span className={`text-xs ${theme.textMuted}`}>/ 100</span>}
           </div>
         </div>
       </div>
@@ -352,6 +520,16 @@ function ScoreCard({ report, darkMode, theme }: { report: PrivacyReport; darkMod
         {report.riskDescription}
       </p>
 
+      {/* Failed or skipped stages */}
+      {report.status && report.status !== 'complete' && (
+        <StageNotice stages={report.stages} status={report.status} darkMode={darkMode} theme={theme} />
+      )}
+
+      {/* Score Breakdown */}
+      {report.score !== null && report.deductions?.length > 0 && (
+        <ScoreBreakdown deductions={report.deductions} warnings={report.warnings} score={report.score} darkMode={darkMode} theme={theme} />
+      )}
+
       {/* Stats Grid */}
       <div className={`grid grid-cols-3 gap-2 pt-4 border-t ${theme.divider}`}>
         <div className={`${theme.statBg} rounded-lg p-2.5 text-center`}>
@@ -374,6 +552,169 @@ function ScoreCard({ report, darkMode, theme }: { report: PrivacyReport; darkMod
   );
 }
 
+const JOB_POLL_INTERVAL_MS = 1500;
+
+/**
+ * Convert a polled job's progress into the same shape the stream builds
+ */
+function jobProgress(job: ScanJob): ScanProgress {
+  const { plannedStages, stages, currentStage, warnings } = job.progress;
+  return {
+    warnings,
+    stages: plannedStages.map((planned): StageProgress => {
+      const finished = stages.find(s => s.id === planned.id);
+      if (finished) {
+        return { ...planned, status: finished.status, count: finished.count, error: finished.error };
+      }
+      if (currentStage?.id === planned.id) {
+        return { ...planned, status: 'running', completed: currentStage.completed, total: currentStage.total };
+      }
+      return { ...planned, status: 'pending' };
+    }),
+  };
+}
+
+function ScanProgressCard({ progress, onCancel, darkMode, theme }: { progress: ScanProgress; onCancel: () => void; darkMode: boolean; theme: ThemeProps }) {
+  const done = progress.stages.filter(s => s.status !== 'pending' && s.status !== 'running').length;
+
+  return (
+    <div className={`${theme.cardBg} rounded-3xl border ${theme.cardBorder} p-6`}>
+      <div className="flex items-center justify-between mb-4">
+        <p className={`text-xs font-semibold uppercase tracking-wider ${theme.textMuted}`}>Scanning</p>
+        <span className={`text-xs font-mono ${theme.textMuted}`}>{done}/{progress.stages.length}</span>
+      </div>
+      <div className="space-y-2">
+        {progress.stages.map(stage => (
+          <div key={stage.id} className="flex items-center gap-2">
+            {stage.status === 'running' ? (
+              <Loader2 className={`w-3.5 h-3.5 animate-spin ${theme.textSecondary}`} />
+            ) : (
+              <span className={`w-3.5 text-center text-xs ${
+                stage.status === 'completed' ? 'text-emerald-500' : stage.status === 'failed' ? 'text-red-500' : theme.textMuted
+              }`}>
+                {stage.status === 'completed' ? '✓' : stage.status === 'failed' ? '✗' : stage.status === 'skipped' ? '–' : '·'}
+              </span>
+            )}
+            <span className={`text-sm ${stage.status === 'pending' ? theme.textMuted : theme.textPrimary}`}>{stage.name}</span>
+            <span className={`ml-auto text-[11px] font-mono ${theme.textMuted}`}>
+              {stage.status === 'running' && stage.completed !== undefined
+                ? `${stage.completed}${stage.total !== undefined ? `/${stage.total}` : ''}`
+                : stage.count !== undefined ? stage.count : ''}
+            </span>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={onCancel}
+        className={`mt-5 w-full px-4 py-2 rounded-xl text-xs font-semibold border transition-all duration-300 ${darkMode
+          ? 'border-white/10 text-white/60 hover:bg-white/5'
+          : 'border-black/10 text-slate-600 hover:bg-black/5'}`}
+      >
+        Cancel scan
+      </button>
+    </div>
+  );
+}
+
+function StageNotice({ stages, status, darkMode, theme }: { stages: AnalysisStage[]; status: PrivacyReport['status']; darkMode: boolean; theme: ThemeProps }) {
+  const incomplete = stages.filter(s => s.status !== 'completed');
+
+  return (
+    <div className={`mb-6 rounded-xl border p-3 ${darkMode ? 'border-amber-500/20 bg-amber-500/5' : 'border-amber-200 bg-amber-50'}`}>
+      <p className={`text-xs font-semibold uppercase tracking-wider mb-2 ${darkMode ? 'text-amber-400' : 'text-amber-700'}`}>
+        {status === 'failed' ? 'Scan failed' : 'Partial results'}
+      </p>
+      <div className="space-y-1">
+        {incomplete.map(stage => (
+          <p key={stage.id} className={`text-[11px] ${theme.textSecondary} leading-snug`}>
+            <span className="font-medium">{stage.name}</span> {stage.status}{stage.error ? `: ${stage.error}` : ''}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ScoreBreakdown({ deductions, warnings, score, darkMode, theme }: { deductions: ScoreDeduction[]; warnings: Warning[]; score: number; darkMode: boolean; theme: ThemeProps }) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  let running = 100;
+
+  return (
+    <div className={`mb-6 pt-4 border-t ${theme.divider}`}>
+      <p className={`text-xs font-semibold uppercase tracking-wider ${theme.textMuted} mb-3`}>
+        Score Breakdown
+      </p>
+      <div className="space-y-1.5">
+        <WaterfallRow label="Starting score" start={100} end={100} value="100" darkMode={darkMode} theme={theme} />
+        {deductions.map((d) => {
+          const start = Math.max(0, running);
+          running -= d.points;
+          const end = Math.max(0, running);
+          const isExpanded = expandedId === d.id;
+          const linkedWarnings = warnings.filter(w => d.warningIds.includes(w.id));
+
+          return (
+            <div key={d.id}>
+              <button type="button" className="w-full text-left" onClick={() => setExpandedId(isExpanded ? null : d.id)}>
+                <WaterfallRow label={d.reason} start={start} end={end} value={`-${d.points}`} negative darkMode={darkMode} theme={theme} />
+              </button>
+              {isExpanded && (
+                <div className={`mt-1 mb-2 ml-2 pl-3 border-l ${theme.divider} space-y-1`}>
+                  {linkedWarnings.map(w => (
+                    <p key={w.id} className={`text-[11px] ${theme.textSecondary} leading-snug`}>{w.message}</p>
+                  ))}
+                  {d.signatures.slice(0, 5).map(sig => (
+                    <a
+                      key={sig}
+                      href={`https://solscan.io/tx/${sig}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={`flex items-center gap-1 text-[11px] font-mono ${theme.textMuted} hover:underline truncate`}
+                    >
+                      {sig.slice(0, 16)}...
+                      <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                    </a>
+                  ))}
+                  {d.signatures.length > 5 && (
+                    <p className={`text-[11px] ${theme.textMuted}`}>+{d.signatures.length - 5} more transactions</p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <WaterfallRow label="Final score" start={0} end={score} value={String(score)} darkMode={darkMode} theme={theme} />
+      </div>
+    </div>
+  );
+}
+
+function WaterfallRow({ label, start, end, value, negative = false, darkMode, theme }: { label: string; start: number; end: number; value: string; negative?: boolean; darkMode: boolean; theme: ThemeProps }) {
+  const left = Math.min(start, end);
+  const width = Math.max(Math.abs(start - end), 1);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className={`text-[11px] ${theme.textSecondary} w-28 truncate`} title={label}>{label}</span>
+      <div className={`relative flex-1 h-2 rounded-full ${darkMode ? 'bg-white/[0.04]' : 'bg-slate-100'}`}>
+        <div
+          className={`absolute top-0 h-2 rounded-full ${negative ? 'bg-red-500/70' : darkMode ? 'bg-white/60' : 'bg-slate-700'}`}
+          style={{ left: `${left}%`, width: `${width}%` }}
+        />
+      </div>
+      <span className={`text-[11px] font-mono w-8 text-right ${negative ? 'text-red-500' : theme.textPrimary}`}>{value}</span>
+    </div>
+  );
+}
+
+function formatCoverage(coverage: HistoryCoverage | undefined): string {
+  if (!coverage || coverage.oldestTimestamp === null) return '○ No history';
+  const since = new Date(coverage.oldestTimestamp * 1000).toLocaleDateString();
+  if (coverage.reachedStart) return `● Full history since ${since}`;
+  return coverage.truncated ? `◐ Partial history since ${since}` : `◐ History since ${since}`;
+}
+
 function getEducationalContent(issue: string, category: string): string {
   const issueText = `${issue} ${category}`.toLowerCase();
   
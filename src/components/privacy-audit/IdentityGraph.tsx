@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { X, Shield, Building2, Users, Fingerprint, Wallet, AlertTriangle } from 'lucide-react';
+import { X, Shield, Building2, Users, Fingerprint, Wallet, AlertTriangle, Globe } from 'lucide-react';
 import type { PrivacyReport } from './types';
 
 /**
@@ -18,14 +18,14 @@ interface IdentityGraphProps {
 
 interface GraphNode {
   id: string;
-  type: 'user' | 'cex' | 'cluster' | 'identity' | 'unknown';
+  type: 'user' | 'cex' | 'cluster' | 'identity' | 'foreign' | 'unknown';
   label: string;
   subLabel?: string;
   x: number;
   y: number;
   size: number;
   color: string;
-  icon: 'shield' | 'building' | 'users' | 'fingerprint' | 'wallet' | 'alert';
+  icon: 'shield' | 'building' | 'users' | 'fingerprint' | 'globe' | 'wallet' | 'alert';
   riskLevel: 'safe' | 'warning' | 'danger';
 }
 
@@ -35,7 +35,9 @@ function createNodes(report: PrivacyReport): GraphNode[] {
   const centerX = 50;
   const centerY = 50;
   
-  const userColor = report.score >= 70 ? '#10b981' : report.score >= 40 ? '#f59e0b' : '#ef4444';
+  // No score (failed scan) is shown neutral, not as danger
+  const score = report.score;
+  const userColor = score === null ? '#94a3b8' : score >= 70 ? '#10b981' : score >= 40 ? '#f59e0b' : '#ef4444';
   
   nodes.push({
     id: 'user',
@@ -47,7 +49,7 @@ function createNodes(report: PrivacyReport): GraphNode[] {
     size: 60,
     color: userColor,
     icon: 'shield',
-    riskLevel: report.score >= 70 ? 'safe' : report.score >= 40 ? 'warning' : 'danger',
+    riskLevel: score === null ? 'warning' : score >= 70 ? 'safe' : score >= 40 ? 'warning' : 'danger',
   });
   
   let angle = 0;
@@ -89,7 +91,25 @@ function createNodes(report: PrivacyReport): GraphNode[] {
     }
   }
   
-  if (report.detectorResults.clustering.detected) {
+  // Wallets other detectors tied to this one are shown by address
+  const linkedWallets = report.detectorResults.clustering.linkedWallets ?? [];
+  if (linkedWallets.length > 0) {
+    linkedWallets.slice(0, 3).forEach((linked, i) => {
+      nodes.push({
+        id: `linked-${linked.address}`,
+        type: 'cluster',
+        label: `${linked.address.slice(0, 4)}...${linked.address.slice(-4)}`,
+        subLabel: linked.reason === 'fee_payer' ? 'Shared fee payer' : 'Linked wallet',
+        x: centerX + Math.cos((angle + i * 15) * Math.PI / 180) * (radius * 0.8),
+        y: centerY + Math.sin((angle + i * 15) * Math.PI / 180) * (radius * 0.8),
+        size: 35,
+        color: '#8b5cf6',
+        icon: 'users',
+        riskLevel: 'danger',
+      });
+    });
+    angle += angleStep;
+  } else if (report.detectorResults.clustering.detected) {
     for (let i = 0; i < 3; i++) {
       nodes.push({
         id: `cluster-${i}`,
@@ -123,6 +143,26 @@ function createNodes(report: PrivacyReport): GraphNode[] {
     angle += angleStep;
   }
   
+  // Addresses on other chains a bridge transfer tied to this wallet
+  const foreignAddresses = report.detectorResults.bridge?.foreignAddresses ?? [];
+  if (foreignAddresses.length > 0) {
+    foreignAddresses.slice(0, 3).forEach((linked, i) => {
+      nodes.push({
+        id: `foreign-${linked.chain}-${linked.address}`,
+        type: 'foreign',
+        label: `${linked.address.slice(0, 6)}...${linked.address.slice(-4)}`,
+        subLabel: `${linked.chain} via ${linked.bridges.join(', ')}`,
+        x: centerX + Math.cos((angle + i * 15) * Math.PI / 180) * radius,
+        y: centerY + Math.sin((angle + i * 15) * Math.PI / 180) * radius,
+        size: 40,
+        color: '#14b8a6',
+        icon: 'globe',
+        riskLevel: 'danger',
+      });
+    });
+    angle += angleStep;
+  }
+  
   // Unknown wallets
   for (let i = 0; i < 2; i++) {
     nodes.push({
@@ -149,6 +189,7 @@ function getIcon(icon: GraphNode['icon'], color: string) {
     case 'building': return <Building2 {...props} />;
     case 'users': return <Users {...props} />;
     case 'fingerprint': return <Fingerprint {...props} />;
+    case 'globe': return <Globe {...props} />;
     case 'wallet': return <Wallet {...props} />;
     case 'alert': return <AlertTriangle {...props} />;
   }
@@ -378,6 +419,7 @@ export function IdentityGraph({ report, isOpen, onClose, darkMode }: IdentityGra
             { color: '#0052ff', label: 'Coinbase' },
             { color: '#8b5cf6', label: 'Cluster' },
             { color: '#ec4899', label: 'Identity' },
+            { color: '#14b8a6', label: 'Cross-chain' },
             { color: '#6b7280', label: 'Unknown' },
           ].map(item => (
             <div key={item.label} className="flex items-center gap-2">
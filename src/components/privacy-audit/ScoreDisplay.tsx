@@ -36,6 +36,11 @@ const riskStyles: Record<RiskLevel, { bg: string; text: string; ring: string }>
     text: 'text-red-800',
     ring: 'ring-red-300',
   },
+  UNKNOWN: {
+    bg: 'bg-slate-50',
+    text: 'text-slate-600',
+    ring: 'ring-slate-200',
+  },
 };
 
 function getScoreColor(score: number): string {
@@ -3,14 +3,35 @@
  * Matches the backend PrivacyReport structure
  */
 
-export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' | 'UNKNOWN';
+
+export type ReportStatus = 'complete' | 'degraded' | 'failed';
+
+export interface AnalysisStage {
+  id: string;
+  name: string;
+  status: 'completed' | 'failed' | 'skipped';
+  error?: string;
+  count?: number;
+  durationMs: number;
+}
 
 export interface Warning {
+  id: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
   category: string;
   message: string;
 }
 
+export interface ScoreDeduction {
+  id: string;
+  category: string;
+  reason: string;
+  points: number;
+  warningIds: string[];
+  signatures: string[];
+}
+
 export interface Recommendation {
   priority: 'low' | 'medium' | 'high';
   category: string;
@@ -41,6 +62,8 @@ export interface ClusteringResult {
   clusteringPercentage: number;
   pattern: string;
   riskContribution: number;
+  flows?: Array<{ pattern: string; counterpartyCount: number; solVolume: number; signatures: string[] }>;
+  linkedWallets?: Array<{ address: string; reason: string; signatures: string[] }>;
 }
 
 export interface AssetsDetectionResult {
@@ -52,34 +75,69 @@ export interface AssetsDetectionResult {
   riskContribution: number;
 }
 
+export interface BridgeResult {
+  detected: boolean;
+  foreignAddresses: Array<{ address: string; chain: string; bridges: string[]; transfers: number; signatures: string[] }>;
+  bridgesUsed: string[];
+  chains: string[];
+  riskContribution: number;
+}
+
 export interface RangeCheckResult {
   address: string;
   status: 'Clean' | 'Sanctioned' | 'Flagged' | 'Unknown';
   riskScore: number;
+  provider: string;
+  simulated: boolean;
+}
+
+export interface HistoryCoverage {
+  mode: 'count' | 'time_window' | 'full';
+  transactionsFetched: number;
+  pagesFetched: number;
+  newestTimestamp: number | null;
+  oldestTimestamp: number | null;
+  oldestSignature: string | null;
+  reachedStart: boolean;
+  truncated: boolean;
+  simulated?: boolean; // Demo data; absent in reports from before the flag
 }
 
 export interface PrivacyReport {
   walletAddress: string;
   analyzedAt: string;
   transactionsAnalyzed: number;
-  score: number;
+  historyCoverage: HistoryCoverage;
+  status: ReportStatus;
+  stages: AnalysisStage[];
+  score: number | null;
   riskLevel: RiskLevel;
   riskDescription: string;
+  deductions: ScoreDeduction[];
+  scoringProfile: { name: string; version: string };
+  labelRegistry: { version: string; sets: { name: string; version: string; count: number; source: string }[] };
   warnings: Warning[];
   actions: Recommendation[];
   detectorResults: {
     cex: CEXDetectionResult;
     clustering: ClusteringResult;
     assets: AssetsDetectionResult;
+    bridge?: BridgeResult; // Absent in reports from before the bridge detector
     compliance: RangeCheckResult;
     interactingAddressRisks: {
       sanctionedAddresses: string[];
       flaggedAddresses: string[];
       totalChecked: number;
+      failedLookups?: number; // Absent in reports from before it was tracked
+      unscreened: number;
     };
+    [detectorId: string]: unknown; // Results of plugin detectors
   };
   analysisMetadata: {
     heliusEnabled: boolean;
+    dataSource: string;
+    complianceProvider: string;
+    complianceSimulated: boolean;
     apiLimitReached: boolean;
     analysisTimeMs: number;
   };
@@ -90,8 +148,39 @@ export interface PrivacyReport {
   };
 }
 
+// Live state of a streaming scan, built from /api/privacy-scan/stream events
+export interface StageProgress {
+  id: string;
+  name: string;
+  status: 'pending' | 'running' | AnalysisStage['status'];
+  count?: number;
+  completed?: number; // Items processed so far while running
+  total?: number;
+  error?: string;
+}
+
+export interface ScanProgress {
+  stages: StageProgress[];
+  warnings: Warning[]; // Detector findings received so far
+}
+
+// Response of /api/scans/{id}
+export interface ScanJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  progress: {
+    plannedStages: { id: string; name: string }[];
+    stages: AnalysisStage[];
+    currentStage: { id: string; name: string; completed?: number; total?: number } | null;
+    warnings: Warning[];
+  };
+  report: PrivacyReport | null;
+  error: string | null;
+}
+
 export interface ScanState {
   status: 'idle' | 'loading' | 'success' | 'error';
   report: PrivacyReport | null;
   error: string | null;
+  progress: ScanProgress | null;
 }
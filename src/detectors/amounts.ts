@@ -0,0 +1,275 @@
+/**
+ * Amount Correlation Detector - Links transfers through their amounts
+ * Withdrawing 12.3456 SOL and sending on nearly the same amount minutes later ties both
+ * transfers together, and a precise, non-round amount is a fingerprint on its own.
+ */
+
+import type { ParsedTransaction } from "../services/helius";
+import { getLabelRegistry } from "../labels/registry";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { shortenAddress } from "../utils/format";
+import { log } from "../utils/logger";
+
+// How many other transfers are likely to share an amount, judged by its significant digits
+export type AnonymitySet = "large" | "medium" | "small";
+
+export interface AmountFingerprint {
+  asset: string;           // "SOL" or a token mint
+  amount: number;
+  direction: "in" | "out";
+  counterparty: string;
+  decimals: number;        // Decimal places after trailing zeros are dropped
+  significantDigits: number;
+  anonymitySet: AnonymitySet;
+  signature: string;
+  timestamp: number;
+}
+
+export interface AmountPair {
+  asset: string;
+  amountIn: number;
+  amountOut: number;
+  difference: number;      // amountIn - amountOut, what fees or rounding took
+  delaySeconds: number;
+  from: string;            // Sender of the inflow
+  to: string;              // Recipient of the outflow
+  fromLabel?: string | undefined;
+  toLabel?: string | undefined;
+  anonymitySet: AnonymitySet;
+  signatures: [string, string]; // Inflow, outflow
+}
+
+export interface AmountCorrelationResult {
+  detected: boolean;
+  pairs: AmountPair[];               // Earliest first
+  fingerprints: AmountFingerprint[]; // Precise or rare amounts, rarest first
+  transfersAnalyzed: number;
+  riskContribution: number;
+}
+
+// A transfer into or out of the wallet
+interface Movement {
+  asset: string;
+  amount: number;
+  direction: "in" | "out";
+  counterparty: string;
+  timestamp: number;
+  signature: string;
+}
+
+const SOL = "SOL";
+
+/**
+ * No matching pairs, and no fingerprint amounts
+ */
+export function emptyAmountCorrelationResult(): AmountCorrelationResult {
+  return {
+    detected: false,
+    pairs: [],
+    fingerprints: [],
+    transfersAnalyzed: 0,
+    riskContribution: 0,
+  };
+}
+
+/**
+ * Find matching in/out amounts and fingerprinting amounts in a wallet's transfers
+ * @param transactions - Parsed transaction history
+ * @param walletAddress - The wallet being analyzed
+ * @param weights - Penalty weights from the active scoring profile
+ * @returns AmountCorrelationResult with paired transfers and fingerprint amounts
+ */
+export function detectAmountCorrelation(
+  transactions: ParsedTransaction[],
+  walletAddress: string,
+  weights: ScoringProfile["amounts"] = DEFAULT_PROFILE.amounts
+): AmountCorrelationResult {
+  const movements = collectMovements(transactions, walletAddress);
+  const pairs = matchPairs(movements);
+
+  const fingerprints = movements
+    .map(toFingerprint)
+    .filter(f => f.decimals >= ANALYSIS_CONFIG.AMOUNT_PRECISE_DECIMALS || f.anonymitySet === "small")
+    .sort((a, b) => b.significantDigits - a.significantDigits || b.decimals - a.decimals);
+
+  const scoredPairs = pairs.filter(p => p.anonymitySet !== "large").length;
+  const rareAmounts = fingerprints.filter(f => f.anonymitySet === "small").length;
+  const riskContribution = Math.min(
+    weights.cap,
+    scoredPairs * weights.pairPoints + rareAmounts * weights.fingerprintPoints
+  );
+
+  if (pairs.length > 0 || fingerprints.length > 0) {
+    log.info(`⚠️  Amount correlation: ${pairs.length} matching in/out pair(s), ${fingerprints.length} fingerprint amount(s)`);
+  }
+
+  return {
+    detected: scoredPairs > 0 || rareAmounts > 0,
+    pairs,
+    fingerprints,
+    transfersAnalyzed: movements.length,
+    riskContribution,
+  };
+}
+
+/**
+ * SOL and token transfers into and out of the wallet, oldest first
+ * SOL amounts below AMOUNT_MIN_SOL are rent, fees and dust - too common to mean anything.
+ */
+function collectMovements(transactions: ParsedTransaction[], walletAddress: string): Movement[] {
+  const movements: Movement[] = [];
+
+  const add = (asset: string, amount: number, from: string, to: string, tx: ParsedTransaction) => {
+    if (!(amount > 0) || from === to) return;
+    if (from === walletAddress && to) {
+      movements.push({ asset, amount, direction: "out", counterparty: to, timestamp: tx.timestamp, signature: tx.signature });
+    } else if (to === walletAddress && from) {
+      movements.push({ asset, amount, direction: "in", counterparty: from, timestamp: tx.timestamp, signature: tx.signature });
+    }
+  };
+
+  for (const tx of transactions) {
+    for (const transfer of tx.nativeTransfers ?? []) {
+      const sol = transfer.amount / 1e9; // Convert lamports to SOL
+      if (sol < ANALYSIS_CONFIG.AMOUNT_MIN_SOL) continue;
+      add(SOL, sol, transfer.fromUserAccount, transfer.toUserAccount, tx);
+    }
+    for (const transfer of tx.tokenTransfers ?? []) {
+      add(transfer.mint, transfer.tokenAmount, transfer.fromUserAccount, transfer.toUserAccount, tx);
+    }
+  }
+
+  return movements.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Pair each inflow with the first later outflow of nearly the same amount
+ * An outflow may be smaller than its inflow by fees (AMOUNT_MATCH_FEE_SOL for SOL) or
+ * AMOUNT_MATCH_TOLERANCE, and is paired at most once.
+ */
+function matchPairs(movements: Movement[]): AmountPair[] {
+  const registry = getLabelRegistry();
+  const used = new Set<Movement>();
+  const pairs: AmountPair[] = [];
+
+  for (const inflow of movements) {
+    if (inflow.direction !== "in") continue;
+    const allowance = Math.max(
+      inflow.amount * ANALYSIS_CONFIG.AMOUNT_MATCH_TOLERANCE,
+      inflow.asset === SOL ? ANALYSIS_CONFIG.AMOUNT_MATCH_FEE_SOL : 0
+    );
+
+    const outflow = movements.find(m =>
+      m.direction === "out" &&
+      !used.has(m) &&
+      m.asset === inflow.asset &&
+      m.counterparty !== inflow.counterparty &&
+      m.timestamp >= inflow.timestamp &&
+      m.timestamp - inflow.timestamp <= ANALYSIS_CONFIG.AMOUNT_MATCH_WINDOW_SECONDS &&
+      m.amount <= inflow.amount &&
+      inflow.amount - m.amount <= allowance
+    );
+    if (!outflow) continue;
+    used.add(outflow);
+
+    pairs.push({
+      asset: inflow.asset,
+      amountIn: inflow.amount,
+      amountOut: outflow.amount,
+      difference: inflow.amount - outflow.amount,
+      delaySeconds: outflow.timestamp - inflow.timestamp,
+      from: inflow.counterparty,
+      to: outflow.counterparty,
+      fromLabel: registry.get(inflow.counterparty)?.entity,
+      toLabel: registry.get(outflow.counterparty)?.entity,
+      anonymitySet: toFingerprint(inflow).anonymitySet,
+      signatures: [inflow.signature, outflow.signature],
+    });
+  }
+
+  return pairs;
+}
+
+function toFingerprint(movement: Movement): AmountFingerprint {
+  const { decimals, significantDigits } = amountDigits(movement.amount);
+  return {
+    asset: movement.asset,
+    amount: movement.amount,
+    direction: movement.direction,
+    counterparty: movement.counterparty,
+    decimals,
+    significantDigits,
+    anonymitySet: significantDigits >= ANALYSIS_CONFIG.AMOUNT_SMALL_SET_DIGITS
+      ? "small"
+      : significantDigits >= ANALYSIS_CONFIG.AMOUNT_MEDIUM_SET_DIGITS ? "medium" : "large",
+    signature: movement.signature,
+    timestamp: movement.timestamp,
+  };
+}
+
+/**
+ * Decimal places and significant digits of an amount, to 9 decimals (lamport precision)
+ * 1.5 → 1 decimal, 2 digits; 12.3456 → 4 decimals, 6 digits; 1000 → 0 decimals, 1 digit
+ */
+function amountDigits(amount: number): { decimals: number; significantDigits: number } {
+  const [whole = "", fraction = ""] = amount.toFixed(9).split(".");
+  const trimmedFraction = fraction.replace(/0+$/, "");
+  const digits = (whole.replace(/^0+/, "") + trimmedFraction).replace(/^0+/, "").replace(/0+$/, "");
+  return { decimals: trimmedFraction.length, significantDigits: Math.max(1, digits.length) };
+}
+
+/**
+ * Generate warnings based on amount correlation results
+ * @param result - Amount correlation result
+ * @returns Array of warning messages
+ */
+export function generateAmountWarnings(result: AmountCorrelationResult): string[] {
+  const warnings: string[] = [];
+
+  for (const pair of result.pairs.filter(p => p.anonymitySet !== "large").slice(0, 5)) {
+    warnings.push(
+      `Received ${formatAmount(pair.amountIn, pair.asset)} from ${pair.fromLabel ?? shortenAddress(pair.from)} and sent ` +
+        `${formatAmount(pair.amountOut, pair.asset)} to ${pair.toLabel ?? shortenAddress(pair.to)} ${formatDelay(pair.delaySeconds)} later - ` +
+        `matching amounts link both transfers.`
+    );
+  }
+
+  const rare = result.fingerprints.filter(f => f.anonymitySet === "small");
+  const example = rare[0];
+  if (example) {
+    warnings.push(
+      `${rare.length} transfer(s) use amounts precise enough to be unique (e.g. ${formatAmount(example.amount, example.asset)}), ` +
+        `which act as fingerprints across wallets.`
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Generate action recommendations based on amount correlation results
+ * @param result - Amount correlation result
+ * @returns Array of recommended actions
+ */
+export function generateAmountActions(result: AmountCorrelationResult): string[] {
+  const actions: string[] = [];
+  if (result.pairs.some(p => p.anonymitySet !== "large")) {
+    actions.push("Don't forward what you receive as one amount - split it, change it, and wait before sending it on.");
+  }
+  if (result.fingerprints.some(f => f.anonymitySet === "small")) {
+    actions.push("Send round amounts (1, 5, 10 SOL) so your transfers blend in with everyone else's.");
+  }
+  return actions;
+}
+
+function formatAmount(amount: number, asset: string): string {
+  return asset === SOL ? `${amount} SOL` : `${amount} ${shortenAddress(asset)}`;
+}
+
+function formatDelay(seconds: number): string {
+  if (seconds < 120) return `${seconds}s`;
+  if (seconds < 7200) return `${Math.round(seconds / 60)} min`;
+  return `${Math.round(seconds / 3600)} h`;
+}
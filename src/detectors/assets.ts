@@ -4,7 +4,9 @@
  */
 
 import type { ParsedTransaction } from "../services/helius";
-import { POINT_DEDUCTIONS } from "../utils/constants";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { log } from "../utils/logger";
 
 export interface AssetsDetectionResult {
   detected: boolean;
@@ -21,6 +23,7 @@ export interface NFTAsset {
   name?: string | undefined;
   collection?: string | undefined;
   receivedTimestamp?: number | undefined;
+  signature?: string | undefined; // Transaction that delivered the asset
 }
 
 // Known POAP and event NFT collections/programs
@@ -44,147 +47,141 @@ const BONFIDA_PROGRAM_ID = "jCebN34bUfdeUYJT13J1yG16XWQpt5PDx6Mse9GUqhR";
  * Detect identity-revealing assets in wallet
  * @param transactions - Parsed transaction history
  * @param walletAddress - The wallet being analyzed
+ * @param weights - Penalty weights from the active scoring profile
  * @returns AssetsDetectionResult with all found identity-revealing assets
  */
 export function detectIdentityAssets(
   transactions: ParsedTransaction[],
-  walletAddress: string
+  walletAddress: string,
+  weights: ScoringProfile["assets"] = DEFAULT_PROFILE.assets
 ): AssetsDetectionResult {
   const nftsDetected: NFTAsset[] = [];
   const solDomainsDetected: string[] = [];
   const poapsDetected: NFTAsset[] = [];
 
-  try {
-    for (const tx of transactions) {
-      // Check for NFT events
-      if (tx.events?.nft) {
-        const nftEvent = tx.events.nft;
+  for (const tx of transactions) {
+    // Check for NFT events
+    if (tx.events?.nft) {
+      const nftEvent = tx.events.nft;
+      
+      // Check if wallet received an NFT
+      if (nftEvent.buyer === walletAddress || 
+          tx.description?.toLowerCase().includes("received")) {
         
-        // Check if wallet received an NFT
-        if (nftEvent.buyer === walletAddress || 
-            tx.description?.toLowerCase().includes("received")) {
+        for (const nft of nftEvent.nfts || []) {
+          const isPOAP = isPOAPorBadge(tx.description || "");
           
-          for (const nft of nftEvent.nfts || []) {
-            const isPOAP = isPOAPorBadge(tx.description || "");
-            
-            if (isPOAP) {
-              poapsDetected.push({
-                mint: nft.mint,
-                type: "poap",
-                name: extractNFTName(tx.description),
-                receivedTimestamp: tx.timestamp,
-              });
-            } else {
-              nftsDetected.push({
-                mint: nft.mint,
-                type: "nft",
-                name: extractNFTName(tx.description),
-                receivedTimestamp: tx.timestamp,
-              });
-            }
+          if (isPOAP) {
+            poapsDetected.push({
+              mint: nft.mint,
+              type: "poap",
+              name: extractNFTName(tx.description),
+              receivedTimestamp: tx.timestamp,
+              signature: tx.signature,
+            });
+          } else {
+            nftsDetected.push({
+              mint: nft.mint,
+              type: "nft",
+              name: extractNFTName(tx.description),
+              receivedTimestamp: tx.timestamp,
+              signature: tx.signature,
+            });
           }
         }
       }
+    }
 
-      // Check for .sol domain registrations
-      if (isSOLDomainTransaction(tx)) {
-        const domainName = extractDomainName(tx);
-        if (domainName && !solDomainsDetected.includes(domainName)) {
-          solDomainsDetected.push(domainName);
-        }
+    // Check for .sol domain registrations
+    if (isSOLDomainTransaction(tx)) {
+      const domainName = extractDomainName(tx);
+      if (domainName && !solDomainsDetected.includes(domainName)) {
+        solDomainsDetected.push(domainName);
       }
+    }
 
-      // Check token transfers for NFT mints (tokenAmount = 1 often means NFT)
-      for (const transfer of tx.tokenTransfers || []) {
-        if (transfer.toUserAccount === walletAddress && 
-            transfer.tokenAmount === 1 &&
-            transfer.tokenStandard === "NonFungible") {
-          
-          const isPOAP = isPOAPorBadge(tx.description || "");
-          
-          if (isPOAP) {
-            const existing = poapsDetected.find(p => p.mint === transfer.mint);
-            if (!existing) {
-              poapsDetected.push({
-                mint: transfer.mint,
-                type: "poap",
-                receivedTimestamp: tx.timestamp,
-              });
-            }
-          } else {
-            const existing = nftsDetected.find(n => n.mint === transfer.mint);
-            if (!existing) {
-              nftsDetected.push({
-                mint: transfer.mint,
-                type: "nft",
-                receivedTimestamp: tx.timestamp,
-              });
-            }
+    // Check token transfers for NFT mints (tokenAmount = 1 often means NFT)
+    for (const transfer of tx.tokenTransfers || []) {
+      if (transfer.toUserAccount === walletAddress && 
+          transfer.tokenAmount === 1 &&
+          transfer.tokenStandard === "NonFungible") {
+        
+        const isPOAP = isPOAPorBadge(tx.description || "");
+        
+        if (isPOAP) {
+          const existing = poapsDetected.find(p => p.mint === transfer.mint);
+          if (!existing) {
+            poapsDetected.push({
+              mint: transfer.mint,
+              type: "poap",
+              receivedTimestamp: tx.timestamp,
+              signature: tx.signature,
+            });
+          }
+        } else {
+          const existing = nftsDetected.find(n => n.mint === transfer.mint);
+          if (!existing) {
+            nftsDetected.push({
+              mint: transfer.mint,
+              type: "nft",
+              receivedTimestamp: tx.timestamp,
+              signature: tx.signature,
+            });
           }
         }
       }
     }
+  }
 
-    // Calculate identity exposure level
-    const identityExposureLevel = calculateExposureLevel(
-      nftsDetected.length,
-      poapsDetected.length,
-      solDomainsDetected.length
-    );
+  // Calculate identity exposure level
+  const identityExposureLevel = calculateExposureLevel(
+    nftsDetected.length,
+    poapsDetected.length,
+    solDomainsDetected.length
+  );
 
-    // Calculate risk contribution
-    let riskContribution = 0;
-    
-    // POAPs are identity-revealing
-    riskContribution += poapsDetected.length * POINT_DEDUCTIONS.NFT_POAP_EXPOSED;
-    
-    // .sol domains are highly identity-revealing
-    riskContribution += solDomainsDetected.length * POINT_DEDUCTIONS.SOL_DOMAIN_EXPOSED;
-    
-    // Cap the contribution
-    riskContribution = Math.min(riskContribution, 30);
-
-    const detected = 
-      nftsDetected.length > 0 || 
-      poapsDetected.length > 0 || 
-      solDomainsDetected.length > 0;
-
-    const result: AssetsDetectionResult = {
-      detected,
-      nftsDetected,
-      solDomainsDetected,
-      poapsDetected,
-      identityExposureLevel,
-      riskContribution,
-    };
-
-    if (detected) {
-      console.log(`⚠️  Identity-revealing assets detected:`);
-      if (poapsDetected.length > 0) {
-        console.log(`   - POAPs/Badges: ${poapsDetected.length}`);
-      }
-      if (solDomainsDetected.length > 0) {
-        console.log(`   - .sol domains: ${solDomainsDetected.join(", ")}`);
-      }
-      if (nftsDetected.length > 0) {
-        console.log(`   - NFTs: ${nftsDetected.length}`);
-      }
-    } else {
-      console.log(`✅ No identity-revealing assets detected`);
+  // Calculate risk contribution
+  let riskContribution = 0;
+  
+  // POAPs are identity-revealing
+  riskContribution += poapsDetected.length * weights.poapPoints;
+  
+  // .sol domains are highly identity-revealing
+  riskContribution += solDomainsDetected.length * weights.solDomainPoints;
+  
+  // Cap the contribution
+  riskContribution = Math.min(riskContribution, weights.cap);
+
+  const detected = 
+    nftsDetected.length > 0 || 
+    poapsDetected.length > 0 || 
+    solDomainsDetected.length > 0;
+
+  const result: AssetsDetectionResult = {
+    detected,
+    nftsDetected,
+    solDomainsDetected,
+    poapsDetected,
+    identityExposureLevel,
+    riskContribution,
+  };
+
+  if (detected) {
+    log.info(`⚠️  Identity-revealing assets detected:`);
+    if (poapsDetected.length > 0) {
+      log.info(`   - POAPs/Badges: ${poapsDetected.length}`);
     }
-
-    return result;
-  } catch (error) {
-    console.error("❌ Error in assets detection:", error);
-    return {
-      detected: false,
-      nftsDetected: [],
-      solDomainsDetected: [],
-      poapsDetected: [],
-      identityExposureLevel: "none",
-      riskContribution: 0,
-    };
+    if (solDomainsDetected.length > 0) {
+      log.info(`   - .sol domains: ${solDomainsDetected.join(", ")}`);
+    }
+    if (nftsDetected.length > 0) {
+      log.info(`   - NFTs: ${nftsDetected.length}`);
+    }
+  } else {
+    log.info(`✅ No identity-revealing assets detected`);
   }
+
+  return result;
 }
 
 /**
@@ -0,0 +1,313 @@
+/**
+ * Bridge Detector - Links a wallet to addresses on other chains
+ * Bridging through Wormhole, deBridge, Allbridge or Mayan records the recipient on the other chain,
+ * often an EVM address that is already tied to an identity. Recognizes bridge programs by label and
+ * decodes the destination chain and recipient from the instruction data where the layout is known.
+ */
+
+import { createHash } from "crypto";
+import type { InnerInstruction, ParsedTransaction } from "../services/helius";
+import { getLabelRegistry } from "../labels/registry";
+import { decodeBase58 } from "../utils/base58";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { log } from "../utils/logger";
+
+export interface BridgeTransfer {
+  bridge: string;                         // Label entity, e.g. "Wormhole"
+  programId?: string | undefined;         // Bridge program called, if the instructions were available
+  direction: "outbound" | "inbound" | "unknown";
+  destinationChain?: string | undefined;  // Chain name, or "chain <id>" for unknown ids
+  foreignAddress?: string | undefined;    // Recipient on the other chain, when the payload carries it
+  asset?: string | undefined;             // "SOL" or the mint that left (or arrived)
+  amount?: number | undefined;
+  timestamp: number;
+  signature: string;
+}
+
+export interface LinkedForeignAddress {
+  address: string;
+  chain: string;
+  bridges: string[];
+  transfers: number;
+  signatures: string[];
+}
+
+export interface BridgeResult {
+  detected: boolean;
+  transfers: BridgeTransfer[];               // Earliest first
+  foreignAddresses: LinkedForeignAddress[];  // Most transfers first
+  bridgesUsed: string[];
+  chains: string[];
+  riskContribution: number;
+}
+
+// Decoded destination of an outbound bridge instruction
+interface BridgeDestination {
+  chain: string;
+  address: string;
+}
+
+const WORMHOLE_TOKEN_BRIDGE = "wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb";
+const DLN_SOURCE = "src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4";
+
+// Wormhole chain ids (https://wormhole.com/docs/build/reference/chain-ids/)
+const WORMHOLE_CHAINS: Record<number, string> = {
+  1: "Solana", 2: "Ethereum", 4: "BNB Chain", 5: "Polygon", 6: "Avalanche", 10: "Fantom", 13: "Klaytn",
+  14: "Celo", 16: "Moonbeam", 21: "Sui", 22: "Aptos", 23: "Arbitrum", 24: "Optimism", 30: "Base",
+};
+
+// EVM chain ids, as deBridge uses them
+const EVM_CHAINS: Record<number, string> = {
+  1: "Ethereum", 10: "Optimism", 56: "BNB Chain", 137: "Polygon", 250: "Fantom", 8453: "Base",
+  42161: "Arbitrum", 43114: "Avalanche", 59144: "Linea",
+};
+
+// Helius transaction sources of bridge transactions, for histories without instruction data
+const BRIDGE_SOURCES: Record<string, string> = {
+  WORMHOLE: "Wormhole",
+  PORTAL: "Wormhole",
+  DEBRIDGE: "deBridge",
+  ALLBRIDGE: "Allbridge",
+  MAYAN: "Mayan",
+};
+
+// Wormhole token bridge instructions: outbound transfers and the offset of their target address
+const WORMHOLE_TRANSFERS: Record<number, number> = {
+  4: 21,  // TransferWrapped: nonce u32, amount u64, fee u64, target_address, target_chain u16
+  5: 21,  // TransferNative
+  11: 13, // TransferWrappedWithPayload: nonce u32, amount u64, target_address, target_chain u16, payload
+  12: 13, // TransferNativeWithPayload
+};
+const WORMHOLE_COMPLETIONS = new Set([2, 3, 9, 10]); // Complete{Native,Wrapped}[WithPayload]
+
+/**
+ * No bridge transfers, and no linked foreign addresses
+ */
+export function emptyBridgeResult(): BridgeResult {
+  return {
+    detected: false,
+    transfers: [],
+    foreignAddresses: [],
+    bridgesUsed: [],
+    chains: [],
+    riskContribution: 0,
+  };
+}
+
+/**
+ * Find bridge interactions and the foreign addresses they link the wallet to
+ * @param transactions - Parsed transaction history
+ * @param walletAddress - The wallet being analyzed
+ * @param weights - Penalty weights from the active scoring profile
+ * @returns BridgeResult with each bridge transfer and the linked foreign addresses
+ */
+export function detectBridgeTransfers(
+  transactions: ParsedTransaction[],
+  walletAddress: string,
+  weights: ScoringProfile["bridge"] = DEFAULT_PROFILE.bridge
+): BridgeResult {
+  const transfers: BridgeTransfer[] = [];
+  for (const tx of [...transactions].sort((a, b) => a.timestamp - b.timestamp)) {
+    const transfer = toBridgeTransfer(tx, walletAddress);
+    if (transfer) transfers.push(transfer);
+  }
+
+  const foreign = new Map<string, LinkedForeignAddress>();
+  for (const t of transfers) {
+    if (!t.foreignAddress || !t.destinationChain) continue;
+    const key = `${t.destinationChain}:${t.foreignAddress}`;
+    const linked = foreign.get(key) ?? { address: t.foreignAddress, chain: t.destinationChain, bridges: [], transfers: 0, signatures: [] };
+    if (!linked.bridges.includes(t.bridge)) linked.bridges.push(t.bridge);
+    linked.transfers++;
+    linked.signatures.push(t.signature);
+    foreign.set(key, linked);
+  }
+  const foreignAddresses = [...foreign.values()].sort((a, b) => b.transfers - a.transfers);
+
+  const riskContribution = Math.min(
+    weights.cap,
+    (transfers.length > 0 ? weights.usagePoints : 0) + foreignAddresses.length * weights.foreignAddressPoints
+  );
+
+  if (transfers.length > 0) {
+    log.info(`⚠️  Bridge transfers: ${transfers.length}, linked foreign addresses: ${foreignAddresses.length}`);
+    for (const linked of foreignAddresses) {
+      log.info(`   - ${linked.chain}: ${linked.address} (${linked.bridges.join(", ")})`);
+    }
+  }
+
+  return {
+    detected: transfers.length > 0,
+    transfers,
+    foreignAddresses,
+    bridgesUsed: [...new Set(transfers.map(t => t.bridge))],
+    chains: [...new Set(transfers.map(t => t.destinationChain).filter((c): c is string => !!c))],
+    riskContribution,
+  };
+}
+
+/**
+ * Recognize a bridge transaction by the programs it calls, its transfers' counterparties
+ * or its Helius source, and decode what the bridge instruction says about the other side
+ */
+function toBridgeTransfer(tx: ParsedTransaction, walletAddress: string): BridgeTransfer | null {
+  const registry = getLabelRegistry();
+  const calls = (tx.instructions ?? []).flatMap(ix => [ix, ...ix.innerInstructions]);
+
+  const bridgeCall = calls.find(ix => registry.get(ix.programId, "bridge"));
+  const transfers = [...(tx.nativeTransfers ?? []).map(t => ({ ...t, asset: "SOL", amount: t.amount / 1e9 })),
+    ...(tx.tokenTransfers ?? []).map(t => ({ ...t, asset: t.mint, amount: t.tokenAmount }))];
+  const bridgeCounterparty = transfers
+    .map(t => (t.fromUserAccount === walletAddress ? t.toUserAccount : t.fromUserAccount))
+    .find(address => address && registry.get(address, "bridge"));
+
+  const bridgeLabel = registry.get(bridgeCall?.programId, "bridge") ?? registry.get(bridgeCounterparty, "bridge");
+  const bridge = bridgeLabel ? bridgeLabel.entity : BRIDGE_SOURCES[(tx.source ?? "").toUpperCase()];
+  if (!bridge) return null;
+
+  let direction: BridgeTransfer["direction"] = "unknown";
+  let destination: BridgeDestination | null = null;
+  for (const call of calls) {
+    const decoded = decodeBridgeInstruction(call);
+    if (!decoded) continue;
+    direction = decoded.direction;
+    destination = decoded.destination;
+    if (destination) break;
+  }
+
+  // Without a decodable instruction, the direction follows the wallet's funds
+  const sent = transfers.filter(t => t.fromUserAccount === walletAddress && t.amount > 0).sort((a, b) => b.amount - a.amount)[0];
+  const received = transfers.filter(t => t.toUserAccount === walletAddress && t.amount > 0).sort((a, b) => b.amount - a.amount)[0];
+  if (direction === "unknown") direction = sent ? "outbound" : received ? "inbound" : "unknown";
+  const moved = direction === "inbound" ? received : sent;
+
+  return {
+    bridge,
+    programId: bridgeCall?.programId,
+    direction,
+    destinationChain: destination?.chain,
+    foreignAddress: destination?.address,
+    asset: moved?.asset,
+    amount: moved?.amount,
+    timestamp: tx.timestamp,
+    signature: tx.signature,
+  };
+}
+
+/**
+ * Decode a bridge instruction whose layout is known
+ * @returns The direction, and the destination for outbound transfers that carry one; null for other instructions
+ */
+function decodeBridgeInstruction(
+  ix: InnerInstruction
+): { direction: BridgeTransfer["direction"]; destination: BridgeDestination | null } | null {
+  if (!ix.data) return null;
+  const data = decodeBase58(ix.data);
+  const tag = data?.[0];
+  if (!data || tag === undefined) return null;
+
+  if (ix.programId === WORMHOLE_TOKEN_BRIDGE) {
+    if (WORMHOLE_COMPLETIONS.has(tag)) return { direction: "inbound", destination: null };
+    const offset = WORMHOLE_TRANSFERS[tag];
+    if (offset === undefined || data.length < offset + 34) return null;
+    const chainId = Buffer.from(data.buffer, data.byteOffset, data.byteLength).readUInt16LE(offset + 32);
+    return {
+      direction: "outbound",
+      destination: { chain: WORMHOLE_CHAINS[chainId] ?? `chain ${chainId}`, address: formatForeignAddress(data.subarray(offset, offset + 32)) },
+    };
+  }
+
+  if (ix.programId === DLN_SOURCE) {
+    const destination = decodeDlnOrder(data);
+    return destination ? { direction: "outbound", destination } : null;
+  }
+
+  return null;
+}
+
+/**
+ * deBridge DLN create_order(_with_nonce): 8-byte Anchor discriminator, then
+ * give_original_amount u64, take { chain_id [u8; 32], token_address Vec<u8>, amount [u8; 32] }, receiver_dst Vec<u8>, ...
+ */
+function decodeDlnOrder(data: Uint8Array): BridgeDestination | null {
+  const discriminator = Buffer.from(data.subarray(0, 8)).toString("hex");
+  if (discriminator !== anchorDiscriminator("create_order") && discriminator !== anchorDiscriminator("create_order_with_nonce")) {
+    return null;
+  }
+
+  let offset = 8 + 8; // Discriminator, give_original_amount
+  const chainIdBytes = data.subarray(offset, offset + 32);
+  offset += 32;
+  const tokenLength = readU32(data, offset);
+  if (tokenLength === null) return null;
+  offset += 4 + tokenLength + 32; // token_address, amount
+  const receiverLength = readU32(data, offset);
+  if (receiverLength === null || (receiverLength !== 20 && receiverLength !== 32)) return null;
+  offset += 4;
+  if (data.length < offset + receiverLength || chainIdBytes.length < 32) return null;
+
+  // chain_id is a big-endian u256; real ids fit in the last 6 bytes
+  if (chainIdBytes.subarray(0, 26).some(b => b !== 0)) return null;
+  const chainId = chainIdBytes.subarray(26).reduce((id, b) => id * 256 + b, 0);
+  return {
+    chain: EVM_CHAINS[chainId] ?? `chain ${chainId}`,
+    address: formatForeignAddress(data.subarray(offset, offset + receiverLength)),
+  };
+}
+
+function anchorDiscriminator(name: string): string {
+  return createHash("sha256").update(`global:${name}`).digest("hex").slice(0, 16);
+}
+
+function readU32(data: Uint8Array, offset: number): number | null {
+  if (data.length < offset + 4) return null;
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength).readUInt32LE(offset);
+}
+
+/**
+ * EVM addresses are 20 bytes, left-padded to 32 by Wormhole; other chains keep all 32
+ */
+function formatForeignAddress(bytes: Uint8Array): string {
+  const evm = bytes.length === 20 ? bytes : bytes.subarray(0, 12).every(b => b === 0) ? bytes.subarray(12) : null;
+  return `0x${Buffer.from(evm ?? bytes).toString("hex")}`;
+}
+
+/**
+ * Generate warnings based on bridge results
+ * @param result - Bridge detection result
+ * @returns Array of warning messages
+ */
+export function generateBridgeWarnings(result: BridgeResult): string[] {
+  const warnings: string[] = [];
+
+  for (const linked of result.foreignAddresses.slice(0, 5)) {
+    warnings.push(
+      `This wallet is now linked to ${linked.address} on ${linked.chain} through ${linked.bridges.join(", ")}. ` +
+        `Anything known about that address - ENS names, exchange deposits, past activity - applies to this wallet too.`
+    );
+  }
+
+  const undecoded = result.transfers.filter(t => !t.foreignAddress);
+  if (undecoded.length > 0) {
+    warnings.push(
+      `${undecoded.length} bridge transfer(s) through ${[...new Set(undecoded.map(t => t.bridge))].join(", ")} ` +
+        `link this wallet to addresses on other chains, visible to anyone reading the bridge's records.`
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Generate action recommendations based on bridge results
+ * @param result - Bridge detection result
+ * @returns Array of recommended actions
+ */
+export function generateBridgeActions(result: BridgeResult): string[] {
+  if (!result.detected) return [];
+  return [
+    "Bridge to a fresh address on the other chain instead of one tied to your identity.",
+    "Treat the linked addresses as one identity - don't bridge between wallets you want to keep separate.",
+  ];
+}
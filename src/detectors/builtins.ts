@@ -0,0 +1,551 @@
+/**
+ * Built-in Detectors
+ * Registers the CEX, dust, deposit address, fee payer, clustering, assets, wash trading, amount correlation, timing, funding source, taint and bridge detectors with the registry contract
+ */
+
+import { RECOMMENDED_TOOLS } from "../utils/constants";
+import {
+  detectCEXTransactions,
+  generateCEXWarnings,
+  generateCEXActions,
+} from "./cex";
+import type { CEXDetectionResult } from "./cex";
+import {
+  detectDust,
+  emptyDustResult,
+  generateDustWarnings,
+  generateDustActions,
+} from "./dust";
+import type { DustResult } from "./dust";
+import {
+  detectDepositAddresses,
+  defaultDepositAddressOptions,
+  emptyDepositAddressResult,
+  generateDepositAddressWarnings,
+  generateDepositAddressActions,
+} from "./deposit";
+import type { DepositAddressResult } from "./deposit";
+import {
+  detectClustering,
+  detectWashTrading,
+  emptyWashTradingResult,
+  generateClusteringWarnings,
+  generateClusteringActions,
+  generateWashTradingWarnings,
+  generateWashTradingActions,
+} from "./clustering";
+import type { ClusteringResult, LinkedWallet, WashTradingResult } from "./clustering";
+import {
+  detectFeePayerLinks,
+  emptyFeePayerResult,
+  generateFeePayerWarnings,
+  generateFeePayerActions,
+} from "./feepayer";
+import type { FeePayerResult } from "./feepayer";
+import {
+  detectIdentityAssets,
+  generateAssetWarnings,
+  generateAssetActions,
+} from "./assets";
+import type { AssetsDetectionResult } from "./assets";
+import {
+  detectAmountCorrelation,
+  emptyAmountCorrelationResult,
+  generateAmountWarnings,
+  generateAmountActions,
+} from "./amounts";
+import type { AmountCorrelationResult } from "./amounts";
+import {
+  detectTimingPatterns,
+  emptyTimingResult,
+  generateTimingWarnings,
+  generateTimingActions,
+} from "./timing";
+import type { TimingResult } from "./timing";
+import {
+  detectFundingSource,
+  emptyFundingSourceResult,
+  generateFundingSourceWarnings,
+  generateFundingSourceActions,
+} from "./funding";
+import type { FundingSourceResult } from "./funding";
+import {
+  detectTaint,
+  defaultTaintOptions,
+  emptyTaintResult,
+  generateTaintWarnings,
+  generateTaintActions,
+} from "./taint";
+import type { TaintResult } from "./taint";
+import {
+  detectBridgeTransfers,
+  emptyBridgeResult,
+  generateBridgeWarnings,
+  generateBridgeActions,
+} from "./bridge";
+import type { BridgeResult } from "./bridge";
+import type { Detector } from "./registry";
+
+function findTool(useCase: string): { tool?: string | undefined; toolUrl?: string | undefined } {
+  const tool = RECOMMENDED_TOOLS.find(t => t.useCase === useCase);
+  return { tool: tool?.name, toolUrl: tool?.url };
+}
+
+// First few signatures for a console line
+function formatSignatures(signatures: string[]): string {
+  return `${signatures.slice(0, 3).join(", ")}${signatures.length > 3 ? ", ..." : ""}`;
+}
+
+export const cexDetector: Detector<CEXDetectionResult> = {
+  id: "cex",
+  name: "CEX activity",
+  category: "CEX",
+  run(transactions, ctx) {
+    const result = detectCEXTransactions(transactions, ctx.walletAddress, ctx.profile.cex);
+    return {
+      result,
+      warnings: generateCEXWarnings(result).map(message => ({ severity: "high", message })),
+      actions: generateCEXActions(result).map(action => ({
+        priority: "high",
+        action,
+        ...findTool("CEX_DEPOSIT"),
+      })),
+      riskContribution: result.riskContribution,
+      deductionReason: `CEX activity (${result.totalCEXTransactions} transactions)`,
+      signatures: [
+        ...result.deposits.map(d => d.signature),
+        ...result.withdrawals.map(w => w.signature),
+      ],
+    };
+  },
+  emptyResult: () => ({
+    detected: false,
+    deposits: [],
+    withdrawals: [],
+    totalCEXTransactions: 0,
+    exchangesInvolved: [],
+    riskContribution: 0,
+  }),
+};
+
+export const dustDetector: Detector<DustResult> = {
+  id: "dust",
+  name: "Dust and address poisoning",
+  category: "Dust",
+  run(transactions, ctx) {
+    const result = detectDust(transactions, ctx.walletAddress, ctx.profile.dust);
+    const paidLookalike = result.poisoningAttempts.some(p => p.sentFunds);
+    return {
+      result,
+      warnings: generateDustWarnings(result).map(message => ({ severity: paidLookalike ? "high" : "medium", message })),
+      actions: generateDustActions(result).map(action => ({ priority: paidLookalike ? "high" : "medium", action })),
+      riskContribution: result.riskContribution,
+      deductionReason: paidLookalike
+        ? "Funds sent to a lookalike address"
+        : `Dust and address poisoning (${result.dustSenders.length + result.poisoningAttempts.length} address(es))`,
+      signatures: [
+        ...result.dustTransfers.map(d => d.signature),
+        ...result.poisoningAttempts.flatMap(p => p.signatures),
+      ].filter((s, i, all) => all.indexOf(s) === i),
+    };
+  },
+  emptyResult: emptyDustResult,
+  formatConsole(result) {
+    if (!result.detected) return [];
+    const lines = ["🪤 DUST AND ADDRESS POISONING:"];
+    for (const attempt of result.poisoningAttempts) {
+      lines.push(`   ${attempt.sentFunds ? "❌ PAID" : "⚠️ "} ${attempt.address} imitates ${attempt.imitates}`);
+      lines.push(`        tx: ${formatSignatures(attempt.signatures)}`);
+    }
+    if (result.dustSenders.length > 0) {
+      lines.push(`   ${result.dustTransfers.length} dust transfer(s) from ${result.dustSenders.length} sender(s), left out of clustering and screening`);
+    }
+    return lines;
+  },
+};
+
+export const depositAddressDetector: Detector<DepositAddressResult> = {
+  id: "depositAddresses",
+  name: "CEX deposit addresses",
+  category: "CEX",
+  async run(transactions, ctx) {
+    const result = await detectDepositAddresses(
+      transactions,
+      ctx.walletAddress,
+      ctx.source,
+      ctx.profile.cex,
+      defaultDepositAddressOptions(),
+      ctx.signal
+    );
+    return {
+      result,
+      warnings: generateDepositAddressWarnings(result).map(message => ({ severity: "high", message })),
+      actions: generateDepositAddressActions(result).map(action => ({
+        priority: "high",
+        action,
+        ...findTool("CEX_DEPOSIT"),
+      })),
+      riskContribution: result.riskContribution,
+      deductionReason: `Probable CEX deposit addresses (${result.depositAddresses.length})`,
+      signatures: result.depositAddresses.flatMap(d => d.signatures),
+    };
+  },
+  emptyResult: emptyDepositAddressResult,
+  formatConsole(result) {
+    if (result.depositAddresses.length === 0) return [];
+    const lines = ["🏦 PROBABLE CEX DEPOSIT ADDRESSES:"];
+    for (const d of result.depositAddresses) {
+      lines.push(`   ${d.address} → ${d.exchangeName} (${Math.round(d.confidence * 100)}% confidence)`);
+      lines.push(`        ${d.solSent.toFixed(4)} SOL sent, ${(d.forwardedShare * 100).toFixed(0)}% of inflow swept after ~${Math.round(d.medianSweepDelaySeconds / 60)} min`);
+      lines.push(`        tx: ${d.signatures.join(", ")}`);
+    }
+    return lines;
+  },
+};
+
+export const feePayerDetector: Detector<FeePayerResult> = {
+  id: "feePayer",
+  name: "Fee payer linkage",
+  category: "Clustering",
+  async run(transactions, ctx) {
+    const result = await detectFeePayerLinks(
+      transactions,
+      ctx.walletAddress,
+      ctx.source,
+      ctx.profile.feePayer,
+      ctx.signal
+    );
+    return {
+      result,
+      warnings: generateFeePayerWarnings(result).map(message => ({ severity: "high", message })),
+      actions: generateFeePayerActions(result).map(action => ({
+        priority: "high",
+        action,
+        ...findTool("CLUSTER_DETECTED"),
+      })),
+      riskContribution: result.riskContribution,
+      deductionReason: `Fee payer links (${result.linkedWallets.length} wallet(s))`,
+      signatures: [...new Set(result.links.filter(l => l.kind === "private").flatMap(l => l.signatures))],
+    };
+  },
+  emptyResult: emptyFeePayerResult,
+  formatConsole(result) {
+    if (result.links.length === 0) return [];
+    const lines = ["⛽ FEE PAYER LINKS:"];
+    for (const link of result.links) {
+      const who = link.entity ? `${link.kind}: ${link.entity}` : link.kind;
+      const via = link.via ? ` via ${link.via}` : "";
+      lines.push(`   [${link.direction}, ${who}] ${link.address}${via} - ${link.transactions} tx`);
+    }
+    return lines;
+  },
+};
+
+export const clusteringDetector: Detector<ClusteringResult> = {
+  id: "clustering",
+  name: "Transaction clustering",
+  category: "Clustering",
+  run(transactions, ctx) {
+    const feePayer = ctx.results.feePayer as FeePayerResult | undefined;
+    const feePayerLinks = feePayer?.links ?? [];
+    const linkedWallets: LinkedWallet[] = (feePayer?.linkedWallets ?? []).map(address => ({
+      address,
+      reason: "fee_payer",
+      signatures: feePayerLinks.filter(l => l.address === address).flatMap(l => l.signatures),
+    }));
+    const dust = ctx.results.dust as DustResult | undefined;
+    const result = detectClustering(
+      transactions,
+      ctx.walletAddress,
+      ctx.profile.clustering,
+      linkedWallets,
+      new Set(dust?.ignoredAddresses ?? [])
+    );
+    return {
+      result,
+      warnings: generateClusteringWarnings(result).map(message => ({ severity: "medium", message })),
+      actions: generateClusteringActions(result).map(action => ({
+        priority: "medium",
+        action,
+        ...findTool("CLUSTER_DETECTED"),
+      })),
+      riskContribution: result.riskContribution,
+      deductionReason: `Clustering pattern: ${result.pattern}`,
+    };
+  },
+  emptyResult: () => ({
+    detected: false,
+    clusteringPercentage: 0,
+    topAddresses: [],
+    dominantAddress: null,
+    totalUniqueAddresses: 0,
+    totalTransactions: 0,
+    riskContribution: 0,
+    pattern: "none",
+    flows: [],
+    solIn: 0,
+    solOut: 0,
+    linkedWallets: [],
+    ignoredInteractions: 0,
+  }),
+  formatConsole(result) {
+    if (result.flows.length === 0) return [];
+    const lines = ["🌊 FLOW PATTERNS:"];
+    for (const flow of result.flows) {
+      const destination = flow.destination && flow.destinationSol !== undefined
+        ? ` → ${flow.destination} (${flow.destinationSol.toFixed(4)} SOL)`
+        : "";
+      lines.push(`   [${flow.pattern}] ${flow.counterpartyCount} counterparties, ${flow.solVolume.toFixed(4)} SOL over ${flow.transfers} transfers${destination}`);
+      lines.push(`        tx: ${formatSignatures(flow.signatures)}`);
+    }
+    return lines;
+  },
+};
+
+export const assetsDetector: Detector<AssetsDetectionResult> = {
+  id: "assets",
+  name: "Identity-revealing assets",
+  category: "Identity",
+  run(transactions, ctx) {
+    const result = detectIdentityAssets(transactions, ctx.walletAddress, ctx.profile.assets);
+    return {
+      result,
+      warnings: generateAssetWarnings(result).map(message => ({ severity: "medium", message })),
+      actions: generateAssetActions(result).map(action => ({ priority: "medium", action })),
+      riskContribution: result.riskContribution,
+      deductionReason: "Identity-revealing assets",
+      signatures: result.poapsDetected
+        .map(p => p.signature)
+        .filter((s): s is string => !!s),
+    };
+  },
+  emptyResult: () => ({
+    detected: false,
+    nftsDetected: [],
+    solDomainsDetected: [],
+    poapsDetected: [],
+    identityExposureLevel: "none",
+    riskContribution: 0,
+  }),
+};
+
+export const washTradingDetector: Detector<WashTradingResult> = {
+  id: "washTrading",
+  name: "Wash trading",
+  category: "Clustering",
+  run(transactions, ctx) {
+    const result = detectWashTrading(transactions, ctx.walletAddress, ctx.profile.washTrading);
+    return {
+      result,
+      warnings: generateWashTradingWarnings(result).map(message => ({ severity: "medium", message })),
+      actions: generateWashTradingActions(result).map(action => ({
+        priority: "medium",
+        action,
+        ...findTool("CLUSTER_DETECTED"),
+      })),
+      riskContribution: result.riskContribution,
+      deductionReason: `Wash trading (${result.totalCycles} round trips across ${result.pairs.length} pair(s))`,
+      signatures: result.pairs.flatMap(p => p.cycles.flatMap(c => c.signatures)),
+    };
+  },
+  emptyResult: emptyWashTradingResult,
+  formatConsole(result) {
+    if (result.pairs.length === 0) return [];
+    const lines = ["🔁 WASH TRADING CYCLES:"];
+    for (const pair of result.pairs) {
+      lines.push(`   [${pair.kind}] ${pair.address} - ${pair.asset}: ${pair.cycles.length} round trips, ${pair.volume.toFixed(4)} total`);
+      for (const cycle of pair.cycles.slice(0, 3)) {
+        lines.push(`        ${cycle.amounts[0]} → ${cycle.amounts[1]} in ${cycle.roundTripSeconds}s, tx: ${cycle.signatures.join(", ")}`);
+      }
+    }
+    return lines;
+  },
+};
+
+export const amountCorrelationDetector: Detector<AmountCorrelationResult> = {
+  id: "amounts",
+  name: "Amount correlation",
+  category: "Amounts",
+  run(transactions, ctx) {
+    const result = detectAmountCorrelation(transactions, ctx.walletAddress, ctx.profile.amounts);
+    return {
+      result,
+      warnings: generateAmountWarnings(result).map(message => ({ severity: "medium", message })),
+      actions: generateAmountActions(result).map(action => ({ priority: "medium", action })),
+      riskContribution: result.riskContribution,
+      deductionReason: `Amount correlation (${result.pairs.length} matching pair(s))`,
+      signatures: [
+        ...result.pairs.filter(p => p.anonymitySet !== "large").flatMap(p => p.signatures),
+        ...result.fingerprints.filter(f => f.anonymitySet === "small").map(f => f.signature),
+      ],
+    };
+  },
+  emptyResult: emptyAmountCorrelationResult,
+  formatConsole(result) {
+    if (result.pairs.length === 0) return [];
+    const lines = ["🔢 MATCHING IN/OUT AMOUNTS:"];
+    for (const pair of result.pairs) {
+      lines.push(`   ${pair.amountIn} ${pair.asset} in from ${pair.fromLabel ?? pair.from} → ${pair.amountOut} out to ${pair.toLabel ?? pair.to}`);
+      lines.push(`        ${pair.delaySeconds}s later, ${pair.anonymitySet} anonymity set`);
+      lines.push(`        tx: ${pair.signatures.join(", ")}`);
+    }
+    return lines;
+  },
+};
+
+export const timingDetector: Detector<TimingResult> = {
+  id: "timing",
+  name: "Activity timing",
+  category: "Timing",
+  run(transactions, ctx) {
+    const result = detectTimingPatterns(transactions, ctx.profile.timing);
+    return {
+      result,
+      warnings: generateTimingWarnings(result).map(message => ({ severity: "low", message })),
+      actions: generateTimingActions(result).map(action => ({ priority: "low", action })),
+      riskContribution: result.riskContribution,
+      deductionReason: result.automation ? "Activity timing and fixed schedule" : "Activity timing reveals timezone",
+    };
+  },
+  emptyResult: emptyTimingResult,
+  formatConsole(result) {
+    if (!result.detected) return [];
+    const peak = Math.max(...result.hourHistogram, 1);
+    const bars = result.hourHistogram.map(count => " ▁▂▃▄▅▆▇█"[Math.round((count / peak) * 8)]).join("");
+    return ["🕐 ACTIVITY BY HOUR (UTC 00 → 23):", `   ${bars}`];
+  },
+};
+
+export const fundingSourceDetector: Detector<FundingSourceResult> = {
+  id: "fundingSource",
+  name: "Funding source",
+  category: "Identity",
+  async run(transactions, ctx) {
+    const result = await detectFundingSource(
+      transactions,
+      ctx.walletAddress,
+      ctx.source,
+      ctx.coverage,
+      ctx.profile.funding,
+      ctx.signal
+    );
+    return {
+      result,
+      warnings: generateFundingSourceWarnings(result).map(message => ({
+        severity: result.kycOrigin ? "high" : "medium",
+        message,
+      })),
+      actions: generateFundingSourceActions(result).map(action => ({
+        priority: result.kycOrigin ? "high" : "medium",
+        action,
+        ...(result.kycOrigin ? findTool("CEX_DEPOSIT") : {}),
+      })),
+      riskContribution: result.riskContribution,
+      deductionReason: result.kycOrigin
+        ? `First funded from ${result.funders.find(f => f.kind === "cex")?.entity}`
+        : "First funded by a linked wallet",
+      signatures: result.funders.map(f => f.signature),
+    };
+  },
+  emptyResult: emptyFundingSourceResult,
+  formatConsole(result) {
+    if (result.funders.length === 0 || result.firstFundedAt === null) return [];
+    const lines = [`💸 FIRST FUNDED: ${new Date(result.firstFundedAt * 1000).toISOString()}${result.complete ? "" : " (earliest found - first transaction not reached)"}`];
+    for (const funder of result.funders) {
+      lines.push(`   ${funder.address} [${funder.entity ? `${funder.kind}: ${funder.entity}` : funder.kind}] ${funder.sol.toFixed(4)} SOL`);
+      lines.push(`        tx: ${funder.signature}`);
+    }
+    return lines;
+  },
+};
+
+export const taintDetector: Detector<TaintResult> = {
+  id: "taint",
+  name: "Multi-hop taint",
+  category: "Compliance",
+  async run(transactions, ctx) {
+    const result = await detectTaint(
+      transactions,
+      ctx.walletAddress,
+      ctx.source,
+      ctx.profile.taint,
+      defaultTaintOptions(),
+      ctx.signal
+    );
+    const sanctioned = result.sources.some(s => s.kind === "sanctioned");
+    return {
+      result,
+      warnings: generateTaintWarnings(result).map(message => ({ severity: sanctioned ? "high" : "medium", message })),
+      actions: generateTaintActions(result).map(action => ({ priority: sanctioned ? "high" : "medium", action })),
+      riskContribution: result.riskContribution,
+      deductionReason: `Funds traced to ${result.sources.length} risky source(s) within ${result.maxHops} hop(s)`,
+      signatures: [...new Set(result.paths.flatMap(p => p.signatures))],
+    };
+  },
+  emptyResult: emptyTaintResult,
+  formatConsole(result) {
+    if (result.paths.length === 0 && !result.truncated) return [];
+    const lines = [`🧪 TAINTED FUNDING PATHS (${result.method}, up to ${result.maxHops} hops):`];
+    for (const asset of result.assets) {
+      lines.push(`   ${asset.asset}: ${asset.tainted.toFixed(4)} of ${asset.total.toFixed(4)} tainted (${(asset.share * 100).toFixed(1)}%)`);
+    }
+    for (const path of result.paths) {
+      lines.push(`   [${path.kind}, ${path.hops} hop(s)] ${path.addresses.join(" → ")}`);
+      lines.push(`        tx: ${path.signatures.join(", ")}`);
+    }
+    if (result.truncated) {
+      lines.push("   (trace incomplete - address budget reached, or some senders could not be screened or traced)");
+    }
+    return lines;
+  },
+};
+
+export const bridgeDetector: Detector<BridgeResult> = {
+  id: "bridge",
+  name: "Cross-chain bridges",
+  category: "Cross-chain",
+  run(transactions, ctx) {
+    const result = detectBridgeTransfers(transactions, ctx.walletAddress, ctx.profile.bridge);
+    const linked = result.foreignAddresses.length > 0;
+    return {
+      result,
+      warnings: generateBridgeWarnings(result).map(message => ({ severity: linked ? "high" : "medium", message })),
+      actions: generateBridgeActions(result).map(action => ({ priority: linked ? "high" : "medium", action })),
+      riskContribution: result.riskContribution,
+      deductionReason: linked
+        ? `Linked to ${result.foreignAddresses.length} address(es) on ${result.chains.join(", ")}`
+        : `Bridge transfers through ${result.bridgesUsed.join(", ")}`,
+      signatures: result.transfers.map(t => t.signature),
+    };
+  },
+  emptyResult: emptyBridgeResult,
+  formatConsole(result) {
+    if (!result.detected) return [];
+    const lines = [`🌉 CROSS-CHAIN LINKS (${result.bridgesUsed.join(", ")}):`];
+    for (const linked of result.foreignAddresses) {
+      lines.push(`   ${linked.chain}: ${linked.address} via ${linked.bridges.join(", ")} - ${linked.transfers} transfer(s)`);
+      lines.push(`        tx: ${linked.signatures.join(", ")}`);
+    }
+    const undecoded = result.transfers.filter(t => !t.foreignAddress);
+    if (undecoded.length > 0) {
+      lines.push(`   ${undecoded.length} transfer(s) with no recoverable recipient: ${undecoded.map(t => t.signature).join(", ")}`);
+    }
+    return lines;
+  },
+};
+
+// Run order matters: later detectors can read earlier results from ctx.results
+export const BUILT_IN_DETECTORS: Detector[] = [
+  cexDetector,
+  dustDetector,
+  depositAddressDetector,
+  feePayerDetector,
+  clusteringDetector,
+  assetsDetector,
+  washTradingDetector,
+  amountCorrelationDetector,
+  timingDetector,
+  fundingSourceDetector,
+  taintDetector,
+  bridgeDetector,
+];
@@ -3,8 +3,11 @@
  * Identifies deposits and withdrawals from known exchange hot wallets
  */
 
-import { KNOWN_CEX } from "../utils/constants";
+import { getLabelRegistry } from "../labels/registry";
 import type { ParsedTransaction } from "../services/helius";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { log } from "../utils/logger";
 
 export interface CEXDetectionResult {
   detected: boolean;
@@ -28,134 +31,124 @@ export interface CEXTransaction {
  * Detect CEX-related transactions in wallet history
  * @param transactions - Parsed transaction history
  * @param walletAddress - The wallet being analyzed
+ * @param weights - Penalty weights from the active scoring profile
  * @returns CEXDetectionResult with all detected CEX interactions
  */
 export function detectCEXTransactions(
   transactions: ParsedTransaction[],
-  walletAddress: string
+  walletAddress: string,
+  weights: ScoringProfile["cex"] = DEFAULT_PROFILE.cex
 ): CEXDetectionResult {
   const deposits: CEXTransaction[] = [];
   const withdrawals: CEXTransaction[] = [];
   const exchangesSet = new Set<string>();
 
-  try {
-    for (const tx of transactions) {
-      // Check native (SOL) transfers
-      for (const transfer of tx.nativeTransfers || []) {
-        const cexMatch = findCEXAddress(transfer.fromUserAccount);
-        
-        if (cexMatch && transfer.toUserAccount === walletAddress) {
-          // Deposit FROM CEX to our wallet
-          deposits.push({
-            signature: tx.signature,
-            timestamp: tx.timestamp,
-            exchangeName: cexMatch.name,
-            exchangeAddress: cexMatch.address,
-            direction: "deposit",
-            amount: transfer.amount / 1e9, // Convert lamports to SOL
-          });
-          exchangesSet.add(cexMatch.name);
-        }
-
-        const cexMatchTo = findCEXAddress(transfer.toUserAccount);
-        if (cexMatchTo && transfer.fromUserAccount === walletAddress) {
-          // Withdrawal TO CEX from our wallet
-          withdrawals.push({
-            signature: tx.signature,
-            timestamp: tx.timestamp,
-            exchangeName: cexMatchTo.name,
-            exchangeAddress: cexMatchTo.address,
-            direction: "withdrawal",
-            amount: transfer.amount / 1e9,
-          });
-          exchangesSet.add(cexMatchTo.name);
-        }
+  for (const tx of transactions) {
+    // Check native (SOL) transfers
+    for (const transfer of tx.nativeTransfers || []) {
+      const cexMatch = findCEXAddress(transfer.fromUserAccount);
+      
+      if (cexMatch && transfer.toUserAccount === walletAddress) {
+        // Deposit FROM CEX to our wallet
+        deposits.push({
+          signature: tx.signature,
+          timestamp: tx.timestamp,
+          exchangeName: cexMatch.name,
+          exchangeAddress: cexMatch.address,
+          direction: "deposit",
+          amount: transfer.amount / 1e9, // Convert lamports to SOL
+        });
+        exchangesSet.add(cexMatch.name);
       }
 
-      // Check token transfers
-      for (const transfer of tx.tokenTransfers || []) {
-        const cexMatch = findCEXAddress(transfer.fromUserAccount);
-        
-        if (cexMatch && transfer.toUserAccount === walletAddress) {
-          deposits.push({
-            signature: tx.signature,
-            timestamp: tx.timestamp,
-            exchangeName: cexMatch.name,
-            exchangeAddress: cexMatch.address,
-            direction: "deposit",
-            amount: transfer.tokenAmount,
-          });
-          exchangesSet.add(cexMatch.name);
-        }
-
-        const cexMatchTo = findCEXAddress(transfer.toUserAccount);
-        if (cexMatchTo && transfer.fromUserAccount === walletAddress) {
-          withdrawals.push({
-            signature: tx.signature,
-            timestamp: tx.timestamp,
-            exchangeName: cexMatchTo.name,
-            exchangeAddress: cexMatchTo.address,
-            direction: "withdrawal",
-            amount: transfer.tokenAmount,
-          });
-          exchangesSet.add(cexMatchTo.name);
-        }
+      const cexMatchTo = findCEXAddress(transfer.toUserAccount);
+      if (cexMatchTo && transfer.fromUserAccount === walletAddress) {
+        // Withdrawal TO CEX from our wallet
+        withdrawals.push({
+          signature: tx.signature,
+          timestamp: tx.timestamp,
+          exchangeName: cexMatchTo.name,
+          exchangeAddress: cexMatchTo.address,
+          direction: "withdrawal",
+          amount: transfer.amount / 1e9,
+        });
+        exchangesSet.add(cexMatchTo.name);
+      }
+    }
+
+    // Check token transfers
+    for (const transfer of tx.tokenTransfers || []) {
+      const cexMatch = findCEXAddress(transfer.fromUserAccount);
+      
+      if (cexMatch && transfer.toUserAccount === walletAddress) {
+        deposits.push({
+          signature: tx.signature,
+          timestamp: tx.timestamp,
+          exchangeName: cexMatch.name,
+          exchangeAddress: cexMatch.address,
+          direction: "deposit",
+          amount: transfer.tokenAmount,
+        });
+        exchangesSet.add(cexMatch.name);
       }
 
-      // Also check feePayer - sometimes CEX pays fees for withdrawals
-      const feePayerMatch = findCEXAddress(tx.feePayer);
-      if (feePayerMatch && tx.feePayer !== walletAddress) {
-        // CEX paid the fee, likely a withdrawal from CEX
-        const alreadyTracked = deposits.some(d => d.signature === tx.signature);
-        if (!alreadyTracked) {
-          deposits.push({
-            signature: tx.signature,
-            timestamp: tx.timestamp,
-            exchangeName: feePayerMatch.name,
-            exchangeAddress: feePayerMatch.address,
-            direction: "deposit",
-          });
-          exchangesSet.add(feePayerMatch.name);
-        }
+      const cexMatchTo = findCEXAddress(transfer.toUserAccount);
+      if (cexMatchTo && transfer.fromUserAccount === walletAddress) {
+        withdrawals.push({
+          signature: tx.signature,
+          timestamp: tx.timestamp,
+          exchangeName: cexMatchTo.name,
+          exchangeAddress: cexMatchTo.address,
+          direction: "withdrawal",
+          amount: transfer.tokenAmount,
+        });
+        exchangesSet.add(cexMatchTo.name);
       }
     }
 
-    // Calculate risk contribution
-    // Deposits from CEX are worse for privacy (direct link to KYC)
-    const depositRisk = deposits.length * 15; // 15 points per deposit
-    const withdrawalRisk = withdrawals.length * 10; // 10 points per withdrawal
-    const riskContribution = Math.min(depositRisk + withdrawalRisk, 50); // Cap at 50
-
-    const result: CEXDetectionResult = {
-      detected: deposits.length > 0 || withdrawals.length > 0,
-      deposits,
-      withdrawals,
-      totalCEXTransactions: deposits.length + withdrawals.length,
-      exchangesInvolved: Array.from(exchangesSet),
-      riskContribution,
-    };
-
-    if (result.detected) {
-      console.log(`⚠️  CEX Activity Detected:`);
-      console.log(`   - Deposits from CEX: ${deposits.length}`);
-      console.log(`   - Withdrawals to CEX: ${withdrawals.length}`);
-      console.log(`   - Exchanges: ${result.exchangesInvolved.join(", ")}`);
-    } else {
-      console.log(`✅ No CEX activity detected`);
+    // Also check feePayer - sometimes CEX pays fees for withdrawals
+    const feePayerMatch = findCEXAddress(tx.feePayer);
+    if (feePayerMatch && tx.feePayer !== walletAddress) {
+      // CEX paid the fee, likely a withdrawal from CEX
+      const alreadyTracked = deposits.some(d => d.signature === tx.signature);
+      if (!alreadyTracked) {
+        deposits.push({
+          signature: tx.signature,
+          timestamp: tx.timestamp,
+          exchangeName: feePayerMatch.name,
+          exchangeAddress: feePayerMatch.address,
+          direction: "deposit",
+        });
+        exchangesSet.add(feePayerMatch.name);
+      }
     }
+  }
 
-    return result;
-  } catch (error) {
-    console.error("❌ Error in CEX detection:", error);
-    return {
-      detected: false,
-      deposits: [],
-      withdrawals: [],
-      totalCEXTransactions: 0,
-      exchangesInvolved: [],
-      riskContribution: 0,
-    };
+  // Calculate risk contribution
+  // Deposits from CEX are worse for privacy (direct link to KYC)
+  const depositRisk = deposits.length * weights.depositPoints;
+  const withdrawalRisk = withdrawals.length * weights.withdrawalPoints;
+  const riskContribution = Math.min(depositRisk + withdrawalRisk, weights.cap);
+
+  const result: CEXDetectionResult = {
+    detected: deposits.length > 0 || withdrawals.length > 0,
+    deposits,
+    withdrawals,
+    totalCEXTransactions: deposits.length + withdrawals.length,
+    exchangesInvolved: Array.from(exchangesSet),
+    riskContribution,
+  };
+
+  if (result.detected) {
+    log.info(`⚠️  CEX Activity Detected:`);
+    log.info(`   - Deposits from CEX: ${deposits.length}`);
+    log.info(`   - Withdrawals to CEX: ${withdrawals.length}`);
+    log.info(`   - Exchanges: ${result.exchangesInvolved.join(", ")}`);
+  } else {
+    log.info(`✅ No CEX activity detected`);
   }
+
+  return result;
 }
 
 /**
@@ -166,8 +159,8 @@ export function detectCEXTransactions(
 function findCEXAddress(
   address: string | undefined
 ): { address: string; name: string } | null {
-  if (!address) return null;
-  return KNOWN_CEX.find((cex) => cex.address === address) || null;
+  const label = getLabelRegistry().get(address, "cex");
+  return label ? { address: label.address, name: label.entity } : null;
 }
 
 /**
@@ -176,7 +169,7 @@ function findCEXAddress(
  * @returns boolean
  */
 export function isKnownCEX(address: string): boolean {
-  return KNOWN_CEX.some((cex) => cex.address === address);
+  return getLabelRegistry().get(address, "cex") !== null;
 }
 
 /**
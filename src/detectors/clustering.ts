@@ -1,10 +1,15 @@
 /**
  * Clustering Detector - Detects wallet clustering patterns
- * Identifies if a wallet has suspicious transaction patterns with the same addresses
+ * Identifies if a wallet has suspicious transaction patterns with the same addresses,
+ * and direction-aware flows: fan-in (consolidation), fan-out (distribution) and peel chains
  */
 
 import type { ParsedTransaction } from "../services/helius";
-import { ANALYSIS_CONFIG, POINT_DEDUCTIONS } from "../utils/constants";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { shortenAddress } from "../utils/format";
+import { log } from "../utils/logger";
 
 export interface ClusteringResult {
   detected: boolean;
@@ -15,163 +20,232 @@ export interface ClusteringResult {
   totalTransactions: number;
   riskContribution: number;
   pattern: ClusterPattern;
+  flows: FlowFinding[];          // Fan-in, fan-out and peel chain findings, strongest first
+  solIn: number;                 // SOL received from counterparties
+  solOut: number;                // SOL sent to counterparties
+  linkedWallets: LinkedWallet[]; // Wallets tied to this one by other detectors (e.g. a shared fee payer)
+  ignoredInteractions: number;   // Transfers with ignored addresses (dust senders, lookalikes) left out of the counts
+}
+
+// A wallet another detector linked to the analyzed one
+export interface LinkedWallet {
+  address: string;
+  reason: "fee_payer";
+  signatures: string[];
 }
 
 export interface AddressFrequency {
   address: string;
   count: number;
   percentage: number;
+  inbound: number;  // Transfers from the address
+  outbound: number; // Transfers to the address
+  solIn: number;    // SOL received from it
+  solOut: number;   // SOL sent to it
 }
 
 export type ClusterPattern = 
   | "none"
   | "single_counterparty"  // 50%+ with same address
   | "small_cluster"        // 3-5 addresses make up 80%
-  | "wash_trading"         // Suspicious back-and-forth
-  | "funnel";              // Many inputs, few outputs
+  | "fan_in"               // Many senders, consolidated into one destination
+  | "fan_out"              // One wallet paying many recipients in a burst
+  | "peel_chain";          // Inflow forwarded as a small peel plus a large remainder
+
+export type FlowPattern = Exclude<ClusterPattern, "none" | "single_counterparty" | "small_cluster">;
+
+export interface FlowFinding {
+  pattern: FlowPattern;
+  counterpartyCount: number;   // Distinct senders (fan-in), recipients (fan-out) or peel recipients
+  transfers: number;
+  solVolume: number;           // SOL that moved through the pattern
+  destination?: string | undefined;    // Where a fan-in was consolidated, or where a peel chain continues
+  destinationSol?: number | undefined;
+  start: number;               // Timestamps of the first and last transfer
+  end: number;
+  signatures: string[];
+}
+
+// A SOL transfer into or out of the wallet
+interface SolFlow {
+  counterparty: string;
+  sol: number;
+  timestamp: number;
+  signature: string;
+}
+
+// Priority when several flow patterns are found: the most deliberate first
+const FLOW_PRIORITY: FlowPattern[] = ["peel_chain", "fan_in", "fan_out"];
 
 /**
  * Detect wallet clustering in transaction history
  * @param transactions - Parsed transaction history
  * @param walletAddress - The wallet being analyzed
+ * @param weights - Penalty weights from the active scoring profile
+ * @param linkedWallets - Wallets other detectors linked to this one, carried into the result
+ * @param ignoredAddresses - Addresses that are not real counterparties (dust senders, lookalikes)
  * @returns ClusteringResult with pattern analysis
  */
 export function detectClustering(
   transactions: ParsedTransaction[],
-  walletAddress: string
+  walletAddress: string,
+  weights: ScoringProfile["clustering"] = DEFAULT_PROFILE.clustering,
+  linkedWallets: LinkedWallet[] = [],
+  ignoredAddresses: ReadonlySet<string> = new Set()
 ): ClusteringResult {
-  try {
-    const addressCounts = new Map<string, number>();
-    let totalInteractions = 0;
-
-    // Count interactions with each address
-    for (const tx of transactions) {
-      // Analyze native transfers
-      for (const transfer of tx.nativeTransfers || []) {
-        const otherAddress =
-          transfer.fromUserAccount === walletAddress
-            ? transfer.toUserAccount
-            : transfer.fromUserAccount;
-
-        if (otherAddress && otherAddress !== walletAddress) {
-          addressCounts.set(
-            otherAddress,
-            (addressCounts.get(otherAddress) || 0) + 1
-          );
-          totalInteractions++;
-        }
-      }
-
-      // Analyze token transfers
-      for (const transfer of tx.tokenTransfers || []) {
-        const otherAddress =
-          transfer.fromUserAccount === walletAddress
-            ? transfer.toUserAccount
-            : transfer.fromUserAccount;
-
-        if (otherAddress && otherAddress !== walletAddress) {
-          addressCounts.set(
-            otherAddress,
-            (addressCounts.get(otherAddress) || 0) + 1
-          );
-          totalInteractions++;
-        }
-      }
+  const frequencies = new Map<string, AddressFrequency>();
+  const inflows: SolFlow[] = [];
+  const outflows: SolFlow[] = [];
+  let totalInteractions = 0;
+  let ignoredInteractions = 0;
+
+  // Count interactions with each address, by direction
+  const count = (from: string, to: string, sol: number, tx: ParsedTransaction) => {
+    const outbound = from === walletAddress;
+    const otherAddress = outbound ? to : from;
+    if (!otherAddress || otherAddress === walletAddress) return;
+    if (ignoredAddresses.has(otherAddress)) {
+      ignoredInteractions++;
+      return;
     }
 
-    // Not enough data to analyze
-    if (totalInteractions < ANALYSIS_CONFIG.MIN_TRANSACTIONS_FOR_PATTERN) {
-      console.log(`ℹ️  Not enough transactions for clustering analysis (${totalInteractions} interactions)`);
-      return {
-        detected: false,
-        clusteringPercentage: 0,
-        topAddresses: [],
-        dominantAddress: null,
-        totalUniqueAddresses: addressCounts.size,
-        totalTransactions: transactions.length,
-        riskContribution: 0,
-        pattern: "none",
-      };
+    const frequency = frequencies.get(otherAddress) ??
+      { address: otherAddress, count: 0, percentage: 0, inbound: 0, outbound: 0, solIn: 0, solOut: 0 };
+    frequency.count++;
+    if (outbound) {
+      frequency.outbound++;
+      frequency.solOut += sol;
+    } else if (to === walletAddress) {
+      frequency.inbound++;
+      frequency.solIn += sol;
     }
+    frequencies.set(otherAddress, frequency);
+    totalInteractions++;
 
-    // Sort addresses by frequency
-    const sortedAddresses = Array.from(addressCounts.entries())
-      .sort((a, b) => b[1] - a[1])
-      .map(([address, count]) => ({
-        address,
-        count,
-        percentage: (count / totalInteractions) * 100,
-      }));
-
-    const topAddresses = sortedAddresses.slice(0, 5);
-    const firstAddress = topAddresses[0];
-    const dominantAddress = firstAddress ? firstAddress.address : null;
-    const highestPercentage = firstAddress ? firstAddress.percentage : 0;
-
-    // Detect clustering pattern
-    const pattern = detectPattern(sortedAddresses, totalInteractions);
-    const clusteringDetected = 
-      highestPercentage >= ANALYSIS_CONFIG.CLUSTER_THRESHOLD_PERCENTAGE ||
-      pattern !== "none";
-
-    // Calculate risk contribution
-    let riskContribution = 0;
-    if (clusteringDetected) {
-      if (pattern === "single_counterparty") {
-        riskContribution = POINT_DEDUCTIONS.CLUSTER_DETECTED;
-      } else if (pattern === "wash_trading") {
-        riskContribution = POINT_DEDUCTIONS.CLUSTER_DETECTED + 10;
-      } else if (pattern === "small_cluster") {
-        riskContribution = Math.floor(POINT_DEDUCTIONS.CLUSTER_DETECTED * 0.7);
-      } else if (pattern === "funnel") {
-        riskContribution = Math.floor(POINT_DEDUCTIONS.CLUSTER_DETECTED * 0.5);
-      } else {
-        riskContribution = POINT_DEDUCTIONS.HIGH_FREQUENCY_SAME_ADDR;
-      }
+    if (sol > 0 && (outbound || to === walletAddress)) {
+      (outbound ? outflows : inflows).push({ counterparty: otherAddress, sol, timestamp: tx.timestamp, signature: tx.signature });
     }
+  };
 
-    const result: ClusteringResult = {
-      detected: clusteringDetected,
-      clusteringPercentage: highestPercentage,
-      topAddresses,
-      dominantAddress,
-      totalUniqueAddresses: addressCounts.size,
-      totalTransactions: transactions.length,
-      riskContribution,
-      pattern,
-    };
+  for (const tx of transactions) {
+    // Analyze native transfers
+    for (const transfer of tx.nativeTransfers || []) {
+      count(transfer.fromUserAccount, transfer.toUserAccount, transfer.amount / 1e9, tx); // Lamports to SOL
+    }
 
-    if (clusteringDetected) {
-      console.log(`⚠️  Clustering pattern detected: ${pattern}`);
-      console.log(`   - Highest concentration: ${highestPercentage.toFixed(1)}%`);
-      console.log(`   - Unique addresses: ${addressCounts.size}`);
-    } else {
-      console.log(`✅ No significant clustering detected`);
-      console.log(`   - ${addressCounts.size} unique counterparties`);
+    // Analyze token transfers - counted, but only SOL feeds the flow volumes
+    for (const transfer of tx.tokenTransfers || []) {
+      count(transfer.fromUserAccount, transfer.toUserAccount, 0, tx);
     }
+  }
 
-    return result;
-  } catch (error) {
-    console.error("❌ Error in clustering detection:", error);
+  const solIn = inflows.reduce((sum, f) => sum + f.sol, 0);
+  const solOut = outflows.reduce((sum, f) => sum + f.sol, 0);
+
+  // Not enough data to analyze
+  if (totalInteractions < ANALYSIS_CONFIG.MIN_TRANSACTIONS_FOR_PATTERN) {
+    log.info(`ℹ️  Not enough transactions for clustering analysis (${totalInteractions} interactions)`);
     return {
       detected: false,
       clusteringPercentage: 0,
       topAddresses: [],
       dominantAddress: null,
-      totalUniqueAddresses: 0,
+      totalUniqueAddresses: frequencies.size,
       totalTransactions: transactions.length,
       riskContribution: 0,
       pattern: "none",
+      flows: [],
+      solIn,
+      solOut,
+      linkedWallets,
+      ignoredInteractions,
     };
   }
+
+  // Sort addresses by frequency
+  const sortedAddresses = Array.from(frequencies.values())
+    .map(frequency => ({ ...frequency, percentage: (frequency.count / totalInteractions) * 100 }))
+    .sort((a, b) => b.count - a.count);
+
+  const topAddresses = sortedAddresses.slice(0, 5);
+  const firstAddress = topAddresses[0];
+  const dominantAddress = firstAddress ? firstAddress.address : null;
+  const highestPercentage = firstAddress ? firstAddress.percentage : 0;
+
+  // Detect clustering pattern
+  const byTime = (a: SolFlow, b: SolFlow) => a.timestamp - b.timestamp;
+  inflows.sort(byTime);
+  outflows.sort(byTime);
+  const flows = [
+    ...detectPeelChains(inflows, outflows),
+    ...detectFanIn(inflows, outflows),
+    ...detectFanOut(inflows, outflows),
+  ].sort((a, b) => FLOW_PRIORITY.indexOf(a.pattern) - FLOW_PRIORITY.indexOf(b.pattern) || b.solVolume - a.solVolume);
+  const pattern = detectPattern(sortedAddresses, flows);
+  const clusteringDetected = 
+    highestPercentage >= ANALYSIS_CONFIG.CLUSTER_THRESHOLD_PERCENTAGE ||
+    pattern !== "none";
+
+  // Calculate risk contribution
+  let riskContribution = 0;
+  if (clusteringDetected) {
+    if (pattern === "single_counterparty") {
+      riskContribution = weights.singleCounterparty;
+    } else if (pattern === "small_cluster") {
+      riskContribution = weights.smallCluster;
+    } else if (pattern === "peel_chain") {
+      riskContribution = weights.peelChain;
+    } else if (pattern === "fan_in") {
+      riskContribution = weights.fanIn;
+    } else if (pattern === "fan_out") {
+      riskContribution = weights.fanOut;
+    }
+  }
+
+  const result: ClusteringResult = {
+    detected: clusteringDetected,
+    clusteringPercentage: highestPercentage,
+    topAddresses,
+    dominantAddress,
+    totalUniqueAddresses: frequencies.size,
+    totalTransactions: transactions.length,
+    riskContribution,
+    pattern,
+    flows,
+    solIn,
+    solOut,
+    linkedWallets,
+    ignoredInteractions,
+  };
+
+  if (ignoredInteractions > 0) {
+    log.info(`🧹 Ignored ${ignoredInteractions} dust/lookalike transfer(s)`);
+  }
+  if (linkedWallets.length > 0) {
+    log.info(`🔗 Linked wallets from other detectors: ${linkedWallets.length}`);
+  }
+  if (clusteringDetected) {
+    log.info(`⚠️  Clustering pattern detected: ${pattern}`);
+    log.info(`   - Highest concentration: ${highestPercentage.toFixed(1)}%`);
+    log.info(`   - Unique addresses: ${frequencies.size}`);
+    for (const flow of flows) {
+      log.info(`   - ${flow.pattern}: ${flow.counterpartyCount} counterparties, ${flow.solVolume.toFixed(4)} SOL`);
+    }
+  } else {
+    log.info(`✅ No significant clustering detected`);
+    log.info(`   - ${frequencies.size} unique counterparties`);
+  }
+
+  return result;
 }
 
 /**
  * Detect the type of clustering pattern
+ * Concentration on a few counterparties comes first, then the strongest flow pattern.
  */
 function detectPattern(
   sortedAddresses: AddressFrequency[],
-  totalInteractions: number
+  flows: FlowFinding[]
 ): ClusterPattern {
   if (sortedAddresses.length === 0) return "none";
   const firstAddress = sortedAddresses[0];
@@ -191,97 +265,388 @@ function detectPattern(
     }
   }
 
-  // Funnel: many addresses but concentrated outputs
-  if (sortedAddresses.length >= 10) {
-    const top5Percentage = sortedAddresses
-      .slice(0, 5)
-      .reduce((sum, a) => sum + a.percentage, 0);
-    
-    if (top5Percentage >= 70) {
-      return "funnel";
+  return flows[0]?.pattern ?? "none";
+}
+
+/**
+ * Fan-in: many distinct senders within FLOW_WINDOW_SECONDS, then one outflow carrying
+ * most of what they sent (consolidation)
+ */
+function detectFanIn(inflows: SolFlow[], outflows: SolFlow[]): FlowFinding[] {
+  const window = ANALYSIS_CONFIG.FLOW_WINDOW_SECONDS;
+  const findings: FlowFinding[] = [];
+  let consumedUntil = -Infinity;
+
+  for (const outflow of outflows) {
+    const gathered = inflows.filter(f =>
+      f.timestamp > consumedUntil &&
+      f.timestamp <= outflow.timestamp &&
+      outflow.timestamp - f.timestamp <= window &&
+      f.counterparty !== outflow.counterparty
+    );
+    const senders = new Set(gathered.map(f => f.counterparty));
+    const solGathered = gathered.reduce((sum, f) => sum + f.sol, 0);
+    const first = gathered[0];
+    if (!first || senders.size < ANALYSIS_CONFIG.FLOW_FAN_MIN_COUNTERPARTIES) continue;
+    if (outflow.sol < solGathered * ANALYSIS_CONFIG.FLOW_CONSOLIDATION_SHARE) continue;
+
+    findings.push({
+      pattern: "fan_in",
+      counterpartyCount: senders.size,
+      transfers: gathered.length,
+      solVolume: solGathered,
+      destination: outflow.counterparty,
+      destinationSol: outflow.sol,
+      start: first.timestamp,
+      end: outflow.timestamp,
+      signatures: uniqueSignatures([...gathered, outflow]),
+    });
+    consumedUntil = outflow.timestamp;
+  }
+
+  return findings;
+}
+
+/**
+ * Fan-out: the wallet paying many distinct recipients within FLOW_WINDOW_SECONDS,
+ * none of them taking most of the volume (distribution, payroll, airdrops)
+ */
+function detectFanOut(inflows: SolFlow[], outflows: SolFlow[]): FlowFinding[] {
+  const window = ANALYSIS_CONFIG.FLOW_WINDOW_SECONDS;
+  const findings: FlowFinding[] = [];
+
+  let start = 0;
+  while (start < outflows.length) {
+    const first = outflows[start];
+    if (!first) break;
+    // Grow the burst while transfers stay within the window of its first one
+    const burstStart = first.timestamp;
+    let end = start;
+    while ((outflows[end + 1]?.timestamp ?? Infinity) - burstStart <= window) end++;
+    const burst = outflows.slice(start, end + 1);
+    const recipients = new Map<string, number>();
+    for (const f of burst) recipients.set(f.counterparty, (recipients.get(f.counterparty) ?? 0) + f.sol);
+    const solSent = burst.reduce((sum, f) => sum + f.sol, 0);
+    const largestShare = solSent > 0 ? Math.max(...recipients.values()) / solSent : 1;
+
+    if (recipients.size >= ANALYSIS_CONFIG.FLOW_FAN_MIN_COUNTERPARTIES && largestShare < ANALYSIS_CONFIG.FLOW_CONSOLIDATION_SHARE) {
+      // The inflow that funded the burst, if one came shortly before it
+      const funding = inflows
+        .filter(f => f.timestamp <= burstStart && burstStart - f.timestamp <= window)
+        .sort((a, b) => b.sol - a.sol)[0];
+      findings.push({
+        pattern: "fan_out",
+        counterpartyCount: recipients.size,
+        transfers: burst.length,
+        solVolume: solSent,
+        start: burstStart,
+        end: (outflows[end] ?? first).timestamp,
+        signatures: uniqueSignatures(funding ? [funding, ...burst] : burst),
+      });
+      start = end + 1;
+    } else {
+      start++;
     }
   }
 
-  return "none";
+  return findings;
 }
 
 /**
- * Detect potential wash trading patterns
+ * Peel chain hop: an inflow forwarded almost entirely as a small "peel" to one address and the
+ * large remainder to an address the wallet never dealt with before, where the chain continues
+ */
+function detectPeelChains(inflows: SolFlow[], outflows: SolFlow[]): FlowFinding[] {
+  const window = ANALYSIS_CONFIG.FLOW_WINDOW_SECONDS;
+  const firstSeen = new Map<string, number>();
+  for (const f of [...inflows, ...outflows]) {
+    firstSeen.set(f.counterparty, Math.min(firstSeen.get(f.counterparty) ?? Infinity, f.timestamp));
+  }
+
+  const used = new Set<SolFlow>();
+  const hops: { inflow: SolFlow; peel: SolFlow; remainder: SolFlow }[] = [];
+  for (const inflow of inflows) {
+    if (inflow.sol < ANALYSIS_CONFIG.FLOW_PEEL_MIN_SOL) continue;
+    const after = outflows.filter(f =>
+      !used.has(f) && f.timestamp >= inflow.timestamp && f.timestamp - inflow.timestamp <= window
+    );
+
+    const remainder = after.find(f =>
+      f.sol >= inflow.sol * ANALYSIS_CONFIG.FLOW_PEEL_REMAINDER_SHARE &&
+      f.sol <= inflow.sol &&
+      firstSeen.get(f.counterparty) === f.timestamp
+    );
+    if (!remainder) continue;
+    const peel = after.find(f =>
+      f !== remainder &&
+      f.counterparty !== remainder.counterparty &&
+      f.sol <= inflow.sol * ANALYSIS_CONFIG.FLOW_PEEL_MAX_SHARE &&
+      f.sol + remainder.sol <= inflow.sol &&
+      f.sol + remainder.sol >= inflow.sol * (1 - ANALYSIS_CONFIG.FLOW_PEEL_MAX_LEFTOVER)
+    );
+    if (!peel) continue;
+
+    used.add(remainder);
+    used.add(peel);
+    hops.push({ inflow, peel, remainder });
+  }
+
+  const first = hops[0];
+  const last = hops[hops.length - 1];
+  if (!first || !last) return [];
+  return [{
+    pattern: "peel_chain",
+    counterpartyCount: new Set(hops.map(h => h.peel.counterparty)).size,
+    transfers: hops.length * 3,
+    solVolume: hops.reduce((sum, h) => sum + h.inflow.sol, 0),
+    destination: last.remainder.counterparty,
+    destinationSol: last.remainder.sol,
+    start: first.inflow.timestamp,
+    end: Math.max(last.peel.timestamp, last.remainder.timestamp),
+    signatures: uniqueSignatures(hops.flatMap(h => [h.inflow, h.peel, h.remainder])),
+  }];
+}
+
+function uniqueSignatures(flows: SolFlow[]): string[] {
+  return [...new Set(flows.map(f => f.signature))];
+}
+
+/**
+ * Detect wash trading: assets sent to a counterparty and coming back (or tokens bought and sold back)
+ * in a similar amount within WASH_MAX_ROUND_TRIP_SECONDS, repeatedly
  * @param transactions - Parsed transactions
  * @param walletAddress - Wallet to analyze
- * @returns Detection result
+ * @param weights - Penalty weights from the active scoring profile
+ * @returns Detection result with per-pair cycles and their signatures
  */
 export function detectWashTrading(
   transactions: ParsedTransaction[],
-  walletAddress: string
-): { detected: boolean; pairs: WashTradePair[] } {
-  const pairs: WashTradePair[] = [];
-  const addressTimelines = new Map<string, { sent: number[]; received: number[] }>();
-
-  try {
-    // Build timeline of sends/receives per address
-    for (const tx of transactions) {
-      for (const transfer of tx.nativeTransfers || []) {
-        if (transfer.fromUserAccount === walletAddress && transfer.toUserAccount) {
-          const timeline = addressTimelines.get(transfer.toUserAccount) || 
-            { sent: [], received: [] };
-          timeline.sent.push(tx.timestamp);
-          addressTimelines.set(transfer.toUserAccount, timeline);
-        }
-
-        if (transfer.toUserAccount === walletAddress && transfer.fromUserAccount) {
-          const timeline = addressTimelines.get(transfer.fromUserAccount) || 
-            { sent: [], received: [] };
-          timeline.received.push(tx.timestamp);
-          addressTimelines.set(transfer.fromUserAccount, timeline);
-        }
-      }
+  walletAddress: string,
+  weights: ScoringProfile["washTrading"] = DEFAULT_PROFILE.washTrading
+): WashTradingResult {
+  const sorted = [...transactions].sort((a, b) => a.timestamp - b.timestamp);
+  const pairs = [
+    ...transferRoundTrips(sorted, walletAddress),
+    ...swapRoundTrips(sorted),
+  ].sort((a, b) => b.cycles.length - a.cycles.length);
+
+  const totalCycles = pairs.reduce((sum, p) => sum + p.cycles.length, 0);
+  const riskContribution = Math.min(
+    weights.cap,
+    pairs.length * weights.points + totalCycles * weights.cyclePoints
+  );
+
+  if (pairs.length > 0) {
+    log.info(`⚠️  Wash trading: ${totalCycles} round trip(s) across ${pairs.length} pair(s)`);
+  }
+
+  return {
+    detected: pairs.length > 0,
+    pairs,
+    totalCycles,
+    riskContribution,
+  };
+}
+
+export interface WashTradingResult {
+  detected: boolean;
+  pairs: WashTradePair[]; // Most cycles first
+  totalCycles: number;
+  riskContribution: number;
+}
+
+export interface WashTradePair {
+  address: string;            // Counterparty, or the venue of the first swap for buy-and-sell-back cycles
+  kind: "transfer" | "swap";
+  asset: string;              // "SOL" or the mint that went round
+  sendCount: number;          // Legs leaving the wallet
+  receiveCount: number;       // Legs coming back
+  cycles: WashCycle[];
+  volume: number;             // Amount of the asset that went round, summed over the first legs
+}
+
+export interface WashCycle {
+  direction: "out_in" | "in_out"; // Whether the asset left the wallet first or arrived first
+  amounts: [number, number];      // First and second leg
+  startedAt: number;
+  roundTripSeconds: number;
+  signatures: [string, string];   // First and second leg
+}
+
+// One movement of an asset between the wallet and a counterparty
+interface WashLeg {
+  key: string;      // Counterparty and asset
+  address: string;
+  asset: string;
+  direction: "out" | "in";
+  amount: number;
+  timestamp: number;
+  signature: string;
+}
+
+/**
+ * No round-trip pairs
+ */
+export function emptyWashTradingResult(): WashTradingResult {
+  return { detected: false, pairs: [], totalCycles: 0, riskContribution: 0 };
+}
+
+/**
+ * SOL and token transfers that go to a counterparty and come back
+ * Swap transactions are left to swapRoundTrips - their transfers go to pools, not counterparties.
+ */
+function transferRoundTrips(transactions: ParsedTransaction[], walletAddress: string): WashTradePair[] {
+  const legs: WashLeg[] = [];
+  const add = (asset: string, amount: number, from: string, to: string, tx: ParsedTransaction) => {
+    if (!(amount > 0) || !from || !to || from === to) return;
+    const outbound = from === walletAddress;
+    if (!outbound && to !== walletAddress) return;
+    const address = outbound ? to : from;
+    legs.push({
+      key: `${address}:${asset}`,
+      address,
+      asset,
+      direction: outbound ? "out" : "in",
+      amount,
+      timestamp: tx.timestamp,
+      signature: tx.signature,
+    });
+  };
+
+  for (const tx of transactions) {
+    if (tx.type === "SWAP" || tx.events?.swap) continue;
+    for (const transfer of tx.nativeTransfers || []) {
+      add("SOL", transfer.amount / 1e9, transfer.fromUserAccount, transfer.toUserAccount, tx); // Lamports to SOL
     }
+    for (const transfer of tx.tokenTransfers || []) {
+      add(transfer.mint, transfer.tokenAmount, transfer.fromUserAccount, transfer.toUserAccount, tx);
+    }
+  }
 
-    // Look for back-and-forth patterns
-    for (const [address, timeline] of addressTimelines) {
-      if (timeline.sent.length >= 2 && timeline.received.length >= 2) {
-        // Check for alternating pattern
-        const allTimestamps = [
-          ...timeline.sent.map(t => ({ t, type: "sent" })),
-          ...timeline.received.map(t => ({ t, type: "received" })),
-        ].sort((a, b) => a.t - b.t);
-
-        let alternations = 0;
-        for (let i = 1; i < allTimestamps.length; i++) {
-          const current = allTimestamps[i];
-          const previous = allTimestamps[i - 1];
-          if (current && previous && current.type !== previous.type) {
-            alternations++;
-          }
-        }
-
-        if (alternations >= 3) {
-          pairs.push({
-            address,
-            sendCount: timeline.sent.length,
-            receiveCount: timeline.received.length,
-            alternations,
-          });
-        }
-      }
+  return pairRoundTrips(legs, "transfer");
+}
+
+/**
+ * Tokens bought and sold back: a swap from P to Q, then a swap from Q back to P of about the same amount of Q
+ * Each swap is reduced to one leg on the token that was bought or sold, so P's side is not counted twice.
+ */
+function swapRoundTrips(transactions: ParsedTransaction[]): WashTradePair[] {
+  const legs: WashLeg[] = [];
+  const open = new Map<string, number>(); // Tokens bought, by "given>bought" asset pair
+
+  for (const tx of transactions) {
+    const swap = tx.events?.swap;
+    if (!swap) continue;
+    const given = swap.tokenInputs?.[0] ?? (swap.nativeInput ? { mint: "SOL", amount: swap.nativeInput.amount / 1e9 } : undefined);
+    const received = swap.tokenOutputs?.[0] ?? (swap.nativeOutput ? { mint: "SOL", amount: swap.nativeOutput.amount / 1e9 } : undefined);
+    if (!given || !received || given.mint === received.mint) continue;
+
+    // Selling back a token bought earlier for the same asset closes a cycle on it, on any venue
+    const venue = tx.source || "swap";
+    const sellBack = (open.get(`${received.mint}>${given.mint}`) ?? 0) > 0;
+    const [asset, direction, amount] = sellBack
+      ? [given.mint, "out" as const, given.amount]
+      : [received.mint, "in" as const, received.amount];
+    const pairKey = sellBack ? `${received.mint}>${given.mint}` : `${given.mint}>${received.mint}`;
+    open.set(pairKey, (open.get(pairKey) ?? 0) + (sellBack ? -1 : 1));
+
+    legs.push({
+      key: pairKey,
+      address: venue,
+      asset,
+      direction,
+      amount,
+      timestamp: tx.timestamp,
+      signature: tx.signature,
+    });
+  }
+
+  return pairRoundTrips(legs, "swap");
+}
+
+/**
+ * Match each leg with the next opposite leg of the same pair and a similar amount within the time window
+ * Pairs with at least WASH_MIN_CYCLES round trips are reported.
+ */
+function pairRoundTrips(legs: WashLeg[], kind: WashTradePair["kind"]): WashTradePair[] {
+  const byKey = new Map<string, WashLeg[]>();
+  for (const leg of legs) byKey.set(leg.key, [...(byKey.get(leg.key) ?? []), leg]);
+
+  const pairs: WashTradePair[] = [];
+  for (const group of byKey.values()) {
+    if (!group.some(l => l.direction === "out") || !group.some(l => l.direction === "in")) continue;
+
+    const used = new Set<WashLeg>();
+    const cycles: WashCycle[] = [];
+    for (const first of group) {
+      if (used.has(first)) continue;
+      const second = group.find(l =>
+        !used.has(l) &&
+        l !== first &&
+        l.direction !== first.direction &&
+        l.timestamp >= first.timestamp &&
+        l.timestamp - first.timestamp <= ANALYSIS_CONFIG.WASH_MAX_ROUND_TRIP_SECONDS &&
+        Math.abs(l.amount - first.amount) <= Math.max(l.amount, first.amount) * ANALYSIS_CONFIG.WASH_AMOUNT_TOLERANCE
+      );
+      if (!second) continue;
+      used.add(first);
+      used.add(second);
+      cycles.push({
+        direction: first.direction === "out" ? "out_in" : "in_out",
+        amounts: [first.amount, second.amount],
+        startedAt: first.timestamp,
+        roundTripSeconds: second.timestamp - first.timestamp,
+        signatures: [first.signature, second.signature],
+      });
     }
 
-    return {
-      detected: pairs.length > 0,
-      pairs,
-    };
-  } catch (error) {
-    console.error("❌ Error detecting wash trading:", error);
-    return { detected: false, pairs: [] };
+    if (cycles.length < ANALYSIS_CONFIG.WASH_MIN_CYCLES) continue;
+    const [{ address, asset }] = group as [WashLeg];
+    pairs.push({
+      address,
+      kind,
+      asset,
+      sendCount: group.filter(l => l.direction === "out").length,
+      receiveCount: group.filter(l => l.direction === "in").length,
+      cycles,
+      volume: cycles.reduce((sum, c) => sum + c.amounts[0], 0),
+    });
   }
+
+  return pairs;
 }
 
-export interface WashTradePair {
-  address: string;
-  sendCount: number;
-  receiveCount: number;
-  alternations: number;
+/**
+ * Generate warnings based on wash trading results
+ * @param result - Wash trading detection result
+ * @returns Array of warning messages
+ */
+export function generateWashTradingWarnings(result: WashTradingResult): string[] {
+  return result.pairs.slice(0, 5).map(pair => {
+    const asset = pair.asset === "SOL" ? "SOL" : shortenAddress(pair.asset);
+    const median = pair.cycles.map(c => c.roundTripSeconds).sort((a, b) => a - b)[Math.floor(pair.cycles.length / 2)] ?? 0;
+    return pair.kind === "swap"
+      ? `${asset} was bought and sold back ${pair.cycles.length} times on ${pair.address} (${pair.volume.toFixed(4)} ${asset}, ` +
+          `typically within ${formatSpan(median)}). Buy-and-sell-back cycles are a textbook wash trading signal.`
+      : `${pair.volume.toFixed(4)} ${asset} went back and forth with ${shortenAddress(pair.address)} in ${pair.cycles.length} round trips ` +
+          `(typically within ${formatSpan(median)}). Round trips of the same amount are easily identifiable on-chain.`;
+  });
+}
+
+/**
+ * Generate recommendations for wash trading findings
+ * @param result - Wash trading detection result
+ * @returns Array of recommended actions
+ */
+export function generateWashTradingActions(result: WashTradingResult): string[] {
+  const actions: string[] = [];
+  if (result.pairs.some(p => p.kind === "transfer")) {
+    actions.push("Avoid repetitive back-and-forth transactions with the same address.");
+  }
+  if (result.pairs.some(p => p.kind === "swap")) {
+    actions.push("Don't buy and sell back the same token in quick succession - it looks like volume inflation and links the trades.");
+  }
+  return actions;
 }
 
 /**
@@ -305,18 +670,30 @@ export function generateClusteringWarnings(result: ClusteringResult): string[] {
           `This clustering pattern can be used to link your wallets.`
       );
       break;
-    case "wash_trading":
-      warnings.push(
-        `Suspicious back-and-forth transaction pattern detected. ` +
-          `This behavior is easily identifiable on-chain.`
-      );
-      break;
-    case "funnel":
-      warnings.push(
-        `Funnel pattern detected: many sources funneling to few destinations. ` +
-          `This pattern suggests wallet consolidation.`
-      );
-      break;
+  }
+
+  for (const flow of result.flows) {
+    const destination = flow.destination ? shortenAddress(flow.destination) : "one address";
+    switch (flow.pattern) {
+      case "fan_in":
+        warnings.push(
+          `Fan-in: ${flow.counterpartyCount} senders sent ${flow.solVolume.toFixed(4)} SOL that was consolidated ` +
+            `into ${destination} (${(flow.destinationSol ?? 0).toFixed(4)} SOL). Consolidation links every sender to one owner.`
+        );
+        break;
+      case "fan_out":
+        warnings.push(
+          `Fan-out: ${flow.solVolume.toFixed(4)} SOL paid to ${flow.counterpartyCount} recipients within ` +
+            `${formatSpan(flow.end - flow.start)}. Distribution bursts tie the recipients to this wallet.`
+        );
+        break;
+      case "peel_chain":
+        warnings.push(
+          `Peel chain: ${flow.solVolume.toFixed(4)} SOL received and forwarded as small payments plus a large remainder ` +
+            `to a fresh address (${destination}). Peel chains are easy to follow hop by hop.`
+        );
+        break;
+    }
   }
 
   return warnings;
@@ -340,9 +717,20 @@ export function generateClusteringActions(result: ClusteringResult): string[] {
     );
   }
 
-  if (result.pattern === "wash_trading") {
+  const flowPatterns = new Set(result.flows.map(f => f.pattern));
+  if (flowPatterns.has("fan_in")) {
     actions.push(
-      "Avoid repetitive back-and-forth transactions with the same address."
+      "Don't consolidate funds from many wallets into one - spend from each wallet separately."
+    );
+  }
+  if (flowPatterns.has("fan_out")) {
+    actions.push(
+      "Spread payouts over time and fund them from separate wallets instead of one distribution burst."
+    );
+  }
+  if (flowPatterns.has("peel_chain")) {
+    actions.push(
+      "Sending the change to a fresh address doesn't hide it - the remainder is the easiest output to follow."
     );
   }
 
@@ -352,3 +740,9 @@ export function generateClusteringActions(result: ClusteringResult): string[] {
 
   return actions;
 }
+
+function formatSpan(seconds: number): string {
+  if (seconds < 120) return `${seconds}s`;
+  if (seconds < 7200) return `${Math.round(seconds / 60)} min`;
+  return `${Math.round(seconds / 3600)} h`;
+}
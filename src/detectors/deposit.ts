@@ -0,0 +1,290 @@
+/**
+ * Deposit Address Detector - Finds unlabeled CEX deposit addresses
+ * Exchanges give each user their own deposit address and sweep it into a hot wallet.
+ * Follows the wallet's outgoing counterparties one hop and flags those that forward most
+ * of what they receive to a known hot wallet shortly afterwards.
+ */
+
+import type { ParsedTransaction } from "../services/helius";
+import type { TransactionSource } from "../services/source";
+import { getLabelRegistry } from "../labels/registry";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { shortenAddress } from "../utils/format";
+import { log } from "../utils/logger";
+
+export interface DepositAddressOptions {
+  maxCandidates: number;      // Outgoing counterparties followed, largest first
+  historyDepth: number;       // Transactions fetched per counterparty
+  sweepWindowSeconds: number; // Longest delay between receiving funds and sweeping them
+  minForwardedShare: number;  // Share of inflow swept to a hot wallet to count as a deposit address
+}
+
+export interface ProbableDepositAddress {
+  address: string;
+  label: "probable CEX deposit address";
+  exchangeName: string;
+  exchangeAddress: string;           // Hot wallet most of the funds were swept to
+  confidence: number;                // 0-1
+  solSent: number;                   // SOL the analyzed wallet sent to the address
+  solReceived: number;               // All SOL the address received
+  solSwept: number;                  // SOL it forwarded to the hot wallet within the sweep window
+  forwardedShare: number;            // solSwept / solReceived, 0-1
+  medianSweepDelaySeconds: number;
+  signatures: string[];              // Wallet transfers into the address, then its sweeps
+}
+
+export interface DepositAddressResult {
+  detected: boolean;
+  depositAddresses: ProbableDepositAddress[]; // Most confident first
+  exchangesInvolved: string[];
+  candidatesChecked: number;
+  truncated: boolean; // Some counterparties were skipped or their histories unavailable
+  riskContribution: number;
+}
+
+// SOL the wallet sent to one counterparty
+interface Candidate {
+  address: string;
+  sol: number;
+  signatures: string[];
+}
+
+// A transfer into or out of a candidate, from its own history
+interface Flow {
+  counterparty: string;
+  sol: number;
+  timestamp: number;
+  signature: string;
+}
+
+export function defaultDepositAddressOptions(): DepositAddressOptions {
+  return {
+    maxCandidates: ANALYSIS_CONFIG.DEPOSIT_MAX_CANDIDATES,
+    historyDepth: ANALYSIS_CONFIG.DEPOSIT_HISTORY_DEPTH,
+    sweepWindowSeconds: ANALYSIS_CONFIG.DEPOSIT_SWEEP_WINDOW_SECONDS,
+    minForwardedShare: ANALYSIS_CONFIG.DEPOSIT_MIN_FORWARDED_SHARE,
+  };
+}
+
+/**
+ * No deposit addresses, and no candidates checked
+ */
+export function emptyDepositAddressResult(): DepositAddressResult {
+  return {
+    detected: false,
+    depositAddresses: [],
+    exchangesInvolved: [],
+    candidatesChecked: 0,
+    truncated: false,
+    riskContribution: 0,
+  };
+}
+
+/**
+ * Find the wallet's outgoing counterparties that behave like CEX deposit addresses
+ * @param transactions - The wallet's parsed history
+ * @param walletAddress - The wallet being analyzed
+ * @param source - Where counterparties' histories are fetched from
+ * @param weights - Penalty weights from the active scoring profile
+ * @param options - Candidate budget, history depth and sweep thresholds
+ * @param signal - Cancels the lookups
+ * @returns DepositAddressResult with each probable deposit address and its evidence
+ */
+export async function detectDepositAddresses(
+  transactions: ParsedTransaction[],
+  walletAddress: string,
+  source: TransactionSource,
+  weights: ScoringProfile["cex"] = DEFAULT_PROFILE.cex,
+  options: DepositAddressOptions = defaultDepositAddressOptions(),
+  signal?: AbortSignal | undefined
+): Promise<DepositAddressResult> {
+  const candidates = collectCandidates(transactions, walletAddress);
+  const followed = candidates.slice(0, options.maxCandidates);
+  let truncated = candidates.length > followed.length;
+
+  const found = await mapWithConcurrency(followed, ANALYSIS_CONFIG.SCREENING_CONCURRENCY, async candidate => {
+    try {
+      const history = await source.getHistory(candidate.address, { maxTransactions: options.historyDepth }, { signal });
+      if (history.coverage.simulated) return null; // Demo data - nothing real to inspect
+      return classifyCandidate(candidate, history.transactions, options);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      log.error(`❌ Could not fetch history of ${candidate.address}:`, error);
+      truncated = true;
+      return null;
+    }
+  }, signal);
+
+  const depositAddresses = found
+    .filter((d): d is ProbableDepositAddress => d !== null)
+    .sort((a, b) => b.confidence - a.confidence || b.solSent - a.solSent);
+  const riskContribution = Math.min(
+    weights.cap,
+    Math.round(depositAddresses.reduce((sum, d) => sum + d.confidence * weights.depositAddressPoints, 0))
+  );
+
+  if (depositAddresses.length > 0) {
+    log.info(`⚠️  Probable CEX deposit addresses: ${depositAddresses.length}`);
+    for (const d of depositAddresses) {
+      log.info(`   - ${d.address} → ${d.exchangeName} (${Math.round(d.confidence * 100)}% confidence)`);
+    }
+  }
+
+  return {
+    detected: depositAddresses.length > 0,
+    depositAddresses,
+    exchangesInvolved: [...new Set(depositAddresses.map(d => d.exchangeName))],
+    candidatesChecked: followed.length,
+    truncated,
+    riskContribution,
+  };
+}
+
+/**
+ * Unlabeled addresses the wallet sent SOL to, largest total first
+ * Labeled entities (exchanges, DEXes, bridges, ...) are already identified and skipped.
+ */
+function collectCandidates(transactions: ParsedTransaction[], walletAddress: string): Candidate[] {
+  const registry = getLabelRegistry();
+  const candidates = new Map<string, Candidate>();
+
+  for (const tx of transactions) {
+    for (const transfer of tx.nativeTransfers ?? []) {
+      const to = transfer.toUserAccount;
+      if (transfer.fromUserAccount !== walletAddress || !to || to === walletAddress || registry.get(to)) continue;
+      const candidate = candidates.get(to) ?? { address: to, sol: 0, signatures: [] };
+      candidate.sol += transfer.amount / 1e9; // Convert lamports to SOL
+      if (!candidate.signatures.includes(tx.signature)) candidate.signatures.push(tx.signature);
+      candidates.set(to, candidate);
+    }
+  }
+
+  return [...candidates.values()].sort((a, b) => b.sol - a.sol);
+}
+
+/**
+ * Decide whether a counterparty's own history looks like a deposit address
+ * Each sweep to a hot wallet is matched to the latest inflow before it; sweeps that come
+ * within the window count as forwarded.
+ */
+function classifyCandidate(
+  candidate: Candidate,
+  transactions: ParsedTransaction[],
+  options: DepositAddressOptions
+): ProbableDepositAddress | null {
+  const registry = getLabelRegistry();
+  const inflows: Flow[] = [];
+  const outflows: Flow[] = [];
+
+  for (const tx of transactions) {
+    for (const transfer of tx.nativeTransfers ?? []) {
+      const sol = transfer.amount / 1e9;
+      if (transfer.toUserAccount === candidate.address && transfer.fromUserAccount && transfer.fromUserAccount !== candidate.address) {
+        inflows.push({ counterparty: transfer.fromUserAccount, sol, timestamp: tx.timestamp, signature: tx.signature });
+      } else if (transfer.fromUserAccount === candidate.address && transfer.toUserAccount && transfer.toUserAccount !== candidate.address) {
+        outflows.push({ counterparty: transfer.toUserAccount, sol, timestamp: tx.timestamp, signature: tx.signature });
+      }
+    }
+  }
+
+  const solReceived = inflows.reduce((sum, f) => sum + f.sol, 0);
+  const solSent = outflows.reduce((sum, f) => sum + f.sol, 0);
+  if (solReceived <= 0) return null;
+
+  // Sweeps to hot wallets that follow an inflow within the window, per hot wallet
+  const sweepsByHotWallet = new Map<string, Flow[]>();
+  const delays: number[] = [];
+  for (const outflow of outflows) {
+    if (!registry.get(outflow.counterparty, "cex")) continue;
+    const latestInflow = inflows
+      .filter(f => f.timestamp <= outflow.timestamp)
+      .reduce<Flow | null>((latest, f) => (!latest || f.timestamp > latest.timestamp ? f : latest), null);
+    if (!latestInflow || outflow.timestamp - latestInflow.timestamp > options.sweepWindowSeconds) continue;
+    delays.push(outflow.timestamp - latestInflow.timestamp);
+    sweepsByHotWallet.set(outflow.counterparty, [...(sweepsByHotWallet.get(outflow.counterparty) ?? []), outflow]);
+  }
+
+  const sweeps = [...sweepsByHotWallet.values()].flat();
+  const solSwept = sweeps.reduce((sum, f) => sum + f.sol, 0);
+  const forwardedShare = Math.min(1, solSwept / solReceived);
+  if (forwardedShare < options.minForwardedShare) return null;
+
+  const [hotWallet] = [...sweepsByHotWallet.entries()]
+    .map(([address, flows]) => ({ address, sol: flows.reduce((sum, f) => sum + f.sol, 0) }))
+    .sort((a, b) => b.sol - a.sol);
+  const exchange = registry.get(hotWallet?.address, "cex");
+  if (!exchange) return null;
+
+  const medianDelay = median(delays);
+  const confidence = depositConfidence(forwardedShare, solSwept / solSent, medianDelay, options.sweepWindowSeconds);
+
+  return {
+    address: candidate.address,
+    label: "probable CEX deposit address",
+    exchangeName: exchange.entity,
+    exchangeAddress: exchange.address,
+    confidence,
+    solSent: candidate.sol,
+    solReceived,
+    solSwept,
+    forwardedShare,
+    medianSweepDelaySeconds: medianDelay,
+    signatures: [...candidate.signatures, ...sweeps.map(f => f.signature)].filter((s, i, all) => all.indexOf(s) === i),
+  };
+}
+
+/**
+ * Confidence, 0-1
+ * forwarded share - how much of the inflow reached the hot wallet (50%)
+ * exclusivity     - deposit addresses send nowhere else (30%)
+ * speed           - sweeps within an hour score full marks, fading to half at the window's end (20%)
+ */
+function depositConfidence(
+  forwardedShare: number,
+  exclusivity: number,
+  medianDelaySeconds: number,
+  windowSeconds: number
+): number {
+  const speed = medianDelaySeconds <= 3600
+    ? 1
+    : 1 - 0.5 * Math.min(1, (medianDelaySeconds - 3600) / Math.max(1, windowSeconds - 3600));
+  const confidence = forwardedShare * 0.5 + Math.min(1, exclusivity) * 0.3 + speed * 0.2;
+  return Math.round(confidence * 100) / 100;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const upper = sorted[middle];
+  const lower = sorted[middle - 1];
+  if (upper === undefined) return 0;
+  return sorted.length % 2 === 0 && lower !== undefined ? (lower + upper) / 2 : upper;
+}
+
+/**
+ * Generate warnings for probable deposit addresses
+ * @param result - Deposit address detection result
+ * @returns Array of warning messages
+ */
+export function generateDepositAddressWarnings(result: DepositAddressResult): string[] {
+  return result.depositAddresses.map(d =>
+    `Probable CEX deposit address: ${shortenAddress(d.address)} forwarded ${(d.forwardedShare * 100).toFixed(0)}% of its inflow ` +
+      `to ${d.exchangeName} (${Math.round(d.confidence * 100)}% confidence). ` +
+      `You sent it ${d.solSent.toFixed(4)} SOL, linking this wallet to your ${d.exchangeName} account.`
+  );
+}
+
+/**
+ * Generate action recommendations for probable deposit addresses
+ * @param result - Deposit address detection result
+ * @returns Array of recommended actions
+ */
+export function generateDepositAddressActions(result: DepositAddressResult): string[] {
+  if (!result.detected) return [];
+  return [
+    `Deposits into ${result.exchangesInvolved.join(", ")} tie this wallet to a KYC account even through a personal deposit address - fund exchange deposits from a separate wallet.`,
+  ];
+}
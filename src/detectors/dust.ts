@@ -0,0 +1,274 @@
+/**
+ * Dust Detector - Finds dusting and address poisoning
+ * Attackers send tiny unsolicited amounts to track where a wallet's funds go, and send from
+ * addresses that share a real counterparty's first and last characters so a careless copy-paste
+ * from the history pays them instead. Neither sender is a real counterparty.
+ */
+
+import type { ParsedTransaction } from "../services/helius";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { shortenAddress } from "../utils/format";
+import { log } from "../utils/logger";
+
+export interface DustTransfer {
+  from: string;
+  asset: string;           // "SOL" or a token mint
+  amount: number;
+  timestamp: number;
+  signature: string;
+}
+
+export interface PoisoningAttempt {
+  address: string;         // The lookalike
+  imitates: string;        // The real counterparty (or the wallet itself) it copies
+  firstSeen: number;
+  transfers: number;       // Transfers between the wallet and the lookalike
+  sentFunds: boolean;      // The wallet later sent funds to the lookalike
+  solSent: number;
+  signatures: string[];
+}
+
+export interface DustResult {
+  detected: boolean;
+  dustTransfers: DustTransfer[];        // Earliest first
+  dustSenders: string[];
+  poisoningAttempts: PoisoningAttempt[]; // Attempts the wallet fell for first
+  ignoredAddresses: string[];           // Dust senders and unpaid lookalikes - left out of clustering and screening
+  riskContribution: number;
+}
+
+// Every transfer between the wallet and one counterparty
+interface Counterparty {
+  address: string;
+  firstSeen: number;
+  firstSent: number | null; // First time the wallet sent to it
+  inbound: number;
+  inboundDust: number;
+  outbound: number;
+  solSent: number;
+  signatures: Set<string>;
+}
+
+const SOL = "SOL";
+
+/**
+ * No dust or poisoning attempts, and no senders for clustering to ignore
+ */
+export function emptyDustResult(): DustResult {
+  return {
+    detected: false,
+    dustTransfers: [],
+    dustSenders: [],
+    poisoningAttempts: [],
+    ignoredAddresses: [],
+    riskContribution: 0,
+  };
+}
+
+/**
+ * Classify inbound dust and find lookalike counterparties
+ * @param transactions - Parsed transaction history
+ * @param walletAddress - The wallet being analyzed
+ * @param weights - Penalty weights from the active scoring profile
+ * @returns DustResult with dust transfers, poisoning attempts and the addresses to ignore
+ */
+export function detectDust(
+  transactions: ParsedTransaction[],
+  walletAddress: string,
+  weights: ScoringProfile["dust"] = DEFAULT_PROFILE.dust
+): DustResult {
+  const counterparties = new Map<string, Counterparty>();
+  const candidates: DustTransfer[] = [];
+
+  const record = (address: string, tx: ParsedTransaction) => {
+    const counterparty = counterparties.get(address) ?? {
+      address,
+      firstSeen: tx.timestamp,
+      firstSent: null,
+      inbound: 0,
+      inboundDust: 0,
+      outbound: 0,
+      solSent: 0,
+      signatures: new Set<string>(),
+    };
+    counterparty.firstSeen = Math.min(counterparty.firstSeen, tx.timestamp);
+    counterparty.signatures.add(tx.signature);
+    counterparties.set(address, counterparty);
+    return counterparty;
+  };
+
+  const visit = (asset: string, amount: number, from: string, to: string, tx: ParsedTransaction) => {
+    if (!from || !to || from === to) return;
+    if (from === walletAddress) {
+      const counterparty = record(to, tx);
+      counterparty.outbound++;
+      counterparty.firstSent = Math.min(counterparty.firstSent ?? tx.timestamp, tx.timestamp);
+      if (asset === SOL) counterparty.solSent += amount;
+    } else if (to === walletAddress) {
+      const counterparty = record(from, tx);
+      counterparty.inbound++;
+      // Unsolicited: someone else signed and paid for it
+      if (tx.feePayer !== walletAddress && isDustAmount(asset, amount)) {
+        counterparty.inboundDust++;
+        candidates.push({ from, asset, amount, timestamp: tx.timestamp, signature: tx.signature });
+      }
+    }
+  };
+
+  for (const tx of [...transactions].sort((a, b) => a.timestamp - b.timestamp)) {
+    for (const transfer of tx.nativeTransfers ?? []) {
+      visit(SOL, transfer.amount / 1e9, transfer.fromUserAccount, transfer.toUserAccount, tx); // Lamports to SOL
+    }
+    for (const transfer of tx.tokenTransfers ?? []) {
+      visit(transfer.mint, transfer.tokenAmount, transfer.fromUserAccount, transfer.toUserAccount, tx);
+    }
+  }
+
+  // A dust sender sent nothing but dust and was never paid - a small refund from a friend is not dust
+  const dustSenders = new Set(
+    [...counterparties.values()]
+      .filter(c => c.inboundDust > 0 && c.inboundDust === c.inbound && c.outbound === 0)
+      .map(c => c.address)
+  );
+  const dustTransfers = candidates.filter(d => dustSenders.has(d.from));
+
+  const poisoningAttempts = findLookalikes(counterparties, walletAddress)
+    .sort((a, b) => Number(b.sentFunds) - Number(a.sentFunds) || a.firstSeen - b.firstSeen);
+
+  // Paying a lookalike is a real on-chain link, so those stay in the statistics
+  const ignoredAddresses = [...new Set([
+    ...dustSenders,
+    ...poisoningAttempts.filter(p => !p.sentFunds).map(p => p.address),
+  ])];
+
+  const paid = poisoningAttempts.filter(p => p.sentFunds).length;
+  const riskContribution = Math.min(
+    weights.cap,
+    (dustSenders.size > 0 ? weights.dustPoints : 0) +
+      (poisoningAttempts.length > 0 ? weights.poisoningPoints : 0) +
+      paid * weights.lookalikePaymentPoints
+  );
+
+  if (dustSenders.size > 0) {
+    log.info(`⚠️  Dust: ${dustTransfers.length} transfer(s) from ${dustSenders.size} sender(s)`);
+  }
+  if (poisoningAttempts.length > 0) {
+    log.info(`⚠️  Address poisoning: ${poisoningAttempts.length} lookalike address(es)${paid > 0 ? `, ${paid} paid` : ""}`);
+  }
+
+  return {
+    detected: dustSenders.size > 0 || poisoningAttempts.length > 0,
+    dustTransfers,
+    dustSenders: [...dustSenders],
+    poisoningAttempts,
+    ignoredAddresses,
+    riskContribution,
+  };
+}
+
+function isDustAmount(asset: string, amount: number): boolean {
+  return asset === SOL
+    ? amount <= ANALYSIS_CONFIG.DUST_MAX_SOL
+    : amount <= ANALYSIS_CONFIG.DUST_MAX_TOKEN_AMOUNT;
+}
+
+/**
+ * Counterparties sharing their first and last characters with another counterparty or the wallet
+ * Within a group the wallet itself, or else the address the wallet paid first, is the real one;
+ * groups the wallet never paid into are ignored.
+ */
+function findLookalikes(
+  counterparties: Map<string, Counterparty>,
+  walletAddress: string
+): PoisoningAttempt[] {
+  const groups = new Map<string, string[]>();
+  for (const address of [walletAddress, ...counterparties.keys()]) {
+    const key = lookalikeKey(address);
+    groups.set(key, [...(groups.get(key) ?? []), address]);
+  }
+
+  const attempts: PoisoningAttempt[] = [];
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+
+    const paidFirst = group
+      .map(address => counterparties.get(address))
+      .flatMap(c => (c && c.firstSent !== null ? [{ address: c.address, firstSent: c.firstSent }] : []))
+      .sort((a, b) => a.firstSent - b.firstSent)[0];
+    // Lookalikes only matter next to an address the wallet actually uses
+    const real = group.includes(walletAddress) ? walletAddress : paidFirst?.address;
+    if (!real) continue;
+
+    for (const address of group) {
+      const lookalike = counterparties.get(address);
+      if (address === real || !lookalike) continue;
+      attempts.push({
+        address,
+        imitates: real,
+        firstSeen: lookalike.firstSeen,
+        transfers: lookalike.inbound + lookalike.outbound,
+        sentFunds: lookalike.outbound > 0,
+        solSent: lookalike.solSent,
+        signatures: [...lookalike.signatures],
+      });
+    }
+  }
+
+  return attempts;
+}
+
+function lookalikeKey(address: string): string {
+  return `${address.slice(0, ANALYSIS_CONFIG.DUST_LOOKALIKE_PREFIX)}:${address.slice(-ANALYSIS_CONFIG.DUST_LOOKALIKE_SUFFIX)}`;
+}
+
+/**
+ * Generate warnings based on dust results
+ * @param result - Dust detection result
+ * @returns Array of warning messages
+ */
+export function generateDustWarnings(result: DustResult): string[] {
+  const warnings: string[] = [];
+
+  for (const attempt of result.poisoningAttempts.filter(p => p.sentFunds)) {
+    warnings.push(
+      `You sent ${attempt.solSent > 0 ? `${attempt.solSent.toFixed(4)} SOL` : "funds"} to ${attempt.address}, a lookalike of ` +
+        `${attempt.imitates}. This is an address poisoning scam - check the full address before sending.`
+    );
+  }
+
+  const unpaid = result.poisoningAttempts.filter(p => !p.sentFunds);
+  const example = unpaid[0];
+  if (example) {
+    warnings.push(
+      `${unpaid.length} lookalike address(es) (e.g. ${shortenAddress(example.address)} imitating ${shortenAddress(example.imitates)}) ` +
+        `appeared in your history. Never copy a recipient from your transaction history.`
+    );
+  }
+
+  if (result.dustSenders.length > 0) {
+    warnings.push(
+      `${result.dustTransfers.length} unsolicited dust transfer(s) from ${result.dustSenders.length} address(es). ` +
+        `Dust is sent to track where this wallet's funds go next.`
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Generate action recommendations based on dust results
+ * @param result - Dust detection result
+ * @returns Array of recommended actions
+ */
+export function generateDustActions(result: DustResult): string[] {
+  const actions: string[] = [];
+  if (result.poisoningAttempts.length > 0) {
+    actions.push("Keep an address book of real recipients and compare every character of an address before sending.");
+  }
+  if (result.dustSenders.length > 0) {
+    actions.push("Don't move or consolidate dust - leave it, or burn the token accounts, so it can't link your wallets.");
+  }
+  return actions;
+}
@@ -0,0 +1,268 @@
+/**
+ * Fee Payer Detector - Links wallets through who pays their transaction fees
+ * A wallet paying another's fees, or two wallets sharing a private fee payer, almost always
+ * means common ownership. Known relayers and dApps sponsor fees for everyone and link no one.
+ */
+
+import type { ParsedTransaction } from "../services/helius";
+import type { TransactionSource } from "../services/source";
+import { getLabelRegistry } from "../labels/registry";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { shortenAddress } from "../utils/format";
+import { log } from "../utils/logger";
+
+// paid_by      - another address paid the fees for the wallet's own transactions
+// pays_for     - the wallet paid the fees for another address's transactions
+// co_sponsored - another wallet whose fees are paid by the same private fee payer
+export type FeePayerDirection = "paid_by" | "pays_for" | "co_sponsored";
+
+// private - an unlabeled wallet sponsoring few others: a common-ownership link
+// relayer - sponsors fees for many unrelated wallets
+// service - a labeled entity (dApp, exchange, ...)
+// unknown - an unlabeled sponsor whose history was not checked (past the lookup budget, or unavailable)
+export type FeePayerKind = "private" | "relayer" | "service" | "unknown";
+
+export interface FeePayerLink {
+  address: string;
+  direction: FeePayerDirection;
+  kind: FeePayerKind;
+  entity?: string | undefined;   // Label name, for services
+  via?: string | undefined;      // The shared fee payer, for co_sponsored links
+  transactions: number;
+  signatures: string[];
+}
+
+export interface FeePayerResult {
+  detected: boolean;               // Any private link was found
+  links: FeePayerLink[];           // Private links first, then unknown sponsors, relayers and services
+  linkedWallets: string[];         // Addresses of private links - fed into clustering
+  sponsoredTransactions: number;   // The wallet's own transactions someone else paid for
+  riskContribution: number;
+}
+
+// The wallet's relationship with one other address, built up over the history
+interface LinkAccumulator {
+  address: string;
+  direction: FeePayerDirection;
+  signatures: Set<string>;
+}
+
+/**
+ * No links, and no sponsored transactions
+ */
+export function emptyFeePayerResult(): FeePayerResult {
+  return {
+    detected: false,
+    links: [],
+    linkedWallets: [],
+    sponsoredTransactions: 0,
+    riskContribution: 0,
+  };
+}
+
+/**
+ * Find fee-payer relationships in both directions and classify each counterparty
+ * Private sponsors' own histories are fetched to find the other wallets they pay for.
+ * @param transactions - The wallet's parsed history
+ * @param walletAddress - The wallet being analyzed
+ * @param source - Where fee payers' histories are fetched from
+ * @param weights - Penalty weights from the active scoring profile
+ * @param signal - Cancels the lookups
+ * @returns FeePayerResult with every link and the wallets it ties to this one
+ */
+export async function detectFeePayerLinks(
+  transactions: ParsedTransaction[],
+  walletAddress: string,
+  source: TransactionSource,
+  weights: ScoringProfile["feePayer"] = DEFAULT_PROFILE.feePayer,
+  signal?: AbortSignal | undefined
+): Promise<FeePayerResult> {
+  const registry = getLabelRegistry();
+  const accumulators = new Map<string, LinkAccumulator>();
+  const link = (address: string, direction: FeePayerDirection, signature: string) => {
+    const key = `${direction}:${address}`;
+    const acc = accumulators.get(key) ?? { address, direction, signatures: new Set<string>() };
+    acc.signatures.add(signature);
+    accumulators.set(key, acc);
+  };
+
+  let sponsoredTransactions = 0;
+  for (const tx of transactions) {
+    if (!tx.feePayer) continue;
+    const actors = actorsOf(tx);
+
+    if (tx.feePayer !== walletAddress && actors.has(walletAddress)) {
+      // The wallet moved funds, someone else paid
+      link(tx.feePayer, "paid_by", tx.signature);
+      sponsoredTransactions++;
+    } else if (tx.feePayer === walletAddress && !actors.has(walletAddress) && !isSwap(tx)) {
+      // The wallet only paid the fee - other addresses moved their own funds (not to the wallet, like a mint)
+      for (const actor of actorsOf(tx, walletAddress)) link(actor, "pays_for", tx.signature);
+    }
+  }
+
+  // Labeled sponsors are services; unlabeled ones are checked for relayer behaviour
+  const sponsors = [...accumulators.values()]
+    .filter(acc => acc.direction === "paid_by" && !registry.get(acc.address))
+    .sort((a, b) => b.signatures.size - a.signatures.size)
+    .slice(0, ANALYSIS_CONFIG.FEE_PAYER_MAX_LOOKUPS);
+  const sponsored = new Map<string, Map<string, Set<string>>>();
+  await mapWithConcurrency(sponsors, ANALYSIS_CONFIG.SCREENING_CONCURRENCY, async sponsor => {
+    const wallets = await sponsoredWallets(sponsor.address, source, signal);
+    if (wallets) sponsored.set(sponsor.address, wallets);
+  }, signal);
+
+  const links: FeePayerLink[] = [];
+  for (const acc of accumulators.values()) {
+    const label = registry.get(acc.address);
+    const wallets = sponsored.get(acc.address);
+    // A sponsor that could not be checked may be a relayer, so it links no one
+    const kind: FeePayerKind = label
+      ? "service"
+      : acc.direction !== "paid_by" ? "private"
+      : !wallets ? "unknown"
+      : wallets.size >= ANALYSIS_CONFIG.FEE_PAYER_RELAYER_MIN_WALLETS ? "relayer" : "private";
+    links.push({
+      address: acc.address,
+      direction: acc.direction,
+      kind,
+      entity: label?.entity,
+      transactions: acc.signatures.size,
+      signatures: [...acc.signatures],
+    });
+
+    // Other wallets a private sponsor pays for share an owner with this one
+    if (kind === "private" && wallets) {
+      for (const [address, signatures] of wallets) {
+        if (address === walletAddress || label) continue;
+        links.push({
+          address,
+          direction: "co_sponsored",
+          kind: "private",
+          via: acc.address,
+          transactions: signatures.size,
+          signatures: [...signatures],
+        });
+      }
+    }
+  }
+
+  links.sort((a, b) =>
+    Number(b.kind === "private") - Number(a.kind === "private") ||
+    Number(b.kind === "unknown") - Number(a.kind === "unknown") ||
+    b.transactions - a.transactions
+  );
+  const linkedWallets = [...new Set(links.filter(l => l.kind === "private").map(l => l.address))];
+  const riskContribution = Math.min(weights.cap, linkedWallets.length * weights.linkPoints);
+
+  if (linkedWallets.length > 0) {
+    log.info(`⚠️  Fee payer links: ${linkedWallets.length} wallet(s)`);
+  }
+
+  return {
+    detected: linkedWallets.length > 0,
+    links,
+    linkedWallets,
+    sponsoredTransactions,
+    riskContribution,
+  };
+}
+
+/**
+ * Addresses that moved their own funds in a transaction
+ * @param ignoreTo - Skip transfers to this address
+ */
+function actorsOf(tx: ParsedTransaction, ignoreTo?: string | undefined): Set<string> {
+  const actors = new Set<string>();
+  for (const transfer of [...(tx.nativeTransfers ?? []), ...(tx.tokenTransfers ?? [])]) {
+    if (transfer.fromUserAccount && transfer.toUserAccount !== ignoreTo) actors.add(transfer.fromUserAccount);
+  }
+  return actors;
+}
+
+/**
+ * Swap pools move funds too, so swaps don't show who was sponsored
+ */
+function isSwap(tx: ParsedTransaction): boolean {
+  return tx.type === "SWAP" || !!tx.events?.swap;
+}
+
+/**
+ * Wallets a fee payer has paid for, from its own history
+ * @returns Sponsored wallets with the transactions behind each, or null if the history is unavailable
+ */
+async function sponsoredWallets(
+  feePayer: string,
+  source: TransactionSource,
+  signal: AbortSignal | undefined
+): Promise<Map<string, Set<string>> | null> {
+  try {
+    const history = await source.getHistory(
+      feePayer,
+      { maxTransactions: ANALYSIS_CONFIG.FEE_PAYER_HISTORY_DEPTH },
+      { signal }
+    );
+    if (history.coverage.simulated) return null; // Demo data - nothing real to inspect
+
+    const wallets = new Map<string, Set<string>>();
+    for (const tx of history.transactions) {
+      const actors = actorsOf(tx);
+      if (tx.feePayer !== feePayer || actors.has(feePayer) || isSwap(tx)) continue;
+      for (const actor of actorsOf(tx, feePayer)) {
+        wallets.set(actor, (wallets.get(actor) ?? new Set()).add(tx.signature));
+      }
+    }
+    return wallets;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    log.error(`❌ Could not fetch history of fee payer ${feePayer}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Generate warnings for fee-payer links
+ * @param result - Fee payer detection result
+ * @returns Array of warning messages
+ */
+export function generateFeePayerWarnings(result: FeePayerResult): string[] {
+  const warnings: string[] = [];
+  const privateLinks = result.links.filter(l => l.kind === "private");
+
+  for (const l of privateLinks.filter(l => l.direction === "paid_by")) {
+    warnings.push(
+      `${shortenAddress(l.address)} paid the fees for ${l.transactions} of your transactions. ` +
+        `Fee payers are public, so this links the two wallets.`
+    );
+  }
+  const paidFor = privateLinks.filter(l => l.direction === "pays_for");
+  if (paidFor.length > 0) {
+    warnings.push(
+      `This wallet paid transaction fees for ${paidFor.length} other wallet(s) ` +
+        `(${paidFor.slice(0, 3).map(l => shortenAddress(l.address)).join(", ")}), linking them to it.`
+    );
+  }
+  const coSponsored = privateLinks.filter(l => l.direction === "co_sponsored");
+  if (coSponsored.length > 0) {
+    warnings.push(
+      `${coSponsored.length} other wallet(s) share a private fee payer with this wallet and are likely controlled by the same owner.`
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Generate action recommendations for fee-payer links
+ * @param result - Fee payer detection result
+ * @returns Array of recommended actions
+ */
+export function generateFeePayerActions(result: FeePayerResult): string[] {
+  if (!result.detected) return [];
+  return [
+    "Let each wallet pay its own fees, or use a public relayer, instead of sponsoring fees from a wallet you own.",
+  ];
+}
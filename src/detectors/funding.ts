@@ -0,0 +1,229 @@
+/**
+ * Funding Source Detector - Finds who first funded a wallet
+ * The first SOL a wallet receives often links it to its owner more strongly than anything since:
+ * an exchange withdrawal ties it to a KYC'd account, a transfer from another wallet ties the two together.
+ */
+
+import type { ParsedTransaction } from "../services/helius";
+import type { HistoryCoverage } from "../services/history";
+import type { TransactionSource } from "../services/source";
+import { getLabelRegistry } from "../labels/registry";
+import type { EntityType } from "../labels/registry";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { shortenAddress } from "../utils/format";
+import { log } from "../utils/logger";
+
+// cex        - an exchange or custodian: the origin is KYC'd
+// entity     - another labeled entity (bridge, DEX, market maker, ...)
+// own_wallet - a wallet the analyzed wallet later sent funds back to, likely the same owner
+// faucet     - a labeled faucet
+// wallet     - an unlabeled wallet
+export type FunderKind = "cex" | "entity" | "own_wallet" | "faucet" | "wallet";
+
+export interface Funder {
+  address: string;
+  kind: FunderKind;
+  entity?: string | undefined;         // Label name, for labeled funders
+  entityType?: EntityType | undefined;
+  sol: number;                         // SOL received from this funder while the wallet was being funded
+  timestamp: number;                   // First transfer from this funder
+  signature: string;
+}
+
+export interface FundingSourceResult {
+  detected: boolean;            // At least one initial funder was found
+  complete: boolean;            // The wallet's first transaction was reached
+  funders: Funder[];            // Earliest first
+  firstFundedAt: number | null;
+  totalSol: number;
+  kycOrigin: boolean;           // An exchange or custodian funded the wallet
+  riskContribution: number;
+}
+
+// Labeled entity types whose withdrawals are tied to a verified identity
+const KYC_ENTITY_TYPES = new Set<EntityType>(["cex", "custodian"]);
+
+/**
+ * No funders, and not complete: the wallet's first transaction was never seen
+ */
+export function emptyFundingSourceResult(): FundingSourceResult {
+  return {
+    detected: false,
+    complete: false,
+    funders: [],
+    firstFundedAt: null,
+    totalSol: 0,
+    kycOrigin: false,
+    riskContribution: 0,
+  };
+}
+
+/**
+ * Identify and classify a wallet's initial funders
+ * Uses the analyzed history when it already reaches the wallet's first transaction,
+ * otherwise fetches the oldest transactions from the source.
+ * @param transactions - The wallet's parsed history
+ * @param walletAddress - The wallet being analyzed
+ * @param source - Where the oldest transactions are fetched from
+ * @param coverage - Coverage of `transactions`
+ * @param weights - Penalty weights from the active scoring profile
+ * @param signal - Cancels the fetch
+ * @returns FundingSourceResult with the initial funders
+ */
+export async function detectFundingSource(
+  transactions: ParsedTransaction[],
+  walletAddress: string,
+  source: TransactionSource,
+  coverage: HistoryCoverage,
+  weights: ScoringProfile["funding"] = DEFAULT_PROFILE.funding,
+  signal?: AbortSignal | undefined
+): Promise<FundingSourceResult> {
+  let earliest = transactions;
+  let complete = coverage.reachedStart;
+
+  // A failed fetch rejects: with no first transactions there is no funder to report, not a clean one
+  if (!coverage.reachedStart) {
+    const history = await source.getEarliestHistory(walletAddress, ANALYSIS_CONFIG.FUNDING_HISTORY_DEPTH, { signal });
+    earliest = history.transactions;
+    complete = history.coverage.reachedStart;
+  }
+
+  const inflows = collectInflows(earliest, walletAddress);
+  const first = inflows[0];
+  if (!first) {
+    return { ...emptyFundingSourceResult(), complete };
+  }
+
+  // Senders during the funding window count as initial funders
+  const windowEnd = first.timestamp + ANALYSIS_CONFIG.FUNDING_WINDOW_SECONDS;
+  const funders = new Map<string, Funder>();
+  for (const inflow of inflows) {
+    if (inflow.timestamp > windowEnd) break;
+    const funder = funders.get(inflow.from);
+    if (funder) {
+      funder.sol += inflow.sol;
+    } else if (funders.size < ANALYSIS_CONFIG.FUNDING_MAX_FUNDERS) {
+      funders.set(inflow.from, {
+        address: inflow.from,
+        ...classifyFunder(inflow.from, [...earliest, ...transactions], walletAddress),
+        sol: inflow.sol,
+        timestamp: inflow.timestamp,
+        signature: inflow.signature,
+      });
+    }
+  }
+
+  const list = [...funders.values()];
+  const kycOrigin = list.some(f => f.kind === "cex");
+  const ownWallets = list.filter(f => f.kind === "own_wallet").length;
+  const riskContribution = (kycOrigin ? weights.kycOriginPoints : 0) + ownWallets * weights.ownWalletPoints;
+
+  if (list.length > 0) {
+    log.info(`💸 First funded ${new Date(first.timestamp * 1000).toISOString()} by:`);
+    for (const f of list) {
+      log.info(`   - ${f.address} (${f.entity ?? f.kind}): ${f.sol.toFixed(4)} SOL`);
+    }
+  }
+
+  return {
+    detected: list.length > 0,
+    complete,
+    funders: list,
+    firstFundedAt: first.timestamp,
+    totalSol: list.reduce((sum, f) => sum + f.sol, 0),
+    kycOrigin,
+    riskContribution,
+  };
+}
+
+/**
+ * SOL transfers into the wallet, oldest first
+ */
+function collectInflows(
+  transactions: ParsedTransaction[],
+  walletAddress: string
+): { from: string; sol: number; timestamp: number; signature: string }[] {
+  const inflows: { from: string; sol: number; timestamp: number; signature: string }[] = [];
+  for (const tx of transactions) {
+    for (const transfer of tx.nativeTransfers ?? []) {
+      if (transfer.toUserAccount !== walletAddress || !transfer.fromUserAccount || transfer.fromUserAccount === walletAddress) continue;
+      inflows.push({
+        from: transfer.fromUserAccount,
+        sol: transfer.amount / 1e9, // Convert lamports to SOL
+        timestamp: tx.timestamp,
+        signature: tx.signature,
+      });
+    }
+  }
+  return inflows.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Classify a funder by its label, or by whether the wallet ever sent funds back to it
+ */
+function classifyFunder(
+  funder: string,
+  transactions: ParsedTransaction[],
+  walletAddress: string
+): Pick<Funder, "kind" | "entity" | "entityType"> {
+  const label = getLabelRegistry().get(funder);
+  if (label) {
+    const kind: FunderKind = KYC_ENTITY_TYPES.has(label.type) ? "cex" : label.type === "faucet" ? "faucet" : "entity";
+    return { kind, entity: label.entity, entityType: label.type };
+  }
+
+  const sentBack = transactions.some(tx =>
+    (tx.nativeTransfers ?? []).some(t => t.fromUserAccount === walletAddress && t.toUserAccount === funder) ||
+    (tx.tokenTransfers ?? []).some(t => t.fromUserAccount === walletAddress && t.toUserAccount === funder)
+  );
+  return { kind: sentBack ? "own_wallet" : "wallet" };
+}
+
+/**
+ * Generate warnings for the wallet's funding source
+ * @param result - Funding source detection result
+ * @returns Array of warning messages
+ */
+export function generateFundingSourceWarnings(result: FundingSourceResult): string[] {
+  const warnings: string[] = [];
+
+  for (const funder of result.funders.filter(f => f.kind === "cex")) {
+    warnings.push(
+      `This wallet was first funded from ${funder.entity} (${funder.sol.toFixed(4)} SOL on ` +
+        `${formatDate(funder.timestamp)}). The exchange can tie it to your verified identity.`
+    );
+  }
+  for (const funder of result.funders.filter(f => f.kind === "own_wallet")) {
+    warnings.push(
+      `This wallet was first funded by ${shortenAddress(funder.address)}, which it later sent funds back to - ` +
+        `the two wallets are likely linked to the same owner.`
+    );
+  }
+  if (!result.complete && result.detected) {
+    warnings.push("The wallet's first transaction could not be reached - the earliest funder found may not be the original one.");
+  }
+
+  return warnings;
+}
+
+/**
+ * Generate action recommendations for the wallet's funding source
+ * @param result - Funding source detection result
+ * @returns Array of recommended actions
+ */
+export function generateFundingSourceActions(result: FundingSourceResult): string[] {
+  const actions: string[] = [];
+  if (result.kycOrigin) {
+    actions.push("Fund new wallets through a privacy tool rather than straight from an exchange withdrawal.");
+  }
+  if (result.funders.some(f => f.kind === "own_wallet")) {
+    actions.push("Avoid funding a wallet directly from another wallet you own.");
+  }
+  return actions;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
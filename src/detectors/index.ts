@@ -4,5 +4,15 @@
  */
 
 export * from "./cex";
+export * from "./dust";
+export * from "./deposit";
+export * from "./feepayer";
 export * from "./clustering";
 export * from "./assets";
+export * from "./amounts";
+export * from "./timing";
+export * from "./funding";
+export * from "./taint";
+export * from "./bridge";
+export * from "./registry";
+export * from "./builtins";
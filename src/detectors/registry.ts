@@ -0,0 +1,114 @@
+/**
+ * Detector Registry
+ * Contract for pluggable detectors and the registry analyzeWallet runs them from
+ */
+
+import * as path from "path";
+import { pathToFileURL } from "url";
+import type { ParsedTransaction } from "../services/helius";
+import type { HistoryCoverage } from "../services/history";
+import type { TransactionSource } from "../services/source";
+import type { ScoringProfile } from "../scoring/profile";
+import type { Warning, Recommendation } from "../engine";
+import { BUILT_IN_DETECTORS } from "./builtins";
+import { log } from "../utils/logger";
+
+export interface DetectorContext {
+  walletAddress: string;
+  profile: ScoringProfile;
+  source: TransactionSource; // For detectors that need extra lookups
+  coverage: HistoryCoverage;
+  results: Record<string, unknown>; // Results of detectors that already ran, by id
+  signal?: AbortSignal | undefined;  // Aborted when the caller cancels the analysis
+}
+
+export interface DetectorFinding<TResult = unknown> {
+  result: TResult;
+  warnings: Omit<Warning, "id" | "category">[];
+  actions: Omit<Recommendation, "category">[];
+  riskContribution: number; // Points to deduct from privacy score
+  deductionReason?: string | undefined; // Shown in the score breakdown; defaults to the detector name
+  signatures?: string[] | undefined; // Transactions behind the deduction
+}
+
+export interface Detector<TResult = unknown> {
+  id: string;       // Key in PrivacyReport.detectorResults and prefix of warning ids
+  name: string;     // Human-readable name for logs
+  category: string; // Category of the warnings and recommendations it emits
+  run(
+    transactions: ParsedTransaction[],
+    ctx: DetectorContext
+  ): DetectorFinding<TResult> | Promise<DetectorFinding<TResult>>;
+  emptyResult(): TResult; // Result to report when the detector could not run
+  formatConsole?(result: TResult): string[]; // Heading and lines for the CLI report; [] when there is nothing to show
+}
+
+const registry = new Map<string, Detector>(
+  BUILT_IN_DETECTORS.map(detector => [detector.id, detector])
+);
+
+/**
+ * Register a detector; it runs after every detector registered before it
+ * @param detector - Detector to add; replaces any detector with the same id
+ */
+export function registerDetector<TResult>(detector: Detector<TResult>): void {
+  if (registry.has(detector.id)) {
+    log.warn(`⚠️  Replacing registered detector "${detector.id}"`);
+    registry.delete(detector.id);
+  }
+  registry.set(detector.id, detector as Detector);
+}
+
+/**
+ * Remove a detector from the registry
+ * @returns true if a detector was removed
+ */
+export function unregisterDetector(id: string): boolean {
+  return registry.delete(id);
+}
+
+/**
+ * Get all registered detectors in run order
+ */
+export function getRegisteredDetectors(): Detector[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Import detector modules and register what they export
+ * A module may export `detector`, `detectors` or a default Detector / Detector[]
+ * @param modulePaths - File paths or package names
+ * @returns Ids of the detectors registered
+ */
+export async function loadDetectorModules(modulePaths: string[]): Promise<string[]> {
+  const registered: string[] = [];
+
+  for (const modulePath of modulePaths) {
+    const specifier = modulePath.startsWith(".") || path.isAbsolute(modulePath)
+      ? pathToFileURL(path.resolve(modulePath)).href
+      : modulePath;
+    const mod = (await import(/* webpackIgnore: true */ specifier)) as Record<string, unknown>;
+
+    const exported = [mod.detector, mod.detectors, mod.default].flat().filter(isDetector);
+    if (exported.length === 0) {
+      throw new Error(`Detector module "${modulePath}" does not export a detector`);
+    }
+
+    for (const detector of exported) {
+      registerDetector(detector);
+      registered.push(detector.id);
+    }
+  }
+
+  return registered;
+}
+
+function isDetector(value: unknown): value is Detector {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Partial<Detector>;
+  return (
+    typeof candidate.id === "string" &&
+    typeof candidate.run === "function" &&
+    typeof candidate.emptyResult === "function"
+  );
+}
@@ -0,0 +1,471 @@
+/**
+ * Taint Detector - Traces where a wallet's funds came from
+ * Walks incoming transfers back through intermediate wallets, up to N hops, looking for
+ * sanctioned, flagged or mixer-linked sources, and measures how much of the value reaching
+ * the wallet is tainted by them
+ */
+
+import type { ParsedTransaction } from "../services/helius";
+import type { TransactionSource } from "../services/source";
+import { checkRisk } from "../services/range";
+import type { RangeCheckResult } from "../services/range";
+import { getLabelRegistry } from "../labels/registry";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { shortenAddress } from "../utils/format";
+import { log } from "../utils/logger";
+
+// haircut: taint is diluted by clean inflows (proportional)
+// poison:  any tainted inflow taints everything an address sends on
+export type TaintMethod = "haircut" | "poison";
+
+export type TaintSourceKind = "sanctioned" | "flagged" | "mixer";
+
+export interface TaintOptions {
+  maxHops: number;      // How far back to trace; 1 = direct senders only
+  method: TaintMethod;
+  maxAddresses: number; // Most addresses risk-checked per scan
+  fanIn: number;        // Largest senders followed per intermediate address
+  historyDepth: number; // Transactions fetched per intermediate address
+  maxPaths: number;     // Shortest paths kept in the result
+}
+
+export interface TaintSource {
+  address: string;
+  kind: TaintSourceKind;
+  hops: number;            // 1 = sent to the wallet directly
+  lists: string[];         // Sanctions lists that matched, if any
+}
+
+export interface TaintPath {
+  source: string;
+  kind: TaintSourceKind;
+  hops: number;
+  addresses: string[];  // Source first, analyzed wallet last
+  signatures: string[]; // One transfer per hop, in the same order
+  sol: number;          // SOL sent on the hop that reached the wallet
+}
+
+export interface TaintedAsset {
+  asset: string;    // "SOL" or a token mint
+  tainted: number;  // Incoming amount attributed to risky sources
+  total: number;    // All incoming amount
+  share: number;    // tainted / total, 0-1
+}
+
+export interface TaintResult {
+  detected: boolean;
+  method: TaintMethod;
+  maxHops: number;
+  assets: TaintedAsset[];  // SOL first, then tokens with any taint
+  taintedSol: number;
+  sources: TaintSource[];
+  paths: TaintPath[];      // Shortest first
+  addressesChecked: number;
+  truncated: boolean;      // The address budget ran out, or some addresses could not be screened or traced
+  riskContribution: number;
+}
+
+// Value moved from one address to another, as seen in the receiver's history
+interface TaintEdge {
+  from: string;
+  to: string;
+  sol: number;
+  tokens: Map<string, number>;
+  signature: string;    // Largest transfer on this edge
+  lastTimestamp: number;
+}
+
+interface TaintNode {
+  address: string;
+  hops: number;
+  next: TaintEdge | null;       // Edge towards the wallet on the shortest path
+  risk: TaintSourceKind | null;
+  lists: string[];
+  expanded: boolean;            // Its own inflows were fetched
+  inflows: TaintEdge[];         // Every sender, when expanded
+}
+
+const SOL = "SOL";
+
+export function defaultTaintOptions(): TaintOptions {
+  return {
+    maxHops: parseHops(process.env.TAINT_MAX_HOPS) ?? ANALYSIS_CONFIG.TAINT_MAX_HOPS,
+    method: process.env.TAINT_METHOD === "poison" ? "poison" : "haircut",
+    maxAddresses: ANALYSIS_CONFIG.TAINT_MAX_ADDRESSES,
+    fanIn: ANALYSIS_CONFIG.TAINT_FAN_IN,
+    historyDepth: ANALYSIS_CONFIG.TAINT_HISTORY_DEPTH,
+    maxPaths: ANALYSIS_CONFIG.TAINT_MAX_PATHS,
+  };
+}
+
+/**
+ * Result to report when the trace could not run
+ */
+export function emptyTaintResult(): TaintResult {
+  return {
+    detected: false,
+    method: "haircut",
+    maxHops: 0,
+    assets: [],
+    taintedSol: 0,
+    sources: [],
+    paths: [],
+    addressesChecked: 0,
+    truncated: false,
+    riskContribution: 0,
+  };
+}
+
+/**
+ * Trace a wallet's incoming funds back to risky sources
+ * @param transactions - The wallet's parsed history
+ * @param walletAddress - The wallet being analyzed
+ * @param source - Where intermediate wallets' histories are fetched from
+ * @param weights - Penalty weights from the active scoring profile
+ * @param options - Hops, taint method and budgets
+ * @param signal - Cancels the trace
+ * @returns TaintResult with tainted amounts, sources and shortest paths
+ */
+export async function detectTaint(
+  transactions: ParsedTransaction[],
+  walletAddress: string,
+  source: TransactionSource,
+  weights: ScoringProfile["taint"] = DEFAULT_PROFILE.taint,
+  options: TaintOptions = defaultTaintOptions(),
+  signal?: AbortSignal | undefined
+): Promise<TaintResult> {
+  const wallet: TaintNode = {
+    address: walletAddress,
+    hops: 0,
+    next: null,
+    risk: null,
+    lists: [],
+    expanded: true,
+    inflows: collectInflows(transactions, walletAddress),
+  };
+  const nodes = new Map<string, TaintNode>([[walletAddress, wallet]]);
+  let truncated = false;
+  let checked = 0;
+  let frontier = [wallet];
+
+  for (let hop = 1; hop <= options.maxHops && frontier.length > 0; hop++) {
+    // Senders into the current frontier not seen yet, largest first
+    const discovered: TaintNode[] = [];
+    for (const node of frontier) {
+      const senders = hop === 1 ? node.inflows : largestInflows(node.inflows, options.fanIn);
+      for (const edge of senders) {
+        if (nodes.has(edge.from)) continue;
+        if (checked + discovered.length >= options.maxAddresses) {
+          truncated = true;
+          break;
+        }
+        const sender: TaintNode = {
+          address: edge.from,
+          hops: hop,
+          next: edge,
+          risk: null,
+          lists: [],
+          expanded: false,
+          inflows: [],
+        };
+        nodes.set(edge.from, sender);
+        discovered.push(sender);
+      }
+    }
+    checked += discovered.length;
+
+    await mapWithConcurrency(discovered, ANALYSIS_CONFIG.SCREENING_CONCURRENCY, async node => {
+      const risk = await checkRisk(node.address, { signal });
+      if (risk.status === "Unknown") truncated = true; // Not screened - it may not be clean
+      node.risk = classifyRisk(risk) ?? (getLabelRegistry().get(node.address, "mixer") ? "mixer" : null);
+      node.lists = risk.details.sanctionLists;
+    }, signal);
+
+    // Clean senders are traced further back, if there are hops left
+    frontier = [];
+    if (hop === options.maxHops || !source.isReady()) continue;
+    for (const node of discovered) {
+      if (node.risk) continue;
+      const expanded = await expandNode(node, nodes, source, options.historyDepth, signal);
+      if (expanded) {
+        frontier.push(node);
+      } else {
+        truncated = true;
+      }
+    }
+  }
+
+  const taintOf = createTaintCalculator(nodes, options.method);
+  const assets = measureAssets(wallet, taintOf);
+  const taintedSol = assets.find(a => a.asset === SOL)?.tainted ?? 0;
+
+  const riskyNodes = [...nodes.values()].filter(node => node.risk !== null);
+  const sources: TaintSource[] = riskyNodes
+    .flatMap(node => (node.risk ? [{ address: node.address, kind: node.risk, hops: node.hops, lists: node.lists }] : []))
+    .sort((a, b) => a.hops - b.hops);
+  const paths = riskyNodes
+    .map(node => buildPath(node, nodes))
+    .sort((a, b) => a.hops - b.hops || b.sol - a.sol)
+    .slice(0, options.maxPaths);
+
+  // Direct sanctioned senders are already penalized by compliance screening - score the rest
+  const scoredShare = Math.max(
+    0,
+    ...measureAssets(wallet, taintOf, edge => nodes.get(edge.from)?.risk !== "sanctioned").map(a => a.share)
+  );
+  const indirectSources = sources.filter(s => s.hops > 1).length;
+  const riskContribution = sources.length > 0
+    ? Math.min(
+        weights.cap,
+        Math.round(weights.exposurePoints * scoredShare) + indirectSources * weights.indirectSourcePoints
+      )
+    : 0;
+
+  return {
+    detected: sources.length > 0,
+    method: options.method,
+    maxHops: options.maxHops,
+    assets,
+    taintedSol,
+    sources,
+    paths,
+    addressesChecked: checked,
+    truncated,
+    riskContribution,
+  };
+}
+
+/**
+ * Fetch an intermediate address's history and record who funded it
+ * Only inflows up to its last transfer towards the wallet can have been passed on.
+ */
+async function expandNode(
+  node: TaintNode,
+  nodes: Map<string, TaintNode>,
+  source: TransactionSource,
+  historyDepth: number,
+  signal: AbortSignal | undefined
+): Promise<boolean> {
+  const outgoing = [...nodes.values()]
+    .flatMap(other => other.inflows.concat(other.next ? [other.next] : []))
+    .filter(edge => edge.from === node.address);
+  const before = Math.max(...outgoing.map(edge => edge.lastTimestamp));
+
+  try {
+    const history = await source.getHistory(node.address, { maxTransactions: historyDepth }, { signal });
+    if (history.coverage.simulated) return false; // Demo data - nothing real to trace
+    node.inflows = collectInflows(history.transactions.filter(tx => tx.timestamp <= before), node.address);
+    node.expanded = true;
+    return true;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    log.error(`❌ Could not trace funds into ${node.address}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Incoming SOL and token transfers into an address, grouped by sender
+ */
+function collectInflows(transactions: ParsedTransaction[], address: string): TaintEdge[] {
+  const edges = new Map<string, TaintEdge & { largest: number }>();
+
+  const edgeFrom = (from: string, tx: ParsedTransaction) => {
+    let edge = edges.get(from);
+    if (!edge) {
+      edge = { from, to: address, sol: 0, tokens: new Map(), signature: tx.signature, lastTimestamp: tx.timestamp, largest: 0 };
+      edges.set(from, edge);
+    }
+    edge.lastTimestamp = Math.max(edge.lastTimestamp, tx.timestamp);
+    return edge;
+  };
+
+  for (const tx of transactions) {
+    for (const transfer of tx.nativeTransfers ?? []) {
+      if (transfer.toUserAccount !== address || !transfer.fromUserAccount || transfer.fromUserAccount === address) continue;
+      const edge = edgeFrom(transfer.fromUserAccount, tx);
+      const sol = transfer.amount / 1e9; // Convert lamports to SOL
+      edge.sol += sol;
+      if (sol > edge.largest) {
+        edge.largest = sol;
+        edge.signature = tx.signature;
+      }
+    }
+    for (const transfer of tx.tokenTransfers ?? []) {
+      if (transfer.toUserAccount !== address || !transfer.fromUserAccount || transfer.fromUserAccount === address) continue;
+      const edge = edgeFrom(transfer.fromUserAccount, tx);
+      edge.tokens.set(transfer.mint, (edge.tokens.get(transfer.mint) ?? 0) + transfer.tokenAmount);
+    }
+  }
+
+  return Array.from(edges.values(), ({ largest: _largest, ...edge }) => edge);
+}
+
+/**
+ * The senders worth following: largest SOL inflows first, token-only senders after
+ */
+function largestInflows(inflows: TaintEdge[], limit: number): TaintEdge[] {
+  return [...inflows]
+    .sort((a, b) => b.sol - a.sol || b.tokens.size - a.tokens.size)
+    .slice(0, limit);
+}
+
+function classifyRisk(result: RangeCheckResult): TaintSourceKind | null {
+  if (result.status === "Sanctioned") return "sanctioned";
+  if (result.status === "Flagged") return "flagged";
+  if (result.details.linkedToMixer) return "mixer";
+  return null;
+}
+
+/**
+ * Taint of each address per asset, 0-1
+ * Risky sources are fully tainted; unexpanded addresses count as clean. Cycles count as clean.
+ */
+function createTaintCalculator(
+  nodes: Map<string, TaintNode>,
+  method: TaintMethod
+): (address: string, asset: string) => number {
+  const memo = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const taintOf = (address: string, asset: string): number => {
+    const node = nodes.get(address);
+    if (!node) return 0;
+    if (node.risk) return 1;
+    if (!node.expanded || visiting.has(address)) return 0;
+
+    const key = `${address}:${asset}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    visiting.add(address);
+    let total = 0;
+    let tainted = 0;
+    for (const edge of node.inflows) {
+      const amount = amountOf(edge, asset);
+      if (amount <= 0) continue;
+      const taint = taintOf(edge.from, asset);
+      total += amount;
+      tainted += method === "poison" ? (taint > 0 ? amount : 0) : amount * taint;
+    }
+    visiting.delete(address);
+
+    const taint = total > 0 ? (method === "poison" ? (tainted > 0 ? 1 : 0) : tainted / total) : 0;
+    memo.set(key, taint);
+    return taint;
+  };
+
+  return taintOf;
+}
+
+/**
+ * Tainted and total incoming amounts per asset for the wallet
+ * @param include - Edges whose taint counts; the rest still count towards the total
+ */
+function measureAssets(
+  wallet: TaintNode,
+  taintOf: (address: string, asset: string) => number,
+  include: (edge: TaintEdge) => boolean = () => true
+): TaintedAsset[] {
+  const mints = new Set(wallet.inflows.flatMap(edge => [...edge.tokens.keys()]));
+  const assets: TaintedAsset[] = [];
+
+  for (const asset of [SOL, ...mints]) {
+    let total = 0;
+    let tainted = 0;
+    for (const edge of wallet.inflows) {
+      const amount = amountOf(edge, asset);
+      total += amount;
+      if (include(edge)) tainted += amount * taintOf(edge.from, asset);
+    }
+    if (asset === SOL || tainted > 0) {
+      assets.push({ asset, tainted, total, share: total > 0 ? tainted / total : 0 });
+    }
+  }
+
+  return assets;
+}
+
+function buildPath(node: TaintNode, nodes: Map<string, TaintNode>): TaintPath {
+  const addresses = [node.address];
+  const signatures: string[] = [];
+  let edge = node.next;
+  let lastEdge = edge;
+
+  while (edge) {
+    addresses.push(edge.to);
+    signatures.push(edge.signature);
+    lastEdge = edge;
+    edge = nodes.get(edge.to)?.next ?? null;
+  }
+
+  return {
+    source: node.address,
+    kind: node.risk ?? "flagged",
+    hops: node.hops,
+    addresses,
+    signatures,
+    sol: lastEdge?.sol ?? 0,
+  };
+}
+
+function amountOf(edge: TaintEdge, asset: string): number {
+  return asset === SOL ? edge.sol : edge.tokens.get(asset) ?? 0;
+}
+
+function parseHops(value: string | undefined): number | undefined {
+  const hops = Number(value);
+  return value && Number.isInteger(hops) && hops >= 0 ? hops : undefined;
+}
+
+/**
+ * Generate warnings for funds traced to risky sources
+ * @param result - Taint detection result
+ * @returns Array of warning messages
+ */
+export function generateTaintWarnings(result: TaintResult): string[] {
+  const warnings: string[] = [];
+  if (result.truncated) {
+    warnings.push("Taint trace incomplete: some senders could not be screened or traced, so untraced funds are not known to be clean.");
+  }
+  if (!result.detected) return warnings;
+
+  const sol = result.assets.find(a => a.asset === SOL);
+  if (sol && sol.tainted > 0) {
+    warnings.push(
+      `${(sol.share * 100).toFixed(1)}% of incoming SOL (${sol.tainted.toFixed(4)} SOL, ${result.method} taint) ` +
+        `traces back to ${result.sources.length} risky source(s) within ${result.maxHops} hop(s).`
+    );
+  }
+  for (const asset of result.assets.filter(a => a.asset !== SOL)) {
+    warnings.push(`${(asset.share * 100).toFixed(1)}% of incoming ${shortenAddress(asset.asset)} tokens is tainted.`);
+  }
+
+  const shortest = result.paths[0];
+  if (shortest) {
+    warnings.push(
+      `Shortest risky path (${shortest.hops} hop(s), ${shortest.kind}): ${shortest.addresses.map(shortenAddress).join(" → ")}.`
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Generate action recommendations for tainted funds
+ * @param result - Taint detection result
+ * @returns Array of recommended actions
+ */
+export function generateTaintActions(result: TaintResult): string[] {
+  if (!result.detected) return [];
+  const actions = [
+    "Review the traced funding paths and their transactions before relying on these funds.",
+  ];
+  if (result.sources.some(s => s.kind === "sanctioned")) {
+    actions.push("Funds trace back to a sanctioned source - seek a compliance review before moving them to regulated venues.");
+  }
+  return actions;
+}
@@ -0,0 +1,299 @@
+/**
+ * Timing Detector - Fingerprints when a wallet is active
+ * Hour-of-day gaps give away sleep, and so a timezone; fixed intervals give away automation
+ */
+
+import type { ParsedTransaction } from "../services/helius";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { DEFAULT_PROFILE } from "../scoring/profile";
+import type { ScoringProfile } from "../scoring/profile";
+import { log } from "../utils/logger";
+
+export interface TimezoneEstimate {
+  likelyOffset: number;             // Hours from UTC, e.g. -5 for New York in winter
+  offsetMin: number;                // Window of offsets that fit about as well
+  offsetMax: number;
+  confidence: number;               // 0-1
+  quietHoursUtc: [number, number];  // Start and end hour (exclusive) of the quietest stretch
+  quietShare: number;               // Share of transactions inside it, 0-1
+}
+
+export interface AutomationEstimate {
+  periodSeconds: number;      // Most common gap between transactions
+  matchingIntervals: number;  // Gaps within tolerance of the period
+  regularity: number;         // matchingIntervals / all gaps, 0-1
+  fixedMinute: number | null; // Minute of the hour most transactions land on, if they cluster there
+}
+
+export interface TimingResult {
+  detected: boolean;
+  sampleSize: number;
+  spanDays: number;          // Days between the first and last transaction
+  hourHistogram: number[];   // 24 buckets, UTC
+  dayHistogram: number[];    // 7 buckets, UTC, Sunday first
+  weekendShare: number;      // Share of transactions on Saturday or Sunday, 0-1
+  timezone: TimezoneEstimate | null;
+  automation: AutomationEstimate | null;
+  riskContribution: number;
+}
+
+// Local hours most people are asleep; the quiet window is assumed to line up with them
+const LOCAL_SLEEP_START = 1;
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Empty histograms, with no timezone or automation guess
+ */
+export function emptyTimingResult(): TimingResult {
+  return {
+    detected: false,
+    sampleSize: 0,
+    spanDays: 0,
+    hourHistogram: new Array(24).fill(0),
+    dayHistogram: new Array(7).fill(0),
+    weekendShare: 0,
+    timezone: null,
+    automation: null,
+    riskContribution: 0,
+  };
+}
+
+/**
+ * Build activity histograms and estimate the wallet's timezone and any fixed schedule
+ * @param transactions - Parsed transaction history
+ * @param weights - Penalty weights from the active scoring profile
+ * @returns TimingResult with histograms, timezone window and automation estimate
+ */
+export function detectTimingPatterns(
+  transactions: ParsedTransaction[],
+  weights: ScoringProfile["timing"] = DEFAULT_PROFILE.timing
+): TimingResult {
+  const timestamps = transactions
+    .map(tx => tx.timestamp)
+    .filter(t => Number.isFinite(t) && t > 0)
+    .sort((a, b) => a - b);
+
+  const result = emptyTimingResult();
+  result.sampleSize = timestamps.length;
+  for (const t of timestamps) {
+    const date = new Date(t * 1000);
+    const hour = date.getUTCHours();
+    const day = date.getUTCDay();
+    result.hourHistogram[hour] = (result.hourHistogram[hour] ?? 0) + 1;
+    result.dayHistogram[day] = (result.dayHistogram[day] ?? 0) + 1;
+  }
+  const first = timestamps[0];
+  const last = timestamps[timestamps.length - 1];
+  if (first !== undefined && last !== undefined) {
+    result.spanDays = (last - first) / 86400;
+    result.weekendShare = ((result.dayHistogram[0] ?? 0) + (result.dayHistogram[6] ?? 0)) / timestamps.length;
+  }
+
+  if (timestamps.length < ANALYSIS_CONFIG.TIMING_MIN_TRANSACTIONS) {
+    log.info(`ℹ️  Not enough transactions for timing analysis (${timestamps.length})`);
+    return result;
+  }
+
+  result.timezone = estimateTimezone(result.hourHistogram, timestamps.length);
+  result.automation = detectAutomation(timestamps);
+  result.detected = result.timezone !== null || result.automation !== null;
+  result.riskContribution = Math.round(
+    (result.timezone ? result.timezone.confidence * weights.timezonePoints : 0) +
+      (result.automation ? result.automation.regularity * weights.automationPoints : 0)
+  );
+
+  if (result.timezone) {
+    log.info(`🕐 Likely timezone: ${formatOffsetWindow(result.timezone)} (${Math.round(result.timezone.confidence * 100)}% confidence)`);
+  }
+  if (result.automation) {
+    log.info(`🤖 Fixed schedule: every ~${formatDuration(result.automation.periodSeconds)}`);
+  }
+
+  return result;
+}
+
+/**
+ * Find the quietest stretch of the day and read it as the owner's night
+ * Confidence grows with how empty the stretch is and with the sample size.
+ */
+function estimateTimezone(hours: number[], total: number): TimezoneEstimate | null {
+  const span = ANALYSIS_CONFIG.TIMING_QUIET_HOURS;
+  const windowCounts = hours.map((_, start) =>
+    Array.from({ length: span }, (_, i) => hours[(start + i) % 24] ?? 0).reduce((a, b) => a + b, 0)
+  );
+
+  const quietest = Math.min(...windowCounts);
+  const start = windowCounts.indexOf(quietest);
+  const quietShare = quietest / total;
+
+  // Evenly spread activity would put span/24 of it in any window
+  const expectedShare = span / 24;
+  const emptiness = Math.max(0, 1 - quietShare / expectedShare);
+  const confidence = Math.round(emptiness * Math.min(1, total / ANALYSIS_CONFIG.TIMING_FULL_CONFIDENCE_SAMPLE) * 100) / 100;
+  if (confidence < ANALYSIS_CONFIG.TIMING_MIN_CONFIDENCE) return null;
+
+  // Neighbouring windows that are nearly as quiet widen the offset window
+  const tolerance = Math.max(1, Math.round(total * 0.02));
+  const isQuiet = (windowStart: number) => (windowCounts[(windowStart + 24) % 24] ?? Infinity) <= quietest + tolerance;
+  let before = 0;
+  while (before < 11 && isQuiet(start - before - 1)) before++;
+  let after = 0;
+  while (after < 11 && isQuiet(start + after + 1)) after++;
+
+  const offsetFor = (windowStart: number) => normalizeOffset(LOCAL_SLEEP_START - windowStart);
+  return {
+    likelyOffset: offsetFor(start),
+    offsetMin: offsetFor(start + after),
+    offsetMax: offsetFor(start - before),
+    confidence,
+    quietHoursUtc: [start, (start + span) % 24],
+    quietShare,
+  };
+}
+
+/**
+ * Look for a fixed gap between transactions, or transactions pinned to one minute of the hour
+ */
+function detectAutomation(timestamps: number[]): AutomationEstimate | null {
+  const gaps: number[] = [];
+  timestamps.forEach((t, i) => {
+    const previous = timestamps[i - 1];
+    if (previous !== undefined && t > previous) gaps.push(t - previous);
+  });
+  if (gaps.length < ANALYSIS_CONFIG.TIMING_MIN_REGULAR_INTERVALS) return null;
+
+  // The gap with the most other gaps within tolerance of it (sorted, so each range is two searches)
+  gaps.sort((a, b) => a - b);
+  let periodSeconds = 0;
+  let matchingIntervals = 0;
+  for (const candidate of new Set(gaps)) {
+    const tolerance = Math.max(ANALYSIS_CONFIG.TIMING_INTERVAL_TOLERANCE_SECONDS, candidate * 0.02);
+    const matches = lowerBound(gaps, candidate + tolerance + 1) - lowerBound(gaps, candidate - tolerance);
+    if (matches > matchingIntervals) {
+      matchingIntervals = matches;
+      periodSeconds = candidate;
+    }
+  }
+  const regularity = matchingIntervals / gaps.length;
+
+  // Schedulers also fire at the same minute of every hour
+  const minutes = new Array(60).fill(0) as number[];
+  for (const t of timestamps) {
+    const minute = new Date(t * 1000).getUTCMinutes();
+    minutes[minute] = (minutes[minute] ?? 0) + 1;
+  }
+  const topMinuteCount = Math.max(...minutes);
+  const fixedMinute = topMinuteCount / timestamps.length >= ANALYSIS_CONFIG.TIMING_MIN_REGULARITY
+    ? minutes.indexOf(topMinuteCount)
+    : null;
+
+  const regular = matchingIntervals >= ANALYSIS_CONFIG.TIMING_MIN_REGULAR_INTERVALS &&
+    regularity >= ANALYSIS_CONFIG.TIMING_MIN_REGULARITY;
+  if (!regular && fixedMinute === null) return null;
+
+  return {
+    periodSeconds,
+    matchingIntervals,
+    regularity: Math.round(Math.max(regularity, fixedMinute !== null ? topMinuteCount / timestamps.length : 0) * 100) / 100,
+    fixedMinute,
+  };
+}
+
+/**
+ * Index of the first value >= target in an ascending array
+ */
+function lowerBound(sorted: number[], target: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if ((sorted[mid] ?? Infinity) < target) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Wrap an hour offset into UTC-11..UTC+12
+ */
+function normalizeOffset(offset: number): number {
+  const wrapped = ((offset % 24) + 24) % 24;
+  return wrapped > 12 ? wrapped - 24 : wrapped;
+}
+
+function formatOffset(offset: number): string {
+  return `UTC${offset >= 0 ? "+" : ""}${offset}`;
+}
+
+function formatOffsetWindow(timezone: TimezoneEstimate): string {
+  return timezone.offsetMin === timezone.offsetMax
+    ? formatOffset(timezone.likelyOffset)
+    : `${formatOffset(timezone.offsetMin)} to ${formatOffset(timezone.offsetMax)}`;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 120) return `${seconds}s`;
+  if (seconds < 7200) return `${Math.round(seconds / 60)} min`;
+  if (seconds < 172800) return `${Math.round(seconds / 3600)} h`;
+  return `${Math.round(seconds / 86400)} days`;
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+/**
+ * Generate warnings based on timing results
+ * @param result - Timing detection result
+ * @returns Array of warning messages
+ */
+export function generateTimingWarnings(result: TimingResult): string[] {
+  const warnings: string[] = [];
+
+  if (result.timezone) {
+    const [quietStart, quietEnd] = result.timezone.quietHoursUtc;
+    warnings.push(
+      `Your activity stops between ${formatHour(quietStart)} and ${formatHour(quietEnd)} UTC, which points to ` +
+        `${formatOffsetWindow(result.timezone)} (${Math.round(result.timezone.confidence * 100)}% confidence). ` +
+        `Timestamps reveal your sleep cycle and narrow down where you live.`
+    );
+  }
+
+  if (result.automation) {
+    const { periodSeconds, matchingIntervals, fixedMinute } = result.automation;
+    warnings.push(
+      fixedMinute !== null && matchingIntervals < ANALYSIS_CONFIG.TIMING_MIN_REGULAR_INTERVALS
+        ? `Most transactions land at minute :${String(fixedMinute).padStart(2, "0")} of the hour - a scheduled job is easy to fingerprint.`
+        : `${matchingIntervals} transactions follow a fixed ~${formatDuration(periodSeconds)} interval. ` +
+            `Cron-like schedules make this wallet's automation easy to recognise across wallets.`
+    );
+  }
+
+  const busiestDay = result.dayHistogram.indexOf(Math.max(...result.dayHistogram));
+  // Only meaningful once the history spans a couple of weekends
+  if (result.detected && result.weekendShare < 0.05 && result.spanDays >= 14) {
+    warnings.push(`Almost no weekend activity (busiest day: ${DAY_NAMES[busiestDay]}) suggests a workday routine.`);
+  }
+
+  return warnings;
+}
+
+/**
+ * Generate action recommendations based on timing results
+ * @param result - Timing detection result
+ * @returns Array of recommended actions
+ */
+export function generateTimingActions(result: TimingResult): string[] {
+  const actions: string[] = [];
+
+  if (result.timezone) {
+    actions.push("Batch transactions and send them at varied times of day, including outside your usual hours.");
+    actions.push("Delay non-urgent transactions by a random amount rather than sending them as soon as you decide.");
+  }
+  if (result.automation) {
+    actions.push("Add random jitter to scheduled jobs and avoid fixed intervals or fixed minutes of the hour.");
+  }
+
+  return actions;
+}
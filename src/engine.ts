@@ -4,72 +4,67 @@
  */
 
 import * as dotenv from "dotenv";
-import { HeliusService } from "./services/helius";
+import { getInteractingAddresses } from "./services/helius";
 import type { ParsedTransaction } from "./services/helius";
-import { checkRisk, checkInteractingAddresses } from "./services/range";
+import { summarizeCoverage } from "./services/history";
+import type { HistoryDepth, HistoryCoverage } from "./services/history";
+import { createTransactionSource } from "./services/source";
+import { loadDemoHistory } from "./services/fixture";
+import type { TransactionSource } from "./services/source";
+import { checkRisk, checkInteractingAddresses, getRangeClient } from "./services/range";
 import type { RangeCheckResult } from "./services/range";
-import {
-  detectCEXTransactions,
-  generateCEXWarnings,
-  generateCEXActions,
-} from "./detectors/cex";
+import { getRegisteredDetectors } from "./detectors/registry";
+import type { Detector, DetectorContext, DetectorFinding } from "./detectors/registry";
 import type { CEXDetectionResult } from "./detectors/cex";
-import {
-  detectClustering,
-  detectWashTrading,
-  generateClusteringWarnings,
-  generateClusteringActions,
-} from "./detectors/clustering";
-import type { ClusteringResult } from "./detectors/clustering";
-import {
-  detectIdentityAssets,
-  generateAssetWarnings,
-  generateAssetActions,
-} from "./detectors/assets";
-import type { AssetsDetectionResult } from "./detectors/assets";
+import type { DustResult } from "./detectors/dust";
+import { resolveScoringProfile } from "./scoring/profile";
+import { getLabelRegistry } from "./labels/registry";
+import type { LabelSetInfo } from "./labels/registry";
+import type { ScoringProfile } from "./scoring/profile";
 import {
   RiskLevel,
-  SCORE_THRESHOLDS,
   RECOMMENDED_TOOLS,
   ANALYSIS_CONFIG,
 } from "./utils/constants";
+import { log } from "./utils/logger";
 
 // Load environment variables
-dotenv.config();
+dotenv.config({ quiet: true });
 
 
 export interface PrivacyReport {
   // Basic info
   walletAddress: string;
   analyzedAt: Date;
-  balance: number; // SOL balance fetched via QuickNode
+  balance: number | null; // SOL balance fetched from the transaction source, null if the fetch failed
   transactionsAnalyzed: number;
+  historyCoverage: HistoryCoverage;
+
+  // Scan status
+  status: ReportStatus;
+  stages: AnalysisStage[]; // Every stage in run order, with its outcome
 
   // Main score
-  score: number; // 0-100
+  score: number | null; // 0-100, null when the scan failed before it could be scored
   riskLevel: RiskLevel;
   riskDescription: string;
+  deductions: ScoreDeduction[]; // Why the score is below 100, in the order applied
+  scoringProfile: { name: string; version: string };
+  labelRegistry: { version: string; sets: LabelSetInfo[] }; // Entity labels the report was built with
 
   // Detailed findings
   warnings: Warning[];
   actions: Recommendation[];
 
-  // Detector results
-  detectorResults: {
-    cex: CEXDetectionResult;
-    clustering: ClusteringResult;
-    assets: AssetsDetectionResult;
-    compliance: RangeCheckResult;
-    interactingAddressRisks: {
-      sanctionedAddresses: string[];
-      flaggedAddresses: string[];
-      totalChecked: number;
-    };
-  };
+  // Detector results, keyed by detector id (plugin detectors add their own keys)
+  detectorResults: DetectorResults;
 
   // Metadata
   analysisMetadata: {
     heliusEnabled: boolean;
+    dataSource: string; // Transaction source name, or "mock" for demo data
+    complianceProvider: string;   // Range client name ("range", "mock", ...)
+    complianceSimulated: boolean; // Compliance results are simulated, not a real sanctions check
     apiLimitReached: boolean;
     analysisTimeMs: number;
   };
@@ -82,12 +77,73 @@ export interface PrivacyReport {
   };
 }
 
+// complete: every stage ran; degraded: some stages failed and their findings are missing;
+// failed: no score could be computed
+export type ReportStatus = "complete" | "degraded" | "failed";
+
+export interface AnalysisStage {
+  id: string; // "history", "balance", "compliance", "detector:<id>" or "screening"
+  name: string;
+  status: "completed" | "failed" | "skipped";
+  error?: string | undefined; // Why the stage failed or was skipped
+  count?: number | undefined; // Transactions fetched, warnings raised or addresses screened
+  durationMs: number;
+}
+
+// Emitted through AnalyzeOptions.onProgress, in order
+export type ProgressEvent =
+  | { type: "analysis-started"; walletAddress: string; stages: { id: string; name: string }[]; elapsedMs: number }
+  | { type: "stage-started"; stage: { id: string; name: string }; elapsedMs: number }
+  | { type: "stage-progress"; stage: { id: string; name: string }; completed: number; total?: number | undefined; elapsedMs: number }
+  | { type: "stage-finished"; stage: AnalysisStage; elapsedMs: number }
+  | { type: "findings"; stage: { id: string; name: string }; warnings: Warning[]; points: number; elapsedMs: number }
+  | { type: "analysis-finished"; status: ReportStatus; score: number | null; riskLevel: RiskLevel; elapsedMs: number }
+  | { type: "analysis-cancelled"; elapsedMs: number };
+
+// Yielded by analyzeWalletStream: every progress event, then the report
+export type AnalysisStreamEvent = ProgressEvent | { type: "report"; report: PrivacyReport };
+
+// Results by detector id (see Detector.emptyResult for each shape), plus the compliance checks
+export interface DetectorResults {
+  compliance: RangeCheckResult;
+  interactingAddressRisks: InteractingAddressRisks;
+  [detectorId: string]: unknown;
+}
+
+export interface InteractingAddressRisks {
+  sanctionedAddresses: string[];
+  flaggedAddresses: string[];
+  totalChecked: number;
+  failedLookups: number; // Lookups that failed - those counterparties were not screened
+  unscreened: number; // Lower-activity counterparties left out by the screening budget
+}
+
+export interface AnalyzeOptions {
+  depth?: HistoryDepth | undefined; // Defaults to MAX_TRANSACTIONS_TO_ANALYZE newest transactions
+  source?: TransactionSource | undefined; // Defaults to the source configured in the environment
+  scoringProfile?: ScoringProfile | string | undefined; // Profile, built-in name or file path
+  detectors?: Detector[] | undefined; // Defaults to every registered detector
+  screeningBudget?: number | undefined; // Most counterparties to screen, defaults to SCREENING_BUDGET
+  signal?: AbortSignal | undefined; // Cancels the analysis and any in-flight fetches
+  onProgress?: ((event: ProgressEvent) => void) | undefined;
+}
+
 export interface Warning {
+  id: string; // Stable within a report, referenced by ScoreDeduction.warningIds
   severity: "low" | "medium" | "high" | "critical";
   category: string;
   message: string;
 }
 
+export interface ScoreDeduction {
+  id: string;
+  category: string;
+  reason: string;
+  points: number;
+  warningIds: string[]; // Warnings that explain this deduction
+  signatures: string[]; // Transactions that triggered it
+}
+
 export interface Recommendation {
   priority: "low" | "medium" | "high";
   category: string;
@@ -100,125 +156,271 @@ export interface Recommendation {
 /**
  * Analyze a Solana wallet for privacy risks
  * @param address - Solana wallet address to analyze
- * @returns Comprehensive privacy report
+ * @param options - History depth, cancellation, progress callback and other analysis options
+ * @returns Comprehensive privacy report. Rejects with the signal's reason if cancelled.
  */
-export async function analyzeWallet(address: string): Promise<PrivacyReport> {
+export async function analyzeWallet(
+  address: string,
+  options: AnalyzeOptions = {}
+): Promise<PrivacyReport> {
   const startTime = Date.now();
-  console.log("\n" + "=".repeat(60));
-  console.log(`🔍 PRIVACY ANALYSIS: ${address}`);
-  console.log("=".repeat(60) + "\n");
+  const stages: AnalysisStage[] = [];
+  const run: StageRun = {
+    stages,
+    signal: options.signal,
+    emit: (event) => {
+      try {
+        options.onProgress?.(event);
+      } catch (error) {
+        log.error("❌ Progress listener failed:", error);
+      }
+    },
+    elapsed: () => Date.now() - startTime,
+  };
+  const detectors = options.detectors ?? getRegisteredDetectors();
+  log.info("\n" + "=".repeat(60));
+  log.info(`🔍 PRIVACY ANALYSIS: ${address}`);
+  log.info("=".repeat(60) + "\n");
+
+  run.emit({
+    type: "analysis-started",
+    walletAddress: address,
+    stages: [
+      { id: "history", name: HISTORY_STAGE },
+      { id: "balance", name: BALANCE_STAGE },
+      { id: "compliance", name: COMPLIANCE_STAGE },
+      ...detectors.map(d => ({ id: `detector:${d.id}`, name: d.name })),
+      { id: "screening", name: SCREENING_STAGE },
+    ],
+    elapsedMs: 0,
+  });
 
   try {
+    options.signal?.throwIfAborted();
+
     // Validate address
     if (!isValidSolanaAddress(address)) {
       throw new Error(`Invalid Solana address: ${address}`);
     }
 
+    const profile = typeof options.scoringProfile === "object"
+      ? options.scoringProfile
+      : resolveScoringProfile(options.scoringProfile);
+    log.info(`📐 Scoring profile: ${profile.name}@${profile.version}\n`);
+
     // Initialize services
-    const heliusService = new HeliusService();
-    const heliusEnabled = heliusService.isReady();
+    const source = options.source ?? createTransactionSource();
+    const sourceReady = source.isReady();
+    const heliusEnabled = sourceReady && source.name === "helius";
+    const rangeClient = getRangeClient();
 
     // Step 1: Fetch transaction history
-    console.log("📡 Step 1: Fetching transaction history...");
-    let transactions: ParsedTransaction[] = [];
-    
-    if (heliusEnabled) {
-      transactions = await heliusService.getHistory(
-        address,
-        ANALYSIS_CONFIG.MAX_TRANSACTIONS_TO_ANALYZE
-      );
-    } else {
-      console.log("⚠️  Helius API not available, using mock data for demo");
-      transactions = generateMockTransactions(address);
+    log.info("📡 Step 1: Fetching transaction history...");
+    const depth = options.depth ?? { maxTransactions: ANALYSIS_CONFIG.MAX_TRANSACTIONS_TO_ANALYZE };
+    const history = await runStage(run, "history", HISTORY_STAGE, async () => {
+      if (sourceReady) {
+        return source.getHistory(address, depth, {
+          signal: options.signal,
+          onProgress: ({ transactionsFetched }) => run.emit({
+            type: "stage-progress",
+            stage: { id: "history", name: HISTORY_STAGE },
+            completed: transactionsFetched,
+            elapsedMs: run.elapsed(),
+          }),
+        });
+      }
+      log.info(`⚠️  ${source.name} source not available, using mock data for demo`);
+      return loadDemoHistory(address, depth);
+    }, h => h.transactions.length);
+    const transactions: ParsedTransaction[] = history?.transactions ?? [];
+    const historyCoverage: HistoryCoverage = history?.coverage ?? summarizeCoverage([], depth, 0, false);
+    const dataSource = historyCoverage.simulated ? "mock" : source.name;
+
+    if (history) {
+      log.info(`   Retrieved ${transactions.length} transactions`);
+      if (historyCoverage.truncated) {
+        log.info("   ⚠️  Older history exists that was not analyzed");
+      }
     }
+    log.info("");
 
-    console.log(`   Retrieved ${transactions.length} transactions\n`);
-
-    // Step 1.5: Fetch real balance via QuickNode
-    console.log("💰 Step 1.5: Fetching real balance via QuickNode...");
-    const realBalance = await heliusService.getBalance(address);
-    console.log(`💰 Step 1.5: Fetched Real Balance via QuickNode: ${realBalance.toFixed(4)} SOL\n`);
+    // Step 1.5: Fetch real balance
+    log.info(`💰 Step 1.5: Fetching real balance via ${source.name}...`);
+    const realBalance = await runStage(run, "balance", BALANCE_STAGE, () => source.getBalance(address));
+    if (realBalance !== null) {
+      log.info(`💰 Step 1.5: Fetched Real Balance: ${realBalance.toFixed(4)} SOL`);
+    }
+    log.info("");
 
     // Step 2: Run compliance check on the wallet itself
-    console.log("🔒 Step 2: Running compliance check...");
-    const complianceResult = await checkRisk(address);
-    console.log(`   Wallet status: ${complianceResult.status}\n`);
-
-    // Step 3: Run CEX detector
-    console.log("🏦 Step 3: Detecting CEX activity...");
-    const cexResult = detectCEXTransactions(transactions, address);
-    console.log("");
-
-    // Step 4: Run clustering detector
-    console.log("🔗 Step 4: Analyzing transaction patterns...");
-    const clusteringResult = detectClustering(transactions, address);
-    const washTradingResult = detectWashTrading(transactions, address);
-    console.log("");
-
-    // Step 5: Run assets detector
-    console.log("🖼️  Step 5: Checking identity-revealing assets...");
-    const assetsResult = detectIdentityAssets(transactions, address);
-    console.log("");
-
-    // Step 6: Check interacting addresses for risks
-    console.log("👥 Step 6: Checking interacting addresses...");
-    const interactingAddresses = heliusService.getInteractingAddresses(
-      transactions,
-      address
-    );
-    const addressRisks = await checkInteractingAddresses(interactingAddresses);
-    console.log(`   Checked ${addressRisks.totalChecked} addresses`);
-    if (addressRisks.sanctionedAddresses.length > 0) {
-      console.log(`   ⚠️  Found ${addressRisks.sanctionedAddresses.length} sanctioned!`);
+    log.info(`🔒 Step 2: Running compliance check via ${rangeClient.name}...`);
+    if (rangeClient.simulated) {
+      log.info("   ⚠️  Compliance data is SIMULATED - not a real sanctions check");
+    }
+    const complianceResult = await runStage(run, "compliance", COMPLIANCE_STAGE, async () => {
+      const result = await checkRisk(address, { signal: options.signal });
+      if (result.status === "Unknown") {
+        throw new Error(result.details.flags.join("; ") || "Compliance status unknown");
+      }
+      return result;
+    }) ?? unknownComplianceResult(address);
+    log.info(`   Wallet status: ${complianceResult.status}`);
+    if (complianceResult.details.sanctionLists.length > 0) {
+      log.info(`   Lists: ${complianceResult.details.sanctionLists.join(", ")}`);
+    }
+    log.info("");
+
+    // Step 3: Run detectors
+    log.info(`🔎 Step 3: Running ${detectors.length} detectors...`);
+    const ctx: DetectorContext = {
+      walletAddress: address,
+      profile,
+      source,
+      coverage: historyCoverage,
+      results: {},
+      signal: options.signal,
+    };
+    const findings: DetectorRun[] = [];
+    for (const detector of detectors) {
+      const stageId = `detector:${detector.id}`;
+      if (!history) {
+        skipStage(run, stageId, detector.name, "No transaction history");
+        ctx.results[detector.id] = detector.emptyResult();
+        continue;
+      }
+
+      log.info(`▶ ${detector.name}`);
+      const finding = await runStage(
+        run,
+        stageId,
+        detector.name,
+        () => detector.run(transactions, ctx),
+        f => f.warnings.length
+      );
+      if (finding) {
+        ctx.results[detector.id] = finding.result;
+        findings.push({ detector, finding });
+        if (finding.warnings.length > 0 || finding.riskContribution > 0) {
+          run.emit({
+            type: "findings",
+            stage: { id: stageId, name: detector.name },
+            warnings: detectorWarnings(detector, finding),
+            points: finding.riskContribution,
+            elapsedMs: run.elapsed(),
+          });
+        }
+      } else {
+        ctx.results[detector.id] = detector.emptyResult();
+      }
+      log.info("");
+    }
+
+    // Step 4: Check interacting addresses for risks
+    log.info("👥 Step 4: Checking interacting addresses...");
+    let addressRisks: InteractingAddressRisks | null = null;
+    if (history) {
+      // Dust senders and lookalikes are the attacker's addresses, not the wallet's counterparties
+      const dust = ctx.results.dust as DustResult | undefined;
+      const counterparties = getInteractingAddresses(transactions, address, new Set(dust?.ignoredAddresses ?? []));
+      let screened: InteractingAddressRisks | null = null;
+      addressRisks = await runStage(run, "screening", SCREENING_STAGE, async () => {
+        screened = await checkInteractingAddresses(counterparties, {
+          signal: options.signal,
+          budget: options.screeningBudget,
+          onProgress: (checked, total) => run.emit({
+            type: "stage-progress",
+            stage: { id: "screening", name: SCREENING_STAGE },
+            completed: checked,
+            total,
+            elapsedMs: run.elapsed(),
+          }),
+        });
+        // Failed lookups fail the stage, but the hits that were found are still reported
+        if (screened.failedLookups > 0) {
+          throw new Error(`${screened.failedLookups} of ${screened.failedLookups + screened.totalChecked} counterparty lookups failed`);
+        }
+        return screened;
+      }, risks => risks.totalChecked) ?? screened;
+    } else {
+      skipStage(run, "screening", SCREENING_STAGE, "No transaction history");
     }
-    console.log("");
-
-    // Step 7: Calculate final score
-    console.log("📊 Step 7: Calculating privacy score...");
-    const { score, deductions } = calculatePrivacyScore({
-      cexResult,
-      clusteringResult,
-      assetsResult,
+    if (addressRisks) {
+      log.info(`   Checked ${addressRisks.totalChecked} addresses`);
+      if (addressRisks.failedLookups > 0) {
+        log.info(`   ⚠️  ${addressRisks.failedLookups} lookups failed - those counterparties were not screened`);
+      }
+      if (addressRisks.unscreened > 0) {
+        log.info(`   ${addressRisks.unscreened} lower-activity addresses checked against watchlists only (screening budget)`);
+      }
+      if (addressRisks.sanctionedAddresses.length > 0) {
+        log.info(`   ⚠️  Found ${addressRisks.sanctionedAddresses.length} sanctioned!`);
+      }
+    }
+    addressRisks = addressRisks ?? { sanctionedAddresses: [], flaggedAddresses: [], totalChecked: 0, failedLookups: 0, unscreened: 0 };
+    log.info("");
+
+    // Step 5: Collect warnings
+    const warnings = collectWarnings({
+      findings,
       complianceResult,
+      complianceSimulated: rangeClient.simulated,
+      historySimulated: historyCoverage.simulated,
       addressRisks,
-      washTradingDetected: washTradingResult.detected,
+      screeningBudget: options.screeningBudget ?? ANALYSIS_CONFIG.SCREENING_BUDGET,
+      stages,
     });
-    console.log(`   Final Score: ${score}/100`);
-    console.log("");
-
-    // Step 8: Determine risk level
-    const riskLevel = determineRiskLevel(score);
-    const riskDescription = getRiskDescription(riskLevel);
 
-    // Step 9: Collect warnings
-    const warnings = collectWarnings({
-      cexResult,
-      clusteringResult,
-      assetsResult,
+    // Step 6: Calculate final score - only when there was history to score
+    log.info("📊 Step 5: Calculating privacy score...");
+    const status = reportStatus(stages);
+    const scored = calculatePrivacyScore({
+      profile,
+      findings,
       complianceResult,
       addressRisks,
+      warnings,
+      sanctionedSignatures: findSignaturesInvolving(
+        transactions,
+        new Set(addressRisks.sanctionedAddresses)
+      ),
     });
+    const finalScore = status === "failed" ? null : scored.score;
+    const deductions = status === "failed" ? [] : scored.deductions;
+    if (finalScore === null) {
+      log.info("   ⚠️  No score: transaction history could not be fetched");
+    } else {
+      log.info(`   Final Score: ${finalScore}/100`);
+    }
+    for (const deduction of deductions) {
+      log.info(`   -${deduction.points} ${deduction.reason}`);
+    }
+    log.info("");
+
+    // Step 7: Determine risk level
+    const riskLevel = finalScore === null ? RiskLevel.UNKNOWN : determineRiskLevel(finalScore, profile);
+    const riskDescription = status === "degraded"
+      ? `${getRiskDescription(riskLevel)} Some checks failed, so risks may be missing from this score.`
+      : getRiskDescription(riskLevel);
 
-    // Step 10: Generate recommendations
+    // Step 8: Generate recommendations
     const actions = generateRecommendations({
-      cexResult,
-      clusteringResult,
-      assetsResult,
+      findings,
       complianceResult,
-      score,
+      score: finalScore,
     });
 
     const analysisTimeMs = Date.now() - startTime;
 
     // Calculate financial exposure from CEX transactions
     const SOL_PRICE_USD = 150; // Fixed rate for simplicity
+    const cexResult = (ctx.results.cex as CEXDetectionResult | undefined) ?? { deposits: [], withdrawals: [] };
     const cexVolumeSol = [
       ...cexResult.deposits.map(d => d.amount || 0),
       ...cexResult.withdrawals.map(w => w.amount || 0),
     ].reduce((sum, amount) => sum + amount, 0);
     
     // If wallet is burned, all balance is exposed - take max of CEX volume and actual balance
-    const exposedSol = Math.max(cexVolumeSol, realBalance);
+    const exposedSol = Math.max(cexVolumeSol, realBalance ?? 0);
     const exposedUsd = exposedSol * SOL_PRICE_USD;
 
     const report: PrivacyReport = {
@@ -226,20 +428,28 @@ export async function analyzeWallet(address: string): Promise<PrivacyReport> {
       analyzedAt: new Date(),
       balance: realBalance,
       transactionsAnalyzed: transactions.length,
-      score,
+      historyCoverage,
+      status,
+      stages,
+      score: finalScore,
       riskLevel,
       riskDescription,
+      deductions,
+      scoringProfile: { name: profile.name, version: profile.version },
+      labelRegistry: describeLabels(),
       warnings,
       actions,
       detectorResults: {
-        cex: cexResult,
-        clustering: clusteringResult,
-        assets: assetsResult,
+        ...emptyDetectorResults(address, detectors),
+        ...ctx.results,
         compliance: complianceResult,
         interactingAddressRisks: addressRisks,
       },
       analysisMetadata: {
         heliusEnabled,
+        dataSource,
+        complianceProvider: rangeClient.name,
+        complianceSimulated: rangeClient.simulated,
         apiLimitReached: false,
         analysisTimeMs,
       },
@@ -250,40 +460,59 @@ export async function analyzeWallet(address: string): Promise<PrivacyReport> {
       },
     };
 
-    console.log("\n" + "=".repeat(60));
-    console.log("✅ ANALYSIS COMPLETE");
-    console.log("=".repeat(60) + "\n");
+    log.info("\n" + "=".repeat(60));
+    log.info(status === "complete" ? "✅ ANALYSIS COMPLETE" : `⚠️  ANALYSIS ${status.toUpperCase()}`);
+    log.info("=".repeat(60) + "\n");
 
+    run.emit({ type: "analysis-finished", status, score: finalScore, riskLevel, elapsedMs: analysisTimeMs });
     return report;
   } catch (error) {
-    console.error("❌ Analysis failed:", error);
+    // Cancellation is not a failed scan - the caller asked to stop, so there is no report
+    if (options.signal?.aborted) {
+      log.info("🛑 Analysis cancelled");
+      run.emit({ type: "analysis-cancelled", elapsedMs: run.elapsed() });
+      throw options.signal.reason ?? error;
+    }
+
+    log.error("❌ Analysis failed:", error);
+    run.emit({
+      type: "analysis-finished",
+      status: "failed",
+      score: null,
+      riskLevel: RiskLevel.UNKNOWN,
+      elapsedMs: run.elapsed(),
+    });
     
-    // Return error report
+    // Return a failed report - never a real-looking score
     return {
       walletAddress: address,
       analyzedAt: new Date(),
-      balance: 0,
+      balance: null,
       transactionsAnalyzed: 0,
-      score: 0,
-      riskLevel: RiskLevel.CRITICAL,
-      riskDescription: "Analysis failed - unable to assess privacy risk",
+      historyCoverage: summarizeCoverage([], options.depth ?? {}, 0, false),
+      status: "failed",
+      stages,
+      score: null,
+      riskLevel: RiskLevel.UNKNOWN,
+      riskDescription: getRiskDescription(RiskLevel.UNKNOWN),
+      deductions: [],
+      scoringProfile: describeProfileSafely(options.scoringProfile),
+      labelRegistry: describeLabels(),
       warnings: [
         {
+          id: "error",
           severity: "critical",
           category: "error",
-          message: `Analysis error: ${error instanceof Error ? error.message : "Unknown error"}`,
+          message: `Analysis error: ${errorMessage(error)}`,
         },
       ],
       actions: [],
-      detectorResults: {
-        cex: { detected: false, deposits: [], withdrawals: [], totalCEXTransactions: 0, exchangesInvolved: [], riskContribution: 0 },
-        clustering: { detected: false, clusteringPercentage: 0, topAddresses: [], dominantAddress: null, totalUniqueAddresses: 0, totalTransactions: 0, riskContribution: 0, pattern: "none" },
-        assets: { detected: false, nftsDetected: [], solDomainsDetected: [], poapsDetected: [], identityExposureLevel: "none", riskContribution: 0 },
-        compliance: { address, status: "Unknown", riskScore: 0, checkedAt: new Date(), details: { sanctionLists: [], flags: [], linkedToMixer: false, linkedToExploit: false } },
-        interactingAddressRisks: { sanctionedAddresses: [], flaggedAddresses: [], totalChecked: 0 },
-      },
+      detectorResults: emptyDetectorResults(address, detectors),
       analysisMetadata: {
         heliusEnabled: false,
+        dataSource: "none",
+        complianceProvider: getRangeClient().name,
+        complianceSimulated: getRangeClient().simulated,
         apiLimitReached: false,
         analysisTimeMs: Date.now() - startTime,
       },
@@ -297,82 +526,210 @@ export async function analyzeWallet(address: string): Promise<PrivacyReport> {
 }
 
 
+/**
+ * Analyze a wallet as an async iterator of progress events, ending with a "report" event
+ * Stopping iteration early cancels the analysis.
+ * @param address - Solana wallet address to analyze
+ * @param options - Same options as analyzeWallet
+ */
+export async function* analyzeWalletStream(
+  address: string,
+  options: AnalyzeOptions = {}
+): AsyncGenerator<AnalysisStreamEvent, void, undefined> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) forwardAbort();
+  options.signal?.addEventListener("abort", forwardAbort, { once: true });
+
+  const queue: AnalysisStreamEvent[] = [];
+  let wake: (() => void) | null = null;
+  let finished = false;
+  let failure: { error: unknown } | null = null;
+
+  const push = (event: AnalysisStreamEvent) => {
+    queue.push(event);
+    wake?.();
+  };
+
+  analyzeWallet(address, {
+    ...options,
+    signal: controller.signal,
+    onProgress: (event) => {
+      options.onProgress?.(event);
+      push(event);
+    },
+  }).then(
+    report => push({ type: "report", report }),
+    error => { failure = { error }; }
+  ).finally(() => {
+    finished = true;
+    wake?.();
+  });
+
+  try {
+    while (true) {
+      const event = queue.shift();
+      if (event) {
+        yield event;
+        continue;
+      }
+      if (finished) break;
+      await new Promise<void>(resolve => { wake = resolve; });
+      wake = null;
+    }
+    if (failure) throw (failure as { error: unknown }).error;
+  } finally {
+    options.signal?.removeEventListener("abort", forwardAbort);
+    if (!finished) controller.abort();
+  }
+}
+
+
+const HISTORY_STAGE = "Transaction history";
+const BALANCE_STAGE = "Balance";
+const COMPLIANCE_STAGE = "Compliance check";
+const SCREENING_STAGE = "Counterparty screening";
+
+// Shared state for the stages of one analysis run
+interface StageRun {
+  stages: AnalysisStage[];
+  signal: AbortSignal | undefined;
+  emit: (event: ProgressEvent) => void;
+  elapsed: () => number;
+}
+
+/**
+ * Run one analysis stage, recording its outcome instead of letting it abort the scan
+ * Cancellation is rethrown - it ends the whole analysis, not just the stage.
+ * @param count - Items the stage produced, for progress events
+ * @returns The stage result, or null if it failed
+ */
+async function runStage<T>(
+  run: StageRun,
+  id: string,
+  name: string,
+  fn: () => T | Promise<T>,
+  count?: (result: T) => number
+): Promise<T | null> {
+  run.signal?.throwIfAborted();
+  run.emit({ type: "stage-started", stage: { id, name }, elapsedMs: run.elapsed() });
+
+  const start = Date.now();
+  let stage: AnalysisStage;
+  let result: T | null = null;
+  try {
+    result = await fn();
+    stage = { id, name, status: "completed", count: count?.(result), durationMs: Date.now() - start };
+  } catch (error) {
+    if (run.signal?.aborted) throw error;
+    log.error(`❌ ${name} failed:`, error);
+    stage = { id, name, status: "failed", error: errorMessage(error), durationMs: Date.now() - start };
+  }
+
+  run.stages.push(stage);
+  run.emit({ type: "stage-finished", stage, elapsedMs: run.elapsed() });
+  return result;
+}
+
+function skipStage(run: StageRun, id: string, name: string, reason: string): void {
+  const stage: AnalysisStage = { id, name, status: "skipped", error: reason, durationMs: 0 };
+  run.stages.push(stage);
+  run.emit({ type: "stage-finished", stage, elapsedMs: run.elapsed() });
+}
+
+/**
+ * Without history there is nothing to score; any other failure only degrades the report
+ */
+function reportStatus(stages: AnalysisStage[]): ReportStatus {
+  if (stages.some(s => s.id === "history" && s.status !== "completed")) return "failed";
+  if (stages.some(s => s.status !== "completed")) return "degraded";
+  return "complete";
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+interface DetectorRun {
+  detector: Detector;
+  finding: DetectorFinding;
+}
+
 interface ScoreInput {
-  cexResult: CEXDetectionResult;
-  clusteringResult: ClusteringResult;
-  assetsResult: AssetsDetectionResult;
+  profile: ScoringProfile;
+  findings: DetectorRun[];
   complianceResult: RangeCheckResult;
   addressRisks: { sanctionedAddresses: string[]; flaggedAddresses: string[] };
-  washTradingDetected: boolean;
+  warnings: Warning[];
+  sanctionedSignatures: string[];
 }
 
 interface ScoreOutput {
   score: number;
-  deductions: { reason: string; points: number }[];
+  deductions: ScoreDeduction[];
 }
 
 function calculatePrivacyScore(input: ScoreInput): ScoreOutput {
   let score = 100;
-  const deductions: { reason: string; points: number }[] = [];
+  const deductions: ScoreDeduction[] = [];
 
-  // CEX activity deductions
-  if (input.cexResult.riskContribution > 0) {
-    score -= input.cexResult.riskContribution;
-    deductions.push({
-      reason: `CEX activity (${input.cexResult.totalCEXTransactions} transactions)`,
-      points: input.cexResult.riskContribution,
-    });
-  }
+  const warningIds = (prefix: string): string[] =>
+    input.warnings.filter(w => w.id.startsWith(prefix)).map(w => w.id);
 
-  // Clustering deductions
-  if (input.clusteringResult.riskContribution > 0) {
-    score -= input.clusteringResult.riskContribution;
-    deductions.push({
-      reason: `Clustering pattern: ${input.clusteringResult.pattern}`,
-      points: input.clusteringResult.riskContribution,
-    });
-  }
+  // Detector deductions
+  for (const { detector, finding } of input.findings) {
+    if (finding.riskContribution <= 0) continue;
 
-  // Assets deductions
-  if (input.assetsResult.riskContribution > 0) {
-    score -= input.assetsResult.riskContribution;
+    score -= finding.riskContribution;
     deductions.push({
-      reason: `Identity-revealing assets`,
-      points: input.assetsResult.riskContribution,
+      id: detector.id,
+      category: detector.category,
+      reason: finding.deductionReason ?? detector.name,
+      points: finding.riskContribution,
+      warningIds: warningIds(`${detector.id}-`),
+      signatures: uniqueSignatures(finding.signatures ?? []),
     });
   }
 
   // Compliance deductions
+  const weights = input.profile;
+
   if (input.complianceResult.status === "Sanctioned") {
-    score -= 50;
+    score -= weights.compliance.sanctioned;
     deductions.push({
+      id: "compliance-status",
+      category: "Compliance",
       reason: "Wallet on sanctions list",
-      points: 50,
+      points: weights.compliance.sanctioned,
+      warningIds: warningIds("compliance-status"),
+      signatures: [],
     });
   } else if (input.complianceResult.status === "Flagged") {
-    score -= 25;
+    score -= weights.compliance.flagged;
     deductions.push({
+      id: "compliance-status",
+      category: "Compliance",
       reason: "Wallet flagged for suspicious activity",
-      points: 25,
+      points: weights.compliance.flagged,
+      warningIds: warningIds("compliance-status"),
+      signatures: [],
     });
   }
 
   // Interacting with sanctioned addresses
   if (input.addressRisks.sanctionedAddresses.length > 0) {
-    const penalty = Math.min(input.addressRisks.sanctionedAddresses.length * 20, 40);
+    const penalty = Math.min(
+      input.addressRisks.sanctionedAddresses.length * weights.compliance.sanctionedInteractionPoints,
+      weights.compliance.sanctionedInteractionCap
+    );
     score -= penalty;
     deductions.push({
+      id: "compliance-interactions",
+      category: "Compliance",
       reason: `Interacted with ${input.addressRisks.sanctionedAddresses.length} sanctioned address(es)`,
       points: penalty,
-    });
-  }
-
-  // Wash trading penalty
-  if (input.washTradingDetected) {
-    score -= 15;
-    deductions.push({
-      reason: "Wash trading pattern detected",
-      points: 15,
+      warningIds: warningIds("compliance-interactions"),
+      signatures: input.sanctionedSignatures,
     });
   }
 
@@ -382,10 +739,10 @@ function calculatePrivacyScore(input: ScoreInput): ScoreOutput {
   return { score, deductions };
 }
 
-function determineRiskLevel(score: number): RiskLevel {
-  if (score <= SCORE_THRESHOLDS.CRITICAL) return RiskLevel.CRITICAL;
-  if (score <= SCORE_THRESHOLDS.HIGH) return RiskLevel.HIGH;
-  if (score <= SCORE_THRESHOLDS.MEDIUM) return RiskLevel.MEDIUM;
+function determineRiskLevel(score: number, profile: ScoringProfile): RiskLevel {
+  if (score <= profile.thresholds.critical) return RiskLevel.CRITICAL;
+  if (score <= profile.thresholds.high) return RiskLevel.HIGH;
+  if (score <= profile.thresholds.medium) return RiskLevel.MEDIUM;
   return RiskLevel.LOW;
 }
 
@@ -399,121 +756,130 @@ function getRiskDescription(level: RiskLevel): string {
       return "Moderate privacy risk. Some patterns could be used to link your activities.";
     case RiskLevel.LOW:
       return "Good privacy posture. Minimal identifiable patterns detected.";
+    case RiskLevel.UNKNOWN:
+      return "Analysis incomplete - no privacy score could be computed. This is not a risk rating.";
   }
 }
 
 
 interface WarningInput {
-  cexResult: CEXDetectionResult;
-  clusteringResult: ClusteringResult;
-  assetsResult: AssetsDetectionResult;
+  findings: DetectorRun[];
   complianceResult: RangeCheckResult;
-  addressRisks: { sanctionedAddresses: string[]; flaggedAddresses: string[] };
+  complianceSimulated: boolean;
+  historySimulated: boolean;
+  addressRisks: InteractingAddressRisks;
+  screeningBudget: number; // Configured budget, not the number of lookups that succeeded
+  stages: AnalysisStage[];
 }
 
 function collectWarnings(input: WarningInput): Warning[] {
   const warnings: Warning[] = [];
 
-  // CEX warnings
-  for (const msg of generateCEXWarnings(input.cexResult)) {
+  // Detector warnings
+  for (const { detector, finding } of input.findings) {
+    warnings.push(...detectorWarnings(detector, finding));
+  }
+
+  // Compliance warnings
+  if (input.complianceResult.status === "Sanctioned") {
     warnings.push({
+      id: "compliance-status",
+      severity: "critical",
+      category: "Compliance",
+      message: input.complianceResult.details.sanctionLists.length > 0
+        ? `⚠️ CRITICAL: This wallet is on a sanctions list (${input.complianceResult.details.sanctionLists.join(", ")})!`
+        : "⚠️ CRITICAL: This wallet is on a sanctions list!",
+    });
+  } else if (input.complianceResult.status === "Flagged") {
+    warnings.push({
+      id: "compliance-status",
       severity: "high",
-      category: "CEX",
-      message: msg,
+      category: "Compliance",
+      message: "This wallet has been flagged for suspicious activity.",
     });
   }
 
-  // Clustering warnings
-  for (const msg of generateClusteringWarnings(input.clusteringResult)) {
+  if (input.historySimulated) {
     warnings.push({
-      severity: "medium",
-      category: "Clustering",
-      message: msg,
+      id: "history-simulated",
+      severity: "high",
+      category: "Analysis",
+      message: "No transaction source is configured, so this report was built from DEMO transactions - it says nothing about this wallet.",
     });
   }
 
-  // Asset warnings
-  for (const msg of generateAssetWarnings(input.assetsResult)) {
+  if (input.complianceSimulated) {
     warnings.push({
+      id: "compliance-simulated",
       severity: "medium",
-      category: "Identity",
-      message: msg,
+      category: "Compliance",
+      message: "Compliance results are SIMULATED by the mock Range client - this is not a real sanctions check. Set RANGE_API_KEY for real screening.",
     });
   }
 
-  // Compliance warnings
-  if (input.complianceResult.status === "Sanctioned") {
+  // Interacting address warnings
+  if (input.addressRisks.sanctionedAddresses.length > 0) {
     warnings.push({
+      id: "compliance-interactions",
       severity: "critical",
       category: "Compliance",
-      message: "⚠️ CRITICAL: This wallet is on a sanctions list!",
+      message: `This wallet has interacted with ${input.addressRisks.sanctionedAddresses.length} sanctioned address(es).`,
     });
-  } else if (input.complianceResult.status === "Flagged") {
+  }
+  if (input.addressRisks.unscreened > 0) {
+    const { unscreened, failedLookups } = input.addressRisks;
+    const failed = failedLookups > 0 ? `; ${failedLookups} lookups within it failed` : "";
     warnings.push({
-      severity: "high",
+      id: "compliance-unscreened",
+      severity: "low",
       category: "Compliance",
-      message: "This wallet has been flagged for suspicious activity.",
+      message: `${unscreened} lower-activity counterparties were only checked against local watchlists (screening budget of ${input.screeningBudget}${failed}).`,
     });
   }
 
-  // Interacting address warnings
-  if (input.addressRisks.sanctionedAddresses.length > 0) {
+  // Failed stages - their findings are missing from the report
+  for (const stage of input.stages) {
+    if (stage.status !== "failed") continue;
     warnings.push({
-      severity: "critical",
-      category: "Compliance",
-      message: `This wallet has interacted with ${input.addressRisks.sanctionedAddresses.length} sanctioned address(es).`,
+      id: `stage-${stage.id}`,
+      severity: "medium",
+      category: "Analysis",
+      message: `${stage.name} failed (${stage.error}). Its findings are missing from this report.`,
     });
   }
 
   return warnings;
 }
 
+/**
+ * A detector's warnings with their report ids and category
+ */
+function detectorWarnings(detector: Detector, finding: DetectorFinding): Warning[] {
+  return finding.warnings.map((warning, i) => ({
+    id: `${detector.id}-${i + 1}`,
+    category: detector.category,
+    ...warning,
+  }));
+}
+
 interface RecommendationInput {
-  cexResult: CEXDetectionResult;
-  clusteringResult: ClusteringResult;
-  assetsResult: AssetsDetectionResult;
+  findings: DetectorRun[];
   complianceResult: RangeCheckResult;
-  score: number;
+  score: number | null;
 }
 
 function generateRecommendations(input: RecommendationInput): Recommendation[] {
   const recommendations: Recommendation[] = [];
 
-  // CEX-related recommendations
-  for (const action of generateCEXActions(input.cexResult)) {
-    const tool = RECOMMENDED_TOOLS.find(t => t.useCase === "CEX_DEPOSIT");
-    recommendations.push({
-      priority: "high",
-      category: "CEX",
-      action,
-      tool: tool?.name,
-      toolUrl: tool?.url,
-    });
-  }
-
-  // Clustering recommendations
-  for (const action of generateClusteringActions(input.clusteringResult)) {
-    const tool = RECOMMENDED_TOOLS.find(t => t.useCase === "CLUSTER_DETECTED");
-    recommendations.push({
-      priority: "medium",
-      category: "Clustering",
-      action,
-      tool: tool?.name,
-      toolUrl: tool?.url,
-    });
-  }
-
-  // Asset recommendations
-  for (const action of generateAssetActions(input.assetsResult)) {
-    recommendations.push({
-      priority: "medium",
-      category: "Identity",
-      action,
-    });
+  // Detector recommendations
+  for (const { detector, finding } of input.findings) {
+    for (const action of finding.actions) {
+      recommendations.push({ category: detector.category, ...action });
+    }
   }
 
   // Compliance recommendations
-  if (input.complianceResult.status !== "Clean") {
+  if (input.complianceResult.status === "Sanctioned" || input.complianceResult.status === "Flagged") {
     const tool = RECOMMENDED_TOOLS.find(t => t.useCase === "SANCTIONED_INTERACTION");
     recommendations.push({
       priority: "high",
@@ -525,7 +891,7 @@ function generateRecommendations(input: RecommendationInput): Recommendation[] {
   }
 
   // General recommendations for low scores
-  if (input.score < 50) {
+  if (input.score !== null && input.score < 50) {
     const generalTool = RECOMMENDED_TOOLS.find(t => t.useCase === "GENERAL_PRIVACY");
     recommendations.push({
       priority: "high",
@@ -540,101 +906,98 @@ function generateRecommendations(input: RecommendationInput): Recommendation[] {
 }
 
 
-function isValidSolanaAddress(address: string): boolean {
-  // Basic validation: base58 characters, 32-44 characters long
-  const base58Regex = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
-  return base58Regex.test(address);
+/**
+ * Empty results for every registered detector and every detector in this run,
+ * used when a detector did not run
+ */
+function emptyDetectorResults(address: string, detectors: Detector[]): DetectorResults {
+  const results: Record<string, unknown> = {};
+  for (const detector of [...getRegisteredDetectors(), ...detectors]) {
+    results[detector.id] = detector.emptyResult();
+  }
+
+  return {
+    ...results,
+    compliance: unknownComplianceResult(address),
+    interactingAddressRisks: { sanctionedAddresses: [], flaggedAddresses: [], totalChecked: 0, failedLookups: 0, unscreened: 0 },
+  };
+}
+
+function unknownComplianceResult(address: string): RangeCheckResult {
+  return {
+    address,
+    status: "Unknown",
+    riskScore: 0,
+    checkedAt: new Date(),
+    provider: getRangeClient().name,
+    simulated: getRangeClient().simulated,
+    details: { sanctionLists: [], flags: [], linkedToMixer: false, linkedToExploit: false },
+  };
 }
 
 /**
- * Generate mock transactions for demo when Helius is not available
+ * Profile name/version for the error report, without throwing on a bad profile
  */
-function generateMockTransactions(walletAddress: string): ParsedTransaction[] {
-  console.log("   📝 Generating mock transaction data for demo...");
-  
-  return [
-    {
-      signature: "mock_sig_1",
-      timestamp: Date.now() - 86400000,
-      type: "TRANSFER",
-      source: "SYSTEM_PROGRAM",
-      description: "Transferred 1 SOL",
-      fee: 5000,
-      feePayer: walletAddress,
-      accountData: [],
-      tokenTransfers: [],
-      nativeTransfers: [
-        {
-          fromUserAccount: "5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9", // Mock Binance
-          toUserAccount: walletAddress,
-          amount: 1000000000,
-        },
-      ],
-      events: {},
-    },
-    {
-      signature: "mock_sig_2",
-      timestamp: Date.now() - 172800000,
-      type: "TRANSFER",
-      source: "SYSTEM_PROGRAM",
-      description: "Transferred 0.5 SOL",
-      fee: 5000,
-      feePayer: walletAddress,
-      accountData: [],
-      tokenTransfers: [],
-      nativeTransfers: [
-        {
-          fromUserAccount: walletAddress,
-          toUserAccount: "RandomAddr123456789012345678901234567890123",
-          amount: 500000000,
-        },
-      ],
-      events: {},
-    },
-    {
-      signature: "mock_sig_3",
-      timestamp: Date.now() - 259200000,
-      type: "NFT_MINT",
-      source: "MAGIC_EDEN",
-      description: "Received Hackathon POAP Badge",
-      fee: 5000,
-      feePayer: walletAddress,
-      accountData: [],
-      tokenTransfers: [
-        {
-          mint: "MockMint123456789012345678901234567890",
-          tokenAmount: 1,
-          fromUserAccount: "MinterAddress12345678901234567890123456",
-          toUserAccount: walletAddress,
-          tokenStandard: "NonFungible",
-        },
-      ],
-      nativeTransfers: [],
-      events: {
-        nft: {
-          description: "Minted Hackathon POAP Badge",
-          type: "NFT_MINT",
-          source: "MAGIC_EDEN",
-          amount: 0,
-          fee: 5000,
-          feePayer: walletAddress,
-          buyer: walletAddress,
-          nfts: [
-            {
-              mint: "MockMint123456789012345678901234567890",
-              tokenStandard: "NonFungible",
-            },
-          ],
-        },
-      },
-    },
-  ] as ParsedTransaction[];
+function describeProfileSafely(
+  requested: ScoringProfile | string | undefined
+): { name: string; version: string } {
+  if (typeof requested === "object") {
+    return { name: requested.name, version: requested.version };
+  }
+  try {
+    const profile = resolveScoringProfile(requested);
+    return { name: profile.name, version: profile.version };
+  } catch {
+    return { name: requested ?? "unknown", version: "unknown" };
+  }
+}
+
+/**
+ * Version and sets of the label registry, stamped into every report
+ */
+function describeLabels(): { version: string; sets: LabelSetInfo[] } {
+  const registry = getLabelRegistry();
+  return { version: registry.version, sets: registry.sets };
+}
+
+/**
+ * Deduplicate signatures, dropping missing ones
+ */
+function uniqueSignatures(signatures: (string | undefined)[]): string[] {
+  return Array.from(new Set(signatures.filter((s): s is string => !!s)));
+}
+
+/**
+ * Find transactions that moved funds to or from any of the given addresses
+ */
+function findSignaturesInvolving(
+  transactions: ParsedTransaction[],
+  addresses: Set<string>
+): string[] {
+  if (addresses.size === 0) return [];
+
+  return transactions
+    .filter(tx =>
+      [...(tx.nativeTransfers ?? []), ...(tx.tokenTransfers ?? [])].some(
+        t => addresses.has(t.fromUserAccount) || addresses.has(t.toUserAccount)
+      )
+    )
+    .map(tx => tx.signature);
+}
+
+function isValidSolanaAddress(address: string): boolean {
+  // Basic validation: base58 characters, 32-44 characters long
+  const base58Regex = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+  return base58Regex.test(address);
 }
 
 /**
  * Format report as a readable string for console output
  */
-export function formatReportForConsole(report: PrivacyReport): string {
+export function formatReportForConsole(
+  report: PrivacyReport,
+  detectors: Detector[] = getRegisteredDetectors()
+): string {
   const lines: string[] = [];
 
   lines.push("\n" + "═".repeat(60));
@@ -644,11 +1007,45 @@ export function formatReportForConsole(report: PrivacyReport): string {
   lines.push(`\n📍 Wallet: ${report.walletAddress}`);
   lines.push(`📅 Analyzed: ${report.analyzedAt.toISOString()}`);
   lines.push(`📊 Transactions Analyzed: ${report.transactionsAnalyzed}`);
+  lines.push(`🗂️  History Coverage: ${formatCoverage(report.historyCoverage)}`);
 
   lines.push("\n" + "─".repeat(60));
-  lines.push(`\n🎯 PRIVACY SCORE: ${report.score}/100`);
+  if (report.status !== "complete") {
+    lines.push(`\n🧩 Status: ${report.status.toUpperCase()}`);
+    for (const stage of report.stages) {
+      if (stage.status === "completed") continue;
+      lines.push(`   ${stage.status === "failed" ? "❌" : "⏭️ "} ${stage.name}: ${stage.status} - ${stage.error}`);
+    }
+    lines.push("\n" + "─".repeat(60));
+  }
+
+  lines.push(`\n🎯 PRIVACY SCORE: ${report.score === null ? "N/A" : `${report.score}/100`}`);
   lines.push(`🚦 Risk Level: ${report.riskLevel}`);
   lines.push(`📝 ${report.riskDescription}`);
+  lines.push(`📐 Scoring Profile: ${report.scoringProfile.name}@${report.scoringProfile.version}`);
+  lines.push(`🏷️  Labels: ${report.labelRegistry.version}`);
+  lines.push(`🛡️  Compliance: ${report.analysisMetadata.complianceProvider}${report.analysisMetadata.complianceSimulated ? " (SIMULATED - not a real compliance check)" : ""}`);
+
+  if (report.deductions.length > 0) {
+    lines.push("\n" + "─".repeat(60));
+    lines.push("\n📉 SCORE BREAKDOWN:");
+    let running = 100;
+    for (const deduction of report.deductions) {
+      running -= deduction.points;
+      lines.push(`   -${String(deduction.points).padStart(2)}  ${deduction.reason} (→ ${Math.max(0, running)})`);
+      if (deduction.signatures.length > 0) {
+        lines.push(`        tx: ${deduction.signatures.slice(0, 3).join(", ")}${deduction.signatures.length > 3 ? ", ..." : ""}`);
+      }
+    }
+  }
+
+  for (const detector of detectors) {
+    const result = report.detectorResults[detector.id];
+    const section = result === undefined ? [] : detector.formatConsole?.(result) ?? [];
+    if (section.length === 0) continue;
+    lines.push("\n" + "─".repeat(60));
+    lines.push(`\n${section[0]}`, ...section.slice(1));
+  }
 
   if (report.warnings.length > 0) {
     lines.push("\n" + "─".repeat(60));
@@ -675,3 +1072,16 @@ export function formatReportForConsole(report: PrivacyReport): string {
 
   return lines.join("\n");
 }
+
+/**
+ * Describe how much of the wallet's history the report covers
+ */
+function formatCoverage(coverage: HistoryCoverage): string {
+  if (coverage.simulated) return "SIMULATED - demo transactions, not this wallet's history";
+  if (coverage.oldestTimestamp === null) return "no transactions";
+
+  const since = new Date(coverage.oldestTimestamp * 1000).toISOString().slice(0, 10);
+  if (coverage.reachedStart) return `full history (since ${since})`;
+  if (coverage.truncated) return `partial - back to ${since}, older history not analyzed`;
+  return `requested window - back to ${since}`;
+}
@@ -4,12 +4,23 @@
  */
 
 // Main engine
-export { analyzeWallet, formatReportForConsole } from "./engine";
-export type { PrivacyReport, Warning, Recommendation } from "./engine";
+export { analyzeWallet, analyzeWalletStream, formatReportForConsole } from "./engine";
+export type {
+  PrivacyReport,
+  Warning,
+  Recommendation,
+  ScoreDeduction,
+  AnalyzeOptions,
+  DetectorResults,
+  InteractingAddressRisks,
+  ReportStatus,
+  AnalysisStage,
+  ProgressEvent,
+  AnalysisStreamEvent,
+} from "./engine";
 
 // Constants
 export {
-  KNOWN_CEX,
   RiskLevel,
   SCORE_THRESHOLDS,
   POINT_DEDUCTIONS,
@@ -19,17 +30,119 @@ export {
   ANALYSIS_CONFIG,
 } from "./utils/constants";
 export type { RecommendedTool } from "./utils/constants";
+export {
+  HttpStatusError,
+  TokenBucket,
+  isRetryableError,
+  mapWithConcurrency,
+  retryWithBackoff,
+} from "./utils/concurrency";
+export type { RetryOptions } from "./utils/concurrency";
+export { consoleLogger, setLogger } from "./utils/logger";
+export type { Logger } from "./utils/logger";
+
+// Scoring profiles
+export {
+  BUILT_IN_PROFILES,
+  DEFAULT_PROFILE,
+  getBuiltInProfile,
+  resolveScoringProfile,
+  loadScoringProfile,
+} from "./scoring/profile";
+export type { ScoringProfile, ScoringProfileFile } from "./scoring/profile";
+
+// Entity labels
+export {
+  ENTITY_TYPES,
+  LabelRegistry,
+  getLabelRegistry,
+  setLabelRegistry,
+  createLabelRegistry,
+  loadLabelFile,
+} from "./labels/registry";
+export type { EntityType, EntityLabel, LabelSetFile, LabelSetInfo } from "./labels/registry";
 
 // Services
-export { HeliusService, heliusService } from "./services/helius";
+export {
+  HeliusService,
+  heliusService,
+  getInteractingAddresses,
+} from "./services/helius";
+export { RpcTransactionSource, normalizeTransaction } from "./services/rpc";
+export { createTransactionSource } from "./services/source";
+export {
+  CachedTransactionSource,
+  MemoryCacheStore,
+  FileCacheStore,
+  getCacheStore,
+  setCacheStore,
+  getComplianceCacheStore,
+  createCacheStore,
+} from "./services/cache";
+export type { CacheStore, CacheEntry, CacheStoreKind } from "./services/cache";
+export {
+  FixtureTransactionSource,
+  RecordingTransactionSource,
+  loadDemoTransactions,
+} from "./services/fixture";
+export type { FixtureFile } from "./services/fixture";
+export type { TransactionSource, TransactionSourceKind } from "./services/source";
 export type {
   ParsedTransaction,
   TokenTransfer,
   NativeTransfer,
+  Instruction,
+  InnerInstruction,
 } from "./services/helius";
+export {
+  applyDepth,
+  describeDepth,
+  resolveMaxTransactions,
+  summarizeCoverage,
+} from "./services/history";
+export type {
+  HistoryDepth,
+  HistoryCoverage,
+  HistoryResult,
+  FetchOptions,
+  FetchProgress,
+} from "./services/history";
 
-export { checkRisk, batchCheckRisk, quickCheck } from "./services/range";
-export type { RangeCheckResult, RiskStatus } from "./services/range";
+export {
+  checkRisk,
+  batchCheckRisk,
+  quickCheck,
+  checkInteractingAddresses,
+  watchlistResult,
+  getRangeClient,
+  setRangeClient,
+  createRangeClient,
+  MockRangeClient,
+} from "./services/range";
+export { RangeApiClient, toRangeCheckResult } from "./services/range-api";
+export {
+  Watchlist,
+  getWatchlist,
+  setWatchlist,
+  loadWatchlists,
+  parseWatchlistFile,
+  parseOfacSdnXml,
+  parseOfacSdnCsv,
+  parseEuSanctionsXml,
+  parseCustomCsv,
+  parseCustomJson,
+} from "./services/watchlist";
+export type { WatchlistEntry, WatchlistFormat, WatchlistSeverity } from "./services/watchlist";
+export type { RangeAddressRiskResponse, RangeMaliciousAddress } from "./services/range-api";
+export type {
+  RangeCheckResult,
+  RangeClient,
+  RangeClientKind,
+  RiskStatus,
+  RiskCheckOptions,
+  ScreeningOptions,
+  InteractingAddressScreening,
+} from "./services/range";
 
 // Detectors
 export {
@@ -44,7 +157,42 @@ export type {
   ClusteringResult,
   AddressFrequency,
   ClusterPattern,
+  FlowPattern,
+  FlowFinding,
+  WashTradingResult,
+  WashTradePair,
+  WashCycle,
 } from "./detectors/clustering";
 
 export { detectIdentityAssets } from "./detectors/assets";
 export type { AssetsDetectionResult, NFTAsset } from "./detectors/assets";
+
+export { detectBridgeTransfers } from "./detectors/bridge";
+export type { BridgeResult, BridgeTransfer, LinkedForeignAddress } from "./detectors/bridge";
+
+// Scan jobs
+export { submitScan, getScan, cancelScan, getJobStore, setJobStore } from "./jobs/scans";
+export { InMemoryJobStore } from "./jobs/store";
+export type {
+  JobStore,
+  ScanJob,
+  ScanJobStatus,
+  ScanJobRequest,
+  ScanJobProgress,
+} from "./jobs/store";
+
+// Detector registry
+export {
+  registerDetector,
+  unregisterDetector,
+  getRegisteredDetectors,
+  loadDetectorModules,
+} from "./detectors/registry";
+export type { Detector, DetectorContext, DetectorFinding } from "./detectors/registry";
+export {
+  BUILT_IN_DETECTORS,
+  cexDetector,
+  clusteringDetector,
+  assetsDetector,
+  washTradingDetector,
+} from "./detectors/builtins";
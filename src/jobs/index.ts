@@ -0,0 +1,7 @@
+/**
+ * Jobs barrel export
+ * Re-exports the scan job runner and job stores
+ */
+
+export * from "./store";
+export * from "./scans";
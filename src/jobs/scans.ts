@@ -0,0 +1,171 @@
+/**
+ * Scan Jobs
+ * Runs analyzeWallet in the background so long audits can be polled instead of held open
+ */
+
+import { randomUUID } from "crypto";
+import { analyzeWallet } from "../engine";
+import type { ProgressEvent } from "../engine";
+import { InMemoryJobStore } from "./store";
+import type { JobStore, ScanJob, ScanJobProgress, ScanJobRequest } from "./store";
+import { log } from "../utils/logger";
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one store
+const globalJobs = globalThis as typeof globalThis & {
+  __scanJobStore?: JobStore;
+  __scanJobControllers?: Map<string, AbortController>;
+};
+
+/**
+ * Get the job store used by default (in-memory unless replaced with setJobStore)
+ */
+export function getJobStore(): JobStore {
+  globalJobs.__scanJobStore ??= new InMemoryJobStore();
+  return globalJobs.__scanJobStore;
+}
+
+/**
+ * Replace the default job store, e.g. with a shared one for multi-instance deployments
+ */
+export function setJobStore(store: JobStore): void {
+  globalJobs.__scanJobStore = store;
+}
+
+function controllers(): Map<string, AbortController> {
+  globalJobs.__scanJobControllers ??= new Map();
+  return globalJobs.__scanJobControllers;
+}
+
+/**
+ * Queue a scan and start it in the background
+ * @param request - Wallet, history depth and scoring profile
+ * @returns The queued job; poll getScan for progress and the report
+ */
+export async function submitScan(
+  request: ScanJobRequest,
+  store: JobStore = getJobStore()
+): Promise<ScanJob> {
+  const job: ScanJob = {
+    id: randomUUID(),
+    status: "queued",
+    request,
+    progress: { plannedStages: [], stages: [], currentStage: null, warnings: [] },
+    report: null,
+    error: null,
+    createdAt: new Date(),
+    startedAt: null,
+    finishedAt: null,
+  };
+  await store.create(job);
+
+  const controller = new AbortController();
+  controllers().set(job.id, controller);
+  void runScanJob(job, store, controller)
+    .catch(error => log.error(`❌ Scan job ${job.id} crashed:`, error))
+    .finally(() => controllers().delete(job.id));
+
+  log.info(`🗂️  Queued scan job ${job.id} for ${request.walletAddress}`);
+  return job;
+}
+
+/**
+ * Get a scan job by id
+ */
+export async function getScan(
+  id: string,
+  store: JobStore = getJobStore()
+): Promise<ScanJob | null> {
+  return store.get(id);
+}
+
+/**
+ * Cancel a queued or running scan job
+ * @returns The job after cancellation (unchanged if it had already finished), or null if unknown
+ */
+export async function cancelScan(
+  id: string,
+  store: JobStore = getJobStore()
+): Promise<ScanJob | null> {
+  const job = await store.get(id);
+  if (!job) return null;
+  if (job.status !== "queued" && job.status !== "running") return job;
+
+  const cancelled = await store.update(id, { status: "cancelled", finishedAt: new Date() });
+  controllers().get(id)?.abort();
+  log.info(`🛑 Cancelled scan job ${id}`);
+  return cancelled;
+}
+
+async function runScanJob(
+  job: ScanJob,
+  store: JobStore,
+  controller: AbortController
+): Promise<void> {
+  let progress = job.progress;
+
+  try {
+    await store.update(job.id, { status: "running", startedAt: new Date() });
+    const report = await analyzeWallet(job.request.walletAddress, {
+      depth: job.request.depth,
+      scoringProfile: job.request.scoringProfile,
+      signal: controller.signal,
+      onProgress: (event) => {
+        progress = applyProgressEvent(progress, event);
+        void store.update(job.id, { progress }).catch(error => {
+          log.error(`❌ Failed to save progress for scan job ${job.id}:`, error);
+        });
+
+        // Another instance may have cancelled the job in a shared store
+        if (event.type === "stage-finished") {
+          void store.get(job.id).then(current => {
+            if (current?.status === "cancelled") controller.abort();
+          }).catch(error => {
+            log.error(`❌ Failed to check cancellation of scan job ${job.id}:`, error);
+          });
+        }
+      },
+    });
+
+    // The job ran to the end; whether the scan itself degraded or failed is in report.status
+    const current = await store.get(job.id);
+    if (current?.status !== "cancelled") {
+      await store.update(job.id, { status: "completed", report, progress, finishedAt: new Date() });
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      log.error(`❌ Scan job ${job.id} failed:`, error);
+    }
+    try {
+      await store.update(job.id, controller.signal.aborted
+        ? { status: "cancelled", progress, finishedAt: new Date() }
+        : {
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+            progress,
+            finishedAt: new Date(),
+          });
+    } catch (saveError) {
+      log.error(`❌ Failed to save the outcome of scan job ${job.id}:`, saveError);
+    }
+  }
+}
+
+/**
+ * Fold one progress event into the job's progress snapshot
+ */
+function applyProgressEvent(progress: ScanJobProgress, event: ProgressEvent): ScanJobProgress {
+  switch (event.type) {
+    case "analysis-started":
+      return { ...progress, plannedStages: event.stages };
+    case "stage-started":
+      return { ...progress, currentStage: { ...event.stage } };
+    case "stage-progress":
+      return { ...progress, currentStage: { ...event.stage, completed: event.completed, total: event.total } };
+    case "stage-finished":
+      return { ...progress, stages: [...progress.stages, event.stage], currentStage: null };
+    case "findings":
+      return { ...progress, warnings: [...progress.warnings, ...event.warnings] };
+    default:
+      return progress;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Scan Job Store
+ * Where asynchronous scan jobs and their progress live between polls
+ */
+
+import type { AnalysisStage, PrivacyReport, Warning } from "../engine";
+import type { HistoryDepth } from "../services/history";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+
+export type ScanJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface ScanJobRequest {
+  walletAddress: string;
+  depth?: HistoryDepth | undefined;
+  scoringProfile?: string | undefined; // Built-in name or file path
+}
+
+export interface ScanJobProgress {
+  plannedStages: { id: string; name: string }[];
+  stages: AnalysisStage[]; // Finished stages, in run order
+  currentStage: { id: string; name: string; completed?: number | undefined; total?: number | undefined } | null;
+  warnings: Warning[]; // Detector findings so far
+}
+
+export interface ScanJob {
+  id: string;
+  status: ScanJobStatus;
+  request: ScanJobRequest;
+  progress: ScanJobProgress;
+  report: PrivacyReport | null; // Set once the job completes
+  error: string | null;         // Why the job failed
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+/**
+ * Persistence for scan jobs
+ * Implementations may live in another process (Redis, a database...), so the
+ * runner re-reads the job to notice a cancellation made elsewhere.
+ */
+export interface JobStore {
+  create(job: ScanJob): Promise<void>;
+  get(id: string): Promise<ScanJob | null>;
+  /**
+   * Apply a partial update
+   * @returns The updated job, or null if it does not exist
+   */
+  update(id: string, patch: Partial<Omit<ScanJob, "id">>): Promise<ScanJob | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Process-local job store
+ * Jobs do not survive a restart and are not shared between server instances.
+ * Finished jobs are dropped after `ttlMs`.
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, ScanJob>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number = ANALYSIS_CONFIG.SCAN_JOB_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  async create(job: ScanJob): Promise<void> {
+    this.prune();
+    this.jobs.set(job.id, job);
+  }
+
+  async get(id: string): Promise<ScanJob | null> {
+    this.prune();
+    return this.jobs.get(id) ?? null;
+  }
+
+  async update(id: string, patch: Partial<Omit<ScanJob, "id">>): Promise<ScanJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+
+    const updated = { ...job, ...patch };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.jobs.delete(id);
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
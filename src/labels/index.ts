@@ -0,0 +1,6 @@
+/**
+ * Labels barrel export
+ * Re-exports the entity label registry
+ */
+
+export * from "./registry";
@@ -0,0 +1,270 @@
+/**
+ * Label Registry
+ * Versioned sets of entity labels (exchanges, bridges, mixers, ...) with O(1) address lookups
+ * The default set ships in ./default-labels.json; private sets load from LABEL_PATHS
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import defaultLabels from "./default-labels.json";
+import { parseCsv } from "../utils/csv";
+import { log } from "../utils/logger";
+
+// Load environment variables
+dotenv.config({ quiet: true });
+
+export const ENTITY_TYPES = [
+  "cex",
+  "bridge",
+  "mixer",
+  "dex",
+  "market_maker",
+  "validator",
+  "custodian",
+  "faucet",
+] as const;
+
+export type EntityType = typeof ENTITY_TYPES[number];
+
+export interface EntityLabel {
+  address: string;
+  entity: string;     // e.g. "Binance"
+  type: EntityType;
+  aliases: string[];  // Other names the entity goes by
+  confidence: number; // 0-1, how sure the label's author is
+  labelSet: string;   // Name of the set the label came from
+}
+
+// Label file format (JSON); CSV files carry the same columns plus "# name:" / "# version:" comments
+export interface LabelSetFile {
+  name: string;
+  version: string;
+  description?: string | undefined;
+  labels: Array<Omit<EntityLabel, "labelSet" | "aliases" | "confidence"> & {
+    aliases?: string[] | undefined;
+    confidence?: number | undefined;
+  }>;
+}
+
+export interface LabelSetInfo {
+  name: string;
+  version: string;
+  count: number;
+  source: string; // "built-in" or the file it was loaded from
+}
+
+/**
+ * Labels indexed by address and by entity name/alias
+ * Sets added later override earlier ones for the same address, so private labels win.
+ */
+export class LabelRegistry {
+  private byAddress = new Map<string, EntityLabel>();
+  private byName = new Map<string, EntityLabel[]>();
+  private loadedSets: LabelSetInfo[] = [];
+
+  /**
+   * Add a set of labels
+   * @param file - Parsed label set
+   * @param source - Where the set came from, for the report
+   * @returns Number of labels added
+   */
+  addSet(file: LabelSetFile, source: string = "built-in"): number {
+    let count = 0;
+    for (const raw of file.labels) {
+      const label = toLabel(raw, file.name);
+      if (!label) continue;
+
+      const replaced = this.byAddress.get(label.address);
+      if (replaced) this.unindexName(replaced);
+      this.byAddress.set(label.address, label);
+      for (const name of [label.entity, ...label.aliases]) {
+        const key = name.toLowerCase();
+        this.byName.set(key, [...(this.byName.get(key) ?? []), label]);
+      }
+      count++;
+    }
+
+    this.loadedSets.push({ name: file.name, version: String(file.version), count, source });
+    return count;
+  }
+
+  /**
+   * Label for an address
+   * @param type - Only return the label if it has this entity type
+   */
+  get(address: string | undefined, type?: EntityType | undefined): EntityLabel | null {
+    if (!address) return null;
+    const label = this.byAddress.get(address) ?? null;
+    return label && (!type || label.type === type) ? label : null;
+  }
+
+  /**
+   * Every labeled address of an entity, by its name or any alias (case-insensitive)
+   */
+  findEntity(nameOrAlias: string): EntityLabel[] {
+    return this.byName.get(nameOrAlias.toLowerCase()) ?? [];
+  }
+
+  /**
+   * Every label of one entity type
+   */
+  ofType(type: EntityType): EntityLabel[] {
+    return Array.from(this.byAddress.values()).filter(label => label.type === type);
+  }
+
+  get size(): number {
+    return this.byAddress.size;
+  }
+
+  get sets(): LabelSetInfo[] {
+    return [...this.loadedSets];
+  }
+
+  /**
+   * Combined version of every loaded set, e.g. "default@1.0.0+team@3"
+   */
+  get version(): string {
+    return this.loadedSets.map(set => `${set.name}@${set.version}`).join("+");
+  }
+
+  private unindexName(label: EntityLabel): void {
+    for (const name of [label.entity, ...label.aliases]) {
+      const key = name.toLowerCase();
+      const remaining = (this.byName.get(key) ?? []).filter(l => l !== label);
+      if (remaining.length > 0) {
+        this.byName.set(key, remaining);
+      } else {
+        this.byName.delete(key);
+      }
+    }
+  }
+}
+
+// Kept on globalThis so every route bundle shares one registry
+const globalLabels = globalThis as typeof globalThis & { __labelRegistry?: LabelRegistry };
+
+/**
+ * Get the shared registry: the default labels, then every set in LABEL_PATHS
+ * (comma-separated .json/.csv files or directories)
+ */
+export function getLabelRegistry(): LabelRegistry {
+  if (!globalLabels.__labelRegistry) {
+    const paths = (process.env.LABEL_PATHS ?? "")
+      .split(",")
+      .map(p => p.trim())
+      .filter(p => p.length > 0);
+    globalLabels.__labelRegistry = createLabelRegistry(paths);
+  }
+  return globalLabels.__labelRegistry;
+}
+
+/**
+ * Replace the shared registry
+ */
+export function setLabelRegistry(registry: LabelRegistry): void {
+  globalLabels.__labelRegistry = registry;
+}
+
+/**
+ * Build a registry from the default labels plus label files
+ * Files that fail to parse are reported and skipped.
+ */
+export function createLabelRegistry(paths: string[] = []): LabelRegistry {
+  const registry = new LabelRegistry();
+  registry.addSet(defaultLabels as LabelSetFile);
+
+  for (const file of paths.flatMap(expandPath)) {
+    try {
+      const set = loadLabelFile(file);
+      const count = registry.addSet(set, path.resolve(file));
+      log.info(`🏷️  Loaded ${count} labels from ${file} (${set.name}@${set.version})`);
+    } catch (error) {
+      log.error(`❌ Failed to load labels ${file}:`, error);
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Read a label set from a JSON or CSV file
+ * CSV columns: address, entity, type, aliases ("|"-separated), confidence.
+ * The set name defaults to the file name and the version to its modification date.
+ */
+export function loadLabelFile(file: string): LabelSetFile {
+  const text = fs.readFileSync(file, "utf8");
+  const fallbackName = path.basename(file, path.extname(file));
+  const fallbackVersion = fs.statSync(file).mtime.toISOString().slice(0, 10);
+
+  if (path.extname(file).toLowerCase() === ".json") {
+    const data = JSON.parse(text) as Partial<LabelSetFile>;
+    return {
+      name: data.name ?? fallbackName,
+      version: String(data.version ?? fallbackVersion),
+      description: data.description,
+      labels: data.labels ?? [],
+    };
+  }
+
+  // "# name: team-private" and "# version: 3" comment lines before the header
+  const meta: Record<string, string> = {};
+  const body = text.split(/\r?\n/).filter(line => {
+    const match = /^#\s*(\w+)\s*:\s*(.+)$/.exec(line.trim());
+    const [, key, value] = match ?? [];
+    if (key && value) meta[key.toLowerCase()] = value.trim();
+    return !line.trim().startsWith("#");
+  }).join("\n");
+
+  const [header, ...rows] = parseCsv(body);
+  const columns = (header ?? []).map(cell => cell.trim());
+  const cell = (row: string[], column: string) => row[columns.indexOf(column)]?.trim() ?? "";
+
+  return {
+    name: meta.name ?? fallbackName,
+    version: meta.version ?? fallbackVersion,
+    labels: rows.map(row => ({
+      address: cell(row, "address"),
+      entity: cell(row, "entity"),
+      type: cell(row, "type") as EntityType,
+      aliases: cell(row, "aliases").split("|").map(a => a.trim()).filter(a => a.length > 0),
+      confidence: cell(row, "confidence") ? Number(cell(row, "confidence")) : undefined,
+    })),
+  };
+}
+
+// Helper functions
+
+function toLabel(raw: LabelSetFile["labels"][number], labelSet: string): EntityLabel | null {
+  if (!raw.address || !raw.entity || !(ENTITY_TYPES as readonly string[]).includes(raw.type)) {
+    log.warn(`⚠️  Skipping invalid label in "${labelSet}": ${JSON.stringify(raw)}`);
+    return null;
+  }
+  // A confidence that is not a number is a broken row, not a certain label
+  const confidence = raw.confidence ?? 1;
+  if (typeof confidence !== "number" || !Number.isFinite(confidence)) {
+    log.warn(`⚠️  Skipping label with a non-numeric confidence in "${labelSet}": ${raw.address}`);
+    return null;
+  }
+  return {
+    address: raw.address,
+    entity: raw.entity,
+    type: raw.type,
+    aliases: raw.aliases ?? [],
+    confidence: Math.min(1, Math.max(0, confidence)),
+    labelSet,
+  };
+}
+
+function expandPath(target: string): string[] {
+  try {
+    if (!fs.statSync(target).isDirectory()) return [target];
+  } catch {
+    log.error(`❌ Label path not found: ${target}`);
+    return [];
+  }
+  return fs.readdirSync(target)
+    .filter(file => /\.(json|csv)$/i.test(file))
+    .sort()
+    .map(file => path.join(target, file));
+}
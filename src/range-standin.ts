@@ -0,0 +1,159 @@
+/**
+ * Range API Stand-in Server
+ * Serves Range-shaped address risk responses locally, so the real client can be tested offline
+ *
+ * Usage: npx tsx src/range-standin.ts [--port 8787] [--config <file.json>]
+ *
+ * Then point the engine at it:
+ *   COMPLIANCE_PROVIDER=range RANGE_API_URL=http://localhost:8787 npm run cli -- <wallet>
+ *
+ * Config file (every field optional):
+ * {
+ *   "latencyMs": 50,                        // Delay before every response
+ *   "apiKey": "secret",                     // Reject requests without "Authorization: Bearer secret"
+ *   "default": { "riskScore": 1, "riskLevel": "Very low risk" },
+ *   "addresses": {
+ *     "<address>": { "riskScore": 10, "riskLevel": "CRITICAL", "attribution": { "category": "Sanctions", "entity": "OFAC SDN" } },
+ *     "<address>": { "status": 429, "failTimes": 2, "retryAfterSeconds": 1 }
+ *   }
+ * }
+ * An entry with `status` fails with that HTTP status - `failTimes` times, then answers
+ * normally - so retries and backoff can be exercised. Without a config file the
+ * stand-in serves the mock client's sanctioned and flagged addresses.
+ */
+
+import * as fs from "fs";
+import * as http from "http";
+import type { RangeAddressRiskResponse } from "./services/range-api";
+import { MOCK_FLAGGED_ADDRESSES, MOCK_SANCTIONED_ADDRESSES } from "./services/range";
+
+interface StandinEntry extends Partial<RangeAddressRiskResponse> {
+  status?: number | undefined;            // HTTP status to fail with
+  failTimes?: number | undefined;         // Fail this many times, then succeed (default: always fail)
+  retryAfterSeconds?: number | undefined; // Sent as Retry-After with failures
+}
+
+interface StandinConfig {
+  latencyMs?: number | undefined;
+  apiKey?: string | undefined;
+  default?: Partial<RangeAddressRiskResponse> | undefined;
+  addresses?: Record<string, StandinEntry> | undefined;
+}
+
+const DEFAULT_RESPONSE: RangeAddressRiskResponse = {
+  riskScore: 1,
+  riskLevel: "Very low risk",
+  numHops: 0,
+  reasoning: "No known links to malicious addresses (stand-in)",
+  maliciousAddressesFound: [],
+  attribution: null,
+};
+
+/**
+ * The built-in config: the mock client's addresses, served the way Range would
+ */
+function defaultConfig(): StandinConfig {
+  const addresses: Record<string, StandinEntry> = {};
+  for (const address of MOCK_SANCTIONED_ADDRESSES) {
+    addresses[address] = {
+      riskScore: 10,
+      riskLevel: "CRITICAL RISK (Directly malicious)",
+      reasoning: "Address is on a sanctions list (stand-in)",
+      attribution: { name_tag: "Sanctioned entity", entity: "OFAC SDN", category: "Sanctions" },
+    };
+  }
+  for (const address of MOCK_FLAGGED_ADDRESSES) {
+    addresses[address] = {
+      riskScore: 8,
+      riskLevel: "High risk",
+      numHops: 1,
+      reasoning: "One hop from a known exploit address (stand-in)",
+      maliciousAddressesFound: [
+        { address: "ExpLoit1111111111111111111111111111111111111", distance: 1, name_tag: "Exploiter", category: "Exploit" },
+      ],
+    };
+  }
+  return { latencyMs: 50, addresses };
+}
+
+function loadConfig(file: string | undefined): StandinConfig {
+  if (!file) return defaultConfig();
+  const config = JSON.parse(fs.readFileSync(file, "utf8")) as StandinConfig;
+  console.log(`📄 Loaded ${Object.keys(config.addresses ?? {}).length} address entries from ${file}`);
+  return config;
+}
+
+function sendJson(
+  response: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  response.writeHead(status, { "Content-Type": "application/json", ...headers });
+  response.end(JSON.stringify(body));
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const portIndex = args.indexOf("--port");
+  const configIndex = args.indexOf("--config");
+  const port = portIndex !== -1 ? Number(args[portIndex + 1]) : 8787;
+  const config = loadConfig(configIndex !== -1 ? args[configIndex + 1] : undefined);
+
+  // Failures served so far per address, for entries with failTimes
+  const failures = new Map<string, number>();
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? "/", `http://localhost:${port}`);
+
+    if (url.pathname === "/health") {
+      sendJson(response, 200, { ok: true });
+      return;
+    }
+    if (request.method !== "GET" || url.pathname !== "/v1/risk/address") {
+      sendJson(response, 404, { error: "Not found" });
+      return;
+    }
+    if (config.apiKey && request.headers.authorization !== `Bearer ${config.apiKey}`) {
+      sendJson(response, 401, { error: "Invalid API key" });
+      return;
+    }
+
+    const address = url.searchParams.get("address");
+    if (!address) {
+      sendJson(response, 400, { error: "address is required" });
+      return;
+    }
+
+    if (config.latencyMs) {
+      await new Promise(resolve => setTimeout(resolve, config.latencyMs));
+    }
+
+    const { status, failTimes, retryAfterSeconds, ...fields } = config.addresses?.[address] ?? {};
+    const failed = failures.get(address) ?? 0;
+    if (status && status !== 200 && (failTimes === undefined || failed < failTimes)) {
+      failures.set(address, failed + 1);
+      console.log(`❌ ${address} → HTTP ${status}`);
+      sendJson(
+        response,
+        status,
+        { error: `Stand-in failure ${failed + 1}` },
+        retryAfterSeconds !== undefined ? { "Retry-After": String(retryAfterSeconds) } : {}
+      );
+      return;
+    }
+
+    const body: RangeAddressRiskResponse = { ...DEFAULT_RESPONSE, ...config.default, ...fields };
+    console.log(`✅ ${address} → riskScore ${body.riskScore}`);
+    sendJson(response, 200, body);
+  });
+
+  server.listen(port, () => {
+    console.log(`🧪 Range stand-in listening on http://localhost:${port}`);
+    console.log(`   Set RANGE_API_URL=http://localhost:${port} to use it\n`);
+  });
+  process.once("SIGINT", () => server.close(() => process.exit(0)));
+  process.once("SIGTERM", () => server.close(() => process.exit(0)));
+}
+
+main();
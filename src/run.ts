@@ -2,15 +2,36 @@
  * Privacy Engine - Test Runner
  * Run this script to analyze a wallet from the terminal
  * 
- * Usage: npx ts-node src/run.ts [wallet_address]
+ * Usage: npx ts-node src/run.ts [wallet_address] [--limit N | --days N | --full]
+ *                                [--fixture <file|dir>] [--record <dir>]
+ *                                [--profile <name|file>] [--remote <server url>]
+ *                                [--no-cache]
+ *
+ * --remote submits the scan to a running server's job API (POST /api/scans) and polls it,
+ * so long full-history audits do not depend on this terminal's connection.
+ * --no-cache skips the history and compliance cache (see CACHE_STORE) for this run.
+ *
+ * Set DETECTOR_MODULES to a comma-separated list of modules to load extra detectors
  */
 
 import * as dotenv from "dotenv";
 import { analyzeWallet, formatReportForConsole } from "./engine";
+import type { PrivacyReport, ProgressEvent } from "./engine";
+import type { ScanJob } from "./jobs/store";
+import type { HistoryDepth } from "./services/history";
+import { createTransactionSource } from "./services/source";
+import { setCacheStore } from "./services/cache";
+import type { TransactionSource } from "./services/source";
+import { FixtureTransactionSource, RecordingTransactionSource } from "./services/fixture";
+import { loadDetectorModules } from "./detectors/registry";
+import { consoleLogger, setLogger } from "./utils/logger";
 
 // Load environment variables
 dotenv.config();
 
+// Print the engine's step-by-step progress
+setLogger(consoleLogger);
+
 
 // Default test wallet (Phantom's example wallet for testing)
 const DEFAULT_TEST_WALLET = "vines1vzrYbzLMRdu58ou5XTby4qAqVRLmqo36NKPTg";
@@ -28,6 +49,152 @@ const TEST_SCENARIOS = {
 };
 
 
+/**
+ * Parse history depth flags: --limit N, --days N, --full
+ */
+function parseDepthArgs(args: string[]): HistoryDepth {
+  const depth: HistoryDepth = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = Number(args[i + 1]);
+
+    if (arg === "--full") {
+      depth.fullHistory = true;
+    } else if (arg === "--limit" && value > 0) {
+      depth.maxTransactions = value;
+      i++;
+    } else if (arg === "--days" && value > 0) {
+      depth.sinceTimestamp = Math.floor(Date.now() / 1000) - value * 86400;
+      i++;
+    }
+  }
+
+  return depth;
+}
+
+/**
+ * Build the transaction source from --fixture (replay) and --record (save) flags
+ */
+function parseSourceArgs(args: string[]): TransactionSource | undefined {
+  const fixtureIndex = args.indexOf("--fixture");
+  const recordIndex = args.indexOf("--record");
+  const fixturePath = fixtureIndex !== -1 ? args[fixtureIndex + 1] : undefined;
+  const recordDir = recordIndex !== -1 ? args[recordIndex + 1] : undefined;
+
+  if (fixturePath) {
+    console.log(`📼 Replaying recorded history from ${fixturePath}\n`);
+    return new FixtureTransactionSource(fixturePath);
+  }
+  if (recordDir) {
+    console.log(`💾 Recording fetched history to ${recordDir}\n`);
+    return new RecordingTransactionSource(createTransactionSource(), recordDir);
+  }
+  return undefined;
+}
+
+
+/**
+ * Print stage timings and history progress as the analysis reports them
+ */
+function reportProgress(event: ProgressEvent): void {
+  if (event.type === "stage-progress" && event.stage.id === "history") {
+    console.log(`   … ${event.completed} transactions fetched`);
+  } else if (event.type === "stage-finished") {
+    const { stage } = event;
+    const icon = stage.status === "completed" ? "✓" : stage.status === "failed" ? "✗" : "–";
+    const count = stage.count !== undefined ? `, ${stage.count} items` : "";
+    console.log(`   ${icon} ${stage.name}: ${stage.status} (${stage.durationMs}ms${count})`);
+  }
+}
+
+
+const REMOTE_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Run the scan as a job on a remote server and poll until it finishes
+ * @param baseUrl - Server origin, e.g. http://localhost:3000
+ * @param signal - Aborting cancels the remote job
+ */
+async function runRemoteScan(
+  baseUrl: string,
+  walletAddress: string,
+  depth: HistoryDepth,
+  scoringProfile: string | undefined,
+  signal: AbortSignal
+): Promise<PrivacyReport> {
+  const body: Record<string, unknown> = { address: walletAddress, profile: scoringProfile };
+  if (depth.fullHistory) {
+    body.full = true;
+  } else if (depth.sinceTimestamp !== undefined) {
+    body.days = (Date.now() / 1000 - depth.sinceTimestamp) / 86400;
+  } else if (depth.maxTransactions !== undefined) {
+    body.limit = depth.maxTransactions;
+  }
+
+  const response = await fetch(new URL("/api/scans", baseUrl), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({})) as { error?: string };
+    throw new Error(error.error ?? `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const submitted = await response.json() as { id: string };
+  const jobUrl = new URL(`/api/scans/${submitted.id}`, baseUrl);
+  console.log(`🗂️  Submitted scan job ${submitted.id} to ${baseUrl}\n`);
+
+  let printed = 0;
+  try {
+    while (true) {
+      signal.throwIfAborted();
+      const poll = await fetch(jobUrl, { signal });
+      if (!poll.ok) throw new Error(`Scan job ${submitted.id}: HTTP ${poll.status}`);
+      const job = await poll.json() as ScanJob;
+
+      for (const stage of job.progress.stages.slice(printed)) {
+        reportProgress({ type: "stage-finished", stage, elapsedMs: 0 });
+      }
+      printed = job.progress.stages.length;
+
+      if (job.status === "completed" && job.report) {
+        return reviveReport(job.report);
+      }
+      if (job.status === "failed" || job.status === "cancelled") {
+        throw new Error(job.error ?? `Scan job ${job.status}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, REMOTE_POLL_INTERVAL_MS));
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      await fetch(jobUrl, { method: "DELETE" }).catch(() => undefined);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Restore the Dates in a report received as JSON
+ */
+function reviveReport(report: PrivacyReport): PrivacyReport {
+  return {
+    ...report,
+    analyzedAt: new Date(report.analyzedAt),
+    detectorResults: {
+      ...report.detectorResults,
+      compliance: {
+        ...report.detectorResults.compliance,
+        checkedAt: new Date(report.detectorResults.compliance.checkedAt),
+      },
+    },
+  };
+}
+
+
 async function main(): Promise<void> {
   console.log("\n");
   console.log("╔════════════════════════════════════════════════════════════╗");
@@ -57,7 +224,27 @@ async function main(): Promise<void> {
   }
 
   // Get wallet address from command line or use default
-  const walletAddress = process.argv[2] || DEFAULT_TEST_WALLET;
+  const args = process.argv.slice(2);
+  if (args.includes("--no-cache")) {
+    setCacheStore(null);
+  }
+  const walletAddress = args[0] && !args[0].startsWith("--") ? args[0] : DEFAULT_TEST_WALLET;
+  const depth = parseDepthArgs(args);
+  const source = parseSourceArgs(args);
+  const profileIndex = args.indexOf("--profile");
+  const scoringProfile = profileIndex !== -1 ? args[profileIndex + 1] : undefined;
+  const remoteIndex = args.indexOf("--remote");
+  const remoteUrl = remoteIndex !== -1 ? args[remoteIndex + 1] : undefined;
+
+  // Load in-house detectors
+  const detectorModules = (process.env.DETECTOR_MODULES ?? "")
+    .split(",")
+    .map(m => m.trim())
+    .filter(m => m.length > 0);
+  if (detectorModules.length > 0) {
+    const loaded = await loadDetectorModules(detectorModules);
+    console.log(`🧩 Loaded detectors: ${loaded.join(", ")}\n`);
+  }
 
   console.log(`🎯 Target Wallet: ${walletAddress}`);
   
@@ -71,12 +258,27 @@ async function main(): Promise<void> {
 
   console.log("\n" + "─".repeat(60) + "\n");
 
+  // Ctrl-C cancels the analysis (and any in-flight fetches) instead of killing it mid-request
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    console.log("\n🛑 Cancelling analysis...");
+    controller.abort();
+  });
+
   try {
     // Run the analysis
     console.log("🚀 Starting privacy analysis...\n");
     const startTime = Date.now();
     
-    const report = await analyzeWallet(walletAddress);
+    const report = remoteUrl
+      ? await runRemoteScan(remoteUrl, walletAddress, depth, scoringProfile, controller.signal)
+      : await analyzeWallet(walletAddress, {
+          depth,
+          source,
+          scoringProfile,
+          signal: controller.signal,
+          onProgress: reportProgress,
+        });
     
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
     console.log(`\n⏱️  Analysis completed in ${elapsed}s`);
@@ -84,8 +286,10 @@ async function main(): Promise<void> {
     // Print formatted report
     console.log(formatReportForConsole(report));
 
-    // Exit with appropriate code based on risk level
-    if (report.riskLevel === "CRITICAL") {
+    // Exit with appropriate code based on risk level (3 = scan failed, no score)
+    if (report.status === "failed") {
+      process.exit(3);
+    } else if (report.riskLevel === "CRITICAL") {
       process.exit(2);
     } else if (report.riskLevel === "HIGH") {
       process.exit(1);
@@ -94,6 +298,10 @@ async function main(): Promise<void> {
     }
 
   } catch (error) {
+    if (controller.signal.aborted) {
+      console.error("\n🛑 Analysis cancelled");
+      process.exit(130);
+    }
     console.error("\n❌ Fatal error during analysis:");
     console.error(error);
     process.exit(1);
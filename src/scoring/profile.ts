@@ -0,0 +1,220 @@
+/**
+ * Scoring Profiles
+ * Named sets of penalty weights, caps and risk thresholds
+ * Built-in profiles live in ./profiles; custom ones can be loaded from JSON or YAML
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import retailPrivacy from "./profiles/retail-privacy.json";
+import institutionalCompliance from "./profiles/institutional-compliance.json";
+import daoTreasury from "./profiles/dao-treasury.json";
+import { log } from "../utils/logger";
+
+export interface ScoringProfile {
+  name: string;
+  version: string;
+  description?: string | undefined;
+
+  // Upper score bound (inclusive) for each risk level; above `medium` is LOW
+  thresholds: {
+    critical: number;
+    high: number;
+    medium: number;
+  };
+
+  cex: {
+    depositPoints: number;    // Per deposit from an exchange
+    withdrawalPoints: number; // Per withdrawal to an exchange
+    depositAddressPoints: number; // Per probable deposit address, scaled by confidence
+    cap: number;
+  };
+
+  clustering: {
+    singleCounterparty: number;
+    smallCluster: number;
+    fanIn: number;     // Many senders consolidated into one destination
+    fanOut: number;    // Burst of payments to many recipients
+    peelChain: number; // Inflows forwarded as a small peel plus a large remainder
+  };
+
+  assets: {
+    poapPoints: number;      // Per POAP / event badge
+    solDomainPoints: number; // Per .sol domain
+    cap: number;
+  };
+
+  compliance: {
+    sanctioned: number; // Wallet itself is sanctioned
+    flagged: number;    // Wallet itself is flagged
+    sanctionedInteractionPoints: number; // Per sanctioned counterparty
+    sanctionedInteractionCap: number;
+  };
+
+  washTrading: {
+    points: number;      // Per counterparty or token with repeated round trips
+    cyclePoints: number; // Per round trip
+    cap: number;
+  };
+
+  amounts: {
+    pairPoints: number;        // Per matching in/out pair with an uncommon amount
+    fingerprintPoints: number; // Per transfer with a near-unique amount
+    cap: number;
+  };
+
+  dust: {
+    dustPoints: number;             // Any dust senders
+    poisoningPoints: number;        // Any lookalike addresses
+    lookalikePaymentPoints: number; // Per lookalike the wallet sent funds to
+    cap: number;
+  };
+
+  timing: {
+    timezonePoints: number;  // At full confidence in the timezone estimate
+    automationPoints: number; // At a perfectly regular schedule
+  };
+
+  feePayer: {
+    linkPoints: number; // Per wallet linked through a private fee payer
+    cap: number;
+  };
+
+  funding: {
+    kycOriginPoints: number; // First funded from an exchange or custodian
+    ownWalletPoints: number; // Per funder the wallet later sent funds back to
+  };
+
+  taint: {
+    exposurePoints: number;       // At 100% tainted inflow, scaled down by the tainted share
+    indirectSourcePoints: number; // Per risky source reached only through intermediaries
+    cap: number;
+  };
+
+  bridge: {
+    usagePoints: number;          // Any bridge transfers
+    foreignAddressPoints: number; // Per address on another chain linked to the wallet
+    cap: number;
+  };
+}
+
+// Profile file format: any section may be partial when `extends` names a base profile
+export type ScoringProfileFile = Partial<Omit<ScoringProfile, "name" | "version">> & {
+  name: string;
+  version: string;
+  extends?: string | undefined;
+};
+
+export const BUILT_IN_PROFILES: Record<string, ScoringProfile> = {
+  "retail-privacy": retailPrivacy,
+  "institutional-compliance": institutionalCompliance,
+  "dao-treasury": daoTreasury,
+};
+
+export const DEFAULT_PROFILE: ScoringProfile = retailPrivacy;
+
+/**
+ * Look up a built-in profile by name
+ * Only the table's own keys match, so names like "constructor" are not profiles
+ */
+export function getBuiltInProfile(name: string): ScoringProfile | undefined {
+  return Object.hasOwn(BUILT_IN_PROFILES, name) ? BUILT_IN_PROFILES[name] : undefined;
+}
+
+/**
+ * Resolve a scoring profile by built-in name or file path
+ * @param nameOrPath - Built-in profile name, or path to a .json/.yaml/.yml file.
+ *                     Defaults to SCORING_PROFILE, then retail-privacy.
+ * @returns Validated scoring profile
+ */
+export function resolveScoringProfile(
+  nameOrPath: string | undefined = process.env.SCORING_PROFILE
+): ScoringProfile {
+  if (!nameOrPath) return DEFAULT_PROFILE;
+
+  const builtIn = getBuiltInProfile(nameOrPath);
+  if (builtIn) return builtIn;
+
+  return loadScoringProfile(nameOrPath);
+}
+
+/**
+ * Load a scoring profile from a JSON or YAML file
+ * @param filePath - Path to the profile file
+ * @returns Validated scoring profile
+ */
+export function loadScoringProfile(filePath: string): ScoringProfile {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(
+      `Unknown scoring profile "${filePath}". Built-in profiles: ${Object.keys(BUILT_IN_PROFILES).join(", ")}`
+    );
+  }
+
+  const text = fs.readFileSync(resolved, "utf8");
+  const extension = path.extname(resolved).toLowerCase();
+  const data: unknown = extension === ".yaml" || extension === ".yml"
+    ? parseYaml(text)
+    : JSON.parse(text);
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`Scoring profile file ${resolved} must contain an object with a name and version`);
+  }
+
+  const profile = mergeProfile(data as ScoringProfileFile);
+  validateProfile(profile);
+  log.info(`📐 Loaded scoring profile ${profile.name}@${profile.version} from ${resolved}`);
+  return profile;
+}
+
+/**
+ * Overlay a (possibly partial) profile file on its base profile
+ */
+function mergeProfile(data: ScoringProfileFile): ScoringProfile {
+  const baseName = data.extends ?? "retail-privacy";
+  const base = getBuiltInProfile(baseName);
+  if (!base) {
+    throw new Error(`Scoring profile "${data.name}" extends unknown profile "${baseName}"`);
+  }
+
+  return {
+    name: data.name,
+    version: String(data.version),
+    description: data.description ?? base.description,
+    thresholds: { ...base.thresholds, ...data.thresholds },
+    cex: { ...base.cex, ...data.cex },
+    clustering: { ...base.clustering, ...data.clustering },
+    assets: { ...base.assets, ...data.assets },
+    compliance: { ...base.compliance, ...data.compliance },
+    washTrading: { ...base.washTrading, ...data.washTrading },
+    amounts: { ...base.amounts, ...data.amounts },
+    dust: { ...base.dust, ...data.dust },
+    timing: { ...base.timing, ...data.timing },
+    feePayer: { ...base.feePayer, ...data.feePayer },
+    funding: { ...base.funding, ...data.funding },
+    taint: { ...base.taint, ...data.taint },
+    bridge: { ...base.bridge, ...data.bridge },
+  };
+}
+
+function validateProfile(profile: ScoringProfile): void {
+  if (!profile.name || !profile.version) {
+    throw new Error("Scoring profile must have a name and version");
+  }
+
+  const sections = ["cex", "clustering", "assets", "compliance", "washTrading", "amounts", "dust", "timing", "feePayer", "funding", "taint", "bridge"] as const;
+  for (const section of sections) {
+    for (const [key, value] of Object.entries(profile[section])) {
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        throw new Error(`Scoring profile "${profile.name}": ${section}.${key} must be a non-negative number`);
+      }
+    }
+  }
+
+  const { critical, high, medium } = profile.thresholds;
+  if (!(critical >= 0 && critical < high && high < medium && medium < 100)) {
+    throw new Error(
+      `Scoring profile "${profile.name}": thresholds must satisfy 0 <= critical < high < medium < 100`
+    );
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * Cache Layer
+ * Key/value stores with TTLs for transaction history and compliance lookups,
+ * and a transaction source that refreshes cached history incrementally
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import { createHash } from "crypto";
+import { applyDepth, resolveMaxTransactions, summarizeCoverage } from "./history";
+import type { FetchOptions, HistoryDepth, HistoryResult } from "./history";
+import type { ParsedTransaction } from "./helius";
+import type { TransactionSource } from "./source";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { log } from "../utils/logger";
+
+// Load environment variables
+dotenv.config({ quiet: true });
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;  // Unix ms
+  expiresAt: number; // Unix ms
+}
+
+/**
+ * Storage backend for cached values
+ * Values must survive a JSON round trip (Dates come back as strings).
+ */
+export interface CacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | null>; // null when missing or expired
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type CacheStoreKind = "memory" | "file" | "none";
+
+/**
+ * In-process store, bounded to the most recently used entries
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly name = "memory";
+  private entries = new Map<string, CacheEntry<unknown>>(); // Least recently used first
+  private maxEntries: number;
+
+  constructor(maxEntries: number = ANALYSIS_CONFIG.MEMORY_CACHE_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return null;
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: now, expiresAt: now + ttlMs });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * One JSON file per key, so cached audits survive restarts
+ */
+export class FileCacheStore implements CacheStore {
+  readonly name = "file";
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = path.resolve(directory);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const file = this.fileFor(key);
+    try {
+      const entry = JSON.parse(await fs.promises.readFile(file, "utf8")) as CacheEntry<T> & { key: string };
+      if (entry.key !== key || entry.expiresAt <= Date.now()) {
+        await fs.promises.rm(file, { force: true });
+        return null;
+      }
+      return { value: entry.value, storedAt: entry.storedAt, expiresAt: entry.expiresAt };
+    } catch {
+      return null; // Missing or unreadable - treat as a miss
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    const file = this.fileFor(key);
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      // Write then rename so a concurrent reader never sees a half-written file
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temp, JSON.stringify({ key, value, storedAt: now, expiresAt: now + ttlMs }));
+      await fs.promises.rename(temp, file);
+    } catch (error) {
+      log.error("❌ Failed to write cache entry:", error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.fileFor(key), { force: true });
+  }
+
+  private fileFor(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex").slice(0, 32);
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
+
+// Kept on globalThis so every route bundle shares one memory cache
+const globalCache = globalThis as typeof globalThis & {
+  __privacyCacheStore?: CacheStore | null;
+  __privacyComplianceCacheStore?: CacheStore;
+};
+
+/**
+ * Get the cache store configured in the environment
+ *
+ * CACHE_STORE=memory|file|none (default memory), CACHE_DIR for the file store (default .cache)
+ * @returns The shared store, or null when caching is disabled
+ */
+export function getCacheStore(): CacheStore | null {
+  if (globalCache.__privacyCacheStore === undefined) {
+    globalCache.__privacyCacheStore = createCacheStore(parseCacheKind(process.env.CACHE_STORE));
+  }
+  return globalCache.__privacyCacheStore;
+}
+
+/**
+ * Replace the shared cache store (null disables caching)
+ */
+export function setCacheStore(store: CacheStore | null): void {
+  globalCache.__privacyCacheStore = store;
+}
+
+/**
+ * Get the store for compliance results
+ * Sanctions answers go stale, so they are only written to the file store when
+ * CACHE_COMPLIANCE_ON_DISK=true; otherwise a file-backed setup keeps them in memory.
+ * @returns The store, or null when caching is disabled
+ */
+export function getComplianceCacheStore(): CacheStore | null {
+  const store = getCacheStore();
+  if (!(store instanceof FileCacheStore) || process.env.CACHE_COMPLIANCE_ON_DISK === "true") {
+    return store;
+  }
+  globalCache.__privacyComplianceCacheStore ??= new MemoryCacheStore();
+  return globalCache.__privacyComplianceCacheStore;
+}
+
+export function createCacheStore(kind: CacheStoreKind = "memory"): CacheStore | null {
+  switch (kind) {
+    case "none":
+      return null;
+    case "memory":
+      return new MemoryCacheStore();
+    case "file":
+      return new FileCacheStore(process.env.CACHE_DIR ?? ".cache");
+  }
+}
+
+function parseCacheKind(value: string | undefined): CacheStoreKind {
+  if (value === "memory" || value === "file" || value === "none") return value;
+  if (value) {
+    log.warn(`⚠️  Unknown CACHE_STORE "${value}", using the memory cache`);
+  }
+  return "memory";
+}
+
+// Cached history: a contiguous run of transactions from the newest one seen backwards
+interface CachedHistory {
+  transactions: ParsedTransaction[]; // Newest first
+  reachedStart: boolean;             // The oldest cached transaction is the wallet's first
+}
+
+/**
+ * Wraps a live source and caches what it returns
+ * A cached wallet only fetches transactions newer than the cached head, plus
+ * older ones when a deeper history is requested than the cache holds.
+ */
+export class CachedTransactionSource implements TransactionSource {
+  readonly name: string;
+  private inner: TransactionSource;
+  private store: CacheStore;
+  private ttlMs: number;
+
+  constructor(
+    inner: TransactionSource,
+    store: CacheStore,
+    ttlMs: number = ANALYSIS_CONFIG.HISTORY_CACHE_TTL_MS
+  ) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.store = store;
+    this.ttlMs = ttlMs;
+  }
+
+  isReady(): boolean {
+    return this.inner.isReady();
+  }
+
+  async getHistory(
+    address: string,
+    depth: HistoryDepth = {},
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
+    // Demo data and explicit paging cursors go straight through
+    if (!this.inner.isReady() || depth.beforeSignature || depth.untilSignature) {
+      return this.inner.getHistory(address, depth, options);
+    }
+
+    const key = this.keyFor(address);
+    const cached = (await this.store.get<CachedHistory>(key))?.value;
+    const head = cached?.transactions[0];
+    if (!cached || !head) {
+      return this.fetchAndStore(address, depth, options);
+    }
+
+    let transactions = cached.transactions;
+    let reachedStart = cached.reachedStart;
+    let pagesFetched = 0;
+
+    // Newer than the cached head
+    let newer: HistoryResult;
+    try {
+      newer = await this.inner.getHistory(
+        address,
+        { fullHistory: true, untilSignature: head.signature },
+        options
+      );
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      log.warn("⚠️  Could not refresh cached history, using the cached copy:", error);
+      return applyCachedDepth(cached.transactions, cached.reachedStart, depth, 0);
+    }
+    if (newer.coverage.simulated) {
+      // The source served demo data - serve the cached copy rather than mixing them
+      log.warn("⚠️  Could not refresh cached history, using the cached copy");
+      return applyCachedDepth(cached.transactions, cached.reachedStart, depth, 0);
+    }
+    if (newer.coverage.truncated) {
+      // Could not walk back to the cached head - the cache would have a gap
+      log.info("🗃️  Cached history is too far behind, refetching");
+      return this.fetchAndStore(address, depth, options);
+    }
+    pagesFetched += newer.coverage.pagesFetched;
+    transactions = mergeHistories(newer.transactions, transactions);
+
+    // Older than the cached tail, if the request goes deeper than the cache
+    const tail = transactions[transactions.length - 1];
+    let olderCount = 0;
+    if (!reachedStart && tail && !coversDepth(transactions, depth)) {
+      try {
+        const older = await this.inner.getHistory(
+          address,
+          {
+            ...depth,
+            maxTransactions: depth.fullHistory || depth.sinceTimestamp !== undefined
+              ? depth.maxTransactions
+              : resolveMaxTransactions(depth) - transactions.length,
+            beforeSignature: tail.signature,
+          },
+          options
+        );
+        if (!older.coverage.simulated) {
+          pagesFetched += older.coverage.pagesFetched;
+          olderCount = older.transactions.length;
+          transactions = mergeHistories(transactions, older.transactions);
+          reachedStart = older.coverage.reachedStart;
+        }
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        // The refreshed cache is still contiguous - serve it, marked as not reaching the requested depth
+        log.warn("⚠️  Could not fetch history older than the cached copy, using the cached copy:", error);
+      }
+    }
+
+    log.info(
+      `🗃️  History cache: ${cached.transactions.length} cached, ${newer.transactions.length} newer, ${olderCount} older fetched`
+    );
+    await this.store.set<CachedHistory>(key, { transactions, reachedStart }, this.ttlMs);
+
+    return applyCachedDepth(transactions, reachedStart, depth, pagesFetched);
+  }
+
+  async getEarliestHistory(
+    address: string,
+    count: number,
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
+    // A wallet's first transactions never change - cache them once the walk reached them
+    const key = `earliest:${this.inner.name}:${address}:${count}`;
+    const cached = (await this.store.get<ParsedTransaction[]>(key))?.value;
+    if (cached) {
+      log.info(`🗃️  Earliest history cache hit for ${address}`);
+      return { transactions: cached, coverage: summarizeCoverage(cached, { maxTransactions: count }, 0, true, false) };
+    }
+
+    const result = await this.inner.getEarliestHistory(address, count, options);
+    if (this.inner.isReady() && !result.coverage.simulated && result.coverage.reachedStart) {
+      await this.store.set<ParsedTransaction[]>(key, result.transactions, this.ttlMs);
+    }
+    return result;
+  }
+
+  async getBalance(address: string): Promise<number> {
+    // Balances change with every transaction - never cached
+    return this.inner.getBalance(address);
+  }
+
+  private async fetchAndStore(
+    address: string,
+    depth: HistoryDepth,
+    options: FetchOptions
+  ): Promise<HistoryResult> {
+    const result = await this.inner.getHistory(address, depth, options);
+
+    // Never cache demo data
+    if (this.inner.isReady() && !result.coverage.simulated) {
+      await this.store.set<CachedHistory>(
+        this.keyFor(address),
+        { transactions: result.transactions, reachedStart: result.coverage.reachedStart },
+        this.ttlMs
+      );
+    }
+    return result;
+  }
+
+  private keyFor(address: string): string {
+    return `history:${this.inner.name}:${address}`;
+  }
+}
+
+/**
+ * Apply a depth to cached history, keeping coverage honest about what the cache holds
+ */
+function applyCachedDepth(
+  transactions: ParsedTransaction[],
+  reachedStart: boolean,
+  depth: HistoryDepth,
+  pagesFetched: number
+): HistoryResult {
+  const result = applyDepth(transactions, depth);
+  result.coverage.pagesFetched = pagesFetched;
+  // Running out of cached history is only the wallet's start if the cache reached it
+  if (result.coverage.reachedStart && !reachedStart) {
+    result.coverage.reachedStart = false;
+    result.coverage.truncated = true;
+  }
+  return result;
+}
+
+/**
+ * Concatenate newest-first histories, dropping duplicates
+ */
+function mergeHistories(newer: ParsedTransaction[], older: ParsedTransaction[]): ParsedTransaction[] {
+  const seen = new Set(newer.map(tx => tx.signature));
+  return [...newer, ...older.filter(tx => !seen.has(tx.signature))];
+}
+
+/**
+ * Whether a contiguous newest-first history already satisfies a depth
+ */
+function coversDepth(transactions: ParsedTransaction[], depth: HistoryDepth): boolean {
+  if (depth.fullHistory) return false;
+
+  const oldest = transactions[transactions.length - 1];
+  if (depth.sinceTimestamp !== undefined) {
+    return oldest !== undefined && oldest.timestamp < depth.sinceTimestamp;
+  }
+  return transactions.length >= resolveMaxTransactions(depth);
+}
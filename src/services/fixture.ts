@@ -0,0 +1,295 @@
+/**
+ * Fixture Transaction Source
+ * Replays recorded history from JSON/JSONL files with no network access,
+ * and records live history to disk so audits can be re-run later
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { applyDepth, summarizeCoverage } from "./history";
+import type { FetchOptions, HistoryCoverage, HistoryDepth, HistoryResult } from "./history";
+import type { ParsedTransaction } from "./helius";
+import type { TransactionSource } from "./source";
+import demoHistory from "../fixtures/demo-history.json";
+import { log } from "../utils/logger";
+
+// Replaced with the requested address when a fixture is loaded
+export const WALLET_PLACEHOLDER = "__WALLET__";
+
+const FIXTURE_EXTENSIONS = new Set([".json", ".jsonl"]);
+
+// Record mode names each file after the address it holds
+const RECORDING_NAME = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// On-disk format written by record mode (a plain ParsedTransaction[] array is also accepted)
+export interface FixtureFile {
+  address: string;
+  recordedAt: string;
+  source: string;
+  balance?: number | undefined;
+  coverage?: HistoryCoverage | undefined;
+  transactions: ParsedTransaction[];
+}
+
+interface LoadedFixture {
+  address: string | null; // Wallet the recording belongs to, if it names one
+  balance: number | null;
+  coverage: HistoryCoverage | null;
+  transactions: ParsedTransaction[];
+}
+
+export class FixtureTransactionSource implements TransactionSource {
+  readonly name = "fixture";
+  private fixturePath: string | null;
+  private inlineData: unknown;
+  private owner: string | null = null; // First address replayed, which owns recordings that name no address
+
+  /**
+   * @param fixture - Path to a .json/.jsonl file or a directory of them,
+   *                  or already-parsed fixture data
+   */
+  constructor(fixture: string | FixtureFile | ParsedTransaction[]) {
+    if (typeof fixture === "string") {
+      this.fixturePath = path.resolve(fixture);
+      this.inlineData = null;
+    } else {
+      this.fixturePath = null;
+      this.inlineData = fixture;
+    }
+  }
+
+  isReady(): boolean {
+    return this.fixturePath === null || fs.existsSync(this.fixturePath);
+  }
+
+  async getHistory(
+    address: string,
+    depth: HistoryDepth = {},
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
+    options.signal?.throwIfAborted();
+    const fixture = this.load(address);
+    log.info(`📼 Replaying ${fixture.transactions.length} recorded transactions for: ${address}`);
+
+    const result = applyDepth(fixture.transactions, depth);
+    options.onProgress?.({ pagesFetched: 1, transactionsFetched: result.transactions.length });
+
+    // Running out of recorded history is only the wallet's start if the recording reached it
+    if (result.coverage.reachedStart && fixture.coverage && !fixture.coverage.reachedStart) {
+      result.coverage.reachedStart = false;
+      result.coverage.truncated = fixture.coverage.truncated;
+    }
+
+    return result;
+  }
+
+  async getEarliestHistory(
+    address: string,
+    count: number,
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
+    options.signal?.throwIfAborted();
+    const fixture = this.load(address);
+    const transactions = [...fixture.transactions]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(-count);
+
+    // The recording's oldest transactions are only the wallet's first if the recording reached them
+    const reachedStart = fixture.coverage?.reachedStart ?? true;
+    return {
+      transactions,
+      coverage: summarizeCoverage(transactions, { maxTransactions: count }, 0, reachedStart, false),
+    };
+  }
+
+  /**
+   * Recorded balance of an address
+   * Rejects when the recording has none, like a failed fetch - an unknown balance is never 0
+   */
+  async getBalance(address: string): Promise<number> {
+    const balance = this.load(address).balance;
+    if (balance === null) throw new Error(`No balance recorded for ${address}`);
+    return balance;
+  }
+
+  /**
+   * The recording for an address
+   * A directory's `<address>.json` belongs to that address. A file, inline data or a directory
+   * with no per-address recordings belongs to the address it names, or else to the first address
+   * replayed (the analyzed wallet). Any other address gets an empty history that does not claim
+   * to reach the wallet's start, rather than somebody else's transactions.
+   */
+  private load(address: string): LoadedFixture {
+    this.owner = this.owner ?? address;
+
+    const fixturePath = this.fixturePath;
+    let fixture: LoadedFixture;
+    if (fixturePath === null) {
+      fixture = parseFixture(JSON.stringify(this.inlineData), address, ".json");
+    } else if (fs.statSync(fixturePath).isFile()) {
+      fixture = readFixtureFile(fixturePath, address);
+    } else {
+      const files = fs.readdirSync(fixturePath)
+        .filter(name => FIXTURE_EXTENSIONS.has(path.extname(name)))
+        .sort();
+      const recordingName = (name: string) => path.basename(name, path.extname(name));
+      const read = (names: string[]) => names.map(name => readFixtureFile(path.join(fixturePath, name), address));
+      const own = files.filter(name => recordingName(name) === address);
+      if (own.length > 0) {
+        return mergeFixtures(read(own), address);
+      }
+      if (files.some(name => RECORDING_NAME.test(recordingName(name)))) {
+        return unrecordedFixture(address);
+      }
+      fixture = mergeFixtures(read(files), null);
+    }
+
+    return (fixture.address ?? this.owner) === address ? fixture : unrecordedFixture(address);
+  }
+}
+
+/**
+ * Wraps a live source and saves every history it returns to `<dir>/<address>.json`
+ */
+export class RecordingTransactionSource implements TransactionSource {
+  readonly name: string;
+  private inner: TransactionSource;
+  private directory: string;
+  private recordings = new Map<string, FixtureFile>();
+
+  constructor(inner: TransactionSource, directory: string) {
+    this.inner = inner;
+    this.name = inner.name;
+    this.directory = path.resolve(directory);
+  }
+
+  isReady(): boolean {
+    return this.inner.isReady();
+  }
+
+  async getHistory(
+    address: string,
+    depth: HistoryDepth = {},
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
+    const result = await this.inner.getHistory(address, depth, options);
+    const recording = this.getRecording(address);
+    recording.coverage = result.coverage;
+    recording.transactions = result.transactions;
+    this.save(recording);
+    return result;
+  }
+
+  async getEarliestHistory(
+    address: string,
+    count: number,
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
+    // Not recorded: it is not a contiguous slice of the history and would leave a gap on replay
+    return this.inner.getEarliestHistory(address, count, options);
+  }
+
+  async getBalance(address: string): Promise<number> {
+    const balance = await this.inner.getBalance(address);
+    const recording = this.getRecording(address);
+    recording.balance = balance;
+    this.save(recording);
+    return balance;
+  }
+
+  private getRecording(address: string): FixtureFile {
+    let recording = this.recordings.get(address);
+    if (!recording) {
+      recording = {
+        address,
+        recordedAt: new Date().toISOString(),
+        source: this.inner.name,
+        transactions: [],
+      };
+      this.recordings.set(address, recording);
+    }
+    return recording;
+  }
+
+  private save(recording: FixtureFile): void {
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      const file = path.join(this.directory, `${recording.address}.json`);
+      fs.writeFileSync(file, JSON.stringify(recording, null, 2) + "\n");
+      log.info(`💾 Recorded ${recording.transactions.length} transactions to ${file}`);
+    } catch (error) {
+      log.error("❌ Failed to record fixture:", error);
+    }
+  }
+}
+
+/**
+ * Demo history used when no live source is available
+ */
+export function loadDemoTransactions(address: string): ParsedTransaction[] {
+  log.info("   📝 Loading demo transaction data...");
+  return parseFixture(JSON.stringify(demoHistory), address, ".json").transactions;
+}
+
+/**
+ * Demo history with coverage marked simulated, so no report or cache mistakes it for real data
+ */
+export function loadDemoHistory(address: string, depth: HistoryDepth): HistoryResult {
+  const transactions = loadDemoTransactions(address);
+  return { transactions, coverage: { ...summarizeCoverage(transactions, depth, 0, true), simulated: true } };
+}
+
+/**
+ * Combine recordings into one history, keeping coverage only when there is a single one
+ */
+function mergeFixtures(fixtures: LoadedFixture[], address: string | null): LoadedFixture {
+  const merged = new Map<string, ParsedTransaction>();
+  let balance: number | null = null;
+  for (const fixture of fixtures) {
+    for (const tx of fixture.transactions) merged.set(tx.signature, tx);
+    balance = fixture.balance ?? balance;
+  }
+  const coverage = fixtures.length === 1 ? fixtures[0]?.coverage ?? null : null;
+  return { address, balance, coverage, transactions: Array.from(merged.values()) };
+}
+
+/**
+ * An address with no recording: no transactions, and no claim that its history starts there
+ */
+function unrecordedFixture(address: string): LoadedFixture {
+  log.info(`📼 No recording for ${address}`);
+  return { address, balance: null, coverage: summarizeCoverage([], {}, 0, false), transactions: [] };
+}
+
+function readFixtureFile(file: string, address: string): LoadedFixture {
+  return parseFixture(fs.readFileSync(file, "utf8"), address, path.extname(file));
+}
+
+/**
+ * Parse fixture text: a ParsedTransaction[] array, a FixtureFile object,
+ * or JSONL with one transaction per line
+ */
+function parseFixture(text: string, address: string, extension: string): LoadedFixture {
+  const resolved = text.split(WALLET_PLACEHOLDER).join(address);
+
+  if (extension === ".jsonl") {
+    const transactions = resolved
+      .split("\n")
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => JSON.parse(line) as ParsedTransaction);
+    return { address: null, balance: null, coverage: null, transactions };
+  }
+
+  const data = JSON.parse(resolved) as FixtureFile | ParsedTransaction[];
+  if (Array.isArray(data)) {
+    return { address: null, balance: null, coverage: null, transactions: data };
+  }
+  return {
+    // A template written with the placeholder names no particular wallet
+    address: text.includes(WALLET_PLACEHOLDER) ? null : data.address ?? null,
+    balance: data.balance ?? null,
+    coverage: data.coverage ?? null,
+    transactions: data.transactions ?? [],
+  };
+}
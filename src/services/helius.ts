@@ -5,9 +5,16 @@
 
 import * as dotenv from "dotenv";
 import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { describeDepth, resolveMaxTransactions, summarizeCoverage } from "./history";
+import type { FetchOptions, HistoryDepth, HistoryResult } from "./history";
+import { loadDemoHistory, loadDemoTransactions } from "./fixture";
+import { findEarliestSignatures } from "./rpc";
+import type { TransactionSource } from "./source";
+import { log } from "../utils/logger";
 
 // Load environment variables
-dotenv.config();
+dotenv.config({ quiet: true });
 
 // Transaction types from Helius
 export interface ParsedTransaction {
@@ -22,6 +29,17 @@ export interface ParsedTransaction {
   tokenTransfers: TokenTransfer[];
   nativeTransfers: NativeTransfer[];
   events: TransactionEvent;
+  instructions?: Instruction[] | undefined; // Program calls, for detectors that decode instruction data
+}
+
+export interface Instruction extends InnerInstruction {
+  innerInstructions: InnerInstruction[];
+}
+
+export interface InnerInstruction {
+  programId: string;
+  accounts: string[];
+  data: string; // Base58; empty for instructions the RPC returned already parsed
 }
 
 export interface AccountData {
@@ -89,7 +107,8 @@ export interface TransactionEvent {
   } | undefined;
 }
 
-export class HeliusService {
+export class HeliusService implements TransactionSource {
+  readonly name = "helius";
   private apiKey: string | null = null;
   private isInitialized: boolean = false;
   private quickNodeUrl: string | null = null;
@@ -104,7 +123,7 @@ export class HeliusService {
       this.quickNodeUrl = process.env.QUICKNODE_RPC_URL ?? null;
 
       if (!this.apiKey) {
-        console.warn(
+        log.warn(
           "⚠️  HELIUS_API_KEY not found in environment variables. Using mock data."
         );
         this.isInitialized = false;
@@ -112,205 +131,176 @@ export class HeliusService {
       }
 
       this.isInitialized = true;
-      console.log("✅ Helius API key loaded successfully");
+      log.info("✅ Helius API key loaded successfully");
       
       if (this.quickNodeUrl) {
-        console.log("✅ QuickNode RPC URL loaded successfully");
+        log.info("✅ QuickNode RPC URL loaded successfully");
       }
     } catch (error) {
-      console.error("❌ Failed to initialize Helius:", error);
+      log.error("❌ Failed to initialize Helius:", error);
       this.isInitialized = false;
     }
   }
 
   /**
    * Get parsed transaction history for a wallet address
-   * Falls back to mock data if Helius is not available
+   * Walks the Helius history backwards page by page using the `before` cursor
+   * until the requested depth is reached or the wallet's first transaction is seen.
+   * Serves demo data only when Helius is not configured; a failed fetch with no pages throws
    */
   async getHistory(
     address: string,
-    limit: number = 100
-  ): Promise<ParsedTransaction[]> {
+    depth: HistoryDepth = {},
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
     // Validate address format (basic check)
     if (!address || address.length < 32 || address.length > 44) {
-      console.error("❌ Invalid Solana address format:", address);
-      return [];
+      log.error("❌ Invalid Solana address format:", address);
+      return { transactions: [], coverage: summarizeCoverage([], depth, 0, true) };
     }
 
-    console.log(`📡 Fetching transaction history for: ${address}`);
-    console.log(`   Limit: ${limit} transactions`);
+    const maxTransactions = resolveMaxTransactions(depth);
+
+    log.info(`📡 Fetching transaction history for: ${address}`);
+    log.info(`   Depth: ${describeDepth(depth)}`);
 
     if (!this.isInitialized || !this.apiKey) {
-      console.warn("⚠️  Helius not initialized. Using mock transaction data.");
-      return this.getMockTransactions(address);
+      log.warn("⚠️  Helius not initialized. Using mock transaction data.");
+      return loadDemoHistory(address, depth);
     }
 
+    const transactions: ParsedTransaction[] = [];
+    let before = depth.beforeSignature;
+    let pagesFetched = 0;
+    let reachedStart = false;
+    let reachedWindow = false;
+
     try {
-      // Use Helius REST API directly
-      const url = `https://api.helius.xyz/v0/addresses/${address}/transactions?api-key=${this.apiKey}&limit=${limit}`;
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      while (transactions.length < maxTransactions) {
+        if (pagesFetched >= ANALYSIS_CONFIG.MAX_HISTORY_PAGES) {
+          log.warn(`⚠️  Stopped after ${pagesFetched} pages (MAX_HISTORY_PAGES)`);
+          break;
+        }
+
+        options.signal?.throwIfAborted();
+
+        const pageSize = Math.min(
+          ANALYSIS_CONFIG.HISTORY_PAGE_SIZE,
+          maxTransactions - transactions.length
+        );
+        const page = await this.fetchHistoryPage(address, pageSize, before, depth.untilSignature, options.signal);
+        pagesFetched++;
+
+        for (const tx of page) {
+          if (depth.sinceTimestamp !== undefined && tx.timestamp < depth.sinceTimestamp) {
+            reachedWindow = true;
+            break;
+          }
+          transactions.push(tx);
+        }
+        options.onProgress?.({ pagesFetched, transactionsFetched: transactions.length });
+
+        const lastTx = page[page.length - 1];
+        if (page.length < pageSize || !lastTx) {
+          // A short page means there is nothing older (or nothing older than `until`)
+          reachedStart = depth.untilSignature === undefined;
+          reachedWindow = depth.untilSignature !== undefined; // Stopped at the `until` cursor
+          break;
+        }
+        if (reachedWindow) break;
+
+        before = lastTx.signature;
       }
 
-      const transactions = await response.json() as ParsedTransaction[];
-      console.log(`✅ Retrieved ${transactions.length} transactions`);
-      
-      return transactions;
+      log.info(`✅ Retrieved ${transactions.length} transactions in ${pagesFetched} page(s)`);
+
+      return {
+        transactions,
+        coverage: summarizeCoverage(transactions, depth, pagesFetched, reachedStart, reachedWindow),
+      };
     } catch (error) {
-      console.error("❌ Error fetching transaction history:", error);
-      console.log("   Falling back to mock data...");
-      return this.getMockTransactions(address);
+      // Cancellation is not a fetch error - never fall back to other data
+      if (options.signal?.aborted) throw error;
+
+      log.error("❌ Error fetching transaction history:", error);
+
+      // Keep whatever pages we already have rather than discarding real data
+      if (transactions.length > 0) {
+        log.info(`   Returning ${transactions.length} transactions fetched before the error`);
+        return {
+          transactions,
+          coverage: summarizeCoverage(transactions, depth, pagesFetched, false, false),
+        };
+      }
+
+      // Nothing real to return - fail the stage rather than pass demo data off as this wallet's history
+      throw error;
     }
   }
 
   /**
-   * Get mock transactions for demo purposes
+   * Get a wallet's oldest transactions
+   * Walks signatures back over Helius RPC, then fetches the oldest page from the REST API
+   * Falls back to the oldest mock transactions if Helius is not available
    */
-  private getMockTransactions(walletAddress: string): ParsedTransaction[] {
-    console.log("   📝 Generating mock transaction data for demo...");
-    
-    // Mock transactions simulating CEX activity and various patterns
-    return [
-      // CEX Deposit simulation
-      {
-        signature: "mock_cex_deposit_1",
-        timestamp: Date.now() / 1000 - 86400,
-        type: "TRANSFER",
-        source: "SYSTEM_PROGRAM",
-        description: "Transferred 2.5 SOL to Binance",
-        fee: 5000,
-        feePayer: walletAddress,
-        accountData: [],
-        tokenTransfers: [],
-        nativeTransfers: [
-          {
-            fromUserAccount: walletAddress,
-            toUserAccount: "5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9", // Mock Binance
-            amount: 2500000000,
-          },
-        ],
-        events: {},
-      },
-      // CEX Withdrawal simulation
-      {
-        signature: "mock_cex_withdrawal_1",
-        timestamp: Date.now() / 1000 - 172800,
-        type: "TRANSFER",
-        source: "SYSTEM_PROGRAM",
-        description: "Received 1 SOL from Coinbase",
-        fee: 5000,
-        feePayer: "2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm", // Mock Coinbase
-        accountData: [],
-        tokenTransfers: [],
-        nativeTransfers: [
-          {
-            fromUserAccount: "2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm", // Mock Coinbase
-            toUserAccount: walletAddress,
-            amount: 1000000000,
-          },
-        ],
-        events: {},
-      },
-      // Regular transfer showing clustering
-      {
-        signature: "mock_regular_1",
-        timestamp: Date.now() / 1000 - 259200,
-        type: "TRANSFER",
-        source: "SYSTEM_PROGRAM",
-        description: "Transferred 0.5 SOL",
-        fee: 5000,
-        feePayer: walletAddress,
-        accountData: [],
-        tokenTransfers: [],
-        nativeTransfers: [
-          {
-            fromUserAccount: walletAddress,
-            toUserAccount: "FriendWallet1xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx",
-            amount: 500000000,
-          },
-        ],
-        events: {},
-      },
-      // POAP/Badge receipt
-      {
-        signature: "mock_poap_1",
-        timestamp: Date.now() / 1000 - 345600,
-        type: "NFT_MINT",
-        source: "MAGIC_EDEN",
-        description: "Received Solana Hackathon 2024 Attendance Badge",
-        fee: 5000,
-        feePayer: walletAddress,
-        accountData: [],
-        tokenTransfers: [
-          {
-            mint: "HackathonBadgeMint123456789012345678901234",
-            tokenAmount: 1,
-            fromUserAccount: "MinterAddress12345678901234567890123456",
-            toUserAccount: walletAddress,
-            tokenStandard: "NonFungible",
-          },
-        ],
-        nativeTransfers: [],
-        events: {
-          nft: {
-            description: "Minted Solana Hackathon 2024 Attendance Badge",
-            type: "NFT_MINT",
-            source: "MAGIC_EDEN",
-            amount: 0,
-            fee: 5000,
-            feePayer: walletAddress,
-            buyer: walletAddress,
-            nfts: [
-              {
-                mint: "HackathonBadgeMint123456789012345678901234",
-                tokenStandard: "NonFungible",
-              },
-            ],
-          },
-        },
-      },
-      // Repeated interaction showing clustering pattern
-      {
-        signature: "mock_cluster_1",
-        timestamp: Date.now() / 1000 - 432000,
-        type: "TRANSFER",
-        source: "SYSTEM_PROGRAM",
-        description: "Transferred 0.1 SOL",
-        fee: 5000,
-        feePayer: walletAddress,
-        accountData: [],
-        tokenTransfers: [],
-        nativeTransfers: [
-          {
-            fromUserAccount: walletAddress,
-            toUserAccount: "FriendWallet1xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx",
-            amount: 100000000,
-          },
-        ],
-        events: {},
-      },
-      {
-        signature: "mock_cluster_2",
-        timestamp: Date.now() / 1000 - 518400,
-        type: "TRANSFER",
-        source: "SYSTEM_PROGRAM",
-        description: "Received 0.2 SOL",
-        fee: 5000,
-        feePayer: "FriendWallet1xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx",
-        accountData: [],
-        tokenTransfers: [],
-        nativeTransfers: [
-          {
-            fromUserAccount: "FriendWallet1xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx",
-            toUserAccount: walletAddress,
-            amount: 200000000,
-          },
-        ],
-        events: {},
-      },
-    ];
+  async getEarliestHistory(
+    address: string,
+    count: number,
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
+    const depth = { maxTransactions: count };
+
+    if (!this.isInitialized || !this.apiKey) {
+      const transactions = loadDemoTransactions(address)
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(-count);
+      return { transactions, coverage: { ...summarizeCoverage(transactions, depth, 0, true), simulated: true } };
+    }
+
+    log.info(`📡 Walking back to the first transactions for: ${address}`);
+    const connection = new Connection(`https://mainnet.helius-rpc.com/?api-key=${this.apiKey}`, "confirmed");
+    const earliest = await findEarliestSignatures(connection, address, count, options.signal);
+    const transactions = earliest.signatures.length > 0
+      ? await this.fetchHistoryPage(address, count, earliest.before, undefined, options.signal)
+      : [];
+    options.onProgress?.({ pagesFetched: earliest.pagesFetched + 1, transactionsFetched: transactions.length });
+    log.info(`✅ Retrieved the ${transactions.length} oldest transactions (${earliest.pagesFetched} signature page(s))`);
+
+    return {
+      transactions,
+      coverage: summarizeCoverage(transactions, depth, earliest.pagesFetched + 1, earliest.reachedStart, false),
+    };
+  }
+
+  /**
+   * Fetch a single page of parsed transactions from the Helius REST API
+   * @param before - Only return transactions older than this signature
+   * @param until - Stop once this signature is reached (exclusive)
+   * @param signal - Aborts the in-flight request
+   */
+  private async fetchHistoryPage(
+    address: string,
+    limit: number,
+    before?: string | undefined,
+    until?: string | undefined,
+    signal?: AbortSignal | undefined
+  ): Promise<ParsedTransaction[]> {
+    const params = new URLSearchParams({
+      "api-key": this.apiKey ?? "",
+      limit: String(limit),
+    });
+    if (before) params.set("before", before);
+    if (until) params.set("until", until);
+
+    // Use Helius REST API directly
+    const url = `https://api.helius.xyz/v0/addresses/${address}/transactions?${params.toString()}`;
+    const response = await fetch(url, { signal });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json() as ParsedTransaction[];
   }
 
   /**
@@ -320,41 +310,7 @@ export class HeliusService {
     transactions: ParsedTransaction[],
     walletAddress: string
   ): Map<string, number> {
-    const addressCounts = new Map<string, number>();
-
-    for (const tx of transactions) {
-      // Check native transfers
-      for (const transfer of tx.nativeTransfers ?? []) {
-        const otherAddress =
-          transfer.fromUserAccount === walletAddress
-            ? transfer.toUserAccount
-            : transfer.fromUserAccount;
-
-        if (otherAddress && otherAddress !== walletAddress) {
-          addressCounts.set(
-            otherAddress,
-            (addressCounts.get(otherAddress) ?? 0) + 1
-          );
-        }
-      }
-
-      // Check token transfers
-      for (const transfer of tx.tokenTransfers ?? []) {
-        const otherAddress =
-          transfer.fromUserAccount === walletAddress
-            ? transfer.toUserAccount
-            : transfer.fromUserAccount;
-
-        if (otherAddress && otherAddress !== walletAddress) {
-          addressCounts.set(
-            otherAddress,
-            (addressCounts.get(otherAddress) ?? 0) + 1
-          );
-        }
-      }
-    }
-
-    return addressCounts;
+    return getInteractingAddresses(transactions, walletAddress);
   }
 
   /**
@@ -366,23 +322,66 @@ export class HeliusService {
 
   /**
    * Get SOL balance for a wallet address using QuickNode RPC
-   * Falls back to public mainnet RPC if QuickNode URL is not set
+   * Falls back to public mainnet RPC if QuickNode URL is not set. Errors propagate so the
+   * balance stage fails instead of reporting 0 SOL.
    */
   async getBalance(address: string): Promise<number> {
-    try {
-      const rpcUrl = this.quickNodeUrl || "https://api.mainnet-beta.solana.com";
-      const connection = new Connection(rpcUrl, "confirmed");
-      const publicKey = new PublicKey(address);
-      const balanceLamports = await connection.getBalance(publicKey);
-      const balanceSol = balanceLamports / LAMPORTS_PER_SOL;
-      
-      console.log(`   💰 Balance fetched via ${this.quickNodeUrl ? 'QuickNode' : 'public RPC'}: ${balanceSol.toFixed(4)} SOL`);
-      return balanceSol;
-    } catch (error) {
-      console.error("❌ Error fetching balance:", error);
-      return 0;
+    const rpcUrl = this.quickNodeUrl || "https://api.mainnet-beta.solana.com";
+    const connection = new Connection(rpcUrl, "confirmed");
+    const publicKey = new PublicKey(address);
+    const balanceLamports = await connection.getBalance(publicKey);
+    const balanceSol = balanceLamports / LAMPORTS_PER_SOL;
+
+    log.info(`   💰 Balance fetched via ${this.quickNodeUrl ? 'QuickNode' : 'public RPC'}: ${balanceSol.toFixed(4)} SOL`);
+    return balanceSol;
+  }
+}
+
+/**
+ * Get all addresses that interacted with a wallet, with interaction counts
+ * Works on history from any transaction source
+ * @param ignoredAddresses - Addresses that are not real counterparties (dust senders, lookalikes)
+ */
+export function getInteractingAddresses(
+  transactions: ParsedTransaction[],
+  walletAddress: string,
+  ignoredAddresses: ReadonlySet<string> = new Set()
+): Map<string, number> {
+  const addressCounts = new Map<string, number>();
+
+  for (const tx of transactions) {
+    // Check native transfers
+    for (const transfer of tx.nativeTransfers ?? []) {
+      const otherAddress =
+        transfer.fromUserAccount === walletAddress
+          ? transfer.toUserAccount
+          : transfer.fromUserAccount;
+
+      if (otherAddress && otherAddress !== walletAddress && !ignoredAddresses.has(otherAddress)) {
+        addressCounts.set(
+          otherAddress,
+          (addressCounts.get(otherAddress) ?? 0) + 1
+        );
+      }
+    }
+
+    // Check token transfers
+    for (const transfer of tx.tokenTransfers ?? []) {
+      const otherAddress =
+        transfer.fromUserAccount === walletAddress
+          ? transfer.toUserAccount
+          : transfer.fromUserAccount;
+
+      if (otherAddress && otherAddress !== walletAddress && !ignoredAddresses.has(otherAddress)) {
+        addressCounts.set(
+          otherAddress,
+          (addressCounts.get(otherAddress) ?? 0) + 1
+        );
+      }
     }
   }
+
+  return addressCounts;
 }
 
 // Export singleton instance
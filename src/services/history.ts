@@ -0,0 +1,157 @@
+/**
+ * History Depth & Coverage
+ * Shared helpers for how far back a transaction source walks and what it saw
+ */
+
+import type { ParsedTransaction } from "./helius";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+
+// How far back to walk a wallet's history
+export interface HistoryDepth {
+  maxTransactions?: number | undefined; // Stop after this many transactions
+  sinceTimestamp?: number | undefined;  // Unix seconds - stop at older transactions
+  fullHistory?: boolean | undefined;    // Walk back to the wallet's first transaction
+  beforeSignature?: string | undefined; // Start cursor (exclusive)
+  untilSignature?: string | undefined;  // End cursor (exclusive)
+}
+
+// How much of a wallet's history was actually seen
+export interface HistoryCoverage {
+  mode: "count" | "time_window" | "full";
+  transactionsFetched: number;
+  pagesFetched: number;
+  newestTimestamp: number | null;
+  oldestTimestamp: number | null;
+  oldestSignature: string | null;
+  reachedStart: boolean; // The wallet's first transaction is included
+  truncated: boolean;    // Older history exists that was not analyzed
+  simulated: boolean;    // Demo data, not the wallet's real history
+}
+
+// Per-call controls for a history fetch
+export interface FetchOptions {
+  signal?: AbortSignal | undefined; // Stops paging (and in-flight requests where supported)
+  onProgress?: ((progress: FetchProgress) => void) | undefined; // Called after every page
+}
+
+export interface FetchProgress {
+  pagesFetched: number;
+  transactionsFetched: number;
+}
+
+export interface HistoryResult {
+  transactions: ParsedTransaction[];
+  coverage: HistoryCoverage;
+}
+
+/**
+ * Resolve the transaction cap for a history depth
+ * Full history is still bounded by MAX_FULL_HISTORY_TRANSACTIONS as a safety net
+ */
+export function resolveMaxTransactions(depth: HistoryDepth): number {
+  if (depth.fullHistory || (depth.sinceTimestamp !== undefined && depth.maxTransactions === undefined)) {
+    return ANALYSIS_CONFIG.MAX_FULL_HISTORY_TRANSACTIONS;
+  }
+  return depth.maxTransactions ?? ANALYSIS_CONFIG.MAX_TRANSACTIONS_TO_ANALYZE;
+}
+
+/**
+ * Human-readable description of a history depth, for logs
+ */
+export function describeDepth(depth: HistoryDepth): string {
+  if (depth.fullHistory) return "full history";
+  if (depth.sinceTimestamp !== undefined) {
+    return `since ${new Date(depth.sinceTimestamp * 1000).toISOString()}`;
+  }
+  return `${resolveMaxTransactions(depth)} transactions`;
+}
+
+/**
+ * Build a coverage summary for a fetched history
+ * @param transactions - Transactions that were kept, newest first
+ * @param depth - Depth that was requested
+ * @param pagesFetched - Number of API pages requested
+ * @param reachedStart - Whether the wallet's first transaction was reached
+ * @param reachedWindow - Whether the time window boundary or `until` cursor was reached
+ */
+export function summarizeCoverage(
+  transactions: ParsedTransaction[],
+  depth: HistoryDepth,
+  pagesFetched: number,
+  reachedStart: boolean,
+  reachedWindow: boolean = false
+): HistoryCoverage {
+  let newest: ParsedTransaction | null = null;
+  let oldest: ParsedTransaction | null = null;
+  for (const tx of transactions) {
+    if (!newest || tx.timestamp > newest.timestamp) newest = tx;
+    if (!oldest || tx.timestamp < oldest.timestamp) oldest = tx;
+  }
+
+  const mode: HistoryCoverage["mode"] = depth.fullHistory
+    ? "full"
+    : depth.sinceTimestamp !== undefined
+      ? "time_window"
+      : "count";
+
+  return {
+    mode,
+    transactionsFetched: transactions.length,
+    pagesFetched,
+    newestTimestamp: newest?.timestamp ?? null,
+    oldestTimestamp: oldest?.timestamp ?? null,
+    oldestSignature: oldest?.signature ?? null,
+    reachedStart,
+    truncated: !reachedStart && !reachedWindow,
+    simulated: false,
+  };
+}
+
+/**
+ * Apply a history depth to an in-memory history (fixtures, caches)
+ * Mirrors the paging rules of the network sources: newest first, `before` and
+ * `until` are exclusive cursors, and the time window stops at older transactions
+ */
+export function applyDepth(
+  transactions: ParsedTransaction[],
+  depth: HistoryDepth
+): HistoryResult {
+  const maxTransactions = resolveMaxTransactions(depth);
+  const sorted = [...transactions].sort((a, b) => b.timestamp - a.timestamp);
+
+  let startIndex = 0;
+  if (depth.beforeSignature) {
+    const cursor = sorted.findIndex(tx => tx.signature === depth.beforeSignature);
+    startIndex = cursor === -1 ? sorted.length : cursor + 1;
+  }
+
+  const selected: ParsedTransaction[] = [];
+  let reachedStart = true;
+  let reachedWindow = false;
+
+  for (let i = startIndex; i < sorted.length; i++) {
+    const tx = sorted[i];
+    if (!tx) continue;
+
+    if (tx.signature === depth.untilSignature) {
+      reachedStart = false;
+      reachedWindow = true; // Reaching the `until` cursor is not truncation
+      break;
+    }
+    if (depth.sinceTimestamp !== undefined && tx.timestamp < depth.sinceTimestamp) {
+      reachedStart = false;
+      reachedWindow = true;
+      break;
+    }
+    if (selected.length >= maxTransactions) {
+      reachedStart = false;
+      break;
+    }
+    selected.push(tx);
+  }
+
+  return {
+    transactions: selected,
+    coverage: summarizeCoverage(selected, depth, 0, reachedStart, reachedWindow),
+  };
+}
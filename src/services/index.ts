@@ -4,4 +4,11 @@
  */
 
 export * from "./helius";
+export * from "./history";
+export * from "./rpc";
+export * from "./source";
+export * from "./fixture";
 export * from "./range";
+export * from "./range-api";
+export * from "./watchlist";
+export * from "./cache";
@@ -0,0 +1,146 @@
+/**
+ * Range Protocol API Client
+ * Real address-risk lookups against Range's REST API
+ */
+
+import type { RangeCheckResult, RangeClient, RiskStatus } from "./range";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { HttpStatusError } from "../utils/concurrency";
+import { log } from "../utils/logger";
+
+const DEFAULT_RANGE_API_URL = "https://api.range.org";
+
+// An address Range links to the one being checked
+export interface RangeMaliciousAddress {
+  address: string;
+  distance: number; // Hops from the checked address (0 = the address itself)
+  name_tag?: string | undefined;
+  entity?: string | undefined;
+  category?: string | undefined;
+}
+
+/**
+ * Fields read from Range's address risk response (GET /v1/risk/address)
+ */
+export interface RangeAddressRiskResponse {
+  riskScore: number; // 1 (lowest) to 10 (highest)
+  riskLevel: string;
+  numHops?: number | undefined;
+  reasoning?: string | undefined;
+  maliciousAddressesFound?: RangeMaliciousAddress[] | undefined;
+  attribution?: {
+    name_tag?: string | undefined;
+    entity?: string | undefined;
+    category?: string | undefined;
+  } | null | undefined;
+}
+
+export class RangeApiClient implements RangeClient {
+  readonly name = "range";
+  readonly simulated = false;
+  private baseUrl: string;
+  private apiKey: string | undefined;
+
+  constructor(
+    baseUrl: string = process.env.RANGE_API_URL ?? DEFAULT_RANGE_API_URL,
+    apiKey: string | undefined = process.env.RANGE_API_KEY
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.apiKey = apiKey;
+    if (!apiKey && this.baseUrl === DEFAULT_RANGE_API_URL) {
+      log.warn("⚠️  RANGE_API_KEY is not set - Range API lookups will be rejected");
+    }
+  }
+
+  async lookup(address: string, signal?: AbortSignal | undefined): Promise<RangeCheckResult> {
+    const params = new URLSearchParams({ address, network: "solana" });
+    const url = `${this.baseUrl}/v1/risk/address?${params.toString()}`;
+
+    // A hung request must not stall the scan - time out, but still honour the caller's signal
+    const timeout = AbortSignal.timeout(ANALYSIS_CONFIG.RANGE_REQUEST_TIMEOUT_MS);
+    const response = await fetch(url, {
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      headers: {
+        Accept: "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      throw new HttpStatusError(
+        response.status,
+        response.statusText,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    const body = await response.json() as RangeAddressRiskResponse;
+    if (typeof body?.riskScore !== "number") {
+      throw new Error("Unexpected Range API response: missing riskScore");
+    }
+    return toRangeCheckResult(address, body);
+  }
+}
+
+/**
+ * Map a Range risk response onto the RangeCheckResult contract
+ *
+ * Sanctioned - the address itself is attributed to a sanctions category
+ * Flagged    - riskScore at or above RANGE_FLAG_RISK_SCORE, or the address itself is malicious
+ * Clean      - anything else
+ */
+export function toRangeCheckResult(address: string, response: RangeAddressRiskResponse): RangeCheckResult {
+  const linked = response.maliciousAddressesFound ?? [];
+  const direct = linked.filter(entry => entry.distance === 0);
+  const categories = [response.attribution?.category, ...direct.map(entry => entry.category)]
+    .filter((category): category is string => !!category);
+
+  const sanctioned = categories.some(category => /sanction|ofac/i.test(category));
+  const sanctionLists = sanctioned
+    ? unique([response.attribution?.entity, ...direct.map(entry => entry.entity)]
+        .filter((entity): entity is string => !!entity))
+    : [];
+
+  let status: RiskStatus = "Clean";
+  if (sanctioned) {
+    status = "Sanctioned";
+  } else if (response.riskScore >= ANALYSIS_CONFIG.RANGE_FLAG_RISK_SCORE || direct.length > 0) {
+    status = "Flagged";
+  }
+
+  const flags = [
+    response.riskLevel,
+    response.reasoning,
+    ...linked.map(entry => `${entry.name_tag ?? entry.entity ?? entry.address} (${entry.category ?? "malicious"}, ${entry.distance} hop(s))`),
+  ].filter((flag): flag is string => !!flag);
+
+  return {
+    address,
+    status,
+    riskScore: Math.min(100, Math.max(0, Math.round(response.riskScore * 10))),
+    checkedAt: new Date(),
+    provider: "range",
+    simulated: false,
+    details: {
+      sanctionLists: sanctioned && sanctionLists.length === 0 ? ["Range sanctions data"] : sanctionLists,
+      flags: status === "Clean" ? [] : flags,
+      linkedToMixer: linked.some(entry => /mixer|tornado/i.test(entry.category ?? "")),
+      linkedToExploit: linked.some(entry => /exploit|hack|drainer|theft/i.test(entry.category ?? "")),
+    },
+  };
+}
+
+/**
+ * Retry-After in seconds or as an HTTP date, converted to milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
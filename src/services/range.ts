@@ -1,8 +1,21 @@
 /**
- * Range Protocol Service - Compliance Check Mock
- * Simulates compliance screening for wallet addresses
+ * Range Protocol Service - Compliance Checks
+ * Screens wallet addresses through the Range API, or a mock that simulates it
  */
 
+import * as dotenv from "dotenv";
+import { getComplianceCacheStore } from "./cache";
+import { RangeApiClient } from "./range-api";
+import { getWatchlist } from "./watchlist";
+import type { WatchlistEntry } from "./watchlist";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { TokenBucket, mapWithConcurrency, retryWithBackoff, sleep } from "../utils/concurrency";
+import { shortenAddress } from "../utils/format";
+import { log } from "../utils/logger";
+
+// Load environment variables
+dotenv.config({ quiet: true });
+
 // Risk status returned by Range Protocol
 export type RiskStatus = "Clean" | "Sanctioned" | "Flagged" | "Unknown";
 
@@ -11,66 +24,223 @@ export interface RangeCheckResult {
   status: RiskStatus;
   riskScore: number; // 0-100, where 100 is highest risk
   checkedAt: Date;
+  provider: string;   // Client that produced the result ("range", "mock", ...)
+  simulated: boolean; // Made-up result - not a real compliance check
   details: {
-    sanctionLists: string[];
+    sanctionLists: string[]; // Names of the lists that matched
     flags: string[];
     linkedToMixer: boolean;
     linkedToExploit: boolean;
+    watchlistMatches?: WatchlistEntry[] | undefined; // Local watchlist entries, when one matched
   };
 }
 
+export type RangeClientKind = "range" | "mock";
+
+/**
+ * A backend that answers address-risk lookups
+ */
+export interface RangeClient {
+  readonly name: string;
+  readonly simulated: boolean; // Results are made up rather than a real compliance check
+
+  /**
+   * Look up one address
+   * Throws on network and HTTP errors so checkRisk can retry them
+   */
+  lookup(address: string, signal?: AbortSignal | undefined): Promise<RangeCheckResult>;
+}
+
+export interface RiskCheckOptions {
+  signal?: AbortSignal | undefined; // Stops waiting for the rate limiter and retries
+}
+
+export interface ScreeningOptions {
+  signal?: AbortSignal | undefined; // Stops screening between addresses
+  onProgress?: ((checked: number, total: number) => void) | undefined;
+  budget?: number | undefined;      // Most addresses to screen (default SCREENING_BUDGET)
+  concurrency?: number | undefined; // Lookups in flight (default SCREENING_CONCURRENCY)
+}
+
+export interface InteractingAddressScreening {
+  sanctionedAddresses: string[];
+  flaggedAddresses: string[];
+  totalChecked: number;  // Lookups that returned a status
+  failedLookups: number; // Lookups that failed after every retry - their status is unknown
+  unscreened: number; // Counterparties past the screening budget (checked against watchlists only)
+}
+
+// Shared by every scan in the process, since the API's rate limit is per key
+const rangeRateLimiter = new TokenBucket(
+  ANALYSIS_CONFIG.RANGE_REQUESTS_PER_SECOND,
+  ANALYSIS_CONFIG.RANGE_BURST
+);
+
 // Mock sanctioned addresses for testing
-const MOCK_SANCTIONED_ADDRESSES: string[] = [
+export const MOCK_SANCTIONED_ADDRESSES: string[] = [
   "7eEqn3zGpQqq8fYjzqhfvwRRRVrBe3D3P4YfZ12GsAC1", // Mock Tornado-like
   "CnK9VjRNgSJcq1UR89J8RmMNPSYKe2qkM4eRLmWMKPxn", // Mock exploit address
   "Hp9SQbMoEhN9GwK1fY8xEyJBpDHZtCxXhpKA5KZjKekW", // Mock OFAC listed
 ];
 
 // Mock flagged addresses (suspicious but not confirmed sanctioned)
-const MOCK_FLAGGED_ADDRESSES: string[] = [
+export const MOCK_FLAGGED_ADDRESSES: string[] = [
   "E6tYH8TcVpzWS7YfcM9cKH8NbxRcPQjKJqvUTWKD9FqN",
   "3JQRMn5sFjE7M3YPdCkL8KZKvN2qnhXTxmRYJWPsZKaB",
 ];
 
+// Kept on globalThis so every route bundle shares one client
+const globalRange = globalThis as typeof globalThis & { __rangeClient?: RangeClient };
+
+/**
+ * Get the compliance client configured in the environment
+ *
+ * COMPLIANCE_PROVIDER=range|mock picks one explicitly. Otherwise the Range API is
+ * used when RANGE_API_KEY or RANGE_API_URL is set, and the simulated mock when not.
+ */
+export function getRangeClient(): RangeClient {
+  if (!globalRange.__rangeClient) {
+    globalRange.__rangeClient = createRangeClient();
+  }
+  return globalRange.__rangeClient;
+}
+
+/**
+ * Replace the shared compliance client
+ */
+export function setRangeClient(client: RangeClient): void {
+  globalRange.__rangeClient = client;
+}
+
+export function createRangeClient(
+  kind: RangeClientKind | undefined = parseRangeClientKind(process.env.COMPLIANCE_PROVIDER)
+): RangeClient {
+  if (kind === "range" || (kind === undefined && (process.env.RANGE_API_KEY || process.env.RANGE_API_URL))) {
+    return new RangeApiClient();
+  }
+  return new MockRangeClient();
+}
+
+function parseRangeClientKind(value: string | undefined): RangeClientKind | undefined {
+  if (value === "range" || value === "mock") return value;
+  if (value) {
+    log.warn(`⚠️  Unknown COMPLIANCE_PROVIDER "${value}", choosing one from the environment`);
+  }
+  return undefined;
+}
+
 /**
  * Check the risk status of a wallet address
- * This is a mock implementation for the hackathon
- * In production, this would call Range Protocol's API
+ * Local watchlists (WATCHLIST_PATHS) are checked first and win over the client.
+ * Results are cached for COMPLIANCE_CACHE_TTL_MS; failed lookups (Unknown) are not cached.
+ * Lookups are rate limited and retried with backoff on 429 and 5xx responses.
  * 
  * @param address - Solana wallet address to check
+ * @param options - Cancellation
  * @returns RangeCheckResult with risk assessment
  */
-export async function checkRisk(address: string): Promise<RangeCheckResult> {
+export async function checkRisk(
+  address: string,
+  options: RiskCheckOptions = {}
+): Promise<RangeCheckResult> {
+  const client = getRangeClient();
+
+  // Validate address format
+  if (!address || address.length < 32 || address.length > 44) {
+    return unknownResult(address, client, "Invalid address format", 0);
+  }
+
+  const matches = getWatchlist().match(address);
+  if (matches.length > 0) {
+    return watchlistResult(address, matches);
+  }
+
+  const cache = getComplianceCacheStore();
+  const key = `compliance:${client.name}:${address}`;
+
+  const cached = await cache?.get<RangeCheckResult>(key);
+  if (cached) {
+    // checkedAt comes back from JSON as a string
+    return { ...cached.value, checkedAt: new Date(cached.value.checkedAt) };
+  }
+
+  let result: RangeCheckResult;
   try {
-    // Validate address format
-    if (!address || address.length < 32 || address.length > 44) {
-      return {
-        address,
-        status: "Unknown",
-        riskScore: 0,
-        checkedAt: new Date(),
-        details: {
-          sanctionLists: [],
-          flags: ["Invalid address format"],
-          linkedToMixer: false,
-          linkedToExploit: false,
-        },
-      };
-    }
+    result = await retryWithBackoff(
+      async () => {
+        await rangeRateLimiter.take(options.signal);
+        return client.lookup(address, options.signal);
+      },
+      {
+        retries: ANALYSIS_CONFIG.RANGE_MAX_RETRIES,
+        baseDelayMs: ANALYSIS_CONFIG.RANGE_RETRY_BASE_DELAY_MS,
+        signal: options.signal,
+      }
+    );
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    log.error("❌ Error checking address risk:", error);
+    return unknownResult(address, client, "Error during risk check", 50); // Assume moderate risk on error
+  }
+
+  if (result.status !== "Unknown") {
+    await cache?.set(key, result, ANALYSIS_CONFIG.COMPLIANCE_CACHE_TTL_MS);
+  }
+  return result;
+}
+
+/**
+ * Build a result from local watchlist matches
+ */
+export function watchlistResult(address: string, matches: WatchlistEntry[]): RangeCheckResult {
+  const sanctioned = matches.filter(entry => entry.severity === "sanctioned");
+  const status: RiskStatus = sanctioned.length > 0 ? "Sanctioned" : "Flagged";
+  log.info(`${status === "Sanctioned" ? "🚨" : "⚠️ "} ${status.toUpperCase()} address on ${matches.map(e => e.listName).join(", ")}: ${address}`);
 
+  return {
+    address,
+    status,
+    riskScore: status === "Sanctioned" ? 100 : 65,
+    checkedAt: new Date(),
+    provider: "watchlist",
+    simulated: false,
+    details: {
+      sanctionLists: [...new Set(sanctioned.map(entry => entry.listName))],
+      flags: matches.map(entry => `${entry.listName} (${entry.dateAdded ? `added ${entry.dateAdded}` : `list of ${entry.listDate}`}): ${entry.reason}`),
+      linkedToMixer: false,
+      linkedToExploit: false,
+      watchlistMatches: matches,
+    },
+  };
+}
+
+// The mock's own list, named so a match is never mistaken for a real sanctions list
+const MOCK_LIST_NAME = "Demo sanctions list (simulated)";
+
+/**
+ * Simulated Range client for the hackathon demo
+ * A fixed list of sanctioned and flagged addresses, and a hash-derived score for the rest.
+ * Every result is marked simulated so it is never mistaken for a real compliance check.
+ */
+export class MockRangeClient implements RangeClient {
+  readonly name = "mock";
+  readonly simulated = true;
+
+  async lookup(address: string, signal?: AbortSignal | undefined): Promise<RangeCheckResult> {
     // Simulate API latency
-    await simulateDelay(100);
+    await sleep(100, signal);
+
+    const base = { address, checkedAt: new Date(), provider: this.name, simulated: true };
 
     // Check against mock sanctioned addresses
     if (MOCK_SANCTIONED_ADDRESSES.includes(address)) {
-      console.log(`🚨 SANCTIONED address detected: ${address}`);
+      log.info(`🚨 SANCTIONED address detected (simulated): ${address}`);
       return {
-        address,
+        ...base,
         status: "Sanctioned",
         riskScore: 100,
-        checkedAt: new Date(),
         details: {
-          sanctionLists: ["OFAC SDN", "EU Sanctions List"],
+          sanctionLists: [MOCK_LIST_NAME],
           flags: ["Linked to illicit activities", "On government watchlist"],
           linkedToMixer: true,
           linkedToExploit: false,
@@ -80,12 +250,11 @@ export async function checkRisk(address: string): Promise<RangeCheckResult> {
 
     // Check against mock flagged addresses
     if (MOCK_FLAGGED_ADDRESSES.includes(address)) {
-      console.log(`⚠️  FLAGGED address detected: ${address}`);
+      log.info(`⚠️  FLAGGED address detected (simulated): ${address}`);
       return {
-        address,
+        ...base,
         status: "Flagged",
         riskScore: 65,
-        checkedAt: new Date(),
         details: {
           sanctionLists: [],
           flags: ["Suspicious activity patterns", "Under investigation"],
@@ -99,13 +268,12 @@ export async function checkRisk(address: string): Promise<RangeCheckResult> {
     const deterministicSeed = hashAddress(address);
     const baseRiskScore = deterministicSeed % 30; // 0-29 for clean addresses
 
-    console.log(`✅ Address ${shortenAddress(address)} is Clean (risk: ${baseRiskScore})`);
+    log.info(`✅ Address ${shortenAddress(address)} is Clean (simulated risk: ${baseRiskScore})`);
 
     return {
-      address,
+      ...base,
       status: "Clean",
       riskScore: baseRiskScore,
-      checkedAt: new Date(),
       details: {
         sanctionLists: [],
         flags: [],
@@ -113,39 +281,25 @@ export async function checkRisk(address: string): Promise<RangeCheckResult> {
         linkedToExploit: false,
       },
     };
-  } catch (error) {
-    console.error("❌ Error checking address risk:", error);
-    return {
-      address,
-      status: "Unknown",
-      riskScore: 50, // Assume moderate risk on error
-      checkedAt: new Date(),
-      details: {
-        sanctionLists: [],
-        flags: ["Error during risk check"],
-        linkedToMixer: false,
-        linkedToExploit: false,
-      },
-    };
   }
 }
 
 /**
  * Batch check multiple addresses for risk
  * @param addresses - Array of addresses to check
- * @returns Array of RangeCheckResults
+ * @param options - Cancellation and concurrency
+ * @returns Array of RangeCheckResults, in input order
  */
 export async function batchCheckRisk(
-  addresses: string[]
+  addresses: string[],
+  options: Pick<ScreeningOptions, "signal" | "concurrency"> = {}
 ): Promise<RangeCheckResult[]> {
-  const results: RangeCheckResult[] = [];
-
-  for (const address of addresses) {
-    const result = await checkRisk(address);
-    results.push(result);
-  }
-
-  return results;
+  return mapWithConcurrency(
+    addresses,
+    options.concurrency ?? ANALYSIS_CONFIG.SCREENING_CONCURRENCY,
+    address => checkRisk(address, { signal: options.signal }),
+    options.signal
+  );
 }
 
 /**
@@ -160,40 +314,83 @@ export async function quickCheck(address: string): Promise<RiskStatus> {
 
 /**
  * Check if any interacting addresses are risky
- * @param addresses - Map of addresses to check
+ * Busiest counterparties are screened first; past the budget only local watchlists are checked.
+ * Lookups that fail are counted in failedLookups, not totalChecked.
+ * @param addresses - Map of addresses to their interaction counts
+ * @param options - Cancellation, progress callback, budget and concurrency
  * @returns Object with risky addresses found
  */
 export async function checkInteractingAddresses(
-  addresses: Map<string, number>
-): Promise<{
-  sanctionedAddresses: string[];
-  flaggedAddresses: string[];
-  totalChecked: number;
-}> {
-  const sanctionedAddresses: string[] = [];
-  const flaggedAddresses: string[] = [];
-
-  for (const [address] of addresses) {
-    const result = await checkRisk(address);
-    
-    if (result.status === "Sanctioned") {
-      sanctionedAddresses.push(address);
-    } else if (result.status === "Flagged") {
-      flaggedAddresses.push(address);
-    }
+  addresses: Map<string, number>,
+  options: ScreeningOptions = {}
+): Promise<InteractingAddressScreening> {
+  const budget = Math.max(0, options.budget ?? ANALYSIS_CONFIG.SCREENING_BUDGET);
+  const ranked = [...addresses.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([address]) => address);
+  const toScreen = ranked.slice(0, budget);
+
+  if (toScreen.length < ranked.length) {
+    log.info(`   Screening the ${toScreen.length} busiest of ${ranked.length} counterparties`);
+  }
+
+  let checked = 0;
+  const results = await mapWithConcurrency(
+    toScreen,
+    options.concurrency ?? ANALYSIS_CONFIG.SCREENING_CONCURRENCY,
+    async address => {
+      const result = await checkRisk(address, { signal: options.signal });
+      checked++;
+      options.onProgress?.(checked, toScreen.length);
+      return result;
+    },
+    options.signal
+  );
+
+  // A failed lookup is not a clean result
+  const failedLookups = results.filter(r => r.status === "Unknown").length;
+  if (failedLookups > 0) {
+    log.warn(`⚠️  ${failedLookups} of ${toScreen.length} counterparty lookups failed`);
+  }
+
+  // Watchlists are local, so addresses past the budget are still matched against them
+  const watchlist = getWatchlist();
+  for (const address of ranked.slice(budget)) {
+    const matches = watchlist.match(address);
+    if (matches.length > 0) results.push(watchlistResult(address, matches));
   }
 
   return {
-    sanctionedAddresses,
-    flaggedAddresses,
-    totalChecked: addresses.size,
+    sanctionedAddresses: results.filter(r => r.status === "Sanctioned").map(r => r.address),
+    flaggedAddresses: results.filter(r => r.status === "Flagged").map(r => r.address),
+    totalChecked: toScreen.length - failedLookups,
+    failedLookups,
+    unscreened: ranked.length - toScreen.length,
   };
 }
 
 // Helper functions
 
-function simulateDelay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function unknownResult(
+  address: string,
+  client: RangeClient,
+  flag: string,
+  riskScore: number
+): RangeCheckResult {
+  return {
+    address,
+    status: "Unknown",
+    riskScore,
+    checkedAt: new Date(),
+    provider: client.name,
+    simulated: client.simulated,
+    details: {
+      sanctionLists: [],
+      flags: [flag],
+      linkedToMixer: false,
+      linkedToExploit: false,
+    },
+  };
 }
 
 function hashAddress(address: string): number {
@@ -205,8 +402,3 @@ function hashAddress(address: string): number {
   }
   return Math.abs(hash);
 }
-
-function shortenAddress(address: string): string {
-  if (address.length <= 12) return address;
-  return `${address.slice(0, 6)}...${address.slice(-4)}`;
-}
@@ -0,0 +1,433 @@
+/**
+ * RPC Transaction Source
+ * Fetches history over plain Solana JSON-RPC (getSignaturesForAddress + getTransaction)
+ * and normalizes it into the Helius ParsedTransaction shape
+ */
+
+import * as dotenv from "dotenv";
+import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import type {
+  ConfirmedSignatureInfo,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  TokenBalance,
+} from "@solana/web3.js";
+import { describeDepth, resolveMaxTransactions, summarizeCoverage } from "./history";
+import type { FetchOptions, HistoryDepth, HistoryResult } from "./history";
+import type {
+  AccountData,
+  InnerInstruction,
+  Instruction,
+  NativeTransfer,
+  ParsedTransaction,
+  TokenTransfer,
+} from "./helius";
+import type { TransactionSource } from "./source";
+import { ANALYSIS_CONFIG } from "../utils/constants";
+import { log } from "../utils/logger";
+
+// Load environment variables
+dotenv.config({ quiet: true });
+
+const SYSTEM_PROGRAM_ID = "11111111111111111111111111111111";
+const TOKEN_PROGRAMS = new Set(["spl-token", "spl-token-2022"]);
+const SYSTEM_TRANSFER_TYPES = new Set(["transfer", "transferWithSeed", "createAccount", "createAccountWithSeed"]);
+const TOKEN_TRANSFER_TYPES = new Set(["transfer", "transferChecked"]);
+
+// The oldest signatures of a wallet, found by walking its signature list
+export interface EarliestSignatures {
+  signatures: string[];          // Oldest `count`, newest first
+  before: string | undefined;    // Signature just newer than them, if any - a `before` cursor for the oldest page
+  pagesFetched: number;
+  reachedStart: boolean;         // False when EARLIEST_HISTORY_MAX_PAGES ran out first
+}
+
+// Token account metadata resolved from pre/post token balances
+interface TokenAccountInfo {
+  mint: string;
+  owner: string | undefined;
+  decimals: number;
+}
+
+export class RpcTransactionSource implements TransactionSource {
+  readonly name = "rpc";
+  private rpcUrl: string;
+  private connection: Connection;
+
+  constructor(rpcUrl?: string) {
+    this.rpcUrl =
+      rpcUrl ??
+      process.env.SOLANA_RPC_URL ??
+      process.env.QUICKNODE_RPC_URL ??
+      "https://api.mainnet-beta.solana.com";
+    this.connection = new Connection(this.rpcUrl, "confirmed");
+    log.info(`✅ Using JSON-RPC transaction source: ${this.rpcUrl}`);
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  /**
+   * Get parsed transaction history for a wallet address
+   * Signatures are paged with `before`/`until`, then transactions are fetched
+   * in batches with jsonParsed encoding
+   */
+  async getHistory(
+    address: string,
+    depth: HistoryDepth = {},
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
+    const maxTransactions = resolveMaxTransactions(depth);
+
+    log.info(`📡 Fetching transaction history via RPC for: ${address}`);
+    log.info(`   Depth: ${describeDepth(depth)}`);
+
+    const publicKey = new PublicKey(address);
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before = depth.beforeSignature;
+    let pagesFetched = 0;
+    let reachedStart = false;
+    let reachedWindow = false;
+
+    while (signatures.length < maxTransactions) {
+      if (pagesFetched >= ANALYSIS_CONFIG.MAX_HISTORY_PAGES) {
+        log.warn(`⚠️  Stopped after ${pagesFetched} pages (MAX_HISTORY_PAGES)`);
+        break;
+      }
+      options.signal?.throwIfAborted();
+
+      const limit = Math.min(
+        ANALYSIS_CONFIG.RPC_SIGNATURE_PAGE_SIZE,
+        maxTransactions - signatures.length
+      );
+      const page = await this.connection.getSignaturesForAddress(publicKey, {
+        limit,
+        ...(before ? { before } : {}),
+        ...(depth.untilSignature ? { until: depth.untilSignature } : {}),
+      });
+      pagesFetched++;
+
+      for (const info of page) {
+        const blockTime = info.blockTime ?? 0;
+        if (depth.sinceTimestamp !== undefined && blockTime < depth.sinceTimestamp) {
+          reachedWindow = true;
+          break;
+        }
+        signatures.push(info);
+      }
+
+      const last = page[page.length - 1];
+      if (page.length < limit || !last) {
+        reachedStart = depth.untilSignature === undefined;
+        reachedWindow = depth.untilSignature !== undefined; // Stopped at the `until` cursor
+        break;
+      }
+      if (reachedWindow) break;
+
+      before = last.signature;
+    }
+
+    const transactions = await this.getTransactions(signatures.map(s => s.signature), options);
+    log.info(`✅ Retrieved ${transactions.length} transactions via RPC`);
+
+    return {
+      transactions,
+      coverage: summarizeCoverage(transactions, depth, pagesFetched, reachedStart, reachedWindow),
+    };
+  }
+
+  /**
+   * Get a wallet's oldest transactions
+   * Pages signatures back to the first one, then fetches only the oldest `count`
+   */
+  async getEarliestHistory(
+    address: string,
+    count: number,
+    options: FetchOptions = {}
+  ): Promise<HistoryResult> {
+    log.info(`📡 Walking back to the first transactions via RPC for: ${address}`);
+    const earliest = await findEarliestSignatures(this.connection, address, count, options.signal);
+    const transactions = await this.getTransactions(earliest.signatures, options);
+    log.info(`✅ Retrieved the ${transactions.length} oldest transactions (${earliest.pagesFetched} signature page(s))`);
+
+    return {
+      transactions,
+      coverage: summarizeCoverage(transactions, { maxTransactions: count }, earliest.pagesFetched, earliest.reachedStart, false),
+    };
+  }
+
+  /**
+   * Fetch and normalize transactions by signature, preserving order
+   * Progress is reported once per batch
+   */
+  async getTransactions(
+    signatures: string[],
+    options: FetchOptions = {}
+  ): Promise<ParsedTransaction[]> {
+    const transactions: ParsedTransaction[] = [];
+    let batchesFetched = 0;
+
+    for (let i = 0; i < signatures.length; i += ANALYSIS_CONFIG.RPC_TRANSACTION_BATCH_SIZE) {
+      options.signal?.throwIfAborted();
+      const batch = signatures.slice(i, i + ANALYSIS_CONFIG.RPC_TRANSACTION_BATCH_SIZE);
+      const parsed = await this.connection.getParsedTransactions(batch, {
+        maxSupportedTransactionVersion: 0,
+        commitment: "confirmed",
+      });
+
+      parsed.forEach((tx, index) => {
+        const signature = batch[index];
+        if (tx && signature) {
+          transactions.push(normalizeTransaction(signature, tx));
+        }
+      });
+      batchesFetched++;
+      options.onProgress?.({ pagesFetched: batchesFetched, transactionsFetched: transactions.length });
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Get SOL balance for a wallet address
+   */
+  async getBalance(address: string): Promise<number> {
+    const balanceLamports = await this.connection.getBalance(new PublicKey(address));
+    const balanceSol = balanceLamports / LAMPORTS_PER_SOL;
+    log.info(`   💰 Balance fetched via RPC: ${balanceSol.toFixed(4)} SOL`);
+    return balanceSol;
+  }
+}
+
+/**
+ * Walk a wallet's signatures back to its first transaction, keeping only the oldest
+ * Signature pages are cheap (1000 per call), so this is far lighter than fetching the history.
+ * @param count - How many of the oldest signatures to keep
+ * @param signal - Stops the walk
+ */
+export async function findEarliestSignatures(
+  connection: Connection,
+  address: string,
+  count: number,
+  signal?: AbortSignal | undefined
+): Promise<EarliestSignatures> {
+  const publicKey = new PublicKey(address);
+  let tail: string[] = [];
+  let before: string | undefined;
+  let pagesFetched = 0;
+
+  while (pagesFetched < ANALYSIS_CONFIG.EARLIEST_HISTORY_MAX_PAGES) {
+    signal?.throwIfAborted();
+    const page = await connection.getSignaturesForAddress(publicKey, {
+      limit: ANALYSIS_CONFIG.RPC_SIGNATURE_PAGE_SIZE,
+      ...(before ? { before } : {}),
+    });
+    pagesFetched++;
+
+    // One more than needed, so the cursor just newer than the oldest `count` is known
+    tail = [...tail, ...page.map(info => info.signature)].slice(-(count + 1));
+
+    const last = page[page.length - 1];
+    if (page.length < ANALYSIS_CONFIG.RPC_SIGNATURE_PAGE_SIZE || !last) {
+      return {
+        signatures: tail.slice(-count),
+        before: tail.length > count ? tail[0] : undefined,
+        pagesFetched,
+        reachedStart: true,
+      };
+    }
+    before = last.signature;
+  }
+
+  log.warn(`⚠️  Stopped after ${pagesFetched} signature pages (EARLIEST_HISTORY_MAX_PAGES) without reaching the first transaction`);
+  return { signatures: tail.slice(-count), before: tail.length > count ? tail[0] : undefined, pagesFetched, reachedStart: false };
+}
+
+/**
+ * Normalize a jsonParsed RPC transaction into the Helius ParsedTransaction shape
+ * @param signature - Transaction signature
+ * @param tx - Transaction returned by getTransaction with jsonParsed encoding
+ */
+export function normalizeTransaction(
+  signature: string,
+  tx: ParsedTransactionWithMeta
+): ParsedTransaction {
+  const accountKeys = tx.transaction.message.accountKeys.map(k => k.pubkey.toBase58());
+  const meta = tx.meta;
+  const tokenAccounts = buildTokenAccountMap(
+    accountKeys,
+    [...(meta?.preTokenBalances ?? []), ...(meta?.postTokenBalances ?? [])]
+  );
+
+  // Outer instructions followed by their inner (CPI) instructions, in execution order
+  const instructions: (ParsedInstruction | PartiallyDecodedInstruction)[] = [];
+  const instructionSummaries: Instruction[] = [];
+  tx.transaction.message.instructions.forEach((ix, index) => {
+    instructions.push(ix);
+    const inner = (meta?.innerInstructions ?? [])
+      .filter(set => set.index === index)
+      .flatMap(set => set.instructions);
+    instructions.push(...inner);
+    instructionSummaries.push({ ...summarizeInstruction(ix), innerInstructions: inner.map(summarizeInstruction) });
+  });
+
+  const nativeTransfers: NativeTransfer[] = [];
+  const tokenTransfers: TokenTransfer[] = [];
+
+  // Failed transactions only charge the fee - nothing else moves
+  if (!meta?.err) {
+    for (const ix of instructions) {
+      if (!("parsed" in ix) || typeof ix.parsed !== "object" || ix.parsed === null) continue;
+      const { type, info } = ix.parsed as { type: string; info: Record<string, unknown> };
+
+      if (ix.program === "system" && SYSTEM_TRANSFER_TYPES.has(type)) {
+        const transfer = parseSystemTransfer(type, info);
+        if (transfer) nativeTransfers.push(transfer);
+      } else if (TOKEN_PROGRAMS.has(ix.program) && TOKEN_TRANSFER_TYPES.has(type)) {
+        const transfer = parseTokenTransfer(info, tokenAccounts);
+        if (transfer) tokenTransfers.push(transfer);
+      }
+    }
+  }
+
+  const accountData: AccountData[] = accountKeys.map((account, index) => ({
+    account,
+    nativeBalanceChange: (meta?.postBalances[index] ?? 0) - (meta?.preBalances[index] ?? 0),
+    tokenBalanceChanges: buildTokenBalanceChanges(index, accountKeys, meta?.preTokenBalances, meta?.postTokenBalances),
+  }));
+
+  return {
+    signature,
+    timestamp: tx.blockTime ?? 0,
+    type: nativeTransfers.length > 0 || tokenTransfers.length > 0 ? "TRANSFER" : "UNKNOWN",
+    source: describeSource(instructions),
+    description: describeTransfers(nativeTransfers, tokenTransfers),
+    fee: meta?.fee ?? 0,
+    feePayer: accountKeys[0] ?? "",
+    accountData,
+    tokenTransfers,
+    nativeTransfers,
+    events: {},
+    instructions: instructionSummaries,
+  };
+}
+
+/**
+ * Program, accounts and raw data of an instruction, in the Helius shape
+ */
+function summarizeInstruction(ix: ParsedInstruction | PartiallyDecodedInstruction): InnerInstruction {
+  return "data" in ix
+    ? { programId: ix.programId.toBase58(), accounts: ix.accounts.map(a => a.toBase58()), data: ix.data }
+    : { programId: ix.programId.toBase58(), accounts: [], data: "" };
+}
+
+function parseSystemTransfer(
+  type: string,
+  info: Record<string, unknown>
+): NativeTransfer | null {
+  const from = info.source;
+  const to = type.startsWith("createAccount") ? info.newAccount : info.destination;
+  const lamports = Number(info.lamports ?? 0);
+
+  if (typeof from !== "string" || typeof to !== "string" || lamports <= 0) return null;
+  return { fromUserAccount: from, toUserAccount: to, amount: lamports };
+}
+
+function parseTokenTransfer(
+  info: Record<string, unknown>,
+  tokenAccounts: Map<string, TokenAccountInfo>
+): TokenTransfer | null {
+  const sourceAccount = typeof info.source === "string" ? info.source : null;
+  const destinationAccount = typeof info.destination === "string" ? info.destination : null;
+  if (!sourceAccount || !destinationAccount) return null;
+
+  const sourceInfo = tokenAccounts.get(sourceAccount);
+  const destinationInfo = tokenAccounts.get(destinationAccount);
+  const checkedAmount = info.tokenAmount as { uiAmount?: number | null; decimals?: number } | undefined;
+
+  const mint = (typeof info.mint === "string" ? info.mint : undefined) ?? sourceInfo?.mint ?? destinationInfo?.mint;
+  if (!mint) return null;
+
+  const decimals = checkedAmount?.decimals ?? sourceInfo?.decimals ?? destinationInfo?.decimals ?? 0;
+  const tokenAmount = checkedAmount?.uiAmount ?? Number(info.amount ?? 0) / 10 ** decimals;
+
+  // Token accounts are resolved to their owners so transfers line up with wallet addresses
+  const authority = typeof info.authority === "string" ? info.authority : undefined;
+  const fromUserAccount = sourceInfo?.owner ?? authority ?? sourceAccount;
+  const toUserAccount = destinationInfo?.owner ?? destinationAccount;
+
+  return {
+    mint,
+    tokenAmount,
+    fromUserAccount,
+    toUserAccount,
+    tokenStandard: decimals === 0 && tokenAmount === 1 ? "NonFungible" : "Fungible",
+  };
+}
+
+function buildTokenAccountMap(
+  accountKeys: string[],
+  balances: TokenBalance[]
+): Map<string, TokenAccountInfo> {
+  const map = new Map<string, TokenAccountInfo>();
+  for (const balance of balances) {
+    const account = accountKeys[balance.accountIndex];
+    if (!account) continue;
+    map.set(account, {
+      mint: balance.mint,
+      owner: balance.owner,
+      decimals: balance.uiTokenAmount.decimals,
+    });
+  }
+  return map;
+}
+
+function buildTokenBalanceChanges(
+  accountIndex: number,
+  accountKeys: string[],
+  pre: TokenBalance[] | null | undefined,
+  post: TokenBalance[] | null | undefined
+): AccountData["tokenBalanceChanges"] {
+  const before = pre?.find(b => b.accountIndex === accountIndex);
+  const after = post?.find(b => b.accountIndex === accountIndex);
+  const reference = after ?? before;
+  if (!reference) return [];
+
+  const delta = BigInt(after?.uiTokenAmount.amount ?? "0") - BigInt(before?.uiTokenAmount.amount ?? "0");
+  if (delta === BigInt(0)) return [];
+
+  return [
+    {
+      mint: reference.mint,
+      rawTokenAmount: {
+        tokenAmount: delta.toString(),
+        decimals: reference.uiTokenAmount.decimals,
+      },
+      tokenAccount: accountKeys[accountIndex] ?? "",
+      userAccount: reference.owner ?? "",
+    },
+  ];
+}
+
+function describeSource(instructions: (ParsedInstruction | PartiallyDecodedInstruction)[]): string {
+  const programs = new Set(instructions.map(ix => ix.programId.toBase58()));
+  if (programs.size === 1 && programs.has(SYSTEM_PROGRAM_ID)) return "SYSTEM_PROGRAM";
+  if (instructions.some(ix => "program" in ix && TOKEN_PROGRAMS.has(ix.program))) {
+    return "SOLANA_PROGRAM_LIBRARY";
+  }
+  return "UNKNOWN";
+}
+
+function describeTransfers(native: NativeTransfer[], tokens: TokenTransfer[]): string {
+  const first = native[0];
+  if (first) {
+    return `${first.fromUserAccount} transferred ${first.amount / LAMPORTS_PER_SOL} SOL to ${first.toUserAccount}.`;
+  }
+  const token = tokens[0];
+  if (token) {
+    return `${token.fromUserAccount} transferred ${token.tokenAmount} ${token.mint} to ${token.toUserAccount}.`;
+  }
+  return "";
+}
@@ -0,0 +1,95 @@
+/**
+ * Transaction Sources
+ * Common contract for anything that can supply a wallet's parsed history
+ */
+
+import * as dotenv from "dotenv";
+import { HeliusService } from "./helius";
+import type { FetchOptions, HistoryDepth, HistoryResult } from "./history";
+import { RpcTransactionSource } from "./rpc";
+import { FixtureTransactionSource, RecordingTransactionSource } from "./fixture";
+import { CachedTransactionSource, getCacheStore } from "./cache";
+import { log } from "../utils/logger";
+
+// Load environment variables
+dotenv.config({ quiet: true });
+
+export type TransactionSourceKind = "helius" | "rpc" | "fixture";
+
+/**
+ * A backend that returns history normalized to the Helius ParsedTransaction shape
+ */
+export interface TransactionSource {
+  readonly name: string;
+
+  /**
+   * Whether the source can return real data (false means mock/demo data)
+   */
+  isReady(): boolean;
+
+  /**
+   * Get parsed transaction history, newest first
+   * Rejects with the signal's reason if `options.signal` is aborted
+   */
+  getHistory(address: string, depth?: HistoryDepth, options?: FetchOptions): Promise<HistoryResult>;
+
+  /**
+   * Get a wallet's `count` oldest transactions, newest first like getHistory
+   * Walks signatures back to the wallet's first one without fetching the transactions in between.
+   * coverage.reachedStart is false when the walk stopped early.
+   */
+  getEarliestHistory(address: string, count: number, options?: FetchOptions): Promise<HistoryResult>;
+
+  /**
+   * Get SOL balance for a wallet address
+   * Rejects when it cannot be fetched - never reports 0 for an unknown balance
+   */
+  getBalance(address: string): Promise<number>;
+}
+
+/**
+ * Create the transaction source configured in the environment
+ *
+ * TRANSACTION_SOURCE=helius|rpc|fixture picks a backend explicitly. Otherwise
+ * Helius is used when HELIUS_API_KEY is set, plain JSON-RPC when SOLANA_RPC_URL
+ * is set, and Helius (mock data) as a last resort.
+ *
+ * FIXTURE_PATH points the fixture source at a recording. RECORD_FIXTURES_DIR
+ * saves every live history to that directory for later replay.
+ *
+ * Live sources are cached (see CACHE_STORE) unless caching is disabled.
+ */
+export function createTransactionSource(
+  kind: TransactionSourceKind | undefined = parseSourceKind(process.env.TRANSACTION_SOURCE)
+): TransactionSource {
+  if (kind === "fixture") {
+    return new FixtureTransactionSource(process.env.FIXTURE_PATH ?? "fixtures");
+  }
+
+  const live = selectLiveSource(kind);
+  const cache = getCacheStore();
+  const source = cache ? new CachedTransactionSource(live, cache) : live;
+
+  const recordDir = process.env.RECORD_FIXTURES_DIR;
+  return recordDir ? new RecordingTransactionSource(source, recordDir) : source;
+}
+
+function selectLiveSource(kind: TransactionSourceKind | undefined): TransactionSource {
+  if (kind === "rpc") {
+    return new RpcTransactionSource();
+  }
+
+  if (kind === "helius" || process.env.HELIUS_API_KEY || !process.env.SOLANA_RPC_URL) {
+    return new HeliusService();
+  }
+
+  return new RpcTransactionSource();
+}
+
+function parseSourceKind(value: string | undefined): TransactionSourceKind | undefined {
+  if (value === "helius" || value === "rpc" || value === "fixture") return value;
+  if (value) {
+    log.warn(`⚠️  Unknown TRANSACTION_SOURCE "${value}", falling back to auto-detection`);
+  }
+  return undefined;
+}
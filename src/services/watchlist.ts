@@ -0,0 +1,395 @@
+/**
+ * Watchlists
+ * Sanctions lists and denylists loaded from files: OFAC SDN (XML/CSV),
+ * the EU consolidated financial sanctions list (XML) and custom CSV/JSON lists
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import { parseCsv } from "../utils/csv";
+import { log } from "../utils/logger";
+
+// Load environment variables
+dotenv.config({ quiet: true });
+
+export type WatchlistSeverity = "sanctioned" | "flagged";
+
+export type WatchlistFormat = "ofac-xml" | "ofac-csv" | "eu-xml" | "csv" | "json";
+
+export interface WatchlistEntry {
+  address: string;
+  chain: string | null;         // e.g. "SOL" from OFAC's "Digital Currency Address - SOL"; null when unknown
+  listName: string;             // e.g. "OFAC SDN", "EU Consolidated", or a custom list's name
+  source: string;               // File the entry was loaded from
+  dateAdded?: string | undefined; // ISO date (YYYY-MM-DD) the address was listed, when the source records one
+  listDate: string;             // ISO date of the list edition it was loaded from (publish date, or the file's date)
+  reason: string;
+  severity: WatchlistSeverity;
+}
+
+// Custom list rows - only the address is required
+interface CustomEntry {
+  address?: string | undefined;
+  chain?: string | undefined;
+  listName?: string | undefined;
+  dateAdded?: string | undefined;
+  reason?: string | undefined;
+  severity?: string | undefined;
+}
+
+/**
+ * Entries indexed by address
+ */
+export class Watchlist {
+  private entries = new Map<string, WatchlistEntry[]>();
+
+  add(entries: WatchlistEntry[]): void {
+    for (const entry of entries) {
+      const existing = this.entries.get(entry.address) ?? [];
+      // The same list can be loaded from more than one file - keep one entry per list
+      if (!existing.some(e => e.listName === entry.listName)) {
+        existing.push(entry);
+        this.entries.set(entry.address, existing);
+      }
+    }
+  }
+
+  /**
+   * Every entry listing an address, sanctioned before flagged
+   */
+  match(address: string): WatchlistEntry[] {
+    const matches = this.entries.get(address) ?? [];
+    return [...matches].sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Names of the lists loaded, with their address counts
+   */
+  lists(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const entries of this.entries.values()) {
+      for (const entry of entries) {
+        counts.set(entry.listName, (counts.get(entry.listName) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+}
+
+// Kept on globalThis so every route bundle shares one loaded watchlist
+const globalWatchlist = globalThis as typeof globalThis & { __watchlist?: Watchlist };
+
+/**
+ * Get the watchlist loaded from WATCHLIST_PATHS
+ * (comma-separated files or directories; empty when unset)
+ */
+export function getWatchlist(): Watchlist {
+  if (!globalWatchlist.__watchlist) {
+    const paths = (process.env.WATCHLIST_PATHS ?? "")
+      .split(",")
+      .map(p => p.trim())
+      .filter(p => p.length > 0);
+    globalWatchlist.__watchlist = loadWatchlists(paths);
+  }
+  return globalWatchlist.__watchlist;
+}
+
+/**
+ * Replace the shared watchlist
+ */
+export function setWatchlist(watchlist: Watchlist): void {
+  globalWatchlist.__watchlist = watchlist;
+}
+
+/**
+ * Load watchlist files, or every .xml/.csv/.json file in a directory
+ * Files that fail to parse are reported and skipped.
+ *
+ * @param paths - Files or directories
+ * @returns A watchlist with every entry loaded
+ */
+export function loadWatchlists(paths: string[]): Watchlist {
+  const watchlist = new Watchlist();
+
+  for (const file of paths.flatMap(expandPath)) {
+    try {
+      const entries = parseWatchlistFile(file);
+      watchlist.add(entries);
+      const lists = [...new Set(entries.map(e => e.listName))].join(", ");
+      log.info(`📋 Loaded ${entries.length} watchlist entries from ${file}${lists ? ` (${lists})` : ""}`);
+    } catch (error) {
+      log.error(`❌ Failed to load watchlist ${file}:`, error);
+    }
+  }
+
+  return watchlist;
+}
+
+/**
+ * Parse one watchlist file, detecting its format from the extension and contents
+ */
+export function parseWatchlistFile(file: string): WatchlistEntry[] {
+  const text = fs.readFileSync(file, "utf8");
+  const source = path.resolve(file);
+  const fileDate = toIsoDate(fs.statSync(file).mtime);
+  const defaultListName = path.basename(file, path.extname(file));
+
+  switch (detectFormat(file, text)) {
+    case "ofac-xml":
+      return parseOfacSdnXml(text, source, fileDate);
+    case "ofac-csv":
+      return parseOfacSdnCsv(text, source, fileDate);
+    case "eu-xml":
+      return parseEuSanctionsXml(text, source, fileDate);
+    case "csv":
+      return parseCustomCsv(text, source, defaultListName, fileDate);
+    case "json":
+      return parseCustomJson(text, source, defaultListName, fileDate);
+  }
+}
+
+export function detectFormat(file: string, text: string): WatchlistFormat {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === ".json") return "json";
+  if (extension === ".xml") {
+    if (/<sdnList[\s>]/.test(text)) return "ofac-xml";
+    if (/<sanctionEntity[\s>]/.test(text)) return "eu-xml";
+    throw new Error("Unrecognized XML watchlist (expected OFAC sdn.xml or the EU consolidated list)");
+  }
+  if (extension === ".csv") {
+    // Custom lists have a header with an address column; OFAC's sdn.csv has no header
+    const header = text.split(/\r?\n/, 1)[0] ?? "";
+    return parseCsv(header)[0]?.some(cell => cell.trim().toLowerCase() === "address") ? "csv" : "ofac-csv";
+  }
+  throw new Error(`Unsupported watchlist file type "${extension}"`);
+}
+
+/**
+ * OFAC SDN list (sdn.xml) - digital currency addresses from each entry's id list
+ * Entries carry no designation date; listDate is the list's publish date.
+ */
+export function parseOfacSdnXml(xml: string, source: string, fileDate: string = toIsoDate(new Date())): WatchlistEntry[] {
+  const published = xmlText(xml, "Publish_Date");
+  const listDate = published ? parseUsDate(published) : fileDate;
+  const entries: WatchlistEntry[] = [];
+
+  for (const [, sdn] of xml.matchAll(/<sdnEntry>([\s\S]*?)<\/sdnEntry>/g)) {
+    const body = sdn ?? "";
+    const name = [xmlText(body, "firstName"), xmlText(body, "lastName")].filter(Boolean).join(" ");
+    const programs = [...body.matchAll(/<program>([^<]*)<\/program>/g)].map(m => decodeXml(m[1] ?? ""));
+
+    for (const [, id] of body.matchAll(/<id>([\s\S]*?)<\/id>/g)) {
+      const idType = xmlText(id ?? "", "idType") ?? "";
+      const address = xmlText(id ?? "", "idNumber");
+      const chain = digitalCurrencyChain(idType);
+      if (chain === null || !address) continue;
+      entries.push({
+        address,
+        chain,
+        listName: "OFAC SDN",
+        source,
+        listDate,
+        reason: describeDesignation(name, programs),
+        severity: "sanctioned",
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * OFAC SDN list (sdn.csv) - addresses appear in the remarks column as
+ * "Digital Currency Address - XBT 1Abc...;" - with no designation or publish date, so listDate is the file's
+ */
+export function parseOfacSdnCsv(csv: string, source: string, listDate: string): WatchlistEntry[] {
+  const entries: WatchlistEntry[] = [];
+
+  for (const row of parseCsv(csv)) {
+    const name = cleanOfacCell(row[1]);
+    const program = cleanOfacCell(row[3]);
+    const remarks = row[11] ?? "";
+    for (const [, chain, address] of remarks.matchAll(/Digital Currency Address - ([A-Za-z0-9]+)\s+([A-Za-z0-9]+)/g)) {
+      entries.push({
+        address: address ?? "",
+        chain: chain ?? null,
+        listName: "OFAC SDN",
+        source,
+        listDate,
+        reason: describeDesignation(name, program ? [program] : []),
+        severity: "sanctioned",
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * EU consolidated financial sanctions list (XML export)
+ * Addresses come from identifications whose type describes a digital currency address.
+ */
+export function parseEuSanctionsXml(xml: string, source: string, fileDate: string = toIsoDate(new Date())): WatchlistEntry[] {
+  const generated = parseAttributes(/<export\b([^>]*)>/.exec(xml)?.[1] ?? "").generationDate;
+  const listDate = generated ? generated.slice(0, 10) : fileDate;
+  const entries: WatchlistEntry[] = [];
+
+  for (const [, attributes, body] of xml.matchAll(/<sanctionEntity\b([^>]*)>([\s\S]*?)<\/sanctionEntity>/g)) {
+    const entity = parseAttributes(attributes ?? "");
+    const content = body ?? "";
+    const alias = parseAttributes(/<nameAlias\b([^>]*)\/?>/.exec(content)?.[1] ?? "");
+    const regulation = parseAttributes(/<regulation\b([^>]*)\/?>/.exec(content)?.[1] ?? "");
+    const dateAdded = entity.designationDate || regulation.publicationDate || undefined;
+
+    for (const [, idAttributes] of content.matchAll(/<identification\b([^>]*)\/?>/g)) {
+      const identification = parseAttributes(idAttributes ?? "");
+      const type = `${identification.identificationTypeDescription ?? ""} ${identification.identificationTypeCode ?? ""}`;
+      if (!/digital currency|crypto|virtual currency|wallet/i.test(type) || !identification.number) continue;
+      entries.push({
+        address: identification.number,
+        chain: null,
+        listName: "EU Consolidated",
+        source,
+        dateAdded: dateAdded?.slice(0, 10),
+        listDate,
+        reason: describeDesignation(alias.wholeName ?? "", regulation.programme ? [regulation.programme] : []),
+        severity: "sanctioned",
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Custom CSV list with a header row: address (required), listName, reason, dateAdded, severity, chain
+ */
+export function parseCustomCsv(
+  csv: string,
+  source: string,
+  defaultListName: string,
+  listDate: string
+): WatchlistEntry[] {
+  const [header, ...rows] = parseCsv(csv);
+  const columns = (header ?? []).map(cell => cell.trim());
+
+  return rows.map(row => {
+    const entry: CustomEntry = {};
+    columns.forEach((column, i) => {
+      (entry as Record<string, string | undefined>)[column] = row[i]?.trim() || undefined;
+    });
+    return toCustomEntry(entry, source, defaultListName, listDate);
+  }).filter((entry): entry is WatchlistEntry => entry !== null);
+}
+
+/**
+ * Custom JSON list: an array of entries, or { listName, entries }
+ */
+export function parseCustomJson(
+  json: string,
+  source: string,
+  defaultListName: string,
+  listDate: string
+): WatchlistEntry[] {
+  const parsed = JSON.parse(json) as CustomEntry[] | { listName?: string; entries?: CustomEntry[] };
+  const rows = Array.isArray(parsed) ? parsed : parsed.entries ?? [];
+  const listName = Array.isArray(parsed) ? defaultListName : parsed.listName ?? defaultListName;
+
+  return rows
+    .map(row => toCustomEntry(row, source, listName, listDate))
+    .filter((entry): entry is WatchlistEntry => entry !== null);
+}
+
+// Helper functions
+
+function toCustomEntry(
+  row: CustomEntry,
+  source: string,
+  listName: string,
+  listDate: string
+): WatchlistEntry | null {
+  const address = row.address?.trim();
+  if (!address) return null;
+  return {
+    address,
+    chain: row.chain ?? null,
+    listName: row.listName ?? listName,
+    source,
+    dateAdded: row.dateAdded,
+    listDate,
+    reason: row.reason ?? "Listed on a custom denylist",
+    // Custom denylists flag by default - only an explicit severity claims a sanction
+    severity: row.severity?.toLowerCase() === "sanctioned" ? "sanctioned" : "flagged",
+  };
+}
+
+function expandPath(target: string): string[] {
+  try {
+    if (!fs.statSync(target).isDirectory()) return [target];
+  } catch {
+    log.error(`❌ Watchlist path not found: ${target}`);
+    return [];
+  }
+  return fs.readdirSync(target)
+    .filter(file => /\.(xml|csv|json)$/i.test(file))
+    .sort()
+    .map(file => path.join(target, file));
+}
+
+function severityRank(severity: WatchlistSeverity): number {
+  return severity === "sanctioned" ? 2 : 1;
+}
+
+function digitalCurrencyChain(idType: string): string | null {
+  const match = /^Digital Currency Address - (\w+)/i.exec(idType.trim());
+  return match ? match[1] ?? null : null;
+}
+
+function describeDesignation(name: string, programs: string[]): string {
+  const program = programs.length > 0 ? ` under ${programs.join(", ")}` : "";
+  return `Designated${name ? ` (${name})` : ""}${program}`;
+}
+
+function cleanOfacCell(value: string | undefined): string {
+  // sdn.csv uses "-0-" for empty fields
+  const cell = (value ?? "").trim();
+  return cell === "-0-" ? "" : cell;
+}
+
+function xmlText(xml: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<]*)</${tag}>`).exec(xml);
+  return match ? decodeXml(match[1] ?? "").trim() : null;
+}
+
+function parseAttributes(attributes: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [, name, value] of attributes.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    if (name) result[name] = decodeXml(value ?? "");
+  }
+  return result;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function parseUsDate(value: string): string {
+  // OFAC publishes MM/DD/YYYY
+  const [, month, day, year] = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value.trim()) ?? [];
+  if (!month || !day || !year) return toIsoDate(new Date(value));
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+function toIsoDate(date: Date): string {
+  return Number.isNaN(date.getTime()) ? new Date().toISOString().slice(0, 10) : date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,34 @@
+/**
+ * Base58 Helpers
+ * Decodes instruction data, which Helius and the RPC return base58-encoded
+ */
+
+const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const INDEX = new Map([...ALPHABET].map((char, i) => [char, i]));
+
+/**
+ * Decode a base58 string (Bitcoin alphabet)
+ * @returns The bytes, or null if the string is not valid base58
+ */
+export function decodeBase58(text: string): Uint8Array | null {
+  const bytes: number[] = [];
+  for (const char of text) {
+    let carry = INDEX.get(char);
+    if (carry === undefined) return null;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += (bytes[i] ?? 0) * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Each leading "1" is a leading zero byte
+  for (const char of text) {
+    if (char !== "1") break;
+    bytes.push(0);
+  }
+  return Uint8Array.from(bytes.reverse());
+}
@@ -0,0 +1,184 @@
+/**
+ * Concurrency Helpers
+ * Bounded parallelism, rate limiting and retries for calls to external APIs
+ */
+
+import { log } from "./logger";
+
+/**
+ * A non-2xx HTTP response, kept so callers can tell transient failures from permanent ones
+ */
+export class HttpStatusError extends Error {
+  readonly status: number;
+  readonly retryAfterMs: number | undefined; // From a Retry-After header, if the server sent one
+
+  constructor(status: number, statusText: string = "", retryAfterMs?: number | undefined) {
+    super(`HTTP ${status}${statusText ? `: ${statusText}` : ""}`);
+    this.name = "HttpStatusError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Whether an error is worth retrying: rate limited (429) or a server error (5xx)
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof HttpStatusError && (error.status === 429 || error.status >= 500);
+}
+
+export interface RetryOptions {
+  retries?: number | undefined;     // Attempts after the first (default 3)
+  baseDelayMs?: number | undefined; // First backoff, doubled on every retry (default 500)
+  maxDelayMs?: number | undefined;  // Cap on a single wait, Retry-After included (default 10s)
+  shouldRetry?: ((error: unknown) => boolean) | undefined; // Defaults to isRetryableError
+  signal?: AbortSignal | undefined; // Stops waiting between attempts
+}
+
+/**
+ * Run a call, retrying transient failures with exponential backoff and jitter
+ * A Retry-After from the server takes precedence over the computed backoff, up to maxDelayMs.
+ *
+ * @param fn - The call to make; receives the attempt number starting at 0
+ * @param options - Retry limits and cancellation
+ * @returns The first successful result
+ */
+export async function retryWithBackoff<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const retries = options.retries ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 10_000;
+  const shouldRetry = options.shouldRetry ?? isRetryableError;
+
+  for (let attempt = 0; ; attempt++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || options.signal?.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const retryAfter = error instanceof HttpStatusError ? error.retryAfterMs : undefined;
+      // Full jitter so parallel workers that failed together do not retry together
+      const delay = retryAfter !== undefined
+        ? Math.min(maxDelayMs, retryAfter)
+        : Math.round(backoff / 2 + Math.random() * (backoff / 2));
+      log.warn(`⚠️  ${error instanceof Error ? error.message : "Request failed"} - retrying in ${delay}ms`);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * Token bucket rate limiter
+ * Holds up to `capacity` tokens, refilled at `ratePerSecond`. Waiters are served in order.
+ */
+export class TokenBucket {
+  readonly ratePerSecond: number;
+  readonly capacity: number;
+  private tokens: number;
+  private updatedAt: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(ratePerSecond: number, capacity: number = ratePerSecond) {
+    this.ratePerSecond = ratePerSecond;
+    this.capacity = Math.max(1, capacity);
+    this.tokens = this.capacity;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Wait for a token
+   * A rate of 0 or less disables limiting.
+   *
+   * @param signal - Stops waiting; the token is not taken
+   */
+  take(signal?: AbortSignal | undefined): Promise<void> {
+    if (this.ratePerSecond <= 0) return Promise.resolve();
+
+    const turn = this.queue.then(() => this.waitForToken(signal));
+    // A cancelled waiter must not block the ones behind it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForToken(signal: AbortSignal | undefined): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000), signal);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Map over items with at most `concurrency` calls in flight
+ * Results keep the input order. The first error stops new calls and is rethrown.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum calls in flight
+ * @param fn - Called once per item
+ * @param signal - Stops starting new calls
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal | undefined
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const queue = items.entries(); // Shared by the workers, so each item is taken once
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    for (const [index, item] of queue) {
+      if (failed) return;
+      signal?.throwIfAborted();
+      try {
+        results[index] = await fn(item, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Wait for a delay, rejecting with the signal's reason if it is aborted first
+ */
+export function sleep(ms: number, signal?: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -1,44 +1,18 @@
 /**
  * Constants for the Privacy Engine
- * Contains known CEX addresses, risk levels, and recommendations
+ * Contains risk levels, analysis settings and recommendations
  */
 
-// Known CEX (Centralized Exchange) hot wallet addresses
-// These are real addresses associated with major exchanges
-export const KNOWN_CEX: { address: string; name: string }[] = [
-  // Binance Hot Wallets
-  { address: "5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9", name: "Binance" },
-  { address: "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM", name: "Binance" },
-  { address: "2ojv9BAiHUrvsm9gxDe7fJSzbNZSJcxZvf8dqmWGHG8S", name: "Binance" },
-  
-  // Coinbase Hot Wallets
-  { address: "H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS", name: "Coinbase" },
-  { address: "GJRs4FwHtemZ5ZE9x3FNvJ8TMwitKTh21yxdRPqn7npE", name: "Coinbase" },
-  { address: "2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm", name: "Coinbase" },
-  
-  // Kraken Hot Wallets
-  { address: "FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5", name: "Kraken" },
-  { address: "7hUdUTkJLwdcmt3jSEeqx4ep91sm1XwBxMDaJae6bD5D", name: "Kraken" },
-  
-  // FTX (now defunct, but still good to track for history)
-  { address: "CuieVDEDtLo7FypA9SbLM9saXFdb1dsshEkyErMqkRQq", name: "FTX (defunct)" },
-  
-  // OKX Hot Wallets
-  { address: "5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD", name: "OKX" },
-  
-  // KuCoin Hot Wallets
-  { address: "BmFdpraQhkiDQE6SnfG5omcA1VwzqfXrwtNYBwWTymy6", name: "KuCoin" },
-];
-
 // Risk level classifications
 export enum RiskLevel {
   LOW = "LOW",
   MEDIUM = "MEDIUM",
   HIGH = "HIGH",
   CRITICAL = "CRITICAL",
+  UNKNOWN = "UNKNOWN", // No score could be computed (e.g. history fetch failed)
 }
 
-// Privacy score thresholds
+// Privacy score thresholds (retail-privacy defaults - scoring uses the active ScoringProfile)
 export const SCORE_THRESHOLDS = {
   CRITICAL: 25,  // 0-25: Critical privacy risk
   HIGH: 50,      // 26-50: High privacy risk
@@ -46,7 +20,7 @@ export const SCORE_THRESHOLDS = {
   LOW: 100,      // 76-100: Low privacy risk (good)
 };
 
-// Point deductions for various privacy issues
+// Point deductions for various privacy issues (retail-privacy defaults - scoring uses the active ScoringProfile)
 export const POINT_DEDUCTIONS = {
   CEX_DEPOSIT: 15,           // Direct deposit from CEX
   CEX_WITHDRAWAL: 10,        // Withdrawal to CEX
@@ -129,7 +103,82 @@ export const ACTION_RECOMMENDATIONS = {
 
 // Analysis configuration
 export const ANALYSIS_CONFIG = {
-  MAX_TRANSACTIONS_TO_ANALYZE: 100,
+  MAX_TRANSACTIONS_TO_ANALYZE: 500,       // Default depth when no depth is requested
+  MAX_FULL_HISTORY_TRANSACTIONS: 20000,   // Safety cap for full-history and time-window scans
+  HISTORY_PAGE_SIZE: 100,                 // Helius returns at most 100 transactions per page
+  MAX_HISTORY_PAGES: 250,                 // Hard stop on pagination
+  RPC_SIGNATURE_PAGE_SIZE: 1000,          // getSignaturesForAddress maximum
+  EARLIEST_HISTORY_MAX_PAGES: 100,        // Signature pages walked looking for a wallet's first transaction
+  RPC_TRANSACTION_BATCH_SIZE: 25,         // Transactions per getTransaction batch
   CLUSTER_THRESHOLD_PERCENTAGE: 50, // 50% of transactions with same address = clustering
   MIN_TRANSACTIONS_FOR_PATTERN: 5,   // Minimum transactions needed for pattern analysis
+  FLOW_WINDOW_SECONDS: 86400,             // Transfers this close together can form one fan-in, fan-out or peel
+  FLOW_FAN_MIN_COUNTERPARTIES: 5,         // Distinct senders or recipients for a fan-in or fan-out
+  FLOW_CONSOLIDATION_SHARE: 0.7,          // Share of gathered SOL one outflow must carry to count as consolidation
+  FLOW_PEEL_MIN_SOL: 0.1,                 // Smaller inflows aren't followed as peel chain hops
+  FLOW_PEEL_MAX_SHARE: 0.2,               // Largest share of an inflow the peel may take
+  FLOW_PEEL_REMAINDER_SHARE: 0.7,         // Smallest share of an inflow the remainder must carry
+  FLOW_PEEL_MAX_LEFTOVER: 0.05,           // Peel plus remainder must forward all but this share
+  SCAN_JOB_TTL_MS: 60 * 60 * 1000,        // Finished scan jobs are kept for an hour
+  HISTORY_CACHE_TTL_MS: 7 * 24 * 60 * 60 * 1000, // Cached history is refreshed incrementally, so it can live long
+  COMPLIANCE_CACHE_TTL_MS: 24 * 60 * 60 * 1000,  // Sanctions lists change - re-screen daily
+  MEMORY_CACHE_MAX_ENTRIES: 5000,         // Least recently used entries are evicted past this
+  SCREENING_CONCURRENCY: 8,               // Compliance lookups in flight at once
+  SCREENING_BUDGET: 250,                  // Most counterparties screened per scan, busiest first
+  RANGE_REQUESTS_PER_SECOND: 20,          // Token bucket refill rate for compliance lookups
+  RANGE_BURST: 20,                        // Token bucket capacity
+  RANGE_MAX_RETRIES: 3,                   // Retries on 429 and 5xx responses
+  RANGE_RETRY_BASE_DELAY_MS: 500,         // First retry backoff, doubled each time
+  RANGE_REQUEST_TIMEOUT_MS: 10_000,       // Per-request timeout for the Range API
+  RANGE_FLAG_RISK_SCORE: 7,               // Range riskScore (1-10) at which an address is Flagged
+  TAINT_MAX_HOPS: 3,                      // How far back funds are traced (TAINT_MAX_HOPS env overrides)
+  TAINT_MAX_ADDRESSES: 60,                // Most addresses risk-checked by one trace
+  TAINT_FAN_IN: 5,                        // Largest senders followed per intermediate wallet
+  TAINT_HISTORY_DEPTH: 100,               // Transactions fetched per intermediate wallet
+  TAINT_MAX_PATHS: 10,                    // Shortest risky paths kept in the report
+
+  // CEX deposit address discovery
+  DEPOSIT_MAX_CANDIDATES: 10,             // Outgoing counterparties followed one hop
+  DEPOSIT_HISTORY_DEPTH: 50,              // Transactions fetched per counterparty
+  DEPOSIT_SWEEP_WINDOW_SECONDS: 86400,    // Sweeps later than this after an inflow don't count
+  DEPOSIT_MIN_FORWARDED_SHARE: 0.8,       // Share of inflow swept to a hot wallet to flag an address
+
+  // Funding source (first funder)
+  FUNDING_HISTORY_DEPTH: 25,              // Oldest transactions fetched when the history does not reach them
+  FUNDING_WINDOW_SECONDS: 86400,          // Senders within a day of the first inflow count as initial funders
+  FUNDING_MAX_FUNDERS: 3,                 // Initial funders reported
+
+  // Fee payer linkage
+  FEE_PAYER_MAX_LOOKUPS: 5,               // Private fee payers whose histories are fetched
+  FEE_PAYER_HISTORY_DEPTH: 100,           // Transactions fetched per fee payer
+  FEE_PAYER_RELAYER_MIN_WALLETS: 10,      // Fee payers sponsoring this many wallets are treated as relayers
+
+  // Activity timing
+  TIMING_MIN_TRANSACTIONS: 20,            // Fewer timestamps than this say nothing reliable
+  TIMING_QUIET_HOURS: 6,                  // Length of the quiet stretch read as the owner's night
+  TIMING_FULL_CONFIDENCE_SAMPLE: 100,     // Timezone confidence is scaled down below this many transactions
+  TIMING_MIN_CONFIDENCE: 0.3,             // Weaker timezone estimates are not reported
+  TIMING_MIN_REGULAR_INTERVALS: 5,        // Matching gaps needed to call a schedule automated
+  TIMING_MIN_REGULARITY: 0.5,             // Share of gaps (or of minutes-of-hour) that must match
+  TIMING_INTERVAL_TOLERANCE_SECONDS: 60,  // Gaps this close (or within 2%) count as the same interval
+
+  // Amount correlation
+  AMOUNT_MIN_SOL: 0.01,                   // Smaller SOL transfers are rent, fees and dust
+  AMOUNT_MATCH_WINDOW_SECONDS: 6 * 3600,  // Longest delay between an inflow and the outflow it is paired with
+  AMOUNT_MATCH_FEE_SOL: 0.01,             // An outflow may be this much smaller than its inflow (fees)
+  AMOUNT_MATCH_TOLERANCE: 0.005,          // ...or this share smaller, whichever is larger
+  AMOUNT_PRECISE_DECIMALS: 4,             // Amounts with this many decimal places are unusually precise
+  AMOUNT_MEDIUM_SET_DIGITS: 3,            // Significant digits from which an amount is uncommon
+  AMOUNT_SMALL_SET_DIGITS: 5,             // ...and from which it is close to unique
+
+  // Wash trading
+  WASH_MAX_ROUND_TRIP_SECONDS: 86400,     // Longest time for an asset to go out and come back (or be sold back)
+  WASH_AMOUNT_TOLERANCE: 0.05,            // Largest relative difference between the two legs of a round trip
+  WASH_MIN_CYCLES: 2,                     // Round trips with one counterparty or token before it is reported
+
+  // Dust and address poisoning
+  DUST_MAX_SOL: 0.001,                    // Unsolicited SOL transfers up to this size are dust
+  DUST_MAX_TOKEN_AMOUNT: 0.001,           // ...and token transfers up to this many tokens (including zero-value ones)
+  DUST_LOOKALIKE_PREFIX: 4,               // Leading characters a lookalike shares with the address it imitates
+  DUST_LOOKALIKE_SUFFIX: 4,               // ...and trailing characters
 };
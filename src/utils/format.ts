@@ -0,0 +1,12 @@
+/**
+ * Formatting Helpers
+ * Shared by log lines, warnings and report text
+ */
+
+/**
+ * Shorten an address to its first 6 and last 4 characters, e.g. "7eEqn3...sAC1"
+ */
+export function shortenAddress(address: string): string {
+  if (address.length <= 12) return address;
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
@@ -0,0 +1,40 @@
+/**
+ * Logger
+ * Library code reports its step-by-step progress here instead of the console.
+ * Progress is dropped unless a front end opts in (the CLI does); warnings and errors go to stderr.
+ */
+
+export interface Logger {
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+// Progress on stdout, problems on stderr
+export const consoleLogger: Logger = {
+  info: (...args) => console.log(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+};
+
+const quietLogger: Logger = {
+  info: () => {},
+  warn: consoleLogger.warn,
+  error: consoleLogger.error,
+};
+
+let logger: Logger = quietLogger;
+
+/**
+ * Replace the logger, e.g. with consoleLogger to print progress
+ */
+export function setLogger(next: Logger): void {
+  logger = next;
+}
+
+// Forwards to whichever logger is set when a message is logged
+export const log: Logger = {
+  info: (...args) => logger.info(...args),
+  warn: (...args) => logger.warn(...args),
+  error: (...args) => logger.error(...args),
+};
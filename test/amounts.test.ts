@@ -0,0 +1,36 @@
+/**
+ * Amount correlation detector
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectAmountCorrelation } from "../src/detectors/amounts";
+import { DAY, T0, address, solTransfer } from "./helpers";
+
+const WALLET = address(1);
+
+describe("detectAmountCorrelation", () => {
+  it("pairs an inflow with an outflow of nearly the same precise amount", () => {
+    const result = detectAmountCorrelation([
+      solTransfer("in", T0, address(2), WALLET, 12.3457),
+      solTransfer("out", T0 + 1800, WALLET, address(3), 12.3407),
+    ], WALLET);
+
+    assert.equal(result.detected, true);
+    assert.equal(result.pairs.length, 1);
+    assert.deepEqual(result.pairs[0]?.signatures, ["in", "out"]);
+    assert.equal(result.pairs[0]?.anonymitySet, "small");
+    assert.ok(result.fingerprints.some(f => f.signature === "in"));
+  });
+
+  it("does not pair round amounts that differ, or outflows after the match window", () => {
+    const result = detectAmountCorrelation([
+      solTransfer("in", T0, address(2), WALLET, 1),
+      solTransfer("out", T0 + 1800, WALLET, address(3), 0.5),
+      solTransfer("late", T0 + DAY, WALLET, address(4), 1),
+    ], WALLET);
+
+    assert.equal(result.detected, false);
+    assert.deepEqual(result.pairs, []);
+  });
+});
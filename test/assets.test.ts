@@ -0,0 +1,28 @@
+/**
+ * Identity-revealing assets detector
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectIdentityAssets } from "../src/detectors/assets";
+import { DEMO_WALLET, T0, USDC_MINT, address, recordedHistory, tokenTransfer } from "./helpers";
+
+const WALLET = address(1);
+
+describe("detectIdentityAssets", () => {
+  it("finds a POAP delivered to the wallet", async () => {
+    const { transactions } = await recordedHistory("demo-wallet", DEMO_WALLET);
+    const result = detectIdentityAssets(transactions, DEMO_WALLET);
+
+    assert.equal(result.detected, true);
+    assert.equal(result.poapsDetected.length, 1);
+    assert.equal(result.identityExposureLevel, "low");
+  });
+
+  it("ignores fungible token transfers", () => {
+    const result = detectIdentityAssets([tokenTransfer("usdc", T0, address(2), WALLET, USDC_MINT, 25)], WALLET);
+
+    assert.equal(result.detected, false);
+    assert.equal(result.identityExposureLevel, "none");
+  });
+});
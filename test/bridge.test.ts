@@ -0,0 +1,72 @@
+/**
+ * Bridge detector and cross-chain destination decoding
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { detectBridgeTransfers } from "../src/detectors/bridge";
+import type { ParsedTransaction } from "../src/services/helius";
+import { T0, USDC_MINT, address, encodeBase58, quietHistory, tokenTransfer } from "./helpers";
+
+const WALLET = address(1);
+
+describe("detectBridgeTransfers", () => {
+  const evmRecipient = Buffer.alloc(20, 0xab);
+
+  function bridgeCall(signature: string, programId: string, data: Uint8Array): ParsedTransaction {
+    return {
+      ...tokenTransfer(signature, T0, WALLET, address(70), USDC_MINT, 100),
+      instructions: [{ programId, accounts: [], data: encodeBase58(data), innerInstructions: [] }],
+    };
+  }
+
+  it("decodes the destination chain and recipient of a Wormhole transfer", () => {
+    // TransferWrapped: tag, nonce u32, amount u64, fee u64, target_address [32], target_chain u16
+    const data = Buffer.alloc(55);
+    data[0] = 4;
+    evmRecipient.copy(data, 21 + 12);
+    data.writeUInt16LE(30, 53);
+    const result = detectBridgeTransfers([bridgeCall("wormhole", "wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb", data)], WALLET);
+
+    assert.equal(result.detected, true);
+    assert.deepEqual(result.bridgesUsed, ["Wormhole"]);
+    assert.equal(result.transfers[0]?.direction, "outbound");
+    assert.deepEqual(result.foreignAddresses.map(f => [f.chain, f.address]), [["Base", `0x${"ab".repeat(20)}`]]);
+  });
+
+  it("decodes the destination of a deBridge DLN order", () => {
+    const discriminator = createHash("sha256").update("global:create_order").digest().subarray(0, 8);
+    const chainId = Buffer.alloc(32);
+    chainId[31] = 56;
+    const length = (n: number) => {
+      const bytes = Buffer.alloc(4);
+      bytes.writeUInt32LE(n);
+      return bytes;
+    };
+    const data = Buffer.concat([
+      discriminator, Buffer.alloc(8), chainId,
+      length(20), Buffer.alloc(20, 0x01), Buffer.alloc(32),
+      length(20), evmRecipient,
+    ]);
+    const result = detectBridgeTransfers([bridgeCall("dln", "src5qyZHqTqecJV4aY6Cb6zDZLMDzrDKKezs22MPHr4", data)], WALLET);
+
+    assert.deepEqual(result.bridgesUsed, ["deBridge"]);
+    assert.deepEqual(result.chains, ["BNB Chain"]);
+    assert.equal(result.foreignAddresses[0]?.address, `0x${"ab".repeat(20)}`);
+  });
+
+  it("reports a bridge call it cannot decode without a destination", () => {
+    const result = detectBridgeTransfers([bridgeCall("short", "wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb", Buffer.from([4, 0, 0]))], WALLET);
+
+    assert.deepEqual(result.bridgesUsed, ["Wormhole"]);
+    assert.deepEqual(result.foreignAddresses, []);
+  });
+
+  it("ignores transactions that touch no bridge", () => {
+    const result = detectBridgeTransfers(quietHistory(WALLET), WALLET);
+
+    assert.equal(result.detected, false);
+    assert.deepEqual(result.transfers, []);
+  });
+});
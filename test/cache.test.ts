@@ -0,0 +1,147 @@
+/**
+ * Cache stores and incremental history refresh
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CachedTransactionSource,
+  FileCacheStore,
+  MemoryCacheStore,
+  getCacheStore,
+  getComplianceCacheStore,
+  setCacheStore,
+} from "../src/services/cache";
+import type { HistoryDepth } from "../src/services/history";
+import { MemoryTransactionSource, T0, address, solTransfer } from "./helpers";
+
+const WALLET = address(1);
+
+/**
+ * A memory source that records the depth of every history request
+ */
+function countingSource(histories: Record<string, ReturnType<typeof solTransfer>[]>) {
+  const source = new MemoryTransactionSource(histories);
+  const requests: HistoryDepth[] = [];
+  const getHistory = source.getHistory.bind(source);
+  source.getHistory = async (target, depth = {}, options = {}) => {
+    requests.push(depth);
+    return getHistory(target, depth, options);
+  };
+  return { source, requests, getHistory };
+}
+
+function payments(count: number, from = 0) {
+  return Array.from({ length: count }, (_, i) => solTransfer(`tx-${from + i}`, T0 + (from + i) * 60, WALLET, address(2), 0.1));
+}
+
+describe("MemoryCacheStore", () => {
+  it("returns what was stored until it expires", async () => {
+    const store = new MemoryCacheStore();
+    await store.set("live", { n: 1 }, 60_000);
+    await store.set("expired", { n: 2 }, 0);
+
+    assert.deepEqual((await store.get<{ n: number }>("live"))?.value, { n: 1 });
+    assert.equal(await store.get("expired"), null);
+  });
+
+  it("evicts the least recently used entry past its size limit", async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set("a", 1, 60_000);
+    await store.set("b", 2, 60_000);
+    await store.get("a");
+    await store.set("c", 3, 60_000);
+
+    assert.equal((await store.get<number>("a"))?.value, 1);
+    assert.equal(await store.get("b"), null);
+    assert.equal((await store.get<number>("c"))?.value, 3);
+  });
+});
+
+describe("FileCacheStore", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "scope-cache-"));
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it("keeps entries on disk across store instances and drops expired ones", async () => {
+    await new FileCacheStore(directory).set("history:test", ["tx"], 60_000);
+    await new FileCacheStore(directory).set("stale", ["tx"], 0);
+    const store = new FileCacheStore(directory);
+
+    assert.deepEqual((await store.get<string[]>("history:test"))?.value, ["tx"]);
+    assert.equal(await store.get("stale"), null);
+    assert.equal(fs.readdirSync(directory).length, 1);
+  });
+});
+
+describe("getComplianceCacheStore", () => {
+  const original = getCacheStore();
+  after(() => setCacheStore(original));
+
+  it("keeps compliance results in memory when history is cached on disk", () => {
+    setCacheStore(new FileCacheStore(os.tmpdir()));
+    assert.ok(getComplianceCacheStore() instanceof MemoryCacheStore);
+
+    setCacheStore(null);
+    assert.equal(getComplianceCacheStore(), null);
+  });
+});
+
+describe("CachedTransactionSource", () => {
+  it("fetches only transactions newer than the cached head on a repeat scan", async () => {
+    const history = payments(5);
+    const { source, requests } = countingSource({ [WALLET]: history });
+    const cached = new CachedTransactionSource(source, new MemoryCacheStore());
+
+    await cached.getHistory(WALLET, { maxTransactions: 3 });
+    history.push(...payments(1, 5));
+    const result = await cached.getHistory(WALLET, { maxTransactions: 3 });
+
+    assert.deepEqual(result.transactions.map(tx => tx.signature), ["tx-5", "tx-4", "tx-3"]);
+    assert.equal(requests[1]?.untilSignature, "tx-4");
+    assert.equal(requests.length, 2);
+  });
+
+  it("fetches history older than the cached tail when a deeper scan is requested", async () => {
+    const { source, requests } = countingSource({ [WALLET]: payments(6) });
+    const cached = new CachedTransactionSource(source, new MemoryCacheStore());
+
+    await cached.getHistory(WALLET, { maxTransactions: 2 });
+    const result = await cached.getHistory(WALLET, { maxTransactions: 6 });
+
+    assert.equal(result.transactions.length, 6);
+    assert.equal(result.coverage.reachedStart, true);
+    assert.equal(requests.at(-1)?.beforeSignature, "tx-4");
+  });
+
+  it("serves the cached copy, marked incomplete, when the older fetch fails", async () => {
+    const { source, getHistory } = countingSource({ [WALLET]: payments(6) });
+    const cached = new CachedTransactionSource(source, new MemoryCacheStore());
+    await cached.getHistory(WALLET, { maxTransactions: 2 });
+
+    source.getHistory = async (target, depth = {}, options = {}) => {
+      if (depth.beforeSignature) throw new Error("HTTP 503: Service Unavailable");
+      return getHistory(target, depth, options);
+    };
+    const result = await cached.getHistory(WALLET, { maxTransactions: 6 });
+
+    assert.deepEqual(result.transactions.map(tx => tx.signature), ["tx-5", "tx-4"]);
+    assert.equal(result.coverage.reachedStart, false);
+    assert.equal(result.coverage.truncated, true);
+  });
+
+  it("serves the cached copy when the refresh fails", async () => {
+    const { source } = countingSource({ [WALLET]: payments(3) });
+    const cached = new CachedTransactionSource(source, new MemoryCacheStore());
+    await cached.getHistory(WALLET, { maxTransactions: 3 });
+
+    source.getHistory = async () => {
+      throw new Error("HTTP 503: Service Unavailable");
+    };
+    const result = await cached.getHistory(WALLET, { maxTransactions: 3 });
+
+    assert.equal(result.transactions.length, 3);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * CEX transaction detector
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectCEXTransactions } from "../src/detectors/cex";
+import { DEMO_WALLET, address, quietHistory, recordedHistory } from "./helpers";
+
+const WALLET = address(1);
+
+describe("detectCEXTransactions", () => {
+  it("finds deposits to and withdrawals from known exchanges", async () => {
+    const { transactions } = await recordedHistory("demo-wallet", DEMO_WALLET);
+    const result = detectCEXTransactions(transactions, DEMO_WALLET);
+
+    assert.equal(result.detected, true);
+    assert.deepEqual(result.exchangesInvolved, ["Binance", "Coinbase"]);
+    assert.equal(result.deposits.length, 1);
+    assert.equal(result.withdrawals.length, 1);
+    assert.ok(result.riskContribution > 0);
+  });
+
+  it("ignores transfers between unlabeled wallets", () => {
+    const result = detectCEXTransactions(quietHistory(WALLET), WALLET);
+
+    assert.equal(result.detected, false);
+    assert.equal(result.riskContribution, 0);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Clustering detector: counterparty concentration, direction-aware flows and wash trading
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectClustering, detectWashTrading } from "../src/detectors/clustering";
+import { DAY, DEMO_WALLET, T0, address, quietHistory, recordedHistory, solTransfer } from "./helpers";
+
+const WALLET = address(1);
+
+describe("detectClustering", () => {
+  it("flags a wallet dealing mostly with one counterparty", async () => {
+    const { transactions } = await recordedHistory("demo-wallet", DEMO_WALLET);
+    const result = detectClustering(transactions, DEMO_WALLET);
+
+    assert.equal(result.detected, true);
+    assert.equal(result.pattern, "single_counterparty");
+    assert.equal(result.dominantAddress, "FriendWallet1xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx");
+  });
+
+  it("finds a fan-in consolidated into one destination", () => {
+    const destination = address(20);
+    const result = detectClustering([
+      ...Array.from({ length: 6 }, (_, i) => solTransfer(`gather-${i}`, T0 + i * 600, address(10 + i), WALLET, 1)),
+      solTransfer("consolidate", T0 + 3 * 3600, WALLET, destination, 5.99),
+    ], WALLET);
+    const fanIn = result.flows.find(flow => flow.pattern === "fan_in");
+
+    assert.equal(fanIn?.counterpartyCount, 6);
+    assert.equal(fanIn?.destination, destination);
+    assert.equal(fanIn?.signatures.length, 7);
+  });
+
+  it("finds a fan-out burst to many recipients", () => {
+    const result = detectClustering([
+      solTransfer("fund", T0, address(2), WALLET, 10),
+      ...Array.from({ length: 8 }, (_, i) => solTransfer(`pay-${i}`, T0 + 600 + i * 60, WALLET, address(30 + i), 1)),
+    ], WALLET);
+    const fanOut = result.flows.find(flow => flow.pattern === "fan_out");
+
+    assert.equal(fanOut?.counterpartyCount, 8);
+    assert.equal(fanOut?.transfers, 8);
+    assert.equal(fanOut?.signatures[0], "fund");
+  });
+
+  it("finds peel chain hops forwarding the remainder to fresh addresses", () => {
+    const fresh = address(43);
+    const result = detectClustering([
+      solTransfer("inflow-1", T0, address(2), WALLET, 10),
+      solTransfer("peel-1", T0 + 60, WALLET, address(40), 1),
+      solTransfer("remainder-1", T0 + 120, WALLET, address(41), 8.9),
+      solTransfer("inflow-2", T0 + 2 * DAY, address(3), WALLET, 20),
+      solTransfer("peel-2", T0 + 2 * DAY + 60, WALLET, address(42), 2),
+      solTransfer("remainder-2", T0 + 2 * DAY + 120, WALLET, fresh, 17.9),
+    ], WALLET);
+    const peel = result.flows.find(flow => flow.pattern === "peel_chain");
+
+    assert.equal(result.pattern, "peel_chain");
+    assert.equal(peel?.counterpartyCount, 2);
+    assert.equal(peel?.destination, fresh);
+    assert.equal(peel?.signatures.length, 6);
+  });
+
+  it("finds no pattern in payments spread over many counterparties and days", () => {
+    const result = detectClustering(quietHistory(WALLET), WALLET);
+
+    assert.equal(result.detected, false);
+    assert.equal(result.pattern, "none");
+    assert.deepEqual(result.flows, []);
+  });
+});
+
+describe("detectWashTrading", () => {
+  const counterparty = address(50);
+
+  it("reports SOL that repeatedly goes to a counterparty and comes back", () => {
+    const result = detectWashTrading([
+      solTransfer("out-1", T0, WALLET, counterparty, 5),
+      solTransfer("back-1", T0 + 3600, counterparty, WALLET, 4.9),
+      solTransfer("out-2", T0 + DAY * 2, WALLET, counterparty, 5),
+      solTransfer("back-2", T0 + DAY * 2 + 3600, counterparty, WALLET, 4.95),
+    ], WALLET);
+
+    assert.equal(result.detected, true);
+    assert.equal(result.totalCycles, 2);
+    assert.equal(result.pairs[0]?.address, counterparty);
+    assert.deepEqual(result.pairs[0]?.cycles[0]?.signatures, ["out-1", "back-1"]);
+  });
+
+  it("ignores a single round trip and returns of a different size", () => {
+    const result = detectWashTrading([
+      solTransfer("out-1", T0, WALLET, counterparty, 5),
+      solTransfer("back-1", T0 + 3600, counterparty, WALLET, 4.9),
+      solTransfer("out-2", T0 + DAY * 2, WALLET, counterparty, 5),
+      solTransfer("back-2", T0 + DAY * 2 + 3600, counterparty, WALLET, 1),
+    ], WALLET);
+
+    assert.equal(result.detected, false);
+    assert.deepEqual(result.pairs, []);
+  });
+
+  it("ignores a return that comes back after the round-trip window", () => {
+    const result = detectWashTrading([
+      solTransfer("out-1", T0, WALLET, counterparty, 5),
+      solTransfer("back-1", T0 + DAY * 3, counterparty, WALLET, 4.9),
+      solTransfer("out-2", T0 + DAY * 6, WALLET, counterparty, 5),
+      solTransfer("back-2", T0 + DAY * 9, counterparty, WALLET, 4.95),
+    ], WALLET);
+
+    assert.equal(result.detected, false);
+  });
+});
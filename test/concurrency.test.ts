@@ -0,0 +1,177 @@
+/**
+ * Retries, rate limiting, bounded parallelism and the screening budget
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HttpStatusError, TokenBucket, mapWithConcurrency, retryWithBackoff, sleep } from "../src/utils/concurrency";
+import { checkInteractingAddresses, getRangeClient, setRangeClient } from "../src/services/range";
+import type { RangeCheckResult, RangeClient } from "../src/services/range";
+import { address } from "./helpers";
+
+describe("retryWithBackoff", () => {
+  it("retries rate limits and server errors until the call succeeds", async () => {
+    const attempts: number[] = [];
+    const result = await retryWithBackoff(async attempt => {
+      attempts.push(attempt);
+      if (attempt === 0) throw new HttpStatusError(429, "Too Many Requests");
+      if (attempt === 1) throw new HttpStatusError(503, "Service Unavailable");
+      return "ok";
+    }, { baseDelayMs: 1 });
+
+    assert.equal(result, "ok");
+    assert.deepEqual(attempts, [0, 1, 2]);
+  });
+
+  it("does not retry a client error", async () => {
+    let calls = 0;
+    await assert.rejects(
+      retryWithBackoff(async () => {
+        calls++;
+        throw new HttpStatusError(400, "Bad Request");
+      }, { baseDelayMs: 1 }),
+      /HTTP 400: Bad Request/
+    );
+    assert.equal(calls, 1);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    let calls = 0;
+    await assert.rejects(
+      retryWithBackoff(async () => {
+        calls++;
+        throw new HttpStatusError(500);
+      }, { retries: 2, baseDelayMs: 1 }),
+      /HTTP 500/
+    );
+    assert.equal(calls, 3);
+  });
+
+  it("caps a server's Retry-After at maxDelayMs", async () => {
+    const started = Date.now();
+    await retryWithBackoff(async attempt => {
+      if (attempt === 0) throw new HttpStatusError(429, "Too Many Requests", 60_000);
+      return "ok";
+    }, { maxDelayMs: 20 });
+
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it("stops waiting between attempts when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const retrying = retryWithBackoff(async () => {
+      setTimeout(() => controller.abort(new Error("cancelled")), 10);
+      throw new HttpStatusError(503);
+    }, { baseDelayMs: 60_000, signal: controller.signal });
+
+    await assert.rejects(retrying, /cancelled/);
+  });
+});
+
+describe("TokenBucket", () => {
+  it("serves a burst up to its capacity, then waits for the refill", async () => {
+    const bucket = new TokenBucket(5, 2);
+    const started = Date.now();
+    await bucket.take();
+    await bucket.take();
+    assert.ok(Date.now() - started < 100);
+
+    await bucket.take();
+    assert.ok(Date.now() - started >= 150);
+  });
+
+  it("does not limit when the rate is 0", async () => {
+    const bucket = new TokenBucket(0);
+    await Promise.all(Array.from({ length: 100 }, () => bucket.take()));
+  });
+
+  it("lets the waiters behind a cancelled one through", async () => {
+    const bucket = new TokenBucket(50, 1);
+    await bucket.take();
+    const controller = new AbortController();
+    const cancelled = bucket.take(controller.signal);
+    const next = bucket.take();
+    controller.abort(new Error("cancelled"));
+
+    await assert.rejects(cancelled, /cancelled/);
+    await next;
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps the input order and never exceeds the concurrency", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 5, 20, 1, 10], 2, async (ms, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await sleep(ms);
+      inFlight--;
+      return index;
+    });
+
+    assert.deepEqual(results, [0, 1, 2, 3, 4]);
+    assert.equal(peak, 2);
+  });
+
+  it("rethrows the first error and starts no new calls after it", async () => {
+    const started: number[] = [];
+    await assert.rejects(
+      mapWithConcurrency([1, 2, 3, 4], 1, async item => {
+        started.push(item);
+        if (item === 2) throw new Error("lookup failed");
+        return item;
+      }),
+      /lookup failed/
+    );
+    assert.deepEqual(started, [1, 2]);
+  });
+});
+
+describe("checkInteractingAddresses screening budget", () => {
+  const original = getRangeClient();
+  const looked: string[] = [];
+  const failing = address(33);
+
+  before(() => {
+    const client: RangeClient = {
+      name: "budget-test",
+      simulated: false,
+      async lookup(target: string): Promise<RangeCheckResult> {
+        looked.push(target);
+        if (target === failing) throw new HttpStatusError(400, "Bad Request");
+        return {
+          address: target,
+          status: "Clean",
+          riskScore: 0,
+          checkedAt: new Date(),
+          provider: "budget-test",
+          simulated: false,
+          details: { sanctionLists: [], flags: [], linkedToMixer: false, linkedToExploit: false },
+        };
+      },
+    };
+    setRangeClient(client);
+  });
+  after(() => setRangeClient(original));
+
+  it("screens the busiest counterparties and counts the rest as unscreened", async () => {
+    looked.length = 0;
+    const counterparties = new Map([[address(30), 1], [address(31), 5], [address(32), 3]]);
+    const screening = await checkInteractingAddresses(counterparties, { budget: 2 });
+
+    assert.deepEqual(looked.sort(), [address(31), address(32)].sort());
+    assert.equal(screening.totalChecked, 2);
+    assert.equal(screening.failedLookups, 0);
+    assert.equal(screening.unscreened, 1);
+  });
+
+  it("counts failed lookups apart from the addresses that were checked", async () => {
+    const counterparties = new Map([[address(34), 4], [failing, 3], [address(35), 1]]);
+    const screening = await checkInteractingAddresses(counterparties, { budget: 2 });
+
+    assert.equal(screening.totalChecked, 1);
+    assert.equal(screening.failedLookups, 1);
+    assert.equal(screening.unscreened, 1);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * CEX deposit address detector
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectDepositAddresses } from "../src/detectors/deposit";
+import {
+  BINANCE_HOT_WALLET,
+  DEPOSIT_WALLET,
+  MemoryTransactionSource,
+  T0,
+  address,
+  recordedHistory,
+  solTransfer,
+} from "./helpers";
+
+const WALLET = address(1);
+
+describe("detectDepositAddresses", () => {
+  it("reports an address that sweeps what the wallet sent into an exchange hot wallet", async () => {
+    const { source, transactions } = await recordedHistory("deposit-address", DEPOSIT_WALLET);
+    const result = await detectDepositAddresses(transactions, DEPOSIT_WALLET, source);
+
+    assert.equal(result.detected, true);
+    assert.equal(result.depositAddresses[0]?.address, "EPoAUkjdMxMFi2zz6wzUb5NeyF8Tzd7nV1m5ABQ5he2p");
+    assert.equal(result.depositAddresses[0]?.exchangeName, "Binance");
+    assert.ok(result.riskContribution > 0);
+  });
+
+  it("reports a synthetic sweep with the transactions behind it", async () => {
+    const deposit = address(3);
+    const pay = solTransfer("pay", T0, WALLET, deposit, 2);
+    const sweep = solTransfer("sweep", T0 + 3600, deposit, BINANCE_HOT_WALLET, 1.999);
+    const result = await detectDepositAddresses([pay], WALLET, new MemoryTransactionSource({ [deposit]: [pay, sweep] }));
+
+    assert.equal(result.depositAddresses[0]?.address, deposit);
+    assert.ok(result.depositAddresses[0]?.signatures.includes("sweep"));
+  });
+
+  it("ignores counterparties that keep what they receive", async () => {
+    const recipient = address(3);
+    const source = new MemoryTransactionSource({
+      [recipient]: [solTransfer("pay", T0, WALLET, recipient, 2)],
+    });
+    const result = await detectDepositAddresses([solTransfer("pay", T0, WALLET, recipient, 2)], WALLET, source);
+
+    assert.equal(result.detected, false);
+    assert.equal(result.candidatesChecked, 1);
+  });
+
+  it("marks the result truncated when a counterparty's history cannot be fetched", async () => {
+    const source = new MemoryTransactionSource({});
+    source.getHistory = async () => {
+      throw new Error("HTTP 503: Service Unavailable");
+    };
+    const result = await detectDepositAddresses([solTransfer("pay", T0, WALLET, address(3), 2)], WALLET, source);
+
+    assert.equal(result.detected, false);
+    assert.equal(result.truncated, true);
+  });
+});
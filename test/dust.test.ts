@@ -0,0 +1,49 @@
+/**
+ * Dust and address poisoning detector
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectDust } from "../src/detectors/dust";
+import { DAY, T0, address, solTransfer } from "./helpers";
+
+const WALLET = address(1);
+
+describe("detectDust", () => {
+  const real = `AbCd${"1".repeat(36)}WxYz`;
+  const lookalike = `AbCd${"2".repeat(36)}WxYz`;
+  const poisoned = [
+    solTransfer("pay-real", T0, WALLET, real, 2),
+    solTransfer("poison", T0 + 600, lookalike, WALLET, 0.000001),
+  ];
+
+  it("flags unsolicited dust from an address imitating a counterparty", () => {
+    const result = detectDust(poisoned, WALLET);
+
+    assert.equal(result.detected, true);
+    assert.deepEqual(result.dustSenders, [lookalike]);
+    assert.equal(result.poisoningAttempts[0]?.address, lookalike);
+    assert.equal(result.poisoningAttempts[0]?.imitates, real);
+    assert.equal(result.poisoningAttempts[0]?.sentFunds, false);
+    assert.ok(result.ignoredAddresses.includes(lookalike));
+  });
+
+  it("keeps a lookalike the wallet paid in the statistics and counts the payment", () => {
+    const paid = detectDust([...poisoned, solTransfer("pay-lookalike", T0 + DAY, WALLET, lookalike, 1)], WALLET);
+    const unpaid = detectDust(poisoned, WALLET);
+
+    assert.equal(paid.poisoningAttempts[0]?.sentFunds, true);
+    assert.equal(paid.ignoredAddresses.includes(lookalike), false);
+    assert.ok(paid.riskContribution > unpaid.riskContribution);
+  });
+
+  it("does not treat a small refund from a wallet it pays as dust", () => {
+    const result = detectDust([
+      solTransfer("pay-friend", T0, WALLET, address(2), 1),
+      solTransfer("refund", T0 + 600, address(2), WALLET, 0.0005),
+    ], WALLET);
+
+    assert.equal(result.detected, false);
+    assert.deepEqual(result.ignoredAddresses, []);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * End-to-end analysis of recorded scenarios, and how stage failures shape the report
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeWallet, formatReportForConsole } from "../src/engine";
+import type { ProgressEvent } from "../src/engine";
+import type { Detector } from "../src/detectors/registry";
+import { HeliusService } from "../src/services/helius";
+import { getRangeClient, setRangeClient } from "../src/services/range";
+import type { RangeCheckResult } from "../src/services/range";
+import { HttpStatusError } from "../src/utils/concurrency";
+import { RiskLevel } from "../src/utils/constants";
+import {
+  DEMO_WALLET,
+  DEPOSIT_WALLET,
+  FEE_PAYER_WALLET,
+  MemoryTransactionSource,
+  T0,
+  TAINT_WALLET,
+  address,
+  fixtureSource,
+  solTransfer,
+} from "./helpers";
+
+describe("analyzeWallet on recorded scenarios", () => {
+  const scenarios = [
+    { name: "demo-wallet", wallet: DEMO_WALLET, score: 42, deductions: ["cex", "clustering", "assets", "fundingSource"] },
+    { name: "deposit-address", wallet: DEPOSIT_WALLET, score: 53, deductions: ["cex", "depositAddresses", "fundingSource"] },
+    { name: "fee-payer", wallet: FEE_PAYER_WALLET, score: 70, deductions: ["feePayer"] },
+    { name: "taint", wallet: TAINT_WALLET, score: 83, deductions: ["taint"] },
+  ];
+
+  for (const scenario of scenarios) {
+    it(`scores the ${scenario.name} scenario`, async () => {
+      const report = await analyzeWallet(scenario.wallet, { source: fixtureSource(scenario.name) });
+
+      assert.equal(report.status, "complete");
+      assert.equal(report.score, scenario.score);
+      assert.deepEqual(report.deductions.map(d => d.id).sort(), [...scenario.deductions].sort());
+      assert.ok(report.stages.every(stage => stage.status === "completed"));
+      assert.equal(report.historyCoverage.simulated, false);
+    });
+  }
+
+  it("prints a section for every detector that found something", async () => {
+    const report = await analyzeWallet(DEPOSIT_WALLET, { source: fixtureSource("deposit-address") });
+    const text = formatReportForConsole(report);
+
+    assert.match(text, /PRIVACY SCORE: 53\/100/);
+    assert.match(text, /PROBABLE CEX DEPOSIT ADDRESSES/);
+    assert.match(text, /FIRST FUNDED/);
+  });
+});
+
+describe("analyzeWallet failure paths", () => {
+  const history = { [DEMO_WALLET]: [solTransfer("sig-1", T0, FEE_PAYER_WALLET, DEMO_WALLET, 1)] };
+
+  it("fails the report with no score when history cannot be fetched", async () => {
+    const source = new MemoryTransactionSource(history);
+    source.getHistory = async () => {
+      throw new Error("HTTP 503: Service Unavailable");
+    };
+    const report = await analyzeWallet(DEMO_WALLET, { source });
+
+    assert.equal(report.status, "failed");
+    assert.equal(report.score, null);
+    assert.equal(report.riskLevel, RiskLevel.UNKNOWN);
+    assert.equal(report.stages.find(stage => stage.id === "history")?.status, "failed");
+    assert.match(report.stages.find(stage => stage.id === "history")?.error ?? "", /HTTP 503/);
+  });
+
+  it("degrades the report and leaves the balance unknown when the balance fetch fails", async () => {
+    const source = new MemoryTransactionSource(history);
+    source.getBalance = async () => {
+      throw new Error("RPC unavailable");
+    };
+    const report = await analyzeWallet(DEMO_WALLET, { source });
+
+    assert.equal(report.status, "degraded");
+    assert.equal(report.balance, null);
+    assert.notEqual(report.score, null);
+    assert.equal(report.stages.find(stage => stage.id === "balance")?.status, "failed");
+  });
+
+  it("degrades the report and keeps the other detectors when one throws", async () => {
+    const broken: Detector<{ detected: boolean }> = {
+      id: "broken",
+      name: "Broken detector",
+      category: "Test",
+      run: () => {
+        throw new Error("detector bug");
+      },
+      emptyResult: () => ({ detected: false }),
+    };
+    const working: Detector<{ detected: boolean }> = {
+      id: "working",
+      name: "Working detector",
+      category: "Test",
+      run: () => ({ result: { detected: true }, warnings: [], actions: [], riskContribution: 5 }),
+      emptyResult: () => ({ detected: false }),
+    };
+    const report = await analyzeWallet(DEMO_WALLET, {
+      source: new MemoryTransactionSource(history),
+      detectors: [broken, working],
+    });
+
+    assert.equal(report.status, "degraded");
+    assert.equal(report.stages.find(stage => stage.id === "detector:broken")?.status, "failed");
+    assert.deepEqual(report.detectorResults["broken"], { detected: false });
+    assert.deepEqual(report.detectorResults["working"], { detected: true });
+    assert.deepEqual(report.deductions.map(d => d.id), ["working"]);
+  });
+
+  it("fails a built-in detector's stage instead of reporting it clean when it throws", async () => {
+    const tx = solTransfer("sig-2", T0 + 100, FEE_PAYER_WALLET, DEMO_WALLET, 1);
+    const malformed = { ...tx, accountData: [null] } as unknown as typeof tx;
+    const report = await analyzeWallet(DEMO_WALLET, {
+      source: new MemoryTransactionSource({ [DEMO_WALLET]: [...(history[DEMO_WALLET] ?? []), malformed] }),
+    });
+
+    assert.equal(report.status, "degraded");
+    assert.equal(report.stages.find(stage => stage.id === "detector:assets")?.status, "failed");
+    assert.ok(report.stages.filter(stage => stage.id !== "detector:assets").every(stage => stage.status === "completed"));
+  });
+
+  it("warns that demo history says nothing about the wallet", async () => {
+    const originalKey = process.env.HELIUS_API_KEY;
+    delete process.env.HELIUS_API_KEY;
+    try {
+      const report = await analyzeWallet(DEMO_WALLET, { source: new HeliusService() });
+
+      assert.equal(report.historyCoverage.simulated, true);
+      assert.ok(report.warnings.some(warning => warning.id === "history-simulated"));
+    } finally {
+      if (originalKey !== undefined) process.env.HELIUS_API_KEY = originalKey;
+    }
+  });
+
+  it("rejects with the abort reason instead of returning a report when cancelled", async () => {
+    const controller = new AbortController();
+    const events: ProgressEvent[] = [];
+    const analysis = analyzeWallet(DEMO_WALLET, {
+      source: new MemoryTransactionSource(history),
+      signal: controller.signal,
+      onProgress: event => {
+        events.push(event);
+        if (event.type === "stage-finished" && event.stage.id === "history") controller.abort(new Error("cancelled"));
+      },
+    });
+
+    await assert.rejects(analysis, /cancelled/);
+    assert.equal(events.at(-1)?.type, "analysis-cancelled");
+  });
+});
+
+describe("analyzeWallet screening budget", () => {
+  const original = getRangeClient();
+  const failing = address(41);
+
+  before(() => setRangeClient({
+    name: "engine-budget-test",
+    simulated: false,
+    async lookup(target: string): Promise<RangeCheckResult> {
+      if (target === failing) throw new HttpStatusError(400, "Bad Request");
+      return {
+        address: target,
+        status: "Clean",
+        riskScore: 0,
+        checkedAt: new Date(),
+        provider: "engine-budget-test",
+        simulated: false,
+        details: { sanctionLists: [], flags: [], linkedToMixer: false, linkedToExploit: false },
+      };
+    },
+  }));
+  after(() => setRangeClient(original));
+
+  it("reports the configured budget and the failed lookups in the unscreened warning", async () => {
+    const transactions = [
+      ...[0, 1, 2].map(i => solTransfer(`busy-${i}`, T0 + i * 60, DEMO_WALLET, address(40), 0.1)),
+      ...[0, 1].map(i => solTransfer(`failing-${i}`, T0 + 600 + i * 60, DEMO_WALLET, failing, 0.1)),
+      solTransfer("quiet", T0 + 900, DEMO_WALLET, address(42), 0.1),
+    ];
+    const report = await analyzeWallet(DEMO_WALLET, {
+      source: new MemoryTransactionSource({ [DEMO_WALLET]: transactions }),
+      screeningBudget: 2,
+    });
+    const warning = report.warnings.find(w => w.id === "compliance-unscreened");
+
+    assert.equal(report.stages.find(stage => stage.id === "screening")?.status, "failed");
+    assert.equal(report.detectorResults.interactingAddressRisks.totalChecked, 1);
+    assert.equal(warning?.message, "1 lower-activity counterparties were only checked against local watchlists (screening budget of 2; 1 lookups within it failed).");
+  });
+});
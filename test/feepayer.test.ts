@@ -0,0 +1,68 @@
+/**
+ * Fee payer linkage detector
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectFeePayerLinks } from "../src/detectors/feepayer";
+import { ANALYSIS_CONFIG } from "../src/utils/constants";
+import { FEE_PAYER_WALLET, MemoryTransactionSource, T0, address, quietHistory, recordedHistory, solTransfer } from "./helpers";
+
+const WALLET = address(1);
+
+/**
+ * Transactions moving the wallet's funds, each paid for by a different sponsor
+ */
+function sponsoredBy(sponsors: string[]) {
+  return sponsors.map((sponsor, i) => solTransfer(`sponsored-${i}`, T0 + i * 60, WALLET, address(90), 0.1, sponsor));
+}
+
+describe("detectFeePayerLinks", () => {
+  it("links the wallet to its fee payer, wallets it paid for and wallets sharing its fee payer", async () => {
+    const { source, transactions } = await recordedHistory("fee-payer", FEE_PAYER_WALLET);
+    const result = await detectFeePayerLinks(transactions, FEE_PAYER_WALLET, source);
+
+    assert.equal(result.detected, true);
+    assert.deepEqual(
+      result.links.map(link => [link.direction, link.address]),
+      [
+        ["pays_for", "EqXtS3j2pA2N2N2hsLjTBtLvcmEQneTjkiAr5UaMA4Jw"],
+        ["paid_by", "xLev5oipJHzZ2ooJshKBrnwWUWxjPCAXVnTWq2wKEWD"],
+        ["co_sponsored", "BmbNWnt57MbiztJiusr1Pf5ammCmVekGur9awj6vHu56"],
+      ]
+    );
+    assert.equal(result.linkedWallets.length, 3);
+  });
+
+  it("finds nothing when the wallet pays its own fees", async () => {
+    const history = quietHistory(WALLET).filter(tx => tx.feePayer === WALLET);
+    const result = await detectFeePayerLinks(history, WALLET, new MemoryTransactionSource({}));
+
+    assert.equal(result.detected, false);
+    assert.deepEqual(result.links, []);
+    assert.equal(result.riskContribution, 0);
+  });
+
+  it("reports a sponsor whose history cannot be fetched as unknown, without linking or scoring it", async () => {
+    const sponsor = address(80);
+    const source = new MemoryTransactionSource({});
+    source.getHistory = async () => {
+      throw new Error("HTTP 503: Service Unavailable");
+    };
+    const result = await detectFeePayerLinks(sponsoredBy([sponsor]), WALLET, source);
+
+    assert.deepEqual(result.links.map(link => [link.address, link.kind]), [[sponsor, "unknown"]]);
+    assert.equal(result.detected, false);
+    assert.deepEqual(result.linkedWallets, []);
+    assert.equal(result.riskContribution, 0);
+  });
+
+  it("reports sponsors past the lookup budget as unknown", async () => {
+    const sponsors = Array.from({ length: ANALYSIS_CONFIG.FEE_PAYER_MAX_LOOKUPS + 1 }, (_, i) => address(80 + i));
+    const result = await detectFeePayerLinks(sponsoredBy(sponsors), WALLET, new MemoryTransactionSource({}));
+
+    assert.equal(result.links.filter(link => link.kind === "private").length, ANALYSIS_CONFIG.FEE_PAYER_MAX_LOOKUPS);
+    assert.equal(result.links.filter(link => link.kind === "unknown").length, 1);
+    assert.equal(result.linkedWallets.length, ANALYSIS_CONFIG.FEE_PAYER_MAX_LOOKUPS);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Fixture replay and recording
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FixtureTransactionSource, RecordingTransactionSource, WALLET_PLACEHOLDER } from "../src/services/fixture";
+import { DEMO_WALLET, DEPOSIT_WALLET, MemoryTransactionSource, T0, TAINT_WALLET, fixtureSource, solTransfer } from "./helpers";
+
+describe("FixtureTransactionSource", () => {
+  it("replays a recording with its coverage and balance", async () => {
+    const source = fixtureSource("taint");
+    const result = await source.getHistory(TAINT_WALLET);
+
+    assert.equal(result.transactions.length, 4);
+    assert.equal(result.coverage.reachedStart, true);
+    assert.equal(result.coverage.simulated, false);
+    assert.equal(await source.getBalance(TAINT_WALLET), 14.8);
+  });
+
+  it("replays a counterparty's own recording from a directory", async () => {
+    const result = await fixtureSource("deposit-address").getHistory("EPoAUkjdMxMFi2zz6wzUb5NeyF8Tzd7nV1m5ABQ5he2p");
+    assert.ok(result.transactions.length > 0);
+  });
+
+  it("gives an unrecorded address an empty history that does not claim its start", async () => {
+    const result = await fixtureSource("taint").getHistory(DEMO_WALLET);
+
+    assert.equal(result.transactions.length, 0);
+    assert.equal(result.coverage.reachedStart, false);
+  });
+
+  it("rejects a balance the recording does not have instead of reporting 0", async () => {
+    const source = fixtureSource("deposit-address");
+    await assert.rejects(source.getBalance("EPoAUkjdMxMFi2zz6wzUb5NeyF8Tzd7nV1m5ABQ5he2p"), /No balance recorded/);
+  });
+
+  it("fills the wallet placeholder of inline data with the first address replayed", async () => {
+    const source = new FixtureTransactionSource([solTransfer("sig-1", T0, "Sender1111111111111111111111111111111111111", WALLET_PLACEHOLDER, 1)]);
+    const result = await source.getHistory(DEMO_WALLET);
+
+    assert.equal(result.transactions[0]?.nativeTransfers[0]?.toUserAccount, DEMO_WALLET);
+    assert.equal((await source.getHistory(DEPOSIT_WALLET)).transactions.length, 0);
+  });
+
+  it("applies the requested depth to the recording", async () => {
+    const source = fixtureSource("taint");
+    const result = await source.getHistory(TAINT_WALLET, { maxTransactions: 1 });
+
+    assert.equal(result.transactions.length, 1);
+    assert.equal(result.coverage.truncated, true);
+  });
+});
+
+describe("RecordingTransactionSource", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "scope-recording-"));
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it("saves what it returns so the fixture source can replay it", async () => {
+    const history = [solTransfer("sig-1", T0, DEPOSIT_WALLET, DEMO_WALLET, 2)];
+    const recorder = new RecordingTransactionSource(new MemoryTransactionSource({ [DEMO_WALLET]: history }), directory);
+    await recorder.getHistory(DEMO_WALLET);
+    await recorder.getBalance(DEMO_WALLET);
+
+    const replay = new FixtureTransactionSource(directory);
+    assert.deepEqual((await replay.getHistory(DEMO_WALLET)).transactions, history);
+    assert.equal(await replay.getBalance(DEMO_WALLET), 1);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Funding source detector
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectFundingSource } from "../src/detectors/funding";
+import { analyzeWallet } from "../src/engine";
+import { applyDepth } from "../src/services/history";
+import {
+  DEMO_WALLET,
+  DEPOSIT_WALLET,
+  MemoryTransactionSource,
+  address,
+  quietHistory,
+  recordedHistory,
+} from "./helpers";
+
+const WALLET = address(1);
+
+/**
+ * A source whose analyzed history stops short of the wallet's first transaction,
+ * and whose walk back to that transaction fails
+ */
+function unreachableStartSource() {
+  const history = quietHistory(WALLET);
+  const source = new MemoryTransactionSource({ [WALLET]: history });
+  source.getHistory = async () => {
+    const result = applyDepth(history, {});
+    return { ...result, coverage: { ...result.coverage, reachedStart: false } };
+  };
+  source.getEarliestHistory = async () => {
+    throw new Error("HTTP 503: Service Unavailable");
+  };
+  return { history, source };
+}
+
+describe("detectFundingSource", () => {
+  it("flags a wallet first funded by an exchange", async () => {
+    const { source, transactions, coverage } = await recordedHistory("deposit-address", DEPOSIT_WALLET);
+    const result = await detectFundingSource(transactions, DEPOSIT_WALLET, source, coverage);
+
+    assert.equal(result.detected, true);
+    assert.equal(result.complete, true);
+    assert.equal(result.kycOrigin, true);
+    assert.equal(result.funders[0]?.entity, "Binance");
+  });
+
+  it("flags a wallet first funded by one it later paid back", async () => {
+    const { source, transactions, coverage } = await recordedHistory("demo-wallet", DEMO_WALLET);
+    const result = await detectFundingSource(transactions, DEMO_WALLET, source, coverage);
+
+    assert.equal(result.funders[0]?.kind, "own_wallet");
+    assert.ok(result.riskContribution > 0);
+  });
+
+  it("does not penalize funding from an unrelated wallet", async () => {
+    const history = quietHistory(WALLET);
+    const source = new MemoryTransactionSource({ [WALLET]: history });
+    const { coverage } = await source.getHistory(WALLET);
+    const result = await detectFundingSource(history, WALLET, source, coverage);
+
+    assert.equal(result.detected, true);
+    assert.equal(result.kycOrigin, false);
+    assert.equal(result.funders[0]?.address, address(2));
+    assert.equal(result.riskContribution, 0);
+  });
+
+  it("rejects instead of reporting no funder when the first transactions cannot be fetched", async () => {
+    const { history, source } = unreachableStartSource();
+    const { coverage } = await source.getHistory(WALLET);
+
+    await assert.rejects(detectFundingSource(history, WALLET, source, coverage), /HTTP 503/);
+  });
+
+  it("fails its stage and degrades the report when the first transactions cannot be fetched", async () => {
+    const { source } = unreachableStartSource();
+    const report = await analyzeWallet(WALLET, { source });
+
+    assert.equal(report.status, "degraded");
+    assert.equal(report.stages.find(stage => stage.id === "detector:fundingSource")?.status, "failed");
+    assert.equal(report.deductions.some(d => d.id === "fundingSource"), false);
+  });
+});
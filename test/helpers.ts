@@ -0,0 +1,163 @@
+/**
+ * Test Helpers
+ * Recorded fixtures, transaction builders and an in-memory transaction source
+ */
+
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { PublicKey } from "@solana/web3.js";
+import { FixtureTransactionSource } from "../src/services/fixture";
+import { applyDepth } from "../src/services/history";
+import type { FetchOptions, HistoryDepth, HistoryResult } from "../src/services/history";
+import type { ParsedTransaction } from "../src/services/helius";
+import type { TransactionSource } from "../src/services/source";
+
+export const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+
+// Analyzed wallets of the recorded scenarios in test/fixtures
+export const DEMO_WALLET = "vines1vzrYbzLMRdu58ou5XTby4qAqVRLmqo36NKPTg";
+export const DEPOSIT_WALLET = "DSj8cmfspS5UJhJrHU3Ds47EgzsF3gLPNixudeDCu9oT";
+export const FEE_PAYER_WALLET = "5iMKR9iNgZ6hiMcunQ6QVHfQLJrEQzZF6odBH8bE9wKb";
+export const TAINT_WALLET = "FM1hp2qonscyeUtseXmFhTg7faHgXaDV1tSDqwyaKj4q";
+
+// Labeled in src/labels/default-labels.json
+export const BINANCE_HOT_WALLET = "5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9";
+export const COINBASE_HOT_WALLET = "2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm";
+
+export const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+export const DAY = 86400;
+export const T0 = 1_767_225_600; // 2026-01-01T00:00:00Z
+
+/**
+ * Replay a recorded scenario from test/fixtures/<name>
+ */
+export function fixtureSource(name: string): FixtureTransactionSource {
+  return new FixtureTransactionSource(path.join(FIXTURES_DIR, name));
+}
+
+/**
+ * A recorded scenario's source together with the analyzed wallet's history
+ */
+export async function recordedHistory(name: string, wallet: string) {
+  const source = fixtureSource(name);
+  const history = await source.getHistory(wallet);
+  return { source, ...history };
+}
+
+/**
+ * A valid, deterministic address for synthetic counterparties
+ */
+export function address(seed: number): string {
+  return new PublicKey(new Uint8Array(32).fill(seed)).toBase58();
+}
+
+/**
+ * A transaction moving SOL between two accounts
+ */
+export function solTransfer(
+  signature: string,
+  timestamp: number,
+  from: string,
+  to: string,
+  sol: number,
+  feePayer: string = from
+): ParsedTransaction {
+  return {
+    ...emptyTransaction(signature, timestamp, feePayer),
+    type: "TRANSFER",
+    source: "SYSTEM_PROGRAM",
+    nativeTransfers: [{ fromUserAccount: from, toUserAccount: to, amount: Math.round(sol * 1e9) }],
+  };
+}
+
+/**
+ * A transaction moving tokens between two wallets
+ */
+export function tokenTransfer(
+  signature: string,
+  timestamp: number,
+  from: string,
+  to: string,
+  mint: string,
+  amount: number,
+  feePayer: string = from
+): ParsedTransaction {
+  return {
+    ...emptyTransaction(signature, timestamp, feePayer),
+    type: "TRANSFER",
+    source: "SOLANA_PROGRAM_LIBRARY",
+    tokenTransfers: [{ fromUserAccount: from, toUserAccount: to, mint, tokenAmount: amount, tokenStandard: "Fungible" }],
+  };
+}
+
+/**
+ * A wallet that was funded once by address(2) and then paid a few ordinary counterparties, days apart
+ */
+export function quietHistory(wallet: string): ParsedTransaction[] {
+  return [
+    solTransfer("quiet-in", T0, address(2), wallet, 3),
+    ...Array.from({ length: 8 }, (_, i) => solTransfer(`quiet-${i}`, T0 + (i + 1) * 2 * DAY, wallet, address(10 + i), 0.2)),
+  ];
+}
+
+export function emptyTransaction(signature: string, timestamp: number, feePayer: string): ParsedTransaction {
+  return {
+    signature,
+    timestamp,
+    type: "UNKNOWN",
+    source: "UNKNOWN",
+    description: "",
+    fee: 5000,
+    feePayer,
+    accountData: [],
+    tokenTransfers: [],
+    nativeTransfers: [],
+    events: {},
+  };
+}
+
+/**
+ * Serves fixed histories by address, with the same depth rules as the fixture source
+ */
+export class MemoryTransactionSource implements TransactionSource {
+  readonly name = "memory";
+  private histories: Record<string, ParsedTransaction[]>;
+
+  constructor(histories: Record<string, ParsedTransaction[]>) {
+    this.histories = histories;
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  async getHistory(address: string, depth: HistoryDepth = {}, options: FetchOptions = {}): Promise<HistoryResult> {
+    options.signal?.throwIfAborted();
+    return applyDepth(this.histories[address] ?? [], depth);
+  }
+
+  async getEarliestHistory(address: string, count: number): Promise<HistoryResult> {
+    const history = applyDepth(this.histories[address] ?? [], { fullHistory: true });
+    return applyDepth(history.transactions.slice(-count), { maxTransactions: count });
+  }
+
+  async getBalance(): Promise<number> {
+    return 1;
+  }
+}
+
+/**
+ * Encode bytes as base58, the way instruction data arrives from Helius and the RPC
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  const alphabet = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+  let value = BigInt(`0x${Buffer.from(bytes).toString("hex") || "0"}`);
+  let text = "";
+  while (value > BigInt(0)) {
+    text = (alphabet[Number(value % BigInt(58))] ?? "") + text;
+    value /= BigInt(58);
+  }
+  const leadingZeros = bytes.findIndex(b => b !== 0);
+  return "1".repeat(leadingZeros === -1 ? bytes.length : leadingZeros) + text;
+}
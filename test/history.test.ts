@@ -0,0 +1,182 @@
+/**
+ * History paging and coverage
+ */
+
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HeliusService } from "../src/services/helius";
+import type { ParsedTransaction } from "../src/services/helius";
+import { applyDepth, summarizeCoverage } from "../src/services/history";
+import { DEMO_WALLET, emptyTransaction } from "./helpers";
+
+const NEWEST_TIMESTAMP = 1_767_225_600;
+
+// Newest first, one transaction an hour
+function generateHistory(count: number): ParsedTransaction[] {
+  return Array.from({ length: count }, (_, i) =>
+    emptyTransaction(`sig-${i}`, NEWEST_TIMESTAMP - i * 3600, DEMO_WALLET)
+  );
+}
+
+/**
+ * Serves a history the way the Helius REST API pages it: `limit` transactions older than `before`,
+ * stopping at `until`. Pages listed in `failPages` (1-based) answer with a 500.
+ */
+function stubHeliusApi(history: ParsedTransaction[], failPages: number[] = []): { requests: URL[] } {
+  const requests: URL[] = [];
+  globalThis.fetch = async (input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    requests.push(url);
+    if (failPages.includes(requests.length)) {
+      return new Response("upstream error", { status: 500, statusText: "Internal Server Error" });
+    }
+
+    const before = url.searchParams.get("before");
+    const until = url.searchParams.get("until");
+    const limit = Number(url.searchParams.get("limit"));
+    let start = before ? history.findIndex(tx => tx.signature === before) + 1 : 0;
+    const page: ParsedTransaction[] = [];
+    while (page.length < limit && start < history.length) {
+      const tx = history[start++];
+      if (!tx || tx.signature === until) break;
+      page.push(tx);
+    }
+    return Response.json(page);
+  };
+  return { requests };
+}
+
+describe("HeliusService.getHistory", () => {
+  const originalFetch = globalThis.fetch;
+  const originalKey = process.env.HELIUS_API_KEY;
+
+  beforeEach(() => {
+    process.env.HELIUS_API_KEY = "test-key";
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    if (originalKey === undefined) delete process.env.HELIUS_API_KEY;
+    else process.env.HELIUS_API_KEY = originalKey;
+  });
+
+  it("pages back with the before cursor until the transaction count is reached", async () => {
+    const { requests } = stubHeliusApi(generateHistory(250));
+    const result = await new HeliusService().getHistory(DEMO_WALLET, { maxTransactions: 150 });
+
+    assert.equal(result.transactions.length, 150);
+    assert.deepEqual(requests.map(url => url.searchParams.get("before")), [null, "sig-99"]);
+    assert.deepEqual(requests.map(url => url.searchParams.get("limit")), ["100", "50"]);
+    assert.equal(result.coverage.mode, "count");
+    assert.equal(result.coverage.pagesFetched, 2);
+    assert.equal(result.coverage.reachedStart, false);
+    assert.equal(result.coverage.truncated, true);
+    assert.equal(result.coverage.oldestSignature, "sig-149");
+  });
+
+  it("reports the wallet's start when a full-history walk runs out of pages", async () => {
+    stubHeliusApi(generateHistory(250));
+    const result = await new HeliusService().getHistory(DEMO_WALLET, { fullHistory: true });
+
+    assert.equal(result.transactions.length, 250);
+    assert.equal(result.coverage.mode, "full");
+    assert.equal(result.coverage.pagesFetched, 3);
+    assert.equal(result.coverage.reachedStart, true);
+    assert.equal(result.coverage.truncated, false);
+  });
+
+  it("stops at the time window without calling it truncated", async () => {
+    stubHeliusApi(generateHistory(250));
+    const sinceTimestamp = NEWEST_TIMESTAMP - 119 * 3600;
+    const result = await new HeliusService().getHistory(DEMO_WALLET, { sinceTimestamp });
+
+    assert.equal(result.transactions.length, 120);
+    assert.ok(result.transactions.every(tx => tx.timestamp >= sinceTimestamp));
+    assert.equal(result.coverage.mode, "time_window");
+    assert.equal(result.coverage.reachedStart, false);
+    assert.equal(result.coverage.truncated, false);
+  });
+
+  it("stops at the until cursor without claiming the wallet's start", async () => {
+    stubHeliusApi(generateHistory(250));
+    const result = await new HeliusService().getHistory(DEMO_WALLET, { untilSignature: "sig-30" });
+
+    assert.equal(result.transactions.length, 30);
+    assert.equal(result.coverage.reachedStart, false);
+    assert.equal(result.coverage.truncated, false);
+  });
+
+  it("keeps the pages fetched before an error, marked as not reaching the start", async () => {
+    stubHeliusApi(generateHistory(250), [2]);
+    const result = await new HeliusService().getHistory(DEMO_WALLET, { fullHistory: true });
+
+    assert.equal(result.transactions.length, 100);
+    assert.equal(result.coverage.reachedStart, false);
+    assert.equal(result.coverage.truncated, true);
+    assert.equal(result.coverage.simulated, false);
+  });
+
+  it("rejects when the first page fails instead of serving demo data", async () => {
+    stubHeliusApi(generateHistory(250), [1]);
+    await assert.rejects(new HeliusService().getHistory(DEMO_WALLET), /HTTP 500/);
+  });
+
+  it("rejects with the abort reason when cancelled", async () => {
+    stubHeliusApi(generateHistory(250));
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+    await assert.rejects(
+      new HeliusService().getHistory(DEMO_WALLET, {}, { signal: controller.signal }),
+      /cancelled/
+    );
+  });
+
+  it("serves demo history marked simulated when no API key is set", async () => {
+    delete process.env.HELIUS_API_KEY;
+    const { requests } = stubHeliusApi(generateHistory(250));
+    const result = await new HeliusService().getHistory(DEMO_WALLET);
+
+    assert.equal(requests.length, 0);
+    assert.ok(result.transactions.length > 0);
+    assert.equal(result.coverage.simulated, true);
+  });
+});
+
+describe("applyDepth", () => {
+  const history = generateHistory(10);
+
+  it("caps the count and marks older history as truncated", () => {
+    const result = applyDepth(history, { maxTransactions: 4 });
+    assert.deepEqual(result.transactions.map(tx => tx.signature), ["sig-0", "sig-1", "sig-2", "sig-3"]);
+    assert.equal(result.coverage.truncated, true);
+  });
+
+  it("treats before and until as exclusive cursors", () => {
+    const result = applyDepth(history, { beforeSignature: "sig-2", untilSignature: "sig-6" });
+    assert.deepEqual(result.transactions.map(tx => tx.signature), ["sig-3", "sig-4", "sig-5"]);
+    assert.equal(result.coverage.reachedStart, false);
+    assert.equal(result.coverage.truncated, false);
+  });
+
+  it("sorts newest first and reaches the start of a short history", () => {
+    const result = applyDepth([...history].reverse(), {});
+    assert.equal(result.transactions[0]?.signature, "sig-0");
+    assert.equal(result.coverage.reachedStart, true);
+    assert.equal(result.coverage.oldestSignature, "sig-9");
+    assert.equal(result.coverage.newestTimestamp, NEWEST_TIMESTAMP);
+  });
+});
+
+describe("summarizeCoverage", () => {
+  it("picks the mode from the requested depth", () => {
+    assert.equal(summarizeCoverage([], {}, 0, true).mode, "count");
+    assert.equal(summarizeCoverage([], { sinceTimestamp: 0 }, 0, true).mode, "time_window");
+    assert.equal(summarizeCoverage([], { fullHistory: true }, 0, true).mode, "full");
+  });
+
+  it("only calls history truncated when neither the start nor the window was reached", () => {
+    assert.equal(summarizeCoverage([], {}, 1, false).truncated, true);
+    assert.equal(summarizeCoverage([], {}, 1, false, true).truncated, false);
+    assert.equal(summarizeCoverage([], {}, 1, true).truncated, false);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Entity label registry and label files
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LabelRegistry, createLabelRegistry, loadLabelFile } from "../src/labels/registry";
+import { BINANCE_HOT_WALLET, address } from "./helpers";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "scope-labels-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+function labelFile(name: string, text: string): string {
+  const file = path.join(directory, name);
+  fs.writeFileSync(file, text);
+  return file;
+}
+
+describe("LabelRegistry", () => {
+  it("labels the default exchange hot wallets and finds entities by alias", () => {
+    const registry = createLabelRegistry();
+
+    assert.equal(registry.get(BINANCE_HOT_WALLET)?.entity, "Binance");
+    assert.equal(registry.get(BINANCE_HOT_WALLET, "cex")?.labelSet, "default");
+    assert.equal(registry.get(BINANCE_HOT_WALLET, "mixer"), null);
+    assert.ok(registry.findEntity("binance.com").some(label => label.address === BINANCE_HOT_WALLET));
+    assert.ok(registry.ofType("cex").length > 0);
+  });
+
+  it("lets a later set override an address and its name lookups", () => {
+    const registry = new LabelRegistry();
+    registry.addSet({ name: "public", version: "1", labels: [{ address: address(5), entity: "Old Name", type: "cex" }] });
+    registry.addSet({ name: "team", version: "3", labels: [{ address: address(5), entity: "New Name", type: "custodian" }] });
+
+    assert.equal(registry.get(address(5))?.entity, "New Name");
+    assert.deepEqual(registry.findEntity("old name"), []);
+    assert.equal(registry.size, 1);
+    assert.equal(registry.version, "public@1+team@3");
+  });
+
+  it("skips labels with an unknown type or a confidence that is not a number", () => {
+    const registry = new LabelRegistry();
+    const count = registry.addSet({
+      name: "mixed",
+      version: "1",
+      labels: [
+        { address: address(6), entity: "Valid", type: "dex", confidence: 2 },
+        { address: address(7), entity: "Bad Type", type: "casino" as "dex" },
+        { address: address(8), entity: "Bad Confidence", type: "dex", confidence: Number("high") },
+      ],
+    });
+
+    assert.equal(count, 1);
+    assert.equal(registry.get(address(6))?.confidence, 1);
+    assert.equal(registry.get(address(8)), null);
+  });
+});
+
+describe("loadLabelFile", () => {
+  it("reads a CSV set with its name and version comments", () => {
+    const file = labelFile("team.csv", [
+      "# name: team-private",
+      "# version: 3",
+      "address,entity,type,aliases,confidence",
+      `${address(9)},Desk One,market_maker,D1|Desk 1,0.6`,
+      `${address(10)},Desk Two,market_maker,,`,
+    ].join("\n"));
+    const set = loadLabelFile(file);
+
+    assert.equal(set.name, "team-private");
+    assert.equal(set.version, "3");
+    assert.deepEqual(set.labels[0]?.aliases, ["D1", "Desk 1"]);
+    assert.equal(set.labels[0]?.confidence, 0.6);
+    assert.equal(set.labels[1]?.confidence, undefined);
+  });
+
+  it("leaves a CSV row whose confidence is not a number out of the registry", () => {
+    const file = labelFile("typo.csv", [
+      "address,entity,type,aliases,confidence",
+      `${address(11)},Typo Exchange,cex,,high`,
+      `${address(12)},Good Exchange,cex,,0.8`,
+    ].join("\n"));
+    const registry = createLabelRegistry([file]);
+
+    assert.equal(registry.get(address(11)), null);
+    assert.equal(registry.get(address(12))?.confidence, 0.8);
+    assert.equal(registry.sets.at(-1)?.count, 1);
+  });
+
+  it("loads every JSON and CSV file in a directory and skips files that do not parse", () => {
+    const sets = fs.mkdtempSync(path.join(directory, "sets-"));
+    fs.writeFileSync(path.join(sets, "a.json"), JSON.stringify({ name: "a", version: "2", labels: [{ address: address(13), entity: "A", type: "bridge" }] }));
+    fs.writeFileSync(path.join(sets, "b.json"), "{ not json");
+    fs.writeFileSync(path.join(sets, "notes.txt"), "ignored");
+    const registry = createLabelRegistry([sets]);
+
+    assert.equal(registry.get(address(13))?.entity, "A");
+    assert.deepEqual(registry.sets.map(set => set.name), ["default", "a"]);
+  });
+});
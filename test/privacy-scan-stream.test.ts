@@ -0,0 +1,79 @@
+/**
+ * Server-Sent Events privacy scan route
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { NextRequest } from "next/server";
+import { GET } from "../src/app/api/privacy-scan/stream/route";
+import { DEPOSIT_WALLET, FIXTURES_DIR } from "./helpers";
+
+interface StreamEvent {
+  event: string;
+  data: Record<string, unknown>;
+}
+
+function streamRequest(query: string, signal?: AbortSignal): NextRequest {
+  return new NextRequest(`http://localhost/api/privacy-scan/stream?${query}`, signal ? { signal } : {});
+}
+
+/**
+ * Split an SSE body into its events
+ */
+function parseEvents(text: string): StreamEvent[] {
+  return text.split("\n\n").filter(Boolean).map(block => {
+    const [eventLine = "", dataLine = ""] = block.split("\n");
+    return { event: eventLine.replace("event: ", ""), data: JSON.parse(dataLine.replace("data: ", "")) };
+  });
+}
+
+describe("GET /api/privacy-scan/stream", () => {
+  const env = { source: process.env.TRANSACTION_SOURCE, path: process.env.FIXTURE_PATH };
+
+  before(() => {
+    process.env.TRANSACTION_SOURCE = "fixture";
+    process.env.FIXTURE_PATH = path.join(FIXTURES_DIR, "deposit-address");
+  });
+  after(() => {
+    for (const [key, value] of [["TRANSACTION_SOURCE", env.source], ["FIXTURE_PATH", env.path]] as const) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it("rejects an invalid address with a 400 before streaming", async () => {
+    const response = await GET(streamRequest("address=not-a-wallet"));
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: "Invalid Solana address format" });
+  });
+
+  it("streams progress events and ends with the serialized report", async () => {
+    const response = await GET(streamRequest(`address=${DEPOSIT_WALLET}&profile=retail-privacy`));
+    const events = parseEvents(await response.text());
+
+    assert.equal(response.headers.get("Content-Type"), "text/event-stream; charset=utf-8");
+    assert.equal(events[0]?.event, "analysis-started");
+    assert.ok(events.some(e => e.event === "stage-finished"));
+    assert.deepEqual(events.slice(-2).map(e => e.event), ["analysis-finished", "report"]);
+
+    const report = events.at(-1)?.data["report"] as { score: number; analyzedAt: unknown };
+    assert.equal(report.score, 53);
+    assert.equal(typeof report.analyzedAt, "string");
+  });
+
+  it("closes the stream when the client disconnects mid-scan", async () => {
+    const controller = new AbortController();
+    const response = await GET(streamRequest(`address=${DEPOSIT_WALLET}`, controller.signal));
+    const reader = response.body!.getReader();
+
+    const first = await reader.read();
+    assert.match(new TextDecoder().decode(first.value), /^event: analysis-started/);
+    controller.abort();
+    await reader.cancel();
+
+    const rest = await reader.read();
+    assert.equal(rest.done, true);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Scoring profiles: built-in lookup, JSON/YAML files and validation
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BUILT_IN_PROFILES, getBuiltInProfile, loadScoringProfile, resolveScoringProfile } from "../src/scoring/profile";
+import { parseScanRequest } from "../src/app/api/privacy-scan/request";
+import { DEMO_WALLET } from "./helpers";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "scope-profiles-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+function profileFile(name: string, text: string): string {
+  const file = path.join(directory, name);
+  fs.writeFileSync(file, text);
+  return file;
+}
+
+describe("built-in profiles", () => {
+  it("resolves every built-in profile by name", () => {
+    for (const name of Object.keys(BUILT_IN_PROFILES)) {
+      assert.equal(resolveScoringProfile(name).name, name);
+    }
+  });
+
+  it("does not treat inherited object keys as profile names", () => {
+    assert.equal(getBuiltInProfile("constructor"), undefined);
+    assert.equal(getBuiltInProfile("toString"), undefined);
+    assert.throws(() => resolveScoringProfile("constructor"), /Unknown scoring profile "constructor"/);
+  });
+
+  it("accepts only built-in profiles in scan requests", () => {
+    const accepted = parseScanRequest({ address: DEMO_WALLET, profile: "dao-treasury" });
+    assert.ok("request" in accepted);
+    assert.equal(accepted.request.profile, "dao-treasury");
+
+    for (const profile of ["constructor", "toString", "./profiles/custom.json"]) {
+      assert.ok("error" in parseScanRequest({ address: DEMO_WALLET, profile }));
+    }
+  });
+});
+
+describe("loadScoringProfile", () => {
+  it("overlays a YAML file on the profile it extends", () => {
+    const file = profileFile("strict.yaml", [
+      "name: strict",
+      "version: 2",
+      "extends: institutional-compliance",
+      "taint:",
+      "  cap: 40",
+    ].join("\n"));
+    const profile = loadScoringProfile(file);
+    const base = BUILT_IN_PROFILES["institutional-compliance"];
+
+    assert.equal(profile.name, "strict");
+    assert.equal(profile.version, "2");
+    assert.equal(profile.taint.cap, 40);
+    assert.equal(profile.taint.exposurePoints, base?.taint.exposurePoints);
+    assert.deepEqual(profile.cex, base?.cex);
+  });
+
+  it("extends retail-privacy when a JSON file names no base", () => {
+    const file = profileFile("custom.json", JSON.stringify({ name: "custom", version: "1.0.0", dust: { cap: 1 } }));
+    const profile = resolveScoringProfile(file);
+
+    assert.equal(profile.dust.cap, 1);
+    assert.deepEqual(profile.thresholds, BUILT_IN_PROFILES["retail-privacy"]?.thresholds);
+  });
+
+  it("rejects an empty YAML file with a readable error", () => {
+    const file = profileFile("empty.yaml", "");
+    assert.throws(() => loadScoringProfile(file), /must contain an object/);
+  });
+
+  it("rejects a file that extends an unknown or inherited profile name", () => {
+    for (const base of ["nonexistent", "toString"]) {
+      const file = profileFile(`extends-${base}.json`, JSON.stringify({ name: "bad", version: "1", extends: base }));
+      assert.throws(() => loadScoringProfile(file), /extends unknown profile/);
+    }
+  });
+
+  it("rejects negative weights and thresholds out of order", () => {
+    const negative = profileFile("negative.json", JSON.stringify({ name: "bad", version: "1", cex: { depositPoints: -1 } }));
+    assert.throws(() => loadScoringProfile(negative), /cex.depositPoints must be a non-negative number/);
+
+    const thresholds = profileFile("thresholds.json", JSON.stringify({ name: "bad", version: "1", thresholds: { critical: 60, high: 40, medium: 70 } }));
+    assert.throws(() => loadScoringProfile(thresholds), /thresholds must satisfy/);
+  });
+
+  it("names the built-in profiles when the file does not exist", () => {
+    assert.throws(() => loadScoringProfile(path.join(directory, "missing.yaml")), /Built-in profiles: retail-privacy/);
+  });
+});
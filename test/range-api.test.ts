@@ -0,0 +1,129 @@
+/**
+ * Range API client, its response mapping and the local stand-in server
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "child_process";
+import type { ChildProcessWithoutNullStreams } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { RangeApiClient, toRangeCheckResult } from "../src/services/range-api";
+import { checkRisk, getRangeClient, setRangeClient } from "../src/services/range";
+import { HttpStatusError } from "../src/utils/concurrency";
+import { address } from "./helpers";
+
+describe("toRangeCheckResult", () => {
+  it("marks an address attributed to a sanctions category as sanctioned", () => {
+    const result = toRangeCheckResult(address(1), {
+      riskScore: 10,
+      riskLevel: "CRITICAL RISK",
+      attribution: { entity: "OFAC SDN", category: "Sanctions" },
+    });
+
+    assert.equal(result.status, "Sanctioned");
+    assert.equal(result.riskScore, 100);
+    assert.deepEqual(result.details.sanctionLists, ["OFAC SDN"]);
+  });
+
+  it("flags a high score or a direct malicious link and notes the linked categories", () => {
+    const highScore = toRangeCheckResult(address(2), { riskScore: 7, riskLevel: "High risk" });
+    const direct = toRangeCheckResult(address(3), {
+      riskScore: 2,
+      riskLevel: "Low risk",
+      maliciousAddressesFound: [{ address: address(3), distance: 0, category: "Exploit" }],
+    });
+
+    assert.equal(highScore.status, "Flagged");
+    assert.equal(direct.status, "Flagged");
+    assert.equal(direct.details.linkedToExploit, true);
+    assert.equal(direct.details.linkedToMixer, false);
+  });
+
+  it("reports a low score with only distant links as clean without flags", () => {
+    const result = toRangeCheckResult(address(4), {
+      riskScore: 3,
+      riskLevel: "Low risk",
+      maliciousAddressesFound: [{ address: address(5), distance: 3, category: "Mixer" }],
+    });
+
+    assert.equal(result.status, "Clean");
+    assert.deepEqual(result.details.flags, []);
+    assert.equal(result.details.linkedToMixer, true);
+  });
+});
+
+describe("RangeApiClient against the stand-in", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "scope-range-"));
+  const port = 20_000 + Math.floor(Math.random() * 20_000);
+  const baseUrl = `http://localhost:${port}`;
+  const sanctioned = address(10);
+  const flaky = address(11);
+  const rateLimited = address(12);
+  const malformed = address(13);
+  const original = getRangeClient();
+  let server: ChildProcessWithoutNullStreams;
+
+  before(async () => {
+    const config = path.join(directory, "standin.json");
+    fs.writeFileSync(config, JSON.stringify({
+      apiKey: "secret",
+      addresses: {
+        [sanctioned]: { riskScore: 10, riskLevel: "CRITICAL", attribution: { entity: "OFAC SDN", category: "Sanctions" } },
+        [flaky]: { status: 503, failTimes: 1, retryAfterSeconds: 2 },
+        [rateLimited]: { status: 429, failTimes: 2, retryAfterSeconds: 0 },
+        [malformed]: { riskScore: "high" },
+      },
+    }));
+    server = spawn(process.execPath, ["--import", "tsx", "src/range-standin.ts", "--port", String(port), "--config", config]);
+    await new Promise<void>((resolve, reject) => {
+      server.stdout.on("data", (chunk: Buffer) => {
+        if (chunk.toString().includes("listening")) resolve();
+      });
+      server.once("exit", code => reject(new Error(`Stand-in exited with code ${code}`)));
+    });
+  });
+  after(() => {
+    setRangeClient(original);
+    server.kill();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("maps a stand-in response to a sanctioned result", async () => {
+    const result = await new RangeApiClient(baseUrl, "secret").lookup(sanctioned);
+
+    assert.equal(result.status, "Sanctioned");
+    assert.equal(result.provider, "range");
+    assert.equal(result.simulated, false);
+  });
+
+  it("rejects a request without the API key", async () => {
+    await assert.rejects(
+      new RangeApiClient(baseUrl, undefined).lookup(sanctioned),
+      (error: unknown) => error instanceof HttpStatusError && error.status === 401
+    );
+  });
+
+  it("surfaces the status and Retry-After of a failed response", async () => {
+    const client = new RangeApiClient(baseUrl, "secret");
+
+    await assert.rejects(
+      client.lookup(flaky),
+      (error: unknown) => error instanceof HttpStatusError && error.status === 503 && error.retryAfterMs === 2000
+    );
+    assert.equal((await client.lookup(flaky)).status, "Clean");
+  });
+
+  it("rejects a response without a risk score", async () => {
+    await assert.rejects(new RangeApiClient(baseUrl, "secret").lookup(malformed), /missing riskScore/);
+  });
+
+  it("retries rate-limited lookups through checkRisk until one succeeds", async () => {
+    setRangeClient(new RangeApiClient(baseUrl, "secret"));
+    const result = await checkRisk(rateLimited);
+
+    assert.equal(result.status, "Clean");
+    assert.equal(result.provider, "range");
+  });
+});
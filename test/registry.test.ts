@@ -0,0 +1,102 @@
+/**
+ * Detector registry: registration order, plugin modules and registry-driven reports
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { analyzeWallet, formatReportForConsole } from "../src/engine";
+import { getRegisteredDetectors, loadDetectorModules, registerDetector, unregisterDetector } from "../src/detectors/registry";
+import type { Detector } from "../src/detectors/registry";
+import { DEMO_WALLET, MemoryTransactionSource, T0, address, solTransfer } from "./helpers";
+
+function plugin(id: string, riskContribution: number): Detector<{ detected: boolean; id: string }> {
+  return {
+    id,
+    name: `Plugin ${id}`,
+    category: "Plugin",
+    run: () => ({
+      result: { detected: riskContribution > 0, id },
+      warnings: [{ severity: "medium", message: `${id} found something` }],
+      actions: [],
+      riskContribution,
+    }),
+    emptyResult: () => ({ detected: false, id }),
+    formatConsole: result => (result.detected ? [`🧪 PLUGIN ${result.id.toUpperCase()}`, "   - found"] : []),
+  };
+}
+
+describe("detector registry", () => {
+  it("starts with the built-in detectors", () => {
+    const ids = getRegisteredDetectors().map(detector => detector.id);
+
+    assert.ok(ids.includes("cex"));
+    assert.ok(ids.includes("taint"));
+    assert.ok(ids.includes("bridge"));
+  });
+
+  it("runs a registered detector after the built-ins and removes it again", () => {
+    registerDetector(plugin("plugin-order", 0));
+    assert.equal(getRegisteredDetectors().at(-1)?.id, "plugin-order");
+
+    assert.equal(unregisterDetector("plugin-order"), true);
+    assert.equal(unregisterDetector("plugin-order"), false);
+    assert.equal(getRegisteredDetectors().some(detector => detector.id === "plugin-order"), false);
+  });
+
+  it("replaces a detector registered under the same id", () => {
+    registerDetector(plugin("plugin-replace", 1));
+    registerDetector(plugin("plugin-replace", 2));
+
+    assert.equal(getRegisteredDetectors().filter(detector => detector.id === "plugin-replace").length, 1);
+    unregisterDetector("plugin-replace");
+  });
+});
+
+describe("loadDetectorModules", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "scope-detectors-"));
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it("registers the detectors a module exports", async () => {
+    const file = path.join(directory, "plugins.mjs");
+    fs.writeFileSync(file, [
+      "const detector = (id) => ({ id, name: id, category: 'Plugin', run: () => ({ result: {}, warnings: [], actions: [], riskContribution: 0 }), emptyResult: () => ({}) });",
+      "export const detectors = [detector('module-a'), detector('module-b')];",
+    ].join("\n"));
+
+    assert.deepEqual(await loadDetectorModules([file]), ["module-a", "module-b"]);
+    unregisterDetector("module-a");
+    unregisterDetector("module-b");
+  });
+
+  it("rejects a module that exports no detector", async () => {
+    const file = path.join(directory, "empty.mjs");
+    fs.writeFileSync(file, "export const nothing = 1;\n");
+
+    await assert.rejects(loadDetectorModules([file]), /does not export a detector/);
+  });
+});
+
+describe("analyzeWallet with plugin detectors", () => {
+  const source = new MemoryTransactionSource({ [DEMO_WALLET]: [solTransfer("sig-1", T0, address(2), DEMO_WALLET, 1)] });
+
+  it("reports a plugin's result, deduction, warnings and console section under its id", async () => {
+    const detector = plugin("plugin-report", 7);
+    const report = await analyzeWallet(DEMO_WALLET, { source, detectors: [detector] });
+
+    assert.deepEqual(report.detectorResults["plugin-report"], { detected: true, id: "plugin-report" });
+    assert.deepEqual(report.deductions.map(d => [d.id, d.points]), [["plugin-report", 7]]);
+    assert.equal(report.score, 93);
+    assert.ok(report.warnings.some(warning => warning.category === "Plugin" && warning.message === "plugin-report found something"));
+    assert.match(formatReportForConsole(report, [detector]), /PLUGIN PLUGIN-REPORT/);
+  });
+
+  it("leaves a plugin's console section out when it found nothing", async () => {
+    const detector = plugin("plugin-quiet", 0);
+    const report = await analyzeWallet(DEMO_WALLET, { source, detectors: [detector] });
+
+    assert.doesNotMatch(formatReportForConsole(report, [detector]), /PLUGIN-QUIET/);
+  });
+});
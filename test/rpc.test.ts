@@ -0,0 +1,143 @@
+/**
+ * JSON-RPC normalization
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { PublicKey } from "@solana/web3.js";
+import type { Connection, ParsedTransactionWithMeta } from "@solana/web3.js";
+import { findEarliestSignatures, normalizeTransaction } from "../src/services/rpc";
+import { ANALYSIS_CONFIG } from "../src/utils/constants";
+import { FEE_PAYER_WALLET, FIXTURES_DIR, TAINT_WALLET } from "./helpers";
+
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const WORMHOLE_TOKEN_BRIDGE = "wormDTUJ6AWPNvk59vGQbDvGJmqbDTdgWgAqcLBCgUb";
+
+/**
+ * A recorded jsonParsed getTransaction response, with keys revived as PublicKeys like web3.js returns them
+ */
+function loadRpcTransaction(name: string): ParsedTransactionWithMeta {
+  const text = fs.readFileSync(path.join(FIXTURES_DIR, "rpc", `${name}.json`), "utf8");
+  return JSON.parse(text, (key, value: unknown) => {
+    if ((key === "pubkey" || key === "programId") && typeof value === "string") return new PublicKey(value);
+    if (key === "accounts" && Array.isArray(value)) return value.map(account => new PublicKey(String(account)));
+    return value;
+  }) as ParsedTransactionWithMeta;
+}
+
+describe("normalizeTransaction", () => {
+  it("turns parsed system transfers into native transfers", () => {
+    const tx = normalizeTransaction("rpcTransferSignature", loadRpcTransaction("transfer"));
+
+    assert.equal(tx.signature, "rpcTransferSignature");
+    assert.equal(tx.timestamp, 1767225600);
+    assert.equal(tx.type, "TRANSFER");
+    assert.equal(tx.fee, 5000);
+    assert.equal(tx.feePayer, TAINT_WALLET);
+    assert.deepEqual(tx.nativeTransfers, [
+      { fromUserAccount: TAINT_WALLET, toUserAccount: FEE_PAYER_WALLET, amount: 1_500_000_000 },
+    ]);
+    assert.equal(tx.description, `${TAINT_WALLET} transferred 1.5 SOL to ${FEE_PAYER_WALLET}.`);
+  });
+
+  it("resolves token accounts in inner instructions to their owners", () => {
+    const tx = normalizeTransaction("rpcTransferSignature", loadRpcTransaction("transfer"));
+
+    assert.deepEqual(tx.tokenTransfers, [
+      {
+        mint: USDC_MINT,
+        tokenAmount: 2.5,
+        fromUserAccount: TAINT_WALLET,
+        toUserAccount: FEE_PAYER_WALLET,
+        tokenStandard: "Fungible",
+      },
+    ]);
+  });
+
+  it("keeps balance changes per account", () => {
+    const tx = normalizeTransaction("rpcTransferSignature", loadRpcTransaction("transfer"));
+    const sender = tx.accountData.find(account => account.account === TAINT_WALLET);
+    const recipientTokenAccount = tx.accountData[3];
+
+    assert.equal(sender?.nativeBalanceChange, -1_500_005_000);
+    assert.deepEqual(recipientTokenAccount?.tokenBalanceChanges, [
+      {
+        mint: USDC_MINT,
+        rawTokenAmount: { tokenAmount: "2500000", decimals: 6 },
+        tokenAccount: "EPoAUkjdMxMFi2zz6wzUb5NeyF8Tzd7nV1m5ABQ5he2p",
+        userAccount: FEE_PAYER_WALLET,
+      },
+    ]);
+  });
+
+  it("keeps program calls with their raw data and inner instructions", () => {
+    const tx = normalizeTransaction("rpcTransferSignature", loadRpcTransaction("transfer"));
+    const [systemCall, bridgeCall] = tx.instructions ?? [];
+
+    assert.equal(tx.instructions?.length, 2);
+    assert.deepEqual(systemCall, {
+      programId: "11111111111111111111111111111111",
+      accounts: [],
+      data: "",
+      innerInstructions: [],
+    });
+    assert.equal(bridgeCall?.programId, WORMHOLE_TOKEN_BRIDGE);
+    assert.equal(bridgeCall?.data, "3Bxs4h24hBtQy9rw");
+    assert.deepEqual(bridgeCall?.accounts, [TAINT_WALLET, "9ctoCLmMkJjRA1cxq2CJNg7jNu5PqPhnwfaz2fao5q9h"]);
+    assert.equal(bridgeCall?.innerInstructions[0]?.programId, "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
+  });
+
+  it("records no transfers for a failed transaction", () => {
+    const raw = loadRpcTransaction("transfer");
+    const failed = { ...raw, meta: raw.meta && { ...raw.meta, err: { InstructionError: [0, { Custom: 1 }] } } };
+    const tx = normalizeTransaction("rpcTransferSignature", failed);
+
+    assert.equal(tx.type, "UNKNOWN");
+    assert.deepEqual(tx.nativeTransfers, []);
+    assert.deepEqual(tx.tokenTransfers, []);
+    assert.equal(tx.fee, 5000);
+  });
+});
+
+describe("findEarliestSignatures", () => {
+  // Newest first, like getSignaturesForAddress
+  function fakeConnection(total: number): { connection: Connection; calls: number } {
+    const signatures = Array.from({ length: total }, (_, i) => `sig-${i}`);
+    const fake = {
+      connection: {
+        async getSignaturesForAddress(_address: PublicKey, options: { limit: number; before?: string }) {
+          fake.calls++;
+          const start = options.before ? signatures.indexOf(options.before) + 1 : 0;
+          return signatures.slice(start, start + options.limit).map(signature => ({ signature }));
+        },
+      } as unknown as Connection,
+      calls: 0,
+    };
+    return fake;
+  }
+
+  it("walks every signature page and keeps the oldest with a cursor just newer than them", async () => {
+    const pageSize = ANALYSIS_CONFIG.RPC_SIGNATURE_PAGE_SIZE;
+    const total = pageSize * 2 + 500;
+    const fake = fakeConnection(total);
+    const result = await findEarliestSignatures(fake.connection, TAINT_WALLET, 5);
+
+    assert.equal(fake.calls, 3);
+    assert.equal(result.pagesFetched, 3);
+    assert.equal(result.reachedStart, true);
+    assert.deepEqual(result.signatures, [
+      `sig-${total - 5}`, `sig-${total - 4}`, `sig-${total - 3}`, `sig-${total - 2}`, `sig-${total - 1}`,
+    ]);
+    assert.equal(result.before, `sig-${total - 6}`);
+  });
+
+  it("has no cursor when the whole history fits in the requested count", async () => {
+    const result = await findEarliestSignatures(fakeConnection(3).connection, TAINT_WALLET, 5);
+
+    assert.deepEqual(result.signatures, ["sig-0", "sig-1", "sig-2"]);
+    assert.equal(result.before, undefined);
+    assert.equal(result.reachedStart, true);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Background scan jobs and the in-memory job store
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { InMemoryJobStore, cancelScan, getScan, submitScan } from "../src/jobs";
+import type { ScanJob, ScanJobStatus } from "../src/jobs";
+import { sleep } from "../src/utils/concurrency";
+import { DEPOSIT_WALLET, FIXTURES_DIR } from "./helpers";
+
+function queuedJob(id: string, finishedAt: Date | null = null): ScanJob {
+  return {
+    id,
+    status: finishedAt ? "completed" : "queued",
+    request: { walletAddress: DEPOSIT_WALLET },
+    progress: { plannedStages: [], stages: [], currentStage: null, warnings: [] },
+    report: null,
+    error: null,
+    createdAt: new Date(),
+    startedAt: null,
+    finishedAt,
+  };
+}
+
+/**
+ * Poll a job until it reaches one of the given statuses
+ */
+async function waitForStatus(store: InMemoryJobStore, id: string, statuses: ScanJobStatus[]): Promise<ScanJob> {
+  for (let polls = 0; polls < 500; polls++) {
+    const job = await getScan(id, store);
+    if (job && statuses.includes(job.status)) return job;
+    await sleep(20);
+  }
+  throw new Error(`Scan job ${id} never reached ${statuses.join(" or ")}`);
+}
+
+describe("InMemoryJobStore", () => {
+  it("applies partial updates and returns null for unknown jobs", async () => {
+    const store = new InMemoryJobStore();
+    await store.create(queuedJob("a"));
+
+    assert.equal((await store.update("a", { status: "running" }))?.status, "running");
+    assert.equal((await store.get("a"))?.request.walletAddress, DEPOSIT_WALLET);
+    assert.equal(await store.update("missing", { status: "running" }), null);
+    assert.equal(await store.delete("a"), true);
+    assert.equal(await store.get("a"), null);
+  });
+
+  it("drops finished jobs past their time to live and keeps unfinished ones", async () => {
+    const store = new InMemoryJobStore(1000);
+    await store.create(queuedJob("old", new Date(Date.now() - 5000)));
+    await store.create(queuedJob("open"));
+
+    assert.equal(await store.get("old"), null);
+    assert.equal((await store.get("open"))?.status, "queued");
+  });
+});
+
+describe("submitScan", () => {
+  const env = { source: process.env.TRANSACTION_SOURCE, path: process.env.FIXTURE_PATH };
+
+  before(() => {
+    process.env.TRANSACTION_SOURCE = "fixture";
+    process.env.FIXTURE_PATH = path.join(FIXTURES_DIR, "deposit-address");
+  });
+  after(() => {
+    for (const [key, value] of [["TRANSACTION_SOURCE", env.source], ["FIXTURE_PATH", env.path]] as const) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it("runs the scan in the background and stores its progress and report", async () => {
+    const store = new InMemoryJobStore();
+    const queued = await submitScan({ walletAddress: DEPOSIT_WALLET }, store);
+    assert.equal(queued.status, "queued");
+
+    const job = await waitForStatus(store, queued.id, ["completed", "failed"]);
+
+    assert.equal(job.status, "completed");
+    assert.equal(job.report?.score, 53);
+    assert.ok(job.startedAt && job.finishedAt);
+    assert.equal(job.progress.currentStage, null);
+    assert.deepEqual(job.progress.stages.map(stage => stage.id), job.progress.plannedStages.map(stage => stage.id));
+  });
+
+  it("records why a job failed", async () => {
+    const store = new InMemoryJobStore();
+    const update = store.update.bind(store);
+    store.update = async (id, patch) => {
+      if (patch.status === "running") throw new Error("store unavailable");
+      return update(id, patch);
+    };
+    const queued = await submitScan({ walletAddress: DEPOSIT_WALLET }, store);
+    const job = await waitForStatus(store, queued.id, ["completed", "failed"]);
+
+    assert.equal(job.status, "failed");
+    assert.equal(job.error, "store unavailable");
+    assert.equal(job.report, null);
+  });
+
+  it("cancels a running job and keeps it cancelled", async () => {
+    const store = new InMemoryJobStore();
+    const queued = await submitScan({ walletAddress: DEPOSIT_WALLET }, store);
+    await waitForStatus(store, queued.id, ["running"]);
+
+    assert.equal((await cancelScan(queued.id, store))?.status, "cancelled");
+    await sleep(200);
+    const job = await getScan(queued.id, store);
+
+    assert.equal(job?.status, "cancelled");
+    assert.equal(job?.report, null);
+  });
+
+  it("returns a finished job unchanged and null for an unknown one", async () => {
+    const store = new InMemoryJobStore();
+    await store.create(queuedJob("done", new Date()));
+
+    assert.equal((await cancelScan("done", store))?.status, "completed");
+    assert.equal(await cancelScan("missing", store), null);
+  });
+});
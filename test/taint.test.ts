@@ -0,0 +1,76 @@
+/**
+ * Multi-hop taint detector
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectTaint, generateTaintWarnings } from "../src/detectors/taint";
+import { getRangeClient, setRangeClient } from "../src/services/range";
+import type { RangeClient } from "../src/services/range";
+import { DAY, MemoryTransactionSource, T0, TAINT_WALLET, address, recordedHistory, solTransfer } from "./helpers";
+
+const WALLET = address(1);
+
+/**
+ * A wallet funded by one sender, who was funded by another
+ */
+function twoHopSource(sender: string) {
+  const history = [solTransfer("in", T0, sender, WALLET, 2)];
+  const source = new MemoryTransactionSource({
+    [WALLET]: history,
+    [sender]: [solTransfer("funding", T0 - DAY, address(61), sender, 3), ...history],
+  });
+  return { history, source };
+}
+
+describe("detectTaint", () => {
+  it("traces incoming funds back to flagged and sanctioned sources", async () => {
+    const { source, transactions } = await recordedHistory("taint", TAINT_WALLET);
+    const result = await detectTaint(transactions, TAINT_WALLET, source);
+
+    assert.equal(result.detected, true);
+    assert.deepEqual(
+      result.sources.map(s => [s.kind, s.hops]),
+      [["flagged", 1], ["sanctioned", 2]]
+    );
+    assert.equal(result.assets[0]?.asset, "SOL");
+    assert.equal(result.assets[0]?.share, 0.4);
+    assert.deepEqual(result.paths.map(p => p.addresses.length), [2, 3]);
+    assert.equal(result.truncated, false);
+  });
+
+  it("finds nothing when every sender is clean", async () => {
+    const { history, source } = twoHopSource(address(60));
+    const result = await detectTaint(history, WALLET, source);
+
+    assert.equal(result.detected, false);
+    assert.deepEqual(result.sources, []);
+    assert.equal(result.riskContribution, 0);
+    assert.equal(result.truncated, false);
+    assert.deepEqual(generateTaintWarnings(result), []);
+  });
+
+  describe("when a sender cannot be screened", () => {
+    const original = getRangeClient();
+    const unscreenable = address(62);
+    const failing: RangeClient = {
+      name: "failing",
+      simulated: false,
+      async lookup(target) {
+        if (target === unscreenable) throw new Error("lookup failed");
+        return original.lookup(target);
+      },
+    };
+    before(() => setRangeClient(failing));
+    after(() => setRangeClient(original));
+
+    it("marks the trace truncated instead of treating the sender as clean", async () => {
+      const { history, source } = twoHopSource(unscreenable);
+      const result = await detectTaint(history, WALLET, source);
+
+      assert.equal(result.detected, false);
+      assert.equal(result.truncated, true);
+      assert.match(generateTaintWarnings(result)[0] ?? "", /Taint trace incomplete/);
+    });
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Activity timing detector
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectTimingPatterns } from "../src/detectors/timing";
+import { DAY, T0, address, quietHistory, solTransfer } from "./helpers";
+
+const WALLET = address(1);
+
+describe("detectTimingPatterns", () => {
+  it("reads a daily schedule at a fixed hour as automation and a timezone", () => {
+    const daily = Array.from({ length: 60 }, (_, i) => solTransfer(`daily-${i}`, T0 + 14 * 3600 + i * DAY, WALLET, address(2), 0.1));
+    const result = detectTimingPatterns(daily);
+
+    assert.equal(result.detected, true);
+    assert.equal(result.hourHistogram[14], 60);
+    assert.equal(result.automation?.periodSeconds, DAY);
+    assert.equal(result.automation?.regularity, 1);
+    assert.notEqual(result.timezone, null);
+  });
+
+  it("says nothing about too few transactions", () => {
+    const result = detectTimingPatterns(quietHistory(WALLET));
+
+    assert.equal(result.detected, false);
+    assert.equal(result.sampleSize, 9);
+    assert.equal(result.timezone, null);
+    assert.equal(result.automation, null);
+  });
+});
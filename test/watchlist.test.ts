@@ -0,0 +1,148 @@
+/**
+ * Watchlist parsing (OFAC SDN XML/CSV, EU consolidated XML, custom CSV/JSON) and matching
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  Watchlist,
+  detectFormat,
+  loadWatchlists,
+  parseCustomCsv,
+  parseEuSanctionsXml,
+  parseOfacSdnCsv,
+  parseOfacSdnXml,
+} from "../src/services/watchlist";
+import { address } from "./helpers";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "scope-watchlists-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+function watchlistFile(name: string, text: string): string {
+  const file = path.join(directory, name);
+  fs.writeFileSync(file, text);
+  return file;
+}
+
+const OFAC_XML = `<?xml version="1.0" standalone="yes"?>
+<sdnList xmlns="http://tempuri.org/sdnList.xsd">
+  <publshInformation><Publish_Date>03/07/2025</Publish_Date></publshInformation>
+  <sdnEntry>
+    <uid>1</uid>
+    <firstName>Roman</firstName>
+    <lastName>Mixer &amp; Co</lastName>
+    <programList><program>CYBER2</program><program>DPRK3</program></programList>
+    <idList>
+      <id><idType>Digital Currency Address - SOL</idType><idNumber>${address(1)}</idNumber></id>
+      <id><idType>Digital Currency Address - ETH</idType><idNumber>0x${"12".repeat(20)}</idNumber></id>
+      <id><idType>Passport</idType><idNumber>A1234567</idNumber></id>
+    </idList>
+  </sdnEntry>
+</sdnList>`;
+
+const EU_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<export generationDate="2025-04-01T10:00:00.000+02:00">
+  <sanctionEntity designationDate="2024-12-16" logicalId="1">
+    <regulation programme="RUS" publicationDate="2024-12-16"/>
+    <nameAlias wholeName="Garantex Europe"/>
+    <identification identificationTypeCode="other" identificationTypeDescription="Digital currency address" number="${address(2)}"/>
+    <identification identificationTypeCode="regnumber" identificationTypeDescription="Registration number" number="12345"/>
+  </sanctionEntity>
+</export>`;
+
+describe("parseOfacSdnXml", () => {
+  it("reads digital currency addresses with their chain, the designation and the publish date", () => {
+    const entries = parseOfacSdnXml(OFAC_XML, "sdn.xml");
+
+    assert.deepEqual(entries.map(e => [e.address, e.chain]), [[address(1), "SOL"], [`0x${"12".repeat(20)}`, "ETH"]]);
+    assert.equal(entries[0]?.listName, "OFAC SDN");
+    assert.equal(entries[0]?.listDate, "2025-03-07");
+    assert.equal(entries[0]?.dateAdded, undefined);
+    assert.equal(entries[0]?.reason, "Designated (Roman Mixer & Co) under CYBER2, DPRK3");
+    assert.equal(entries[0]?.severity, "sanctioned");
+  });
+});
+
+describe("parseOfacSdnCsv", () => {
+  it("reads every address from the remarks column and treats -0- as empty", () => {
+    const csv = [
+      `36216,"GARANTEX","-0- ","CYBER2","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","Digital Currency Address - SOL ${address(3)}; Digital Currency Address - XBT 1AbcDef234; Website garantex.org."`,
+      `1,"PLAIN ENTITY","-0- ","SDGT","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","-0- "`,
+    ].join("\n");
+    const entries = parseOfacSdnCsv(csv, "sdn.csv", "2025-03-01");
+
+    assert.deepEqual(entries.map(e => [e.chain, e.address]), [["SOL", address(3)], ["XBT", "1AbcDef234"]]);
+    assert.equal(entries[0]?.reason, "Designated (GARANTEX) under CYBER2");
+    assert.equal(entries[0]?.listDate, "2025-03-01");
+  });
+});
+
+describe("parseEuSanctionsXml", () => {
+  it("reads digital currency identifications with the designation date and generation date", () => {
+    const entries = parseEuSanctionsXml(EU_XML, "eu.xml");
+
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0]?.address, address(2));
+    assert.equal(entries[0]?.listName, "EU Consolidated");
+    assert.equal(entries[0]?.dateAdded, "2024-12-16");
+    assert.equal(entries[0]?.listDate, "2025-04-01");
+    assert.equal(entries[0]?.reason, "Designated (Garantex Europe) under RUS");
+  });
+});
+
+describe("parseCustomCsv", () => {
+  it("flags rows by default, honours an explicit sanctioned severity and skips rows without an address", () => {
+    const csv = [
+      "address,reason,severity,listName",
+      `${address(4)},Drainer,,`,
+      `${address(5)},Court order,Sanctioned,Local court`,
+      ",No address,sanctioned,",
+    ].join("\n");
+    const entries = parseCustomCsv(csv, "team.csv", "team", "2025-05-01");
+
+    assert.deepEqual(entries.map(e => [e.address, e.severity, e.listName]), [
+      [address(4), "flagged", "team"],
+      [address(5), "sanctioned", "Local court"],
+    ]);
+    assert.equal(entries[0]?.reason, "Drainer");
+  });
+});
+
+describe("detectFormat", () => {
+  it("tells the formats apart by extension and contents", () => {
+    assert.equal(detectFormat("sdn.xml", OFAC_XML), "ofac-xml");
+    assert.equal(detectFormat("eu.xml", EU_XML), "eu-xml");
+    assert.equal(detectFormat("sdn.csv", "36216,\"GARANTEX\""), "ofac-csv");
+    assert.equal(detectFormat("team.csv", "Address,reason"), "csv");
+    assert.equal(detectFormat("team.json", "[]"), "json");
+    assert.throws(() => detectFormat("other.xml", "<list/>"), /Unrecognized XML watchlist/);
+    assert.throws(() => detectFormat("list.txt", ""), /Unsupported watchlist file type/);
+  });
+});
+
+describe("loadWatchlists", () => {
+  it("loads a directory of lists, skips files that fail and matches sanctioned before flagged", () => {
+    const lists = fs.mkdtempSync(path.join(directory, "lists-"));
+    fs.writeFileSync(path.join(lists, "sdn.xml"), OFAC_XML);
+    fs.writeFileSync(path.join(lists, "team.csv"), `address,reason\n${address(1)},Seen in a drain\n`);
+    fs.writeFileSync(path.join(lists, "broken.json"), "{ not json");
+    const watchlist = loadWatchlists([lists, watchlistFile("eu.xml", EU_XML), path.join(directory, "missing.csv")]);
+
+    assert.deepEqual(watchlist.match(address(1)).map(e => [e.listName, e.severity]), [["OFAC SDN", "sanctioned"], ["team", "flagged"]]);
+    assert.equal(watchlist.match(address(2))[0]?.listName, "EU Consolidated");
+    assert.deepEqual(watchlist.match(address(9)), []);
+    assert.equal(watchlist.lists().get("OFAC SDN"), 2);
+  });
+
+  it("keeps one entry per list when the same list is loaded twice", () => {
+    const watchlist = new Watchlist();
+    watchlist.add(parseOfacSdnXml(OFAC_XML, "a.xml"));
+    watchlist.add(parseOfacSdnXml(OFAC_XML, "b.xml"));
+
+    assert.equal(watchlist.match(address(1)).length, 1);
+    assert.equal(watchlist.size, 2);
+  });
+});